@@ -0,0 +1,546 @@
+// Generated by fixtures/compile.ts with solc 0.8.24+commit.e11b9ed9.Emscripten.clang; do not edit
+export const artifacts = {
+  "GuardianFeed": {
+    "abi": [
+      {
+        "inputs": [],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "alertId",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "resolver",
+            "type": "address"
+          }
+        ],
+        "name": "AlertResolved",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "submitter",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "alertId",
+            "type": "uint256"
+          },
+          {
+            "indexed": false,
+            "internalType": "string",
+            "name": "description",
+            "type": "string"
+          }
+        ],
+        "name": "AlertSubmitted",
+        "type": "event"
+      },
+      {
+        "inputs": [],
+        "name": "alertCount",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "alertId",
+            "type": "uint256"
+          }
+        ],
+        "name": "resolveAlert",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "name": "resolved",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "string",
+            "name": "description",
+            "type": "string"
+          }
+        ],
+        "name": "submitAlert",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "alertId",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      }
+    ],
+    "bytecode": "0x60a060405234801561000f575f80fd5b50336080526080516103f76100325f395f81816073015261011801526103f75ff3fe608060405234801561000f575f80fd5b5060043610610055575f3560e01c80632e0e053f146100595780638da5cb5b1461006e578063a5977d5c146100b2578063ab446491146100d3578063b9b7efb6146100db575b5f80fd5b61006c6100673660046102ec565b61010d565b005b6100957f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020015b60405180910390f35b6100c56100c0366004610303565b61028c565b6040519081526020016100a9565b6100c55f5481565b6100fd6100e93660046102ec565b60016020525f908152604090205460ff1681565b60405190151581526020016100a9565b336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461018a5760405162461bcd60e51b815260206004820152601760248201527f477561726469616e466565643a206e6f74206f776e657200000000000000000060448201526064015b60405180910390fd5b5f8111801561019a57505f548111155b6101e65760405162461bcd60e51b815260206004820152601b60248201527f477561726469616e466565643a20756e6b6e6f776e20616c65727400000000006044820152606401610181565b5f8181526001602052604090205460ff16156102445760405162461bcd60e51b815260206004820152601e60248201527f477561726469616e466565643a20616c7265616479207265736f6c76656400006044820152606401610181565b5f818152600160208190526040808320805460ff191690921790915551339183917f1e1d963a52777214bd4ab8da4166ff4fae7d5fa80558de803afe38175e8ecd789190a350565b5f805f815461029a9061036f565b919050819055905080336001600160a01b03167f7baff85a358a1bb08d4a4843fe75e0f213189134a77d2f1cfaaa34e1561ec2ad85856040516102de929190610393565b60405180910390a392915050565b5f602082840312156102fc575f80fd5b5035919050565b5f8060208385031215610314575f80fd5b823567ffffffffffffffff8082111561032b575f80fd5b818501915085601f83011261033e575f80fd5b81358181111561034c575f80fd5b86602082850101111561035d575f80fd5b60209290920196919550909350505050565b5f6001820161038c57634e487b7160e01b5f52601160045260245ffd5b5060010190565b60208152816020820152818360408301375f818301604090810191909152601f909201601f1916010191905056fea2646970667358221220604a793553d12ad6f4d06303102ae25566bc387aaa5021287ba2422ea151fc3964736f6c63430008180033"
+  },
+  "GuardianDAO": {
+    "abi": [
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "initialQuorum",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "proposalId",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "proposer",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "string",
+            "name": "description",
+            "type": "string"
+          }
+        ],
+        "name": "ProposalCreated",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "proposalId",
+            "type": "uint256"
+          }
+        ],
+        "name": "ProposalExecuted",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "proposalId",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "voter",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "bool",
+            "name": "support",
+            "type": "bool"
+          },
+          {
+            "indexed": false,
+            "internalType": "uint256",
+            "name": "weight",
+            "type": "uint256"
+          }
+        ],
+        "name": "Vote",
+        "type": "event"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "proposalId",
+            "type": "uint256"
+          }
+        ],
+        "name": "execute",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "name": "hasVoted",
+        "outputs": [
+          {
+            "internalType": "bool",
+            "name": "",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "proposalCount",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "name": "proposals",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "proposer",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "forWeight",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "againstWeight",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "executed",
+            "type": "bool"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "string",
+            "name": "description",
+            "type": "string"
+          }
+        ],
+        "name": "propose",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "proposalId",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "quorum",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "newQuorum",
+            "type": "uint256"
+          }
+        ],
+        "name": "setQuorum",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "voter",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "weight",
+            "type": "uint256"
+          }
+        ],
+        "name": "setVotingPower",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "proposalId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "support",
+            "type": "bool"
+          }
+        ],
+        "name": "vote",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "name": "votingPower",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      }
+    ],
+    "bytecode": "0x60a060405234801561000f575f80fd5b506040516109f13803806109f183398101604081905261002e91610039565b336080525f55610050565b5f60208284031215610049575f80fd5b5051919050565b60805161097b6100765f395f818161018b015281816102440152610350015261097b5ff3fe608060405234801561000f575f80fd5b50600436106100a6575f3560e01c8063aa98df391161006e578063aa98df39146101c5578063c07473f6146101d8578063c1ba4e59146101f7578063c9d27afe1461020a578063da35c6641461021d578063fe0d94c114610226575f80fd5b8063013cf08b146100aa5780631703a0181461011e578063274b91a91461013457806343859632146101495780638da5cb5b14610186575b5f80fd5b6100ed6100b8366004610790565b600260208190525f918252604090912080546001820154928201546003909201546001600160a01b0390911692919060ff1684565b604080516001600160a01b039095168552602085019390935291830152151560608201526080015b60405180910390f35b6101265f5481565b604051908152602001610115565b6101476101423660046107c2565b610239565b005b6101766101573660046107ea565b600360209081525f928352604080842090915290825290205460ff1681565b6040519015158152602001610115565b6101ad7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b039091168152602001610115565b6101266101d3366004610814565b6102ca565b6101266101e6366004610880565b60046020525f908152604090205481565b610147610205366004610790565b610345565b6101476102183660046108a0565b6103ba565b61012660015481565b610147610234366004610790565b6105df565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146102af5760405162461bcd60e51b815260206004820152601660248201527523bab0b93234b0b72220a79d103737ba1037bbb732b960511b60448201526064015b60405180910390fd5b6001600160a01b039091165f90815260046020526040902055565b5f60015f81546102d9906108e6565b91829055505f818152600260205260409081902080546001600160a01b0319163390811790915590519192509082907f7585f467599d0f008985f231af99293be388626ac16ca59505c2f8f88969cd639061033790879087906108fe565b60405180910390a392915050565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146103b65760405162461bcd60e51b815260206004820152601660248201527523bab0b93234b0b72220a79d103737ba1037bbb732b960511b60448201526064016102a6565b5f55565b5f82815260026020908152604080832033845260049092529091205481546001600160a01b031661042d5760405162461bcd60e51b815260206004820152601d60248201527f477561726469616e44414f3a20756e6b6e6f776e2070726f706f73616c00000060448201526064016102a6565b600382015460ff16156104825760405162461bcd60e51b815260206004820152601d60248201527f477561726469616e44414f3a20616c726561647920657865637574656400000060448201526064016102a6565b5f81116104d15760405162461bcd60e51b815260206004820152601c60248201527f477561726469616e44414f3a206e6f20766f74696e6720706f7765720000000060448201526064016102a6565b5f84815260036020908152604080832033845290915290205460ff161561053a5760405162461bcd60e51b815260206004820152601a60248201527f477561726469616e44414f3a20616c726561647920766f74656400000000000060448201526064016102a6565b5f8481526003602090815260408083203384529091529020805460ff1916600117905582156105815780826001015f828254610576919061092c565b9091555061059a9050565b80826002015f828254610594919061092c565b90915550505b60408051841515815260208101839052339186917f88d35328232823f54954b6627e9f732371656f6daa40cb1b01b27dc7875a7b47910160405180910390a350505050565b5f81815260026020526040902080546001600160a01b03166106435760405162461bcd60e51b815260206004820152601d60248201527f477561726469616e44414f3a20756e6b6e6f776e2070726f706f73616c00000060448201526064016102a6565b600381015460ff16156106985760405162461bcd60e51b815260206004820152601d60248201527f477561726469616e44414f3a20616c726561647920657865637574656400000060448201526064016102a6565b5f54816002015482600101546106ae919061092c565b10156106fc5760405162461bcd60e51b815260206004820152601f60248201527f477561726469616e44414f3a2071756f72756d206e6f7420726561636865640060448201526064016102a6565b80600201548160010154116107535760405162461bcd60e51b815260206004820152601760248201527f477561726469616e44414f3a206e6f742070617373656400000000000000000060448201526064016102a6565b60038101805460ff1916600117905560405182907f712ae1383f79ac853f8d882153778e0260ef8f03b504e2866e0593e04d2b291f905f90a25050565b5f602082840312156107a0575f80fd5b5035919050565b80356001600160a01b03811681146107bd575f80fd5b919050565b5f80604083850312156107d3575f80fd5b6107dc836107a7565b946020939093013593505050565b5f80604083850312156107fb575f80fd5b8235915061080b602084016107a7565b90509250929050565b5f8060208385031215610825575f80fd5b823567ffffffffffffffff8082111561083c575f80fd5b818501915085601f83011261084f575f80fd5b81358181111561085d575f80fd5b86602082850101111561086e575f80fd5b60209290920196919550909350505050565b5f60208284031215610890575f80fd5b610899826107a7565b9392505050565b5f80604083850312156108b1575f80fd5b82359150602083013580151581146108c7575f80fd5b809150509250929050565b634e487b7160e01b5f52601160045260245ffd5b5f600182016108f7576108f76108d2565b5060010190565b60208152816020820152818360408301375f818301604090810191909152601f909201601f19160101919050565b8082018082111561093f5761093f6108d2565b9291505056fea2646970667358221220628c6214c158f77684000fe7f564fceeaecb790c86f0298e2c5cfe88484d125464736f6c63430008180033"
+  },
+  "GuardianBadge": {
+    "abi": [
+      {
+        "inputs": [],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "claimer",
+            "type": "address"
+          },
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "tokenId",
+            "type": "uint256"
+          }
+        ],
+        "name": "BadgeClaim",
+        "type": "event"
+      },
+      {
+        "anonymous": false,
+        "inputs": [
+          {
+            "indexed": true,
+            "internalType": "uint256",
+            "name": "tokenId",
+            "type": "uint256"
+          },
+          {
+            "indexed": true,
+            "internalType": "address",
+            "name": "revoker",
+            "type": "address"
+          },
+          {
+            "indexed": false,
+            "internalType": "string",
+            "name": "reason",
+            "type": "string"
+          }
+        ],
+        "name": "BadgeRevoked",
+        "type": "event"
+      },
+      {
+        "inputs": [],
+        "name": "badgeCount",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "claim",
+        "outputs": [
+          {
+            "internalType": "uint256",
+            "name": "tokenId",
+            "type": "uint256"
+          }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "",
+            "type": "uint256"
+          }
+        ],
+        "name": "ownerOf",
+        "outputs": [
+          {
+            "internalType": "address",
+            "name": "",
+            "type": "address"
+          }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {
+            "internalType": "uint256",
+            "name": "tokenId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "string",
+            "name": "reason",
+            "type": "string"
+          }
+        ],
+        "name": "revoke",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+      }
+    ],
+    "bytecode": "0x60a060405234801561000f575f80fd5b50336080526080516103ad6100325f395f818160c1015261016601526103ad5ff3fe608060405234801561000f575f80fd5b5060043610610055575f3560e01c80634e71d92d146100595780635b806645146100745780636352211e1461007c5780638da5cb5b146100bc578063eb929ad5146100e3575b5f80fd5b6100616100f8565b6040519081526020015b60405180910390f35b6100615f5481565b6100a461008a366004610299565b60016020525f90815260409020546001600160a01b031681565b6040516001600160a01b03909116815260200161006b565b6100a47f000000000000000000000000000000000000000000000000000000000000000081565b6100f66100f13660046102b0565b61015b565b005b5f805f815461010690610325565b91829055505f8181526001602052604080822080546001600160a01b031916339081179091559051929350839290917f32afe976c84f966f0a2880da0176f805b657672ee850eff39021a80f8cc608f691a390565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146101d85760405162461bcd60e51b815260206004820152601860248201527f477561726469616e42616467653a206e6f74206f776e6572000000000000000060448201526064015b60405180910390fd5b5f838152600160205260409020546001600160a01b031661023b5760405162461bcd60e51b815260206004820152601c60248201527f477561726469616e42616467653a20756e6b6e6f776e2062616467650000000060448201526064016101cf565b5f838152600160205260409081902080546001600160a01b031916905551339084907f69c1ff3c5bdf9ff8aa53ed8467eacce439afd3a7a7befccc4aaaf979373f09b99061028c9086908690610349565b60405180910390a3505050565b5f602082840312156102a9575f80fd5b5035919050565b5f805f604084860312156102c2575f80fd5b83359250602084013567ffffffffffffffff808211156102e0575f80fd5b818601915086601f8301126102f3575f80fd5b813581811115610301575f80fd5b876020828501011115610312575f80fd5b6020830194508093505050509250925092565b5f6001820161034257634e487b7160e01b5f52601160045260245ffd5b5060010190565b60208152816020820152818360408301375f818301604090810191909152601f909201601f1916010191905056fea26469706673582212208631fc1c260ee3a5ed08fbac6d956430aaf232bc832b79f843c51d7b23a5eb5164736f6c63430008180033"
+  }
+} as const;
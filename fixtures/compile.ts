@@ -0,0 +1,39 @@
+import fs from "fs";
+import path from "path";
+import solc from "solc";
+
+// Compiles contracts/*.sol into artifacts.ts, so deploying the fixtures needs no compiler.
+// Run after changing a contract: npm run fixtures:compile
+const CONTRACTS = ["GuardianFeed", "GuardianDAO", "GuardianBadge"] as const;
+const fixturesDir = path.resolve("fixtures");
+
+const input = {
+  language: "Solidity",
+  sources: Object.fromEntries(CONTRACTS.map((name) => [
+    `${name}.sol`,
+    { content: fs.readFileSync(path.join(fixturesDir, "contracts", `${name}.sol`), "utf8") }
+  ])),
+  settings: {
+    optimizer: { enabled: true, runs: 200 },
+    outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } }
+  }
+};
+
+const output = JSON.parse(solc.compile(JSON.stringify(input)));
+const errors = (output.errors ?? []).filter((error: { severity: string }) => error.severity === "error");
+if (errors.length > 0) {
+  for (const error of errors) console.error(error.formattedMessage);
+  process.exit(1);
+}
+
+const artifacts = Object.fromEntries(CONTRACTS.map((name) => {
+  const contract = output.contracts[`${name}.sol`][name];
+  return [name, { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` }];
+}));
+
+fs.writeFileSync(
+  path.join(fixturesDir, "artifacts.ts"),
+  `// Generated by fixtures/compile.ts with solc ${solc.version()}; do not edit\n` +
+  `export const artifacts = ${JSON.stringify(artifacts, null, 2)} as const;\n`
+);
+console.log(`Compiled ${CONTRACTS.join(", ")}`);
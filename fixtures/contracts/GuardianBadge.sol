@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// Stand-in for the Guardian badge with the same events. Claims are unlimited per address,
+/// which is what the mass claim scenario exploits; only the deployer revokes.
+contract GuardianBadge {
+    event BadgeClaim(address indexed claimer, uint256 indexed tokenId);
+    event BadgeRevoked(uint256 indexed tokenId, address indexed revoker, string reason);
+
+    address public immutable owner;
+    uint256 public badgeCount;
+    mapping(uint256 => address) public ownerOf;
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function claim() external returns (uint256 tokenId) {
+        tokenId = ++badgeCount;
+        ownerOf[tokenId] = msg.sender;
+        emit BadgeClaim(msg.sender, tokenId);
+    }
+
+    function revoke(uint256 tokenId, string calldata reason) external {
+        require(msg.sender == owner, "GuardianBadge: not owner");
+        require(ownerOf[tokenId] != address(0), "GuardianBadge: unknown badge");
+
+        delete ownerOf[tokenId];
+        emit BadgeRevoked(tokenId, msg.sender, reason);
+    }
+}
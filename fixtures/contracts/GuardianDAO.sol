@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// Stand-in for the Guardian DAO with the same events. Voting power is assigned by the
+/// deployer, and the quorum is whatever the deployer sets, so a proposal can pass with a
+/// single vote when the quorum is low.
+contract GuardianDAO {
+    event ProposalCreated(uint256 indexed proposalId, address indexed proposer, string description);
+    event Vote(uint256 indexed proposalId, address indexed voter, bool support, uint256 weight);
+    event ProposalExecuted(uint256 indexed proposalId);
+
+    struct Proposal {
+        address proposer;
+        uint256 forWeight;
+        uint256 againstWeight;
+        bool executed;
+    }
+
+    address public immutable owner;
+    uint256 public quorum; // Total weight that must have voted before a proposal can execute
+    uint256 public proposalCount;
+    mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+    mapping(address => uint256) public votingPower;
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "GuardianDAO: not owner");
+        _;
+    }
+
+    constructor(uint256 initialQuorum) {
+        owner = msg.sender;
+        quorum = initialQuorum;
+    }
+
+    function setQuorum(uint256 newQuorum) external onlyOwner {
+        quorum = newQuorum;
+    }
+
+    function setVotingPower(address voter, uint256 weight) external onlyOwner {
+        votingPower[voter] = weight;
+    }
+
+    function propose(string calldata description) external returns (uint256 proposalId) {
+        proposalId = ++proposalCount;
+        proposals[proposalId].proposer = msg.sender;
+        emit ProposalCreated(proposalId, msg.sender, description);
+    }
+
+    function vote(uint256 proposalId, bool support) external {
+        Proposal storage proposal = proposals[proposalId];
+        uint256 weight = votingPower[msg.sender];
+
+        require(proposal.proposer != address(0), "GuardianDAO: unknown proposal");
+        require(!proposal.executed, "GuardianDAO: already executed");
+        require(weight > 0, "GuardianDAO: no voting power");
+        require(!hasVoted[proposalId][msg.sender], "GuardianDAO: already voted");
+
+        hasVoted[proposalId][msg.sender] = true;
+        if (support) {
+            proposal.forWeight += weight;
+        } else {
+            proposal.againstWeight += weight;
+        }
+        emit Vote(proposalId, msg.sender, support, weight);
+    }
+
+    function execute(uint256 proposalId) external {
+        Proposal storage proposal = proposals[proposalId];
+
+        require(proposal.proposer != address(0), "GuardianDAO: unknown proposal");
+        require(!proposal.executed, "GuardianDAO: already executed");
+        require(proposal.forWeight + proposal.againstWeight >= quorum, "GuardianDAO: quorum not reached");
+        require(proposal.forWeight > proposal.againstWeight, "GuardianDAO: not passed");
+
+        proposal.executed = true;
+        emit ProposalExecuted(proposalId);
+    }
+}
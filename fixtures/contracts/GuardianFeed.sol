@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// Stand-in for the Guardian alert feed with the same events. Anyone may submit an alert,
+/// only the deployer resolves them.
+contract GuardianFeed {
+    event AlertSubmitted(address indexed submitter, uint256 indexed alertId, string description);
+    event AlertResolved(uint256 indexed alertId, address indexed resolver);
+
+    address public immutable owner;
+    uint256 public alertCount;
+    mapping(uint256 => bool) public resolved;
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function submitAlert(string calldata description) external returns (uint256 alertId) {
+        alertId = ++alertCount;
+        emit AlertSubmitted(msg.sender, alertId, description);
+    }
+
+    function resolveAlert(uint256 alertId) external {
+        require(msg.sender == owner, "GuardianFeed: not owner");
+        require(alertId > 0 && alertId <= alertCount, "GuardianFeed: unknown alert");
+        require(!resolved[alertId], "GuardianFeed: already resolved");
+
+        resolved[alertId] = true;
+        emit AlertResolved(alertId, msg.sender);
+    }
+}
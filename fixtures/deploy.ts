@@ -0,0 +1,47 @@
+import { ethers } from "ethers";
+import { artifacts } from "./artifacts";
+
+export interface GuardianDeployment {
+  feed: ethers.Contract;
+  dao: ethers.Contract;
+  badge: ethers.Contract;
+}
+
+export type GuardianAddresses = Record<keyof GuardianDeployment, string>;
+
+// First account of the default Anvil and Hardhat mnemonic
+export const DEV_ACCOUNT = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+// Total voting weight needed to execute a DAO proposal until a scenario lowers it
+export const DEFAULT_QUORUM = 100;
+
+// Where deployGuardianContracts puts the contracts when DEV_ACCOUNT deploys them on a fresh node
+export const FRESH_NODE_ADDRESSES: GuardianAddresses = {
+  feed: ethers.getCreateAddress({ from: DEV_ACCOUNT, nonce: 0 }),
+  dao: ethers.getCreateAddress({ from: DEV_ACCOUNT, nonce: 1 }),
+  badge: ethers.getCreateAddress({ from: DEV_ACCOUNT, nonce: 2 })
+};
+
+async function deploy(name: keyof typeof artifacts, deployer: ethers.Signer, ...args: unknown[]): Promise<ethers.Contract> {
+  const { abi, bytecode } = artifacts[name];
+  const contract = await new ethers.ContractFactory(abi, bytecode, deployer).deploy(...args);
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+// Deploy in a fixed order so that the addresses are predictable from the deployer's nonce
+export async function deployGuardianContracts(deployer: ethers.Signer): Promise<GuardianDeployment> {
+  const feed = await deploy("GuardianFeed", deployer);
+  const dao = await deploy("GuardianDAO", deployer, DEFAULT_QUORUM);
+  const badge = await deploy("GuardianBadge", deployer);
+
+  return { feed, dao, badge };
+}
+
+export function attachGuardianContracts(addresses: GuardianAddresses, runner: ethers.ContractRunner): GuardianDeployment {
+  return {
+    feed: new ethers.Contract(addresses.feed, artifacts.GuardianFeed.abi, runner),
+    dao: new ethers.Contract(addresses.dao, artifacts.GuardianDAO.abi, runner),
+    badge: new ethers.Contract(addresses.badge, artifacts.GuardianBadge.abi, runner)
+  };
+}
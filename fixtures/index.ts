@@ -0,0 +1,66 @@
+import { ethers } from "ethers";
+import { deployGuardianContracts, FRESH_NODE_ADDRESSES, type GuardianAddresses } from "./deploy";
+import { GuardianApi, runScenario } from "./runner";
+import { scenarios } from "./scenarios";
+
+// Deploys Guardian-compatible contracts to a local Anvil or Hardhat node and plays attack
+// scenarios against them, then waits for the running server to raise the expected alerts.
+//
+//   npm run fixtures -- deploy
+//   npm run fixtures -- run <scenario>|all
+//
+// The server has to watch the deployed contracts. Started with CHAIN_ID=31337 (or 1337) it
+// watches FRESH_NODE_ADDRESSES; otherwise pass the GUARDIAN_* variables printed by deploy.
+// Set RECONCILE_INTERVAL_MS low on the server, as events are only evaluated once confirmed.
+// Runs sign in as FIXTURES_USERNAME/FIXTURES_PASSWORD, by default the server's ADMIN_* user.
+const RPC_URL = process.env.FIXTURES_RPC_URL || "http://127.0.0.1:8545";
+const API_URL = process.env.FIXTURES_API_URL || "http://localhost:5000";
+const USERNAME = process.env.FIXTURES_USERNAME || process.env.ADMIN_USERNAME || "admin";
+const PASSWORD = process.env.FIXTURES_PASSWORD || process.env.ADMIN_PASSWORD || "";
+const ALERT_TIMEOUT_MS = parseInt(process.env.FIXTURES_ALERT_TIMEOUT_MS || "120000", 10);
+
+function addressesFromEnv(): GuardianAddresses {
+  return {
+    feed: process.env.GUARDIAN_FEED || FRESH_NODE_ADDRESSES.feed,
+    dao: process.env.GUARDIAN_DAO || FRESH_NODE_ADDRESSES.dao,
+    badge: process.env.GUARDIAN_BADGE || FRESH_NODE_ADDRESSES.badge
+  };
+}
+
+async function main() {
+  const [command, name] = process.argv.slice(2);
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+
+  if (command === "deploy") {
+    const { feed, dao, badge } = await deployGuardianContracts(await provider.getSigner(0));
+    const { chainId } = await provider.getNetwork();
+
+    console.log(`# Deployed to chain ${chainId}`);
+    console.log(`GUARDIAN_FEED=${await feed.getAddress()}`);
+    console.log(`GUARDIAN_DAO=${await dao.getAddress()}`);
+    console.log(`GUARDIAN_BADGE=${await badge.getAddress()}`);
+    return;
+  }
+
+  if (command === "run") {
+    const selected = name === "all" ? scenarios : scenarios.filter((scenario) => scenario.name === name);
+    if (selected.length === 0) {
+      throw new Error(`Unknown scenario "${name}"; available: ${scenarios.map((scenario) => scenario.name).join(", ")}, all`);
+    }
+
+    const api = await GuardianApi.login(API_URL, USERNAME, PASSWORD);
+    let passed = true;
+    for (const scenario of selected) {
+      passed = (await runScenario(scenario, provider, api, addressesFromEnv(), ALERT_TIMEOUT_MS)) && passed;
+    }
+    process.exit(passed ? 0 : 1);
+  }
+
+  console.error("Usage: fixtures deploy | fixtures run <scenario>|all");
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+import { createServer } from "http";
+
+// A deterministic OpenAI-compatible chat completions server, so the server can run its AI
+// work without network access or API keys, e.g. in CI:
+//
+//   npm run llm-stub
+//   AI_PROVIDER=stub AI_BASE_URL=http://127.0.0.1:11435/v1 npm run dev:server
+//
+// JSON requests get an analysis without findings; any other request gets a short reply.
+// Token counts are derived from the message lengths, roughly four characters per token.
+const PORT = parseInt(process.env.FIXTURES_LLM_PORT || "11435", 10);
+
+type ChatRequest = {
+  model?: string;
+  messages?: { role: string; content: string }[];
+  response_format?: { type?: string };
+};
+
+function tokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+function reply(request: ChatRequest): string {
+  if (request.response_format?.type === "json_object") {
+    return JSON.stringify({ summary: "Stub analysis: no issues found.", findings: [] });
+  }
+  return "Stub response.";
+}
+
+const server = createServer((req, res) => {
+  if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: { message: `No route for ${req.method} ${req.url}` } }));
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => { body += chunk; });
+  req.on("end", () => {
+    let request: ChatRequest;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "Invalid JSON body" } }));
+      return;
+    }
+
+    const content = reply(request);
+    const promptTokens = tokens((request.messages || []).map((message) => message.content).join("\n"));
+    const completionTokens = tokens(content);
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({
+      id: "chatcmpl-stub",
+      object: "chat.completion",
+      model: request.model || "stub",
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+    }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`LLM stub listening on http://127.0.0.1:${PORT}/v1`);
+});
@@ -0,0 +1,79 @@
+import { ethers } from "ethers";
+import { attachGuardianContracts, type GuardianAddresses } from "./deploy";
+import type { ExpectedAlert, Scenario } from "./scenarios";
+import type { Alert, Contract } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 2000;
+
+// A signed-in session on the Guardian API
+export class GuardianApi {
+  private constructor(private readonly apiUrl: string, private readonly token: string) {}
+
+  // The API only answers signed-in users, so every fixture run starts with a password login
+  static async login(apiUrl: string, username: string, password: string): Promise<GuardianApi> {
+    const response = await fetch(`${apiUrl}/api/auth/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password })
+    });
+    if (!response.ok) throw new Error(`Logging in as "${username}" failed with ${response.status}`);
+
+    const { token } = await response.json() as { token: string };
+    return new GuardianApi(apiUrl, token);
+  }
+
+  async getJson<T>(path: string): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      headers: { Authorization: `Bearer ${this.token}` }
+    });
+    if (!response.ok) throw new Error(`GET ${path} failed with ${response.status}`);
+    return response.json() as Promise<T>;
+  }
+}
+
+// Poll the server until every expected alert was raised or repeated after `since`
+async function waitForAlerts(api: GuardianApi, expected: ExpectedAlert[], addresses: GuardianAddresses, chainId: number, since: Date, timeoutMs: number): Promise<ExpectedAlert[]> {
+  const contracts = await api.getJson<Contract[]>("/api/contracts");
+  const contractIds = new Map(expected.map((alert) => {
+    const contract = contracts.find((candidate) =>
+      candidate.chainId === chainId && candidate.address.toLowerCase() === addresses[alert.contract].toLowerCase()
+    );
+    if (!contract) throw new Error(`The server does not watch ${alert.contract} at ${addresses[alert.contract]} on chain ${chainId}`);
+    return [alert.contract, contract.id];
+  }));
+
+  let missing = expected;
+  const deadline = Date.now() + timeoutMs;
+
+  while (missing.length > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+    const alerts = await api.getJson<Alert[]>("/api/alerts");
+    missing = missing.filter((wanted) => !alerts.some((alert) =>
+      alert.contractId === contractIds.get(wanted.contract) &&
+      alert.title === wanted.title &&
+      alert.severity === wanted.severity &&
+      new Date(alert.lastSeenAt) >= since
+    ));
+  }
+
+  return missing;
+}
+
+// Play a scenario against the deployed contracts and report whether the server raised its alerts in time
+export async function runScenario(scenario: Scenario, provider: ethers.JsonRpcProvider, api: GuardianApi, addresses: GuardianAddresses, timeoutMs: number): Promise<boolean> {
+  const signers = await Promise.all([0, 1, 2].map((index) => provider.getSigner(index)));
+  const { chainId } = await provider.getNetwork();
+  const startedAt = new Date();
+
+  console.log(`▶ ${scenario.name}: ${scenario.description}`);
+  await scenario.run(attachGuardianContracts(addresses, provider), signers);
+
+  const missing = await waitForAlerts(api, scenario.expected, addresses, Number(chainId), startedAt, timeoutMs);
+  for (const alert of scenario.expected) {
+    const ok = !missing.includes(alert);
+    console.log(`  ${ok ? "✓" : "✗"} ${alert.severity} "${alert.title}" on ${alert.contract}`);
+  }
+
+  return missing.length === 0;
+}
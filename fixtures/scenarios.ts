@@ -0,0 +1,67 @@
+import { ethers } from "ethers";
+import type { GuardianDeployment } from "./deploy";
+
+// An alert the server is expected to raise (or repeat) on one of the contracts
+export interface ExpectedAlert {
+  contract: keyof GuardianDeployment;
+  title: string; // The rule name for alerts raised by detection rules
+  severity: string;
+}
+
+export interface Scenario {
+  name: string;
+  description: string;
+  expected: ExpectedAlert[];
+  // signers[0] deployed the contracts and owns them; the others act as outsiders
+  run(deployment: GuardianDeployment, signers: ethers.Signer[]): Promise<void>;
+}
+
+// Send a transaction as the given signer and wait for it to be mined
+async function send(contract: ethers.Contract, signer: ethers.Signer, method: string, ...args: unknown[]): Promise<ethers.TransactionReceipt> {
+  const connected = contract.connect(signer) as ethers.Contract;
+  const tx: ethers.TransactionResponse = await connected[method](...args);
+  const receipt = await tx.wait();
+  if (!receipt) throw new Error(`${method} was not mined`);
+  return receipt;
+}
+
+export const scenarios: Scenario[] = [
+  {
+    name: "mass-badge-claims",
+    description: "One account claims ten badges in a row",
+    expected: [{ contract: "badge", title: "Burst of claims or submitted alerts", severity: "MEDIUM" }],
+    run: async ({ badge }, [, claimer]) => {
+      for (let i = 0; i < 10; i++) {
+        await send(badge, claimer, "claim");
+      }
+    }
+  },
+  {
+    name: "low-quorum-execution",
+    description: "The quorum is lowered to a single vote and an outsider's proposal passes on its own vote",
+    expected: [{ contract: "dao", title: "Proposal executed with low participation", severity: "HIGH" }],
+    run: async ({ dao }, [owner, attacker]) => {
+      await send(dao, owner, "setQuorum", 1);
+      await send(dao, owner, "setVotingPower", await attacker.getAddress(), 1);
+
+      const created = await send(dao, attacker, "propose", "Transfer treasury to the operations multisig");
+      const event = created.logs
+        .map((log) => dao.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ProposalCreated");
+      const proposalId = event!.args.proposalId;
+
+      await send(dao, attacker, "vote", proposalId, true);
+      await send(dao, attacker, "execute", proposalId);
+    }
+  },
+  {
+    name: "alert-spam",
+    description: "One account floods the feed with eight near-identical alerts",
+    expected: [{ contract: "feed", title: "Burst of claims or submitted alerts", severity: "MEDIUM" }],
+    run: async ({ feed }, [, , spammer]) => {
+      for (let i = 0; i < 8; i++) {
+        await send(feed, spammer, "submitAlert", `URGENT: funds draining from pool #${i}, withdraw now`);
+      }
+    }
+  }
+];
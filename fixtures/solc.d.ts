@@ -0,0 +1,8 @@
+// solc-js ships without type declarations; only the standard JSON entry point is used
+declare module "solc" {
+  const solc: {
+    compile(input: string): string;
+    version(): string;
+  };
+  export default solc;
+}
@@ -1,20 +1,38 @@
-import React from 'react'
+import { QueryClientProvider } from "@tanstack/react-query";
+import { Redirect, Route, Switch } from "wouter";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { Toaster } from "@/components/ui/toaster";
+import Dashboard from "@/pages/Dashboard";
+import Login from "@/pages/Login";
+import Logout from "@/pages/Logout";
+
+// Dashboard routes need a session; send everyone else to the login page
+function ProtectedDashboard() {
+  const { user, isLoading } = useAuth();
+  
+  if (isLoading) {
+    return <div className="bg-slate-900 min-h-screen" />;
+  }
+  
+  if (!user) {
+    return <Redirect to="/login" />;
+  }
+  
+  return <Dashboard />;
+}
 
 function App() {
   return (
-    <div style={{ 
-      textAlign: 'center', 
-      padding: '2rem',
-      fontFamily: 'Arial, sans-serif'
-    }}>
-      <h1 style={{ fontSize: '2.5rem', marginBottom: '1rem' }}>
-        Guardian AI
-      </h1>
-      <h2 style={{ fontSize: '1.5rem', color: '#666' }}>
-        AI-powered security system
-      </h2>
-    </div>
-  )
+    <QueryClientProvider client={queryClient}>
+      <Switch>
+        <Route path="/login" component={Login} />
+        <Route path="/logout" component={Logout} />
+        <Route component={ProtectedDashboard} />
+      </Switch>
+      <Toaster />
+    </QueryClientProvider>
+  );
 }
 
-export default App
+export default App;
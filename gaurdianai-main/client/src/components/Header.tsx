@@ -2,6 +2,9 @@ import { useQuery } from "@tanstack/react-query";
 import { getMonitorStatus } from "@/lib/blockchain";
 import { Button } from "@/components/ui/button";
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import NetworkStatus from "@/components/NetworkStatus";
 import { 
   Dialog,
   DialogContent,
@@ -13,7 +16,10 @@ import {
   DialogClose
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { connectWallet, disconnectWallet, checkIfWalletIsConnected, WalletState, initialWalletState } from "@/lib/wallet";
+import { connectWallet, disconnectWallet, checkIfWalletIsConnected, signSiweMessage, WalletState, initialWalletState } from "@/lib/wallet";
+import { getWallets, linkWallet } from "@/lib/blockchain";
+import { queryClient } from "@/lib/queryClient";
+import type { UserWallet } from "@shared/schema";
 
 const NETWORK_NAMES: { [key: number]: string } = {
   1: "Ethereum Mainnet",
@@ -39,6 +45,18 @@ const Header = () => {
   const [walletState, setWalletState] = useState<WalletState>(initialWalletState);
   const [isConnecting, setIsConnecting] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [isLinking, setIsLinking] = useState(false);
+  
+  const { data: linkedWallets } = useQuery<UserWallet[]>({
+    queryKey: ['/api/auth/wallets'],
+    queryFn: getWallets,
+    enabled: !!user,
+  });
+  
+  const isWalletLinked = !!walletState.address && !!linkedWallets?.some(
+    (wallet) => wallet.address.toLowerCase() === walletState.address!.toLowerCase()
+  );
   
   const { data: monitorStatus } = useQuery({
     queryKey: ['/api/monitor/status'],
@@ -137,6 +155,31 @@ const Header = () => {
     });
   };
   
+  // Prove ownership of the connected wallet so it can be used to sign in next time
+  const handleLinkWallet = async () => {
+    setIsLinking(true);
+    try {
+      const { message, signature } = await signSiweMessage("Link this wallet to my Guardian AI account");
+      await linkWallet(message, signature);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/wallets'] });
+      
+      toast({
+        title: "Wallet Linked",
+        description: "You can now sign in with this wallet",
+        duration: 3000,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Linking Failed",
+        description: error instanceof Error ? error.message : "Failed to link wallet",
+        duration: 3000,
+      });
+    } finally {
+      setIsLinking(false);
+    }
+  };
+  
   const getNetworkName = (chainId: number | null): string => {
     if (!chainId) return "Unknown Network";
     return NETWORK_NAMES[chainId] || `Chain ID: ${chainId}`;
@@ -146,10 +189,7 @@ const Header = () => {
     <header className="bg-slate-800 border-b border-gray-700 px-4 py-3 flex justify-between items-center">
       <div className="flex items-center space-x-3">
         <div className="text-primary text-2xl font-bold">👾 Guardian AI</div>
-        <div className="hidden md:flex items-center px-2 py-1 rounded bg-slate-900 text-xs text-secondary-light">
-          <span className="inline-block w-2 h-2 rounded-full bg-secondary-light mr-2 animate-pulse"></span>
-          Connected to Soneium
-        </div>
+        <NetworkStatus />
       </div>
       <div className="flex items-center space-x-4">
         <div className="hidden md:block">
@@ -157,6 +197,14 @@ const Header = () => {
           <span className="text-sm font-medium ml-1">Groq LLama3-8b</span>
         </div>
         
+        {user && (
+          <div className="hidden md:flex items-center space-x-2 text-sm">
+            <span className="text-white">{user.username}</span>
+            <span className="px-2 py-0.5 rounded-full bg-slate-900 text-xs text-gray-400 capitalize">{user.role}</span>
+            <Link href="/logout" className="text-gray-400 hover:text-white">Sign out</Link>
+          </div>
+        )}
+        
         {walletState.isConnected && walletState.address ? (
           <Dialog>
             <DialogTrigger asChild>
@@ -183,6 +231,23 @@ const Header = () => {
                   <span className="text-gray-400 text-sm">Network:</span>
                   <span className="text-white text-sm">{getNetworkName(walletState.chainId)}</span>
                 </div>
+                {user && (
+                  <div className="bg-slate-900 p-3 rounded-md flex justify-between items-center mt-4">
+                    <span className="text-gray-400 text-sm">Account:</span>
+                    {isWalletLinked ? (
+                      <span className="text-secondary-light text-sm">Linked to {user.username}</span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        className="bg-primary hover:bg-primary-dark"
+                        onClick={handleLinkWallet}
+                        disabled={isLinking}
+                      >
+                        {isLinking ? "Waiting for signature..." : `Link to ${user.username}`}
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
               <DialogFooter>
                 <DialogClose asChild>
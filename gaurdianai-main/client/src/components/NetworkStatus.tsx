@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getMonitorStatus, getNetworkHealth, runDemoScenario } from "@/lib/blockchain";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { MonitorStatus, NetworkHealth, NetworkHealthStatus } from "@shared/schema";
+
+const STATUS_STYLES: Record<NetworkHealthStatus, { dot: string; text: string }> = {
+  HEALTHY: { dot: 'bg-secondary-light', text: 'text-secondary-light' },
+  DEGRADED: { dot: 'bg-amber-400', text: 'text-amber-300' },
+  DOWN: { dot: 'bg-alert-light', text: 'text-alert-light' },
+  UNKNOWN: { dot: 'bg-gray-500', text: 'text-gray-400' }
+};
+
+// Worst status across networks decides the badge colour
+const SEVERITY: NetworkHealthStatus[] = ['HEALTHY', 'UNKNOWN', 'DEGRADED', 'DOWN'];
+
+function summarize(demoMode: boolean, networks: NetworkHealth[]): { status: NetworkHealthStatus; label: string } {
+  if (demoMode) return { status: 'UNKNOWN', label: 'Demo mode: simulated chain' };
+
+  const status = networks.reduce<NetworkHealthStatus>(
+    (worst, network) => SEVERITY.indexOf(network.status) > SEVERITY.indexOf(worst) ? network.status : worst,
+    'HEALTHY'
+  );
+  const name = networks.length === 1 ? networks[0].name : `${networks.length} networks`;
+
+  switch (status) {
+    case 'HEALTHY':
+      return { status, label: `Connected to ${name}` };
+    case 'DEGRADED':
+      return { status, label: `${name}: degraded` };
+    case 'DOWN':
+      return { status, label: networks.length === 1 ? `${name} unreachable` : 'Network unreachable' };
+    default:
+      return { status, label: `Connecting to ${name}...` };
+  }
+}
+
+// Attack scripts analysts can play on the simulated chain
+const DemoScenarios = ({ status }: { status: MonitorStatus }) => {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [running, setRunning] = useState<string | null>(null);
+  const simulator = status.simulator!;
+
+  const handleRun = async (name: string) => {
+    setRunning(name);
+    try {
+      const run = await runDemoScenario(name);
+      queryClient.invalidateQueries({ queryKey: ['/api/monitor/status'] });
+      toast({
+        title: "Scenario Started",
+        description: `${name} plays out in blocks ${run.startBlock}-${run.endBlock}`,
+        duration: 3000,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Scenario Failed",
+        description: error instanceof Error ? error.message : "Failed to start scenario",
+        duration: 3000,
+      });
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <p className="text-xs text-gray-400">
+        Events come from a simulated chain (block {simulator.blockNumber}, seed {simulator.seed}); no RPC endpoint is used.
+      </p>
+      {hasRole("analyst") && (
+        <div className="mt-3 space-y-2">
+          <h4 className="text-xs font-medium text-gray-300">Attack scenarios</h4>
+          {simulator.scenarios.map((scenario) => {
+            const active = simulator.runningScenarios.some((run) => run.name === scenario.name);
+
+            return (
+              <button
+                key={scenario.name}
+                onClick={() => handleRun(scenario.name)}
+                disabled={running !== null}
+                className="w-full text-left p-2 rounded-md bg-slate-900 hover:bg-slate-700 transition-colors duration-200 disabled:opacity-50"
+              >
+                <div className="text-xs text-white flex justify-between">
+                  <span className="font-mono">{scenario.name}</span>
+                  <span className="text-gray-500">{active ? 'running' : scenario.contractType}</span>
+                </div>
+                <div className="text-xs text-gray-400 mt-0.5">{scenario.description}</div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Header badge for RPC connectivity, with per-endpoint probe results on click
+const NetworkStatus = () => {
+  const { data } = useQuery<{ demoMode: boolean; networks: NetworkHealth[] }>({
+    queryKey: ['/api/network/health'],
+    queryFn: getNetworkHealth,
+    refetchInterval: 30000,
+  });
+
+  const { data: monitorStatus } = useQuery<MonitorStatus>({
+    queryKey: ['/api/monitor/status'],
+    queryFn: getMonitorStatus,
+    refetchInterval: 30000,
+  });
+
+  if (!data) return null;
+
+  const { status, label } = summarize(data.demoMode, data.networks);
+  const style = STATUS_STYLES[status];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className={`hidden md:flex items-center px-2 py-1 rounded bg-slate-900 text-xs ${style.text}`}>
+          <span className={`inline-block w-2 h-2 rounded-full ${style.dot} mr-2 ${status === 'HEALTHY' ? 'animate-pulse' : ''}`}></span>
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 bg-slate-800 border-gray-700 text-white">
+        {monitorStatus?.simulator && <DemoScenarios status={monitorStatus} />}
+        <div className="space-y-4">
+          {data.networks.map((network) => (
+            <div key={network.chainId}>
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-sm font-medium">{network.name}</span>
+                <span className={`text-xs ${STATUS_STYLES[network.status].text}`}>{network.status}</span>
+              </div>
+              {network.endpoints.length === 0 ? (
+                <p className="text-xs text-gray-500">Not probed</p>
+              ) : (
+                <ul className="space-y-1">
+                  {network.endpoints.map((endpoint, index) => (
+                    <li key={index} className="text-xs flex justify-between gap-2">
+                      <span className={`truncate ${endpoint.active ? 'text-white' : 'text-gray-400'}`}>
+                        <span className={`inline-block w-1.5 h-1.5 rounded-full mr-1.5 ${endpoint.healthy ? 'bg-secondary-light' : 'bg-alert-light'}`}></span>
+                        {endpoint.host}{endpoint.active ? ' (active)' : ''}
+                      </span>
+                      <span className="text-gray-500 truncate max-w-[50%] text-right" title={endpoint.error}>
+                        {endpoint.healthy
+                          ? `${endpoint.latencyMs}ms · lag ${endpoint.blockLag} · ${endpoint.score}`
+                          : endpoint.error ?? 'unhealthy'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NetworkStatus;
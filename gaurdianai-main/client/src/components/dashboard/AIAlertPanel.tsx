@@ -1,17 +1,30 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { getActiveAlerts } from "@/lib/blockchain";
+import { getActiveAlerts, getAlerts } from "@/lib/blockchain";
 import { formatSeverity } from "@/lib/groq";
 import { Button } from "@/components/ui/button";
-import { Alert } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import AlertDetailDialog, { STATUS_STYLES, formatStatus } from "@/components/dashboard/AlertDetailDialog";
+import { Alert, AlertStatus, alertStatuses } from "@shared/schema";
+
+// Status filters offered on the full alerts page; "ACTIVE" is every status that is not closed
+const STATUS_FILTERS = ['ACTIVE', 'ALL', ...alertStatuses] as const;
+type StatusFilter = typeof STATUS_FILTERS[number];
 
 interface AIAlertPanelProps {
   fullSize?: boolean;
 }
 
 const AIAlertPanel = ({ fullSize = false }: AIAlertPanelProps) => {
+  const { user } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('ACTIVE');
+  const [selectedAlertId, setSelectedAlertId] = useState<number | null>(null);
+  
   const { data: alerts, isLoading } = useQuery({
-    queryKey: ['/api/alerts/active'],
-    queryFn: getActiveAlerts
+    queryKey: statusFilter === 'ACTIVE' ? ['/api/alerts/active'] : ['/api/alerts', 'status', statusFilter],
+    queryFn: () => statusFilter === 'ACTIVE'
+      ? getActiveAlerts()
+      : getAlerts(statusFilter === 'ALL' ? undefined : [statusFilter as AlertStatus])
   });
 
   return (
@@ -27,6 +40,21 @@ const AIAlertPanel = ({ fullSize = false }: AIAlertPanelProps) => {
           View All
         </button>
       </div>
+      {fullSize && (
+        <div className="px-4 pt-3 flex flex-wrap gap-2">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter}
+              onClick={() => setStatusFilter(filter)}
+              className={`text-xs px-2 py-1 rounded-md transition-colors duration-200 ${
+                statusFilter === filter ? 'bg-primary text-white' : 'bg-slate-900 text-gray-400 hover:text-white'
+              }`}
+            >
+              {formatStatus(filter)}
+            </button>
+          ))}
+        </div>
+      )}
       <div className="p-4">
         {isLoading ? (
           <div className="flex justify-center items-center h-32">
@@ -63,6 +91,21 @@ const AIAlertPanel = ({ fullSize = false }: AIAlertPanelProps) => {
                           {alert.severity}
                         </span>
                       </div>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[alert.status as AlertStatus]}`}>
+                          {formatStatus(alert.status)}
+                        </span>
+                        {alert.occurrences > 1 && (
+                          <span className="text-xs text-gray-400" title={`Last seen ${new Date(alert.lastSeenAt).toLocaleString()}`}>
+                            ×{alert.occurrences}
+                          </span>
+                        )}
+                        {alert.assigneeId && (
+                          <span className="text-xs text-gray-400">
+                            {alert.assigneeId === user?.id ? 'Assigned to you' : 'Assigned'}
+                          </span>
+                        )}
+                      </div>
                       <p className="text-gray-300 text-xs mt-2 leading-relaxed">
                         {alert.description.length > (fullSize ? 300 : 150)
                           ? `${alert.description.substring(0, fullSize ? 300 : 150)}...` 
@@ -83,6 +126,7 @@ const AIAlertPanel = ({ fullSize = false }: AIAlertPanelProps) => {
                     </span>
                     <Button 
                       variant="outline"
+                      onClick={() => setSelectedAlertId(alert.id)}
                       className={`text-xs ${severity.color} border-${severity.color}/30 hover:bg-${alert.severity === 'HIGH' ? 'alert' : alert.severity === 'MEDIUM' ? 'amber-900' : 'blue-900'}/20 px-3 py-1`}
                     >
                       {alert.severity === 'HIGH' ? 'Review Now' : 'Investigate'}
@@ -123,11 +167,15 @@ const AIAlertPanel = ({ fullSize = false }: AIAlertPanelProps) => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
               </svg>
             </div>
-            <p className="text-sm font-medium text-white">No active alerts</p>
+            <p className="text-sm font-medium text-white">{statusFilter === 'ACTIVE' ? 'No active alerts' : 'No matching alerts'}</p>
             <p className="text-xs mt-1 text-gray-400">All monitored contracts appear to be secure</p>
           </div>
         )}
       </div>
+      <AlertDetailDialog
+        alertId={selectedAlertId}
+        onOpenChange={(open) => !open && setSelectedAlertId(null)}
+      />
     </div>
   );
 };
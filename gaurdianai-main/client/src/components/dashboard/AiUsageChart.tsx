@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { getAiUsageHistory } from "@/lib/blockchain";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { AiUsageHistoryPoint } from "@shared/schema";
+
+const chartConfig = {
+  contractAnalysis: { label: "Contract analysis", color: "#22c55e" },
+  eventAnalysis: { label: "Event analysis", color: "#3b82f6" },
+  other: { label: "Other", color: "#a855f7" },
+} satisfies ChartConfig;
+
+const RANGES = [7, 30, 90];
+
+// Tokens per day by feature, with the estimated cost of the selected range
+const AiUsageChart = () => {
+  const [days, setDays] = useState(30);
+  
+  const { data: history, isLoading } = useQuery<AiUsageHistoryPoint[]>({
+    queryKey: ['/api/ai/usage/history', days],
+    queryFn: () => getAiUsageHistory(days),
+  });
+  
+  const chartData = (history || []).map((point) => ({
+    ...point,
+    label: new Date(`${point.date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+  }));
+  const totalCost = chartData.reduce((total, point) => total + point.estimatedCost, 0);
+  const totalTokens = chartData.reduce((total, point) => total + point.total, 0);
+  
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <div className="text-xs text-gray-400">Tokens in the last {days} days</div>
+          <div className="text-lg font-bold text-white">
+            {totalTokens.toLocaleString()} <span className="text-sm font-normal text-gray-400">≈ ${totalCost.toFixed(2)}</span>
+          </div>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value, 10))}
+          className="bg-slate-900 border border-gray-700 rounded-md px-2 py-1 text-xs text-white"
+        >
+          {RANGES.map((range) => (
+            <option key={range} value={range}>{range} days</option>
+          ))}
+        </select>
+      </div>
+      
+      {isLoading ? (
+        <div className="h-56 flex items-center justify-center text-sm text-gray-400">Loading usage history...</div>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-56 w-full">
+          <BarChart data={chartData} margin={{ left: 0, right: 12 }}>
+            <CartesianGrid vertical={false} strokeOpacity={0.2} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={48} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="contractAnalysis" stackId="tokens" fill="var(--color-contractAnalysis)" />
+            <Bar dataKey="eventAnalysis" stackId="tokens" fill="var(--color-eventAnalysis)" />
+            <Bar dataKey="other" stackId="tokens" fill="var(--color-other)" radius={[2, 2, 0, 0]} />
+          </BarChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+};
+
+export default AiUsageChart;
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import { formatDate, formatSeverity } from "@/lib/groq";
+import {
+  addAlertComment,
+  assignAlert,
+  getAlert,
+  getAlertComments,
+  getAlertHistory,
+  getUsers,
+  reopenAlert,
+  setAlertStatus
+} from "@/lib/blockchain";
+import { closedAlertStatuses, type Alert, type AlertComment, type AlertHistory, type AlertStatus, type PublicUser } from "@shared/schema";
+
+type WithUsername<T> = T & { username: string | null };
+
+export const STATUS_STYLES: Record<AlertStatus, string> = {
+  OPEN: "bg-red-900/30 text-red-300",
+  ACKNOWLEDGED: "bg-amber-900/30 text-amber-300",
+  INVESTIGATING: "bg-blue-900/30 text-blue-300",
+  RESOLVED: "bg-green-900/30 text-green-300",
+  FALSE_POSITIVE: "bg-gray-700/50 text-gray-300"
+};
+
+// Buttons offered for each status; closed alerts can only be reopened
+const STATUS_ACTIONS: Record<AlertStatus, { status: AlertStatus; label: string }[]> = {
+  OPEN: [
+    { status: "ACKNOWLEDGED", label: "Acknowledge" },
+    { status: "INVESTIGATING", label: "Investigate" }
+  ],
+  ACKNOWLEDGED: [{ status: "INVESTIGATING", label: "Investigate" }],
+  INVESTIGATING: [{ status: "ACKNOWLEDGED", label: "Back to Acknowledged" }],
+  RESOLVED: [],
+  FALSE_POSITIVE: []
+};
+
+export function formatStatus(status: string): string {
+  return status.replace("_", " ");
+}
+
+interface AlertDetailDialogProps {
+  alertId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AlertDetailDialog = ({ alertId, onOpenChange }: AlertDetailDialogProps) => {
+  const { toast } = useToast();
+  const { user, hasRole } = useAuth();
+  const canTriage = hasRole("analyst");
+  const [note, setNote] = useState("");
+  const [comment, setComment] = useState("");
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const open = alertId !== null;
+
+  const { data: alert } = useQuery<Alert>({
+    queryKey: ['/api/alerts', alertId],
+    queryFn: () => getAlert(alertId!),
+    enabled: open
+  });
+
+  const { data: history } = useQuery<WithUsername<AlertHistory>[]>({
+    queryKey: ['/api/alerts', alertId, 'history'],
+    queryFn: () => getAlertHistory(alertId!),
+    enabled: open
+  });
+
+  const { data: comments } = useQuery<WithUsername<AlertComment>[]>({
+    queryKey: ['/api/alerts', alertId, 'comments'],
+    queryFn: () => getAlertComments(alertId!),
+    enabled: open
+  });
+
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    queryFn: getUsers,
+    enabled: open && canTriage
+  });
+
+  const assignableUsers = users?.filter((candidate) => candidate.role !== "viewer") ?? [];
+  const isClosed = !!alert && closedAlertStatuses.includes(alert.status as AlertStatus);
+
+  // Run a change, then refresh the alert lists and this alert's detail queries
+  const perform = async (action: () => Promise<unknown>, success: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts/active'] });
+      toast({ title: success, duration: 3000 });
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Failed to update alert",
+        duration: 3000,
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatus = async (status: AlertStatus) => {
+    const ok = await perform(() => setAlertStatus(alertId!, status, note.trim() || undefined), `Alert marked ${formatStatus(status)}`);
+    if (ok) setNote("");
+  };
+
+  const handleReopen = async () => {
+    if (!note.trim()) {
+      toast({ variant: "destructive", title: "Note Required", description: "Explain why the alert is being reopened", duration: 3000 });
+      return;
+    }
+    const ok = await perform(() => reopenAlert(alertId!, note.trim()), "Alert reopened");
+    if (ok) setNote("");
+  };
+
+  const handleAssign = (assigneeId: number | null) =>
+    perform(() => assignAlert(alertId!, assigneeId), assigneeId === null ? "Alert unassigned" : "Alert assigned");
+
+  const handleComment = async () => {
+    if (!comment.trim()) return;
+    const ok = await perform(() => addAlertComment(alertId!, comment.trim(), replyTo ?? undefined), "Comment added");
+    if (ok) {
+      setComment("");
+      setReplyTo(null);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setNote("");
+      setComment("");
+      setReplyTo(null);
+    }
+    onOpenChange(next);
+  };
+
+  const renderComments = (parentId: number | null, depth: number) =>
+    comments
+      ?.filter((entry) => entry.parentId === parentId)
+      .map((entry) => (
+        <div key={entry.id} className={depth > 0 ? "ml-4 border-l border-gray-700 pl-3" : ""}>
+          <div className="bg-slate-900/50 rounded-md p-2 mt-2">
+            <div className="flex justify-between text-xs text-gray-400">
+              <span className="text-gray-200">{entry.username ?? "Deleted user"}</span>
+              <span>{formatDate(entry.createdAt as unknown as string)}</span>
+            </div>
+            <p className="text-xs text-gray-300 mt-1 whitespace-pre-wrap">{entry.body}</p>
+            {canTriage && (
+              <button
+                onClick={() => setReplyTo(entry.id)}
+                className="text-xs text-primary hover:text-primary-light mt-1"
+              >
+                Reply
+              </button>
+            )}
+          </div>
+          {renderComments(entry.id, depth + 1)}
+        </div>
+      ));
+
+  const severity = alert ? formatSeverity(alert.severity) : null;
+  const assignee = alert?.assigneeId ? users?.find((candidate) => candidate.id === alert.assigneeId) : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-slate-800 border-gray-700 text-white max-w-2xl max-h-[85vh] overflow-y-auto">
+        {!alert ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent"></div>
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className={severity!.color}>{alert.title}</DialogTitle>
+              <DialogDescription className="text-gray-400">
+                Alert #{alert.id} · {alert.severity} · raised {formatDate(alert.createdAt as unknown as string)}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[alert.status as AlertStatus]}`}>
+                {formatStatus(alert.status)}
+              </span>
+              <span className="text-gray-400">
+                Assignee: <span className="text-gray-200">{alert.assigneeId ? assignee?.username ?? `User #${alert.assigneeId}` : "Unassigned"}</span>
+              </span>
+            </div>
+
+            <p className="text-sm text-gray-300 whitespace-pre-wrap">{alert.description}</p>
+
+            {alert.resolutionNote && (
+              <div className="bg-green-900/10 border border-green-900/40 rounded-md p-2 text-xs text-gray-300">
+                <span className="text-green-300">Resolution:</span> {alert.resolutionNote}
+              </div>
+            )}
+
+            {canTriage && (
+              <div className="space-y-2 border-t border-gray-700 pt-3">
+                <Textarea
+                  placeholder={isClosed ? "Why is this alert being reopened?" : "Note (optional, saved with the status change)"}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="bg-slate-900 border-gray-700 text-white placeholder:text-gray-500 text-xs min-h-[60px]"
+                />
+                <div className="flex flex-wrap gap-2">
+                  {isClosed ? (
+                    <Button size="sm" disabled={isSaving} onClick={handleReopen} className="bg-amber-600 hover:bg-amber-700 text-white">
+                      Reopen
+                    </Button>
+                  ) : (
+                    <>
+                      {STATUS_ACTIONS[alert.status as AlertStatus].map((action) => (
+                        <Button
+                          key={action.status}
+                          size="sm"
+                          variant="outline"
+                          disabled={isSaving}
+                          onClick={() => handleStatus(action.status)}
+                          className="border-gray-700 text-gray-300 hover:text-white hover:bg-gray-700"
+                        >
+                          {action.label}
+                        </Button>
+                      ))}
+                      <Button size="sm" disabled={isSaving} onClick={() => handleStatus("RESOLVED")} className="bg-secondary hover:bg-secondary-dark text-white">
+                        Resolve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isSaving}
+                        onClick={() => handleStatus("FALSE_POSITIVE")}
+                        className="border-gray-700 text-gray-300 hover:text-white hover:bg-gray-700"
+                      >
+                        False Positive
+                      </Button>
+                    </>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="text-gray-400">Assign:</span>
+                  <select
+                    value={alert.assigneeId ?? ""}
+                    disabled={isSaving}
+                    onChange={(e) => handleAssign(e.target.value ? parseInt(e.target.value) : null)}
+                    className="bg-slate-900 border border-gray-700 rounded-md px-2 py-1 text-white"
+                  >
+                    <option value="">Unassigned</option>
+                    {assignableUsers.map((candidate) => (
+                      <option key={candidate.id} value={candidate.id}>{candidate.username}</option>
+                    ))}
+                  </select>
+                  {user && alert.assigneeId !== user.id && (
+                    <button
+                      disabled={isSaving}
+                      onClick={() => handleAssign(user.id)}
+                      className="text-primary hover:text-primary-light"
+                    >
+                      Assign to me
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="border-t border-gray-700 pt-3">
+              <h4 className="text-sm font-medium text-white">Comments</h4>
+              {comments && comments.length > 0 ? (
+                renderComments(null, 0)
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">No comments yet</p>
+              )}
+              {canTriage && (
+                <div className="mt-3 space-y-2">
+                  {replyTo !== null && (
+                    <div className="text-xs text-gray-400">
+                      Replying to comment #{replyTo}{" "}
+                      <button onClick={() => setReplyTo(null)} className="text-primary hover:text-primary-light">cancel</button>
+                    </div>
+                  )}
+                  <Textarea
+                    placeholder="Add a comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    className="bg-slate-900 border-gray-700 text-white placeholder:text-gray-500 text-xs min-h-[60px]"
+                  />
+                  <Button size="sm" disabled={isSaving || !comment.trim()} onClick={handleComment} className="bg-primary hover:bg-primary-dark text-white">
+                    Post Comment
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-gray-700 pt-3">
+              <h4 className="text-sm font-medium text-white mb-2">History</h4>
+              <ol className="space-y-1 text-xs">
+                {history?.map((entry) => (
+                  <li key={entry.id} className="flex justify-between gap-3 text-gray-400">
+                    <span>
+                      <span className="text-gray-200">{entry.username ?? "System"}</span>{" "}
+                      {entry.action === "STATUS_CHANGED" || entry.action === "REOPENED"
+                        ? `${entry.action === "REOPENED" ? "reopened" : "moved"} ${formatStatus(entry.fromStatus ?? "")} → ${formatStatus(entry.toStatus ?? "")}`
+                        : entry.action.toLowerCase().replace(/_/g, " ")}
+                      {entry.note && <span className="text-gray-500"> — {entry.note}</span>}
+                    </span>
+                    <span className="flex-shrink-0">{formatDate(entry.createdAt as unknown as string)}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlertDetailDialog;
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getContractPolicy, updateContractPolicy } from "@/lib/blockchain";
+import { formatDate } from "@/lib/groq";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { analysisDepths, type ContractPolicy, type ContractPolicyResponse } from "@shared/schema";
+
+interface ContractPolicyPanelProps {
+  contractId: number;
+}
+
+// Form values as typed; an empty field means the global setting applies
+interface PolicyForm {
+  healthCheckIntervalMinutes: string;
+  aiAnalysisIntervalMinutes: string;
+  autoAnalyzeEvents: '' | 'on' | 'off';
+  analysisDepth: string;
+  dailyTokenQuota: string;
+}
+
+function toForm(policy: ContractPolicy): PolicyForm {
+  return {
+    healthCheckIntervalMinutes: policy.healthCheckIntervalMinutes?.toString() ?? '',
+    aiAnalysisIntervalMinutes: policy.aiAnalysisIntervalMinutes?.toString() ?? '',
+    autoAnalyzeEvents: policy.autoAnalyzeEvents === undefined ? '' : policy.autoAnalyzeEvents ? 'on' : 'off',
+    analysisDepth: policy.analysisDepth ?? '',
+    dailyTokenQuota: policy.dailyTokenQuota?.toString() ?? ''
+  };
+}
+
+function toPolicy(form: PolicyForm): ContractPolicy {
+  const policy: ContractPolicy = {};
+  if (form.healthCheckIntervalMinutes) policy.healthCheckIntervalMinutes = parseInt(form.healthCheckIntervalMinutes, 10);
+  if (form.aiAnalysisIntervalMinutes) policy.aiAnalysisIntervalMinutes = parseInt(form.aiAnalysisIntervalMinutes, 10);
+  if (form.autoAnalyzeEvents) policy.autoAnalyzeEvents = form.autoAnalyzeEvents === 'on';
+  if (form.analysisDepth) policy.analysisDepth = form.analysisDepth as ContractPolicy['analysisDepth'];
+  if (form.dailyTokenQuota) policy.dailyTokenQuota = parseInt(form.dailyTokenQuota, 10);
+  return policy;
+}
+
+const capitalize = (value: string) => value.charAt(0) + value.slice(1).toLowerCase();
+
+// Monitoring schedule and AI limits for one contract, editable by admins
+const ContractPolicyPanel = ({ contractId }: ContractPolicyPanelProps) => {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  
+  const { data, isLoading } = useQuery<ContractPolicyResponse>({
+    queryKey: ['/api/contracts', contractId, 'policy'],
+    queryFn: () => getContractPolicy(contractId),
+    refetchInterval: 60000,
+  });
+
+  if (isLoading || !data) {
+    return <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 text-sm text-gray-400">Loading policy...</div>;
+  }
+
+  const { policy, effective } = data;
+  const source = (key: keyof ContractPolicy) => policy[key] === undefined ? <span className="text-gray-500"> (default)</span> : null;
+
+  const handleSave = async () => {
+    if (!form) return;
+    
+    setIsSaving(true);
+    try {
+      const saved: ContractPolicyResponse = await updateContractPolicy(contractId, toPolicy(form));
+      queryClient.setQueryData(['/api/contracts', contractId, 'policy'], saved);
+      setForm(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save policy",
+        duration: 3000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (form) {
+    const field = (key: keyof PolicyForm, value: string) => setForm({ ...form, [key]: value });
+    const inputClass = "h-7 w-24 bg-slate-900 border-gray-700 text-white text-right text-xs";
+    const selectClass = "h-7 w-24 bg-slate-900 border border-gray-700 rounded-md px-1 text-xs text-white";
+
+    return (
+      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 space-y-2 text-xs">
+        <p className="text-gray-500">Leave a field empty to use the global setting.</p>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-gray-400">Health check (min)</span>
+          <Input type="number" min={1} max={1440} placeholder={String(effective.healthCheckIntervalMinutes)} value={form.healthCheckIntervalMinutes} onChange={(e) => field('healthCheckIntervalMinutes', e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-gray-400">AI analysis (min)</span>
+          <Input type="number" min={5} max={10080} placeholder={String(effective.aiAnalysisIntervalMinutes)} value={form.aiAnalysisIntervalMinutes} onChange={(e) => field('aiAnalysisIntervalMinutes', e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-gray-400">Analyze every event</span>
+          <select value={form.autoAnalyzeEvents} onChange={(e) => field('autoAnalyzeEvents', e.target.value)} className={selectClass}>
+            <option value="">Default</option>
+            <option value="on">On</option>
+            <option value="off">Off</option>
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-gray-400">Analysis depth</span>
+          <select value={form.analysisDepth} onChange={(e) => field('analysisDepth', e.target.value)} className={selectClass}>
+            <option value="">Default</option>
+            {analysisDepths.map((depth) => (
+              <option key={depth} value={depth}>{capitalize(depth)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-gray-400">Daily token quota</span>
+          <Input type="number" min={0} step={1000} placeholder="None" value={form.dailyTokenQuota} onChange={(e) => field('dailyTokenQuota', e.target.value)} className={inputClass} />
+        </label>
+        <div className="flex justify-end gap-2 pt-1">
+          <Button variant="outline" size="sm" className="h-7 border-gray-600 text-gray-400 hover:bg-gray-700 hover:text-white" onClick={() => setForm(null)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button size="sm" className="h-7 bg-primary hover:bg-primary-dark text-white" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 space-y-1.5 text-xs">
+      <div className="flex justify-between">
+        <span className="text-gray-400">Health check</span>
+        <span className="text-white">every {effective.healthCheckIntervalMinutes} min{source('healthCheckIntervalMinutes')}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">AI analysis</span>
+        <span className="text-white">every {effective.aiAnalysisIntervalMinutes} min{source('aiAnalysisIntervalMinutes')}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Analyze every event</span>
+        <span className="text-white">{effective.autoAnalyzeEvents ? 'On' : 'Off'}{source('autoAnalyzeEvents')}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Analysis depth</span>
+        <span className="text-white">{capitalize(effective.analysisDepth)}{source('analysisDepth')}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Tokens (24h)</span>
+        <span className="text-white">
+          {data.tokensUsed.toLocaleString()}{effective.dailyTokenQuota !== null ? ` / ${effective.dailyTokenQuota.toLocaleString()}` : ' (no quota)'}
+        </span>
+      </div>
+      {data.nextHealthCheckAt && (
+        <div className="text-gray-500 pt-1">
+          Next health check {formatDate(data.nextHealthCheckAt)}
+          {data.nextAnalysisAt && <>, next AI analysis {formatDate(data.nextAnalysisAt)}</>}
+        </div>
+      )}
+      {hasRole("admin") && (
+        <div className="flex justify-end pt-1">
+          <Button variant="outline" size="sm" className="h-7 border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-white" onClick={() => setForm(toForm(policy))}>
+            Edit policy
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContractPolicyPanel;
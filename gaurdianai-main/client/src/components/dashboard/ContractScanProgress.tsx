@@ -1,55 +1,66 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { cancelJob, getJob } from '@/lib/blockchain';
+import { queryClient } from '@/lib/queryClient';
+import type { Job } from '@shared/schema';
 
 interface ContractScanProgressProps {
   address: string;
-  onComplete: () => void;
+  jobId: number | null; // Job running the scan; null until the scan was queued
 }
 
-const ContractScanProgress = ({ address, onComplete }: ContractScanProgressProps) => {
-  const [progress, setProgress] = useState(0);
-  const [stage, setStage] = useState(0);
+const ContractScanProgress = ({ address, jobId }: ContractScanProgressProps) => {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [isCancelling, setIsCancelling] = useState(false);
   
-  // Stages of scanning process
+  // Pushed over the live stream as well; polling covers a dropped connection
+  const { data: job } = useQuery<Job>({
+    queryKey: ['/api/jobs', jobId],
+    queryFn: () => getJob(jobId!),
+    enabled: jobId !== null,
+    refetchInterval: 2000
+  });
+  
+  const currentStage = job?.stage ?? 'Initializing scan';
+  const progress = job?.progress ?? 0;
+  const isActive = job?.status === 'QUEUED' || job?.status === 'RUNNING';
+  
+  const handleCancel = async () => {
+    if (jobId === null) return;
+    
+    setIsCancelling(true);
+    try {
+      const cancelled: Job = await cancelJob(jobId);
+      queryClient.setQueryData(['/api/jobs', jobId], cancelled);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Failed to cancel scan",
+        duration: 3000,
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  // Stages reported by the server-side scan pipeline
   const stages = [
     { title: 'Initializing scan', description: 'Setting up the scanning environment...' },
-    { title: 'Retrieving contract code', description: `Fetching the source code for ${address.substring(0, 6)}...${address.substring(38)}` },
-    { title: 'Analyzing syntax', description: 'Parsing Solidity code and identifying patterns...' },
-    { title: 'Running vulnerability scan', description: 'Checking for common security vulnerabilities...' },
-    { title: 'Static analysis', description: 'Performing deep static analysis of contract logic...' },
-    { title: 'Gas optimization analysis', description: 'Identifying inefficient gas usage patterns...' },
-    { title: 'Symbolic execution', description: 'Simulating contract execution to find edge cases...' },
+    { title: 'Retrieving contract code', description: `Fetching the bytecode for ${address.substring(0, 6)}...${address.substring(38)}` },
+    { title: 'Fetching verified source', description: 'Looking up verified source code on the block explorer...' },
+    { title: 'Static analysis', description: 'Checking bytecode and source for known dangerous patterns...' },
+    { title: 'AI analysis', description: 'Reviewing contract logic for security vulnerabilities...' },
     { title: 'Generating report', description: 'Compiling findings into a comprehensive report...' },
     { title: 'Scan complete', description: 'Your contract security report is ready!' }
   ];
   
-  // Simulate scan progress
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setProgress((oldProgress) => {
-        // Calculate new progress value
-        const newProgress = Math.min(oldProgress + Math.random() * 2, 100);
-        
-        // Update stage based on progress
-        const newStage = Math.min(Math.floor(newProgress / (100 / (stages.length - 1))), stages.length - 1);
-        setStage(newStage);
-        
-        // Call onComplete when progress is complete
-        if (newProgress === 100) {
-          clearInterval(timer);
-          setTimeout(() => {
-            onComplete();
-          }, 1000);
-        }
-        
-        return newProgress;
-      });
-    }, 300);
-    
-    return () => {
-      clearInterval(timer);
-    };
-  }, [onComplete, stages.length]);
+  const stage = Math.max(0, stages.findIndex(s => s.title === currentStage));
   
   return (
     <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
@@ -61,9 +72,19 @@ const ContractScanProgress = ({ address, onComplete }: ContractScanProgressProps
         </div>
         <h2 className="text-xl font-semibold text-white">
           <span className="bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
-            Scanning Contract with Quill.ai
+            Scanning Contract
           </span>
         </h2>
+        {hasRole("analyst") && isActive && (
+          <Button
+            variant="outline"
+            className="ml-auto text-sm border-gray-700 text-gray-300 hover:text-white hover:bg-slate-700"
+            onClick={handleCancel}
+            disabled={isCancelling}
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel Scan'}
+          </Button>
+        )}
       </div>
       
       <div className="space-y-6">
@@ -73,7 +94,14 @@ const ContractScanProgress = ({ address, onComplete }: ContractScanProgressProps
             <span className="text-sm text-gray-400">{Math.round(progress)}%</span>
           </div>
           <Progress className="h-2" value={progress} />
-          <p className="text-sm text-gray-400 mt-2">{stages[stage].description}</p>
+          <p className="text-sm text-gray-400 mt-2">
+            {job?.status === 'QUEUED' && job.attempts === 0 ? 'Waiting for a free worker...' : stages[stage].description}
+          </p>
+          {job?.status === 'QUEUED' && job.attempts > 0 && (
+            <p className="text-xs text-amber-300 mt-1">
+              Attempt {job.attempts} of {job.maxAttempts} failed{job.error ? `: ${job.error}` : ''}. Retrying shortly.
+            </p>
+          )}
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
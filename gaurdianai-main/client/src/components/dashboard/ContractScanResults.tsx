@@ -1,21 +1,31 @@
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
-import { ContractScanResult, VulnerabilityFinding } from '@/lib/quillai';
+import { ContractScanResult, ScanDiff, VulnerabilityFinding } from '@shared/schema';
 import { Separator } from '@/components/ui/separator';
+import { getScanDiff } from '@/lib/blockchain';
 
 interface ContractScanResultsProps {
   result: ContractScanResult;
   sourceCode?: string;
+  previousScanId?: number | null;
 }
 
-const ContractScanResults = ({ result, sourceCode }: ContractScanResultsProps) => {
+const ContractScanResults = ({ result, sourceCode, previousScanId }: ContractScanResultsProps) => {
   const [selectedTab, setSelectedTab] = useState('overview');
   const [expandedVulnerability, setExpandedVulnerability] = useState<string | null>(null);
   
+  // Compare with the previous scan of the same contract, if there is one
+  const { data: diff } = useQuery<ScanDiff>({
+    queryKey: ['/api/scans', previousScanId, 'diff', result.scan_id],
+    queryFn: () => getScanDiff(previousScanId!, result.scan_id),
+    enabled: previousScanId != null
+  });
+  
   // Format timestamp
   const formatDate = (timestamp: string) => {
     return new Date(timestamp).toLocaleString(undefined, {
@@ -163,7 +173,7 @@ const ContractScanResults = ({ result, sourceCode }: ContractScanResultsProps) =
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-xl font-semibold text-white">
             <span className="bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
-              Quill.ai Security Scan Results
+              Security Scan Results
             </span>
           </h3>
           <Badge 
@@ -269,6 +279,11 @@ const ContractScanResults = ({ result, sourceCode }: ContractScanResultsProps) =
           <TabsList className="bg-slate-900">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="findings">Vulnerabilities ({totalFindings})</TabsTrigger>
+            {diff && (
+              <TabsTrigger value="changes">
+                Changes (+{diff.new_findings.length} / -{diff.fixed_findings.length})
+              </TabsTrigger>
+            )}
             <TabsTrigger value="source">Source Code</TabsTrigger>
           </TabsList>
         </div>
@@ -409,6 +424,54 @@ const ContractScanResults = ({ result, sourceCode }: ContractScanResultsProps) =
           )}
         </TabsContent>
         
+        {diff && (
+          <TabsContent value="changes" className="p-6 space-y-6">
+            <div className="flex items-center justify-between bg-slate-900 p-4 rounded-lg border border-slate-700">
+              <div>
+                <h4 className="text-sm font-medium text-gray-300">Compared with scan {diff.base_scan_id}</h4>
+                <p className="text-xs text-gray-500 mt-1">
+                  {diff.new_findings.length} new, {diff.fixed_findings.length} fixed, {diff.persisting_findings.length} persisting
+                </p>
+              </div>
+              <span className={`text-2xl font-bold ${
+                diff.score_delta > 0 ? 'text-green-500' : diff.score_delta < 0 ? 'text-red-500' : 'text-gray-400'
+              }`}>
+                {diff.score_delta > 0 ? '+' : ''}{diff.score_delta.toFixed(1)}
+              </span>
+            </div>
+            
+            {([
+              { title: 'New Findings', findings: diff.new_findings, accent: 'text-red-400' },
+              { title: 'Fixed Findings', findings: diff.fixed_findings, accent: 'text-green-400' },
+              { title: 'Persisting Findings', findings: diff.persisting_findings, accent: 'text-gray-300' }
+            ] as { title: string, findings: VulnerabilityFinding[], accent: string }[]).map(({ title, findings, accent }) => (
+              <div key={title} className="bg-slate-900 p-4 rounded-lg border border-slate-700">
+                <h4 className={`text-sm font-medium mb-3 ${accent}`}>{title} ({findings.length})</h4>
+                {findings.length === 0 ? (
+                  <p className="text-xs text-gray-500">None</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {findings.map((finding) => (
+                      <li key={`${title}-${finding.id}`} className={`flex items-center justify-between p-2 rounded-md border ${getSeverityBgColor(finding.severity)}`}>
+                        <div className="flex items-center">
+                          <div className={`w-3 h-3 rounded-full ${getSeverityColor(finding.severity)} mr-3`}></div>
+                          <span className="text-white text-sm">{finding.name}</span>
+                          {finding.location && (
+                            <span className="text-xs text-gray-500 ml-2">{finding.location}</span>
+                          )}
+                        </div>
+                        <Badge variant="outline" className="text-gray-400 border-gray-600">
+                          {finding.category}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+        )}
+        
         <TabsContent value="source" className="p-4">
           {sourceCode ? (
             <div className="bg-slate-900 rounded-lg border border-slate-700 p-4">
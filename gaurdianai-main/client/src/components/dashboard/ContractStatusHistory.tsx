@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { getContractStatusHistory } from "@/lib/blockchain";
+import { formatDate } from "@/lib/groq";
+import { ContractStatusHistory as StatusChange } from "@shared/schema";
+
+interface ContractStatusHistoryProps {
+  contractId: number;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  HEALTHY: 'text-secondary-light',
+  WARNING: 'text-amber-300',
+  ALERT: 'text-alert-light'
+};
+
+const ContractStatusHistory = ({ contractId }: ContractStatusHistoryProps) => {
+  const { data: history, isLoading } = useQuery<StatusChange[]>({
+    queryKey: ['/api/contracts', contractId, 'status-history'],
+    queryFn: () => getContractStatusHistory(contractId, 20),
+  });
+
+  if (isLoading) {
+    return <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 text-sm text-gray-400">Loading status history...</div>;
+  }
+
+  if (!history || history.length === 0) {
+    return (
+      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 text-sm text-gray-400">
+        No status changes recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="bg-slate-800 p-4 rounded-lg border border-slate-700 space-y-2">
+      {history.map((change) => (
+        <li key={change.id} className="text-xs">
+          <div className="flex justify-between gap-3">
+            <span>
+              <span className={STATUS_COLORS[change.fromStatus] ?? 'text-gray-300'}>{change.fromStatus}</span>
+              <span className="text-gray-500"> → </span>
+              <span className={STATUS_COLORS[change.toStatus] ?? 'text-gray-300'}>{change.toStatus}</span>
+            </span>
+            <span className="text-gray-500 flex-shrink-0">{formatDate(change.createdAt as unknown as string)}</span>
+          </div>
+          <div className="text-gray-400 mt-0.5">{change.reason}</div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ContractStatusHistory;
@@ -1,7 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
-import { getContracts } from "@/lib/blockchain";
+import { getContracts, getNetworks } from "@/lib/blockchain";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { PublicNetwork } from "@shared/schema";
 
 const ContractWatchlist = () => {
   const { toast } = useToast();
@@ -9,6 +10,15 @@ const ContractWatchlist = () => {
     queryKey: ['/api/contracts'],
     queryFn: getContracts
   });
+  const { data: networkConfig } = useQuery<{ defaultChainId: number; networks: PublicNetwork[] }>({
+    queryKey: ['/api/networks'],
+    queryFn: getNetworks
+  });
+  const [chainFilter, setChainFilter] = useState<number | null>(null);
+
+  const networks = networkConfig?.networks ?? [];
+  const networkFor = (chainId: number) => networks.find((network) => network.chainId === chainId);
+  const visibleContracts = contracts?.filter((contract: any) => chainFilter === null || contract.chainId === chainFilter);
 
   const copyToClipboard = (address: string) => {
     navigator.clipboard.writeText(address).then(
@@ -57,9 +67,23 @@ const ContractWatchlist = () => {
           </svg>
           Monitored Contracts
         </h2>
-        <button className="text-xs bg-secondary/10 text-secondary hover:text-secondary-light px-2 py-1 rounded-md transition-colors duration-200">
-          View All
-        </button>
+        <div className="flex items-center gap-2">
+          {networks.length > 1 && (
+            <select
+              value={chainFilter ?? ''}
+              onChange={(e) => setChainFilter(e.target.value ? parseInt(e.target.value, 10) : null)}
+              className="text-xs bg-slate-900 border border-gray-700 rounded-md px-2 py-1 text-gray-300"
+            >
+              <option value="">All networks</option>
+              {networks.map((network) => (
+                <option key={network.chainId} value={network.chainId}>{network.name}</option>
+              ))}
+            </select>
+          )}
+          <button className="text-xs bg-secondary/10 text-secondary hover:text-secondary-light px-2 py-1 rounded-md transition-colors duration-200">
+            View All
+          </button>
+        </div>
       </div>
       <div className="p-4">
         {isLoading ? (
@@ -68,11 +92,15 @@ const ContractWatchlist = () => {
           </div>
         ) : (
           <div className="space-y-3">
-            {contracts && contracts.map((contract: any, index: number) => (
+            {visibleContracts && visibleContracts.map((contract: any, index: number) => {
+              const network = networkFor(contract.chainId);
+
+              return (
+
               <div 
                 key={contract.id} 
                 className={`flex flex-col md:flex-row justify-between py-3 px-2 rounded-md ${
-                  index < contracts.length - 1 ? 'border-b border-gray-700' : ''
+                  index < visibleContracts.length - 1 ? 'border-b border-gray-700' : ''
                 } hover:bg-slate-700/50 transition-colors duration-200`}
               >
                 <div className="flex items-center">
@@ -90,9 +118,26 @@ const ContractWatchlist = () => {
                     </svg>
                   </div>
                   <div className="flex flex-col">
-                    <div className="font-medium text-white">{contract.name}</div>
+                    <div className="font-medium text-white flex items-center gap-2">
+                      {contract.name}
+                      <span className="px-1.5 py-0.5 text-[10px] rounded bg-slate-700 text-gray-300 font-normal">
+                        {network?.name ?? `Chain ${contract.chainId}`}
+                      </span>
+                    </div>
                     <div className="text-xs text-gray-400 font-mono flex items-center">
-                      <span className="truncate max-w-[180px]">{truncateAddress(contract.address)}</span>
+                      {network?.explorerUrl ? (
+                        <a
+                          href={`${network.explorerUrl.replace(/\/$/, '')}/address/${contract.address}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="truncate max-w-[180px] hover:text-primary-light"
+                          title="View on explorer"
+                        >
+                          {truncateAddress(contract.address)}
+                        </a>
+                      ) : (
+                        <span className="truncate max-w-[180px]">{truncateAddress(contract.address)}</span>
+                      )}
                       <button 
                         className="text-primary hover:text-primary-light ml-1 focus:outline-none" 
                         title="Copy to clipboard"
@@ -114,7 +159,8 @@ const ContractWatchlist = () => {
                   </button>
                 </div>
               </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
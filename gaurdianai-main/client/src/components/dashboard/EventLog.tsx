@@ -1,8 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
-import { getEvents, getContractEvents } from "@/lib/blockchain";
+import { getEvents, getContractEvents, getMonitorStatus, getNetworkHealth } from "@/lib/blockchain";
 import { useEffect, useRef, useState } from "react";
 import { formatDate } from "@/lib/groq";
-import { Event } from "@shared/schema";
+import { Event, MonitorStatus, NetworkHealth } from "@shared/schema";
 
 interface EventLogProps {
   compact?: boolean;
@@ -32,8 +32,17 @@ const EventLog = ({ compact = false, contractFilter }: EventLogProps) => {
   const { data: events, isLoading } = useQuery({
     queryKey: contractId ? ['/api/events/contract', contractId.toString()] : ['/api/events'],
     queryFn: () => contractId ? getContractEvents(contractId, 20) : getEvents(20),
-    refetchInterval: 5000, // Refetch every 5 seconds
-    retry: false // Don't retry on error
+    retry: false // Don't retry on error; new events arrive through useLiveUpdates
+  });
+
+  const { data: monitorStatus } = useQuery<MonitorStatus>({
+    queryKey: ['/api/monitor/status'],
+    queryFn: getMonitorStatus
+  });
+  
+  const { data: networkHealth } = useQuery<{ demoMode: boolean; networks: NetworkHealth[] }>({
+    queryKey: ['/api/network/health'],
+    queryFn: getNetworkHealth
   });
 
   useEffect(() => {
@@ -63,7 +72,8 @@ const EventLog = ({ compact = false, contractFilter }: EventLogProps) => {
 
   const formatLogEntry = (event: any) => {
     const timestamp = formatDate(event.timestamp);
-    return `[${timestamp}] Event: ${event.eventName}(${formatEventParams(event.eventData)})`;
+    const pending = event.confirmed ? '' : ' [pending confirmation]';
+    return `[${timestamp}] Event: ${event.eventName}(${formatEventParams(event.eventData)})${pending}`;
   };
 
   const formatEventParams = (eventData: any) => {
@@ -81,6 +91,27 @@ const EventLog = ({ compact = false, contractFilter }: EventLogProps) => {
     return value;
   };
 
+  // Where events come from: the demo simulator, or the active RPC endpoint of each network
+  const renderConnectionLines = () => {
+    const now = new Date().toISOString().replace('T', ' ').slice(0, 19);
+    
+    if (monitorStatus?.simulator) {
+      return (
+        <div className="terminal-line warning">
+          [{now}] 🔮 Demo mode: simulated chain at block {monitorStatus.simulator.blockNumber} (seed {monitorStatus.simulator.seed}), no RPC endpoint in use
+        </div>
+      );
+    }
+    
+    return networkHealth?.networks.map((network) => (
+      <div key={network.chainId} className={`terminal-line ${network.activeEndpoint ? 'info' : 'error'}`}>
+        [{now}] {network.activeEndpoint
+          ? `✓ Connected to ${network.name} RPC at ${network.activeEndpoint}`
+          : `✗ ${network.name}: no healthy RPC endpoint`}
+      </div>
+    ));
+  };
+
   return (
     <div className="bg-slate-800 rounded-lg border border-gray-700 shadow-md mb-6 hover:shadow-lg transition-all duration-300 hover:border-gray-600">
       <div className="border-b border-gray-700 px-4 py-3 flex justify-between items-center bg-slate-800/50">
@@ -114,7 +145,7 @@ const EventLog = ({ compact = false, contractFilter }: EventLogProps) => {
           </div>
         ) : events && events.length > 0 ? (
           <>
-            <div className="terminal-line info">[{new Date().toISOString().replace('T', ' ').slice(0, 19)}] ✓ Connected to Soneium RPC at https://rpc.scs.soneium.io</div>
+            {renderConnectionLines()}
             <div className="terminal-line command">{'>'} Guardian AI monitoring service initialized with Groq LLama3-8b-8192</div>
             
             {events.map((event: any) => (
@@ -128,7 +159,7 @@ const EventLog = ({ compact = false, contractFilter }: EventLogProps) => {
           </>
         ) : (
           <>
-            <div className="terminal-line info">[{new Date().toISOString().replace('T', ' ').slice(0, 19)}] ✓ Connected to Soneium RPC at https://rpc.scs.soneium.io</div>
+            {renderConnectionLines()}
             <div className="terminal-line command">{'>'} Guardian AI monitoring service initialized with Groq LLama3-8b-8192</div>
             <div className="terminal-line flex items-center">
               <span className="inline-block w-2 h-2 rounded-full bg-secondary animate-pulse mr-2"></span>
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getIncident, getIncidents } from "@/lib/blockchain";
+import { formatDate, formatSeverity } from "@/lib/groq";
+import AlertDetailDialog, { STATUS_STYLES, formatStatus } from "@/components/dashboard/AlertDetailDialog";
+import { Alert, AlertStatus, IncidentSummary } from "@shared/schema";
+
+// Alerts that make up one incident, loaded when the incident is expanded
+const IncidentAlerts = ({ incidentId, onSelect }: { incidentId: number; onSelect: (alertId: number) => void }) => {
+  const { data: incident, isLoading } = useQuery<IncidentSummary & { alerts: Alert[] }>({
+    queryKey: ['/api/incidents', incidentId],
+    queryFn: () => getIncident(incidentId)
+  });
+
+  if (isLoading || !incident) {
+    return <div className="text-xs text-gray-500 px-3 pb-3">Loading alerts...</div>;
+  }
+
+  return (
+    <ul className="border-t border-gray-700 divide-y divide-gray-700/50">
+      {incident.alerts.map((alert) => (
+        <li key={alert.id}>
+          <button
+            onClick={() => onSelect(alert.id)}
+            className="w-full text-left px-3 py-2 flex items-center justify-between gap-3 hover:bg-slate-900/50 transition-colors duration-200"
+          >
+            <span className="flex items-center gap-2 min-w-0">
+              <span className={`text-xs ${formatSeverity(alert.severity).color}`}>{alert.severity}</span>
+              <span className="text-sm text-gray-200 truncate">{alert.title}</span>
+              {alert.occurrences > 1 && <span className="text-xs text-gray-400">×{alert.occurrences}</span>}
+            </span>
+            <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${STATUS_STYLES[alert.status as AlertStatus]}`}>
+              {formatStatus(alert.status)}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const IncidentList = () => {
+  const [showClosed, setShowClosed] = useState(false);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [selectedAlertId, setSelectedAlertId] = useState<number | null>(null);
+
+  const { data: incidents, isLoading } = useQuery<IncidentSummary[]>({
+    queryKey: ['/api/incidents', showClosed ? 'all' : 'OPEN'],
+    queryFn: () => getIncidents(showClosed ? undefined : 'OPEN')
+  });
+
+  return (
+    <div className="bg-slate-800 rounded-lg border border-gray-700 shadow-md">
+      <div className="border-b border-gray-700 px-4 py-3 flex justify-between items-center bg-slate-800/50">
+        <h2 className="font-medium">Incidents</h2>
+        <button
+          onClick={() => setShowClosed(!showClosed)}
+          className="text-xs bg-primary/10 text-primary hover:text-primary-light px-2 py-1 rounded-md transition-colors duration-200"
+        >
+          {showClosed ? 'Open Only' : 'Show Closed'}
+        </button>
+      </div>
+      <div className="p-4 space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-16">
+            <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
+          </div>
+        ) : incidents && incidents.length > 0 ? (
+          incidents.map((incident) => {
+            const severity = formatSeverity(incident.severity);
+
+            return (
+              <div key={incident.id} className={`border ${severity.borderColor} rounded-md ${incident.status === 'CLOSED' ? 'opacity-60' : ''}`}>
+                <button
+                  onClick={() => setExpanded(expanded === incident.id ? null : incident.id)}
+                  className="w-full text-left p-3 flex items-start justify-between gap-3"
+                >
+                  <div>
+                    <h3 className={`${severity.color} font-medium text-sm`}>{incident.title}</h3>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {incident.alertCount} alert{incident.alertCount === 1 ? '' : 's'} · {incident.openAlertCount} open · {incident.occurrences} occurrence{incident.occurrences === 1 ? '' : 's'}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">Last activity {formatDate(incident.lastAlertAt as unknown as string)}</p>
+                  </div>
+                  <span className={`text-xs ${severity.color} px-2 py-0.5 rounded-full ${severity.bgColor} flex-shrink-0`}>
+                    {incident.severity}
+                  </span>
+                </button>
+                {expanded === incident.id && (
+                  <IncidentAlerts incidentId={incident.id} onSelect={setSelectedAlertId} />
+                )}
+              </div>
+            );
+          })
+        ) : (
+          <p className="text-sm text-gray-400 text-center py-4">{showClosed ? 'No incidents recorded' : 'No open incidents'}</p>
+        )}
+      </div>
+      <AlertDetailDialog
+        alertId={selectedAlertId}
+        onOpenChange={(open) => !open && setSelectedAlertId(null)}
+      />
+    </div>
+  );
+};
+
+export default IncidentList;
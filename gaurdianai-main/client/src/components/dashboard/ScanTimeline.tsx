@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { getContractScans } from "@/lib/blockchain";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Scan } from "@shared/schema";
+
+interface ScanTimelineProps {
+  contractId: number;
+}
+
+const chartConfig = {
+  score: { label: "Security Score", color: "#22c55e" },
+  critical: { label: "Critical", color: "#ef4444" },
+  high: { label: "High", color: "#f97316" },
+  medium: { label: "Medium", color: "#eab308" },
+  low: { label: "Low", color: "#3b82f6" },
+} satisfies ChartConfig;
+
+const ScanTimeline = ({ contractId }: ScanTimelineProps) => {
+  const { data: scans, isLoading } = useQuery<Scan[]>({
+    queryKey: ['/api/contracts', contractId, 'scans'],
+    queryFn: () => getContractScans(contractId, 50),
+  });
+  
+  const completed = (scans || [])
+    .filter((scan) => scan.status === 'COMPLETED')
+    .reverse(); // Oldest first so the chart reads left to right
+  
+  const chartData = completed.map((scan) => ({
+    date: new Date(scan.completedAt ?? scan.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    score: scan.overallScore ?? 0,
+    critical: scan.criticalCount,
+    high: scan.highCount,
+    medium: scan.mediumCount,
+    low: scan.lowCount,
+  }));
+  
+  if (isLoading) {
+    return <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 text-sm text-gray-400">Loading scan history...</div>;
+  }
+  
+  if (completed.length === 0) {
+    return (
+      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 text-sm text-gray-400">
+        No completed scans yet. Run a scan of this contract to start its history.
+      </div>
+    );
+  }
+  
+  const latest = completed[completed.length - 1];
+  const previous = completed.length > 1 ? completed[completed.length - 2] : null;
+  const scoreChange = previous ? (latest.overallScore ?? 0) - (previous.overallScore ?? 0) : 0;
+  
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <div className="text-xs text-gray-400">Latest score</div>
+          <div className="text-2xl font-bold text-white">{(latest.overallScore ?? 0).toFixed(1)}/100</div>
+        </div>
+        {previous && (
+          <span className={`px-2 py-1 rounded-full text-xs ${
+            scoreChange > 0 ? 'bg-secondary/20 text-secondary-light' :
+            scoreChange < 0 ? 'bg-alert/20 text-alert-light' :
+            'bg-slate-700 text-gray-300'
+          }`}>
+            {scoreChange > 0 ? '+' : ''}{scoreChange.toFixed(1)} since previous scan
+          </span>
+        )}
+      </div>
+      
+      <ChartContainer config={chartConfig} className="h-56 w-full">
+        <LineChart data={chartData} margin={{ left: 0, right: 12 }}>
+          <CartesianGrid vertical={false} strokeOpacity={0.2} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} />
+          <YAxis yAxisId="score" domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+          <YAxis yAxisId="count" orientation="right" allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line yAxisId="score" dataKey="score" stroke="var(--color-score)" strokeWidth={2} dot={false} />
+          <Line yAxisId="count" dataKey="critical" stroke="var(--color-critical)" dot={false} />
+          <Line yAxisId="count" dataKey="high" stroke="var(--color-high)" dot={false} />
+          <Line yAxisId="count" dataKey="medium" stroke="var(--color-medium)" dot={false} />
+          <Line yAxisId="count" dataKey="low" stroke="var(--color-low)" dot={false} />
+        </LineChart>
+      </ChartContainer>
+      
+      <ul className="mt-4 space-y-2">
+        {completed.slice().reverse().slice(0, 5).map((scan) => (
+          <li key={scan.id} className="flex justify-between items-center text-sm bg-slate-900 px-3 py-2 rounded-md">
+            <span className="text-gray-300">
+              {new Date(scan.completedAt ?? scan.createdAt).toLocaleString()}
+            </span>
+            <span className="text-gray-400">
+              {scan.criticalCount} critical, {scan.highCount} high, {scan.mediumCount} medium, {scan.lowCount} low
+            </span>
+            <span className="text-white font-medium">{(scan.overallScore ?? 0).toFixed(1)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ScanTimeline;
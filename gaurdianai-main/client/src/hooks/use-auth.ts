@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import { userRoles, type PublicUser, type UserRole } from "@shared/schema";
+
+// Signed-in user, or null when the session is missing or expired
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  
+  const hasRole = (role: UserRole) =>
+    !!user && userRoles.indexOf(user.role as UserRole) >= userRoles.indexOf(role);
+  
+  return { user: user ?? null, isLoading, hasRole };
+}
@@ -0,0 +1,121 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { closedAlertStatuses, type Alert, type AlertStatus, type Contract, type Event, type Job } from "@shared/schema";
+
+// Prepend an item to a cached list, keeping the list at the length it was fetched with
+function prepend<T extends { id: number }>(list: T[] | undefined, item: T): T[] | undefined {
+  if (!list) return list;
+  if (list.some((existing) => existing.id === item.id)) return list;
+  return [item, ...list].slice(0, Math.max(list.length, 1));
+}
+
+// Subscribe to /api/stream and keep React Query caches in sync with server pushes
+export function useLiveUpdates() {
+  useEffect(() => {
+    const source = new EventSource("/api/stream");
+    
+    source.addEventListener("event.created", (message) => {
+      const event: Event = JSON.parse((message as MessageEvent).data);
+      
+      queryClient.setQueryData<Event[]>(['/api/events'], (events) => prepend(events, event));
+      queryClient.setQueryData<Event[]>(
+        ['/api/events/contract', event.contractId.toString()],
+        (events) => prepend(events, event)
+      );
+    });
+    
+    // Orphaned by a reorg; the alerts derived from it were resolved
+    source.addEventListener("event.removed", (message) => {
+      const event: Event = JSON.parse((message as MessageEvent).data);
+      const remove = (events: Event[] | undefined) => events?.filter((existing) => existing.id !== event.id);
+      
+      queryClient.setQueryData<Event[]>(['/api/events'], remove);
+      queryClient.setQueryData<Event[]>(['/api/events/contract', event.contractId.toString()], remove);
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts/active'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/incidents'] });
+    });
+    
+    source.addEventListener("alert.created", (message) => {
+      const alert: Alert = JSON.parse((message as MessageEvent).data);
+      
+      queryClient.setQueryData<Alert[]>(['/api/alerts/active'], (alerts) => alerts && [alert, ...alerts]);
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts'], exact: true });
+      queryClient.invalidateQueries({ queryKey: ['/api/incidents'] });
+    });
+    
+    source.addEventListener("alert.resolved", (message) => {
+      const alert: Alert = JSON.parse((message as MessageEvent).data);
+      
+      queryClient.setQueryData<Alert[]>(
+        ['/api/alerts/active'],
+        (alerts) => alerts?.filter((existing) => existing.id !== alert.id)
+      );
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts'], exact: true });
+    });
+    
+    // Status, assignee or note changes; closed alerts drop out of the active list
+    source.addEventListener("alert.updated", (message) => {
+      const alert: Alert = JSON.parse((message as MessageEvent).data);
+      const closed = closedAlertStatuses.includes(alert.status as AlertStatus);
+      
+      queryClient.setQueryData<Alert[]>(['/api/alerts/active'], (alerts) => {
+        if (!alerts) return alerts;
+        const rest = alerts.filter((existing) => existing.id !== alert.id);
+        if (closed) return rest;
+        return alerts.some((existing) => existing.id === alert.id)
+          ? alerts.map((existing) => existing.id === alert.id ? alert : existing)
+          : [alert, ...rest];
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/incidents'] });
+    });
+    
+    source.addEventListener("contract.status", (message) => {
+      const contract: Contract = JSON.parse((message as MessageEvent).data);
+      
+      queryClient.setQueryData<Contract[]>(
+        ['/api/contracts'],
+        (contracts) => contracts?.map((existing) => existing.id === contract.id ? contract : existing)
+      );
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts', contract.id, 'status-history'] });
+    });
+    
+    // Failovers and endpoint outages; the payload covers one network, so refetch them all
+    source.addEventListener("network.health", () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/network/health'] });
+    });
+    
+    // Saved by any admin; a new token limit also changes the usage figures
+    source.addEventListener("settings.updated", () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/usage'] });
+    });
+    
+    // Progress of background scans and analyses
+    source.addEventListener("job.updated", (message) => {
+      const job: Job = JSON.parse((message as MessageEvent).data);
+      
+      queryClient.setQueryData<Job>(['/api/jobs', job.id], job);
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'], exact: true });
+    });
+    
+    // Messages missed while disconnected are not replayed, so refetch after reconnecting
+    let connectedBefore = false;
+    source.onopen = () => {
+      if (connectedBefore) {
+        queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/events/contract'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/alerts/active'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/incidents'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/contracts'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/network/health'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      }
+      connectedBefore = true;
+    };
+    
+    return () => source.close();
+  }, []);
+}
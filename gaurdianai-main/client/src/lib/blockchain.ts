@@ -1,4 +1,48 @@
 import { apiRequest } from './queryClient';
+import type { AlertStatus, ContractPolicy, GuardianSettings, InsertNotificationChannel, InsertRule } from '@shared/schema';
+
+// Auth related functions
+export async function login(username: string, password: string) {
+  const response = await apiRequest('POST', '/api/auth/login', { username, password });
+  return response.json();
+}
+
+export async function logout() {
+  return apiRequest('POST', '/api/auth/logout');
+}
+
+export async function siweLogin(message: string, signature: string) {
+  const response = await apiRequest('POST', '/api/auth/siwe', { message, signature });
+  return response.json();
+}
+
+export async function getWallets() {
+  const response = await fetch('/api/auth/wallets');
+  if (!response.ok) throw new Error('Failed to fetch wallets');
+  return response.json();
+}
+
+export async function linkWallet(message: string, signature: string) {
+  const response = await apiRequest('POST', '/api/auth/wallets', { message, signature });
+  return response.json();
+}
+
+export async function unlinkWallet(id: number) {
+  return apiRequest('DELETE', `/api/auth/wallets/${id}`);
+}
+
+// Network related functions
+export async function getNetworks() {
+  const response = await fetch('/api/networks');
+  if (!response.ok) throw new Error('Failed to fetch networks');
+  return response.json();
+}
+
+export async function getNetworkHealth() {
+  const response = await fetch('/api/network/health');
+  if (!response.ok) throw new Error('Failed to fetch network health');
+  return response.json();
+}
 
 // Contract related functions
 export async function getContracts() {
@@ -13,9 +57,63 @@ export async function getContract(id: number) {
   return response.json();
 }
 
+export async function createContract(contract: { name: string; chainId?: number; address: string; type: string; abi?: unknown }) {
+  return apiRequest('POST', '/api/contracts', contract);
+}
+
+export async function updateContract(id: number, contract: { name?: string; chainId?: number; address?: string; type?: string; abi?: unknown }) {
+  return apiRequest('PATCH', `/api/contracts/${id}`, contract);
+}
+
+export async function deleteContract(id: number) {
+  return apiRequest('DELETE', `/api/contracts/${id}`);
+}
+
+export async function backfillContract(id: number, fromBlock?: number) {
+  return apiRequest('POST', `/api/contracts/${id}/backfill`, { fromBlock });
+}
+
+export async function getBackfillProgress(id: number) {
+  const response = await fetch(`/api/contracts/${id}/backfill`);
+  if (!response.ok) throw new Error('Failed to fetch backfill progress');
+  return response.json();
+}
+
+export async function getContractScans(id: number, limit?: number) {
+  const url = limit 
+    ? `/api/contracts/${id}/scans?limit=${limit}` 
+    : `/api/contracts/${id}/scans`;
+  
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Failed to fetch contract scans');
+  return response.json();
+}
+
+export async function getContractStatusHistory(id: number, limit?: number) {
+  const url = limit 
+    ? `/api/contracts/${id}/status-history?limit=${limit}` 
+    : `/api/contracts/${id}/status-history`;
+  
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Failed to fetch contract status history');
+  return response.json();
+}
+
+export async function getContractPolicy(id: number) {
+  const response = await fetch(`/api/contracts/${id}/policy`);
+  if (!response.ok) throw new Error('Failed to fetch contract policy');
+  return response.json();
+}
+
+export async function updateContractPolicy(id: number, policy: ContractPolicy) {
+  const response = await apiRequest('PUT', `/api/contracts/${id}/policy`, policy);
+  return response.json();
+}
+
 // Alert related functions
-export async function getAlerts() {
-  const response = await fetch('/api/alerts');
+export async function getAlerts(statuses?: AlertStatus[]) {
+  const url = statuses?.length ? `/api/alerts?status=${statuses.join(',')}` : '/api/alerts';
+  const response = await fetch(url);
   if (!response.ok) throw new Error('Failed to fetch alerts');
   return response.json();
 }
@@ -32,8 +130,64 @@ export async function getContractAlerts(contractId: number) {
   return response.json();
 }
 
-export async function resolveAlert(alertId: number) {
-  return apiRequest('POST', `/api/alerts/${alertId}/resolve`, {});
+export async function getAlert(alertId: number) {
+  const response = await fetch(`/api/alerts/${alertId}`);
+  if (!response.ok) throw new Error('Failed to fetch alert');
+  return response.json();
+}
+
+export async function resolveAlert(alertId: number, note?: string) {
+  return apiRequest('POST', `/api/alerts/${alertId}/resolve`, { note });
+}
+
+export async function setAlertStatus(alertId: number, status: AlertStatus, note?: string) {
+  const response = await apiRequest('POST', `/api/alerts/${alertId}/status`, { status, note });
+  return response.json();
+}
+
+export async function reopenAlert(alertId: number, note: string) {
+  const response = await apiRequest('POST', `/api/alerts/${alertId}/reopen`, { note });
+  return response.json();
+}
+
+export async function assignAlert(alertId: number, assigneeId: number | null) {
+  const response = await apiRequest('POST', `/api/alerts/${alertId}/assign`, { assigneeId });
+  return response.json();
+}
+
+export async function getAlertHistory(alertId: number) {
+  const response = await fetch(`/api/alerts/${alertId}/history`);
+  if (!response.ok) throw new Error('Failed to fetch alert history');
+  return response.json();
+}
+
+export async function getAlertComments(alertId: number) {
+  const response = await fetch(`/api/alerts/${alertId}/comments`);
+  if (!response.ok) throw new Error('Failed to fetch alert comments');
+  return response.json();
+}
+
+export async function addAlertComment(alertId: number, body: string, parentId?: number) {
+  const response = await apiRequest('POST', `/api/alerts/${alertId}/comments`, { body, parentId });
+  return response.json();
+}
+
+export async function getIncidents(status?: 'OPEN' | 'CLOSED') {
+  const response = await fetch(status ? `/api/incidents?status=${status}` : '/api/incidents');
+  if (!response.ok) throw new Error('Failed to fetch incidents');
+  return response.json();
+}
+
+export async function getIncident(incidentId: number) {
+  const response = await fetch(`/api/incidents/${incidentId}`);
+  if (!response.ok) throw new Error('Failed to fetch incident');
+  return response.json();
+}
+
+export async function getUsers() {
+  const response = await fetch('/api/users');
+  if (!response.ok) throw new Error('Failed to fetch users');
+  return response.json();
 }
 
 // Event related functions
@@ -54,6 +208,92 @@ export async function getContractEvents(contractId: number, limit?: number) {
   return response.json();
 }
 
+// Detection rule related functions
+export async function getRules(contractId?: number) {
+  const url = contractId !== undefined 
+    ? `/api/rules?contractId=${contractId}` 
+    : '/api/rules';
+  
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Failed to fetch rules');
+  return response.json();
+}
+
+export async function createRule(rule: InsertRule) {
+  return apiRequest('POST', '/api/rules', rule);
+}
+
+export async function updateRule(id: number, rule: Partial<InsertRule>) {
+  return apiRequest('PATCH', `/api/rules/${id}`, rule);
+}
+
+export async function deleteRule(id: number) {
+  return apiRequest('DELETE', `/api/rules/${id}`);
+}
+
+// Notification channel related functions
+export async function getNotificationChannels() {
+  const response = await fetch('/api/notifications/channels');
+  if (!response.ok) throw new Error('Failed to fetch notification channels');
+  return response.json();
+}
+
+export async function createNotificationChannel(channel: InsertNotificationChannel) {
+  return apiRequest('POST', '/api/notifications/channels', channel);
+}
+
+export async function updateNotificationChannel(id: number, channel: Partial<InsertNotificationChannel>) {
+  return apiRequest('PATCH', `/api/notifications/channels/${id}`, channel);
+}
+
+export async function deleteNotificationChannel(id: number) {
+  return apiRequest('DELETE', `/api/notifications/channels/${id}`);
+}
+
+export async function testNotificationChannel(id: number) {
+  return apiRequest('POST', `/api/notifications/channels/${id}/test`);
+}
+
+export async function getNotificationDeliveries(limit?: number, channelId?: number) {
+  const params = new URLSearchParams();
+  if (limit !== undefined) params.set('limit', limit.toString());
+  if (channelId !== undefined) params.set('channelId', channelId.toString());
+  
+  const response = await fetch(`/api/notifications/deliveries?${params}`);
+  if (!response.ok) throw new Error('Failed to fetch notification deliveries');
+  return response.json();
+}
+
+// Contract scan related functions
+export async function startScan(address: string, chainId?: number) {
+  const response = await apiRequest('POST', '/api/scans', { address, chainId });
+  return response.json();
+}
+
+export async function getScan(id: number) {
+  const response = await fetch(`/api/scans/${id}`);
+  if (!response.ok) throw new Error('Failed to fetch scan');
+  return response.json();
+}
+
+export async function getScanDiff(baseId: number | string, targetId: number | string) {
+  const response = await fetch(`/api/scans/${baseId}/diff/${targetId}`);
+  if (!response.ok) throw new Error('Failed to fetch scan comparison');
+  return response.json();
+}
+
+// Settings related functions
+export async function getSettings() {
+  const response = await fetch('/api/settings');
+  if (!response.ok) throw new Error('Failed to fetch settings');
+  return response.json();
+}
+
+export async function updateSettings(settings: GuardianSettings) {
+  const response = await apiRequest('PUT', '/api/settings', settings);
+  return response.json();
+}
+
 // AI analysis related functions
 export async function getAiUsage() {
   const response = await fetch('/api/ai/usage');
@@ -61,8 +301,28 @@ export async function getAiUsage() {
   return response.json();
 }
 
+export async function getAiUsageHistory(days: number = 30) {
+  const response = await fetch(`/api/ai/usage/history?days=${days}`);
+  if (!response.ok) throw new Error('Failed to fetch AI usage history');
+  return response.json();
+}
+
+// Queues a health check and AI analysis; resolves to the job running it
 export async function analyzeContract(contractId: number) {
-  return apiRequest('POST', '/api/ai/analyze-contract', { contractId });
+  const response = await apiRequest('POST', '/api/ai/analyze-contract', { contractId });
+  return response.json();
+}
+
+// Background job related functions
+export async function getJob(id: number) {
+  const response = await fetch(`/api/jobs/${id}`);
+  if (!response.ok) throw new Error('Failed to fetch job');
+  return response.json();
+}
+
+export async function cancelJob(id: number) {
+  const response = await apiRequest('POST', `/api/jobs/${id}/cancel`);
+  return response.json();
 }
 
 // Monitor control functions
@@ -79,3 +339,8 @@ export async function getMonitorStatus() {
   if (!response.ok) throw new Error('Failed to fetch monitor status');
   return response.json();
 }
+
+export async function runDemoScenario(name: string, contractId?: number) {
+  const response = await apiRequest('POST', `/api/demo/scenarios/${name}`, { contractId });
+  return response.json();
+}
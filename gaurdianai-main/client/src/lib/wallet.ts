@@ -94,6 +94,45 @@ export const checkIfWalletIsConnected = async (): Promise<WalletState> => {
   }
 };
 
+// Build an EIP-4361 (Sign-In with Ethereum) message for this site
+export const createSiweMessage = (address: string, chainId: number, nonce: string, statement: string): string => {
+  const issuedAt = new Date();
+  const expirationTime = new Date(issuedAt.getTime() + 5 * 60 * 1000);
+  
+  return [
+    `${window.location.host} wants you to sign in with your Ethereum account:`,
+    address,
+    "",
+    statement,
+    "",
+    `URI: ${window.location.origin}`,
+    "Version: 1",
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expirationTime.toISOString()}`
+  ].join("\n");
+};
+
+// Ask the connected wallet to sign a sign-in message with a fresh server nonce
+export const signSiweMessage = async (statement: string): Promise<{ message: string; signature: string }> => {
+  const wallet = await connectWallet();
+  if (!wallet.isConnected || !wallet.provider || !wallet.address || wallet.chainId === null) {
+    throw new Error(wallet.error || "Wallet is not connected");
+  }
+  
+  const response = await fetch("/api/auth/siwe/nonce", { credentials: "include" });
+  if (!response.ok) throw new Error("Failed to fetch sign-in nonce");
+  const { nonce } = await response.json();
+  
+  const signer = await wallet.provider.getSigner();
+  const address = await signer.getAddress(); // Checksummed, as EIP-4361 requires
+  const message = createSiweMessage(address, wallet.chainId, nonce, statement);
+  const signature = await signer.signMessage(message);
+  
+  return { message, signature };
+};
+
 // Add type declaration for window.ethereum
 declare global {
   interface Window {
@@ -1,18 +1,25 @@
 import { useQuery } from "@tanstack/react-query";
-import { useState, lazy, Suspense } from "react";
+import { useState, useEffect, lazy, Suspense } from "react";
 import { useRoute, useLocation } from "wouter";
 import Header from "@/components/Header";
 import Sidebar from "@/components/Sidebar";
 import StatusCard from "@/components/dashboard/StatusCard";
 import ContractWatchlist from "@/components/dashboard/ContractWatchlist";
 import AIAlertPanel from "@/components/dashboard/AIAlertPanel";
+import IncidentList from "@/components/dashboard/IncidentList";
 import EventLog from "@/components/dashboard/EventLog";
 import ContractScanProgress from "@/components/dashboard/ContractScanProgress";
-import { getContracts, getActiveAlerts, getAiUsage, analyzeContract, getMonitorStatus } from "@/lib/blockchain";
+import ScanTimeline from "@/components/dashboard/ScanTimeline";
+import AiUsageChart from "@/components/dashboard/AiUsageChart";
+import ContractStatusHistory from "@/components/dashboard/ContractStatusHistory";
+import ContractPolicyPanel from "@/components/dashboard/ContractPolicyPanel";
+import { getContracts, getActiveAlerts, getAiUsage, analyzeContract, getMonitorStatus, startScan, getScan, getNetworks, getSettings, updateSettings } from "@/lib/blockchain";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import { queryClient } from "@/lib/queryClient";
-import { Alert } from "@shared/schema";
+import { AiUsageSummary, Alert, MonitorStatus, PublicNetwork, GuardianSettings, SettingsResponse, analysisDepths, severityLevels } from "@shared/schema";
 import { 
   Dialog,
   DialogContent, 
@@ -28,6 +35,7 @@ const ContractScanResults = lazy(() => import('@/components/dashboard/ContractSc
 
 const Dashboard = () => {
   const { toast } = useToast();
+  useLiveUpdates();
   const [isScanning, setIsScanning] = useState(false);
   const [location] = useLocation();
   
@@ -52,16 +60,68 @@ const Dashboard = () => {
     queryFn: getActiveAlerts
   });
   
-  const { data: aiUsage } = useQuery({
+  const { data: aiUsage } = useQuery<AiUsageSummary>({
     queryKey: ['/api/ai/usage'],
     queryFn: getAiUsage
   });
   
-  const { data: monitorStatus } = useQuery({
+  const { data: monitorStatus } = useQuery<MonitorStatus>({
     queryKey: ['/api/monitor/status'],
     queryFn: getMonitorStatus
   });
+  
+  const { data: networkConfig } = useQuery<{ defaultChainId: number; networks: PublicNetwork[] }>({
+    queryKey: ['/api/networks'],
+    queryFn: getNetworks
+  });
 
+  const { hasRole } = useAuth();
+  const canEditSettings = hasRole("admin");
+  
+  const { data: settingsData } = useQuery<SettingsResponse>({
+    queryKey: ['/api/settings'],
+    queryFn: getSettings,
+    enabled: isSettingsPage
+  });
+  
+  // Edited copy of the settings; replaced whenever the server copy changes
+  const [settingsForm, setSettingsForm] = useState<GuardianSettings | null>(null);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  
+  useEffect(() => {
+    if (settingsData) setSettingsForm(settingsData.settings);
+  }, [settingsData]);
+  
+  const updateSettingsField = <K extends keyof GuardianSettings>(key: K, value: GuardianSettings[K]) => {
+    setSettingsForm((form) => form && { ...form, [key]: value });
+  };
+  
+  const handleSaveSettings = async () => {
+    if (!settingsForm) return;
+    
+    setIsSavingSettings(true);
+    try {
+      const saved: SettingsResponse = await updateSettings(settingsForm);
+      queryClient.setQueryData(['/api/settings'], saved);
+      queryClient.invalidateQueries({ queryKey: ['/api/ai/usage'] });
+      
+      toast({
+        title: "Settings Saved",
+        description: "Monitoring and AI settings apply immediately",
+        duration: 3000,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save settings",
+        duration: 3000,
+      });
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+  
   const handleRefresh = () => {
     // Invalidate queries to refresh data
     queryClient.invalidateQueries({ queryKey: ['/api/contracts'] });
@@ -79,14 +139,19 @@ const Dashboard = () => {
   
   const [scanDialogOpen, setScanDialogOpen] = useState(false);
   const [contractAddress, setContractAddress] = useState('');
+  const [scanChainId, setScanChainId] = useState<number | undefined>(undefined);
   const [addressError, setAddressError] = useState('');
   const [scanningState, setScanningState] = useState<'idle' | 'scanning' | 'results'>('idle');
   const [contractSource, setContractSource] = useState<string | null>(null);
   const [scanResults, setScanResults] = useState<any>(null);
+  const [scanId, setScanId] = useState<number | null>(null);
+  const [scanJobId, setScanJobId] = useState<number | null>(null);
+  const [previousScanId, setPreviousScanId] = useState<number | null>(null);
   
   const handleScanButtonClick = () => {
     setScanDialogOpen(true);
     setContractAddress('');
+    setScanChainId(networkConfig?.defaultChainId);
     setAddressError('');
   };
   
@@ -112,23 +177,24 @@ const Dashboard = () => {
     return '';
   };
   
-  const handleQuillScanComplete = async () => {
-    try {
-      // Import and use functions from the quillai.ts
-      const { scanContract, fetchContractSource } = await import('@/lib/quillai');
-      
-      // Fetch contract source code
-      const source = await fetchContractSource(contractAddress);
-      setContractSource(source);
-      
-      // Run the scan and get results
-      const results = await scanContract(contractAddress);
-      setScanResults(results);
-      
-      // Update state to show results
+  // Poll the server-side scan until it completes or fails
+  const { data: scan } = useQuery({
+    queryKey: ['/api/scans', scanId],
+    queryFn: () => getScan(scanId!),
+    enabled: scanId !== null && scanningState === 'scanning',
+    refetchInterval: 1000
+  });
+  
+  useEffect(() => {
+    if (!scan || scanningState !== 'scanning') return;
+    
+    if (scan.status === 'COMPLETED') {
+      setContractSource(scan.sourceCode);
+      setScanResults(scan.result);
+      setPreviousScanId(scan.previousScanId);
       setScanningState('results');
+      setIsScanning(false);
       
-      // Show success notification
       toast({
         title: "Scan completed",
         description: `Security analysis for ${contractAddress.substring(0, 6)}...${contractAddress.substring(38)} is ready`,
@@ -137,18 +203,17 @@ const Dashboard = () => {
       
       // Refresh alerts in case scan generated new alerts
       queryClient.invalidateQueries({ queryKey: ['/api/alerts/active'] });
-    } catch (error) {
+    } else if (scan.status === 'FAILED') {
       toast({
         variant: "destructive",
         title: "Scan failed",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
+        description: scan.error || "Unknown error occurred",
         duration: 3000,
       });
       setScanningState('idle');
-    } finally {
       setIsScanning(false);
     }
-  };
+  }, [scan, scanningState, contractAddress, toast]);
   
   const handleScan = async () => {
     const error = validateAddress(contractAddress);
@@ -160,16 +225,27 @@ const Dashboard = () => {
     setAddressError('');
     setScanDialogOpen(false);
     setIsScanning(true);
-    setScanningState('scanning');
-    
-    // For demo purposes, we're using the Quill.ai contract scanning
-    // This will call handleQuillScanComplete when the scanning process is complete
     
-    toast({
-      title: "Scan initiated",
-      description: `Analyzing contract at ${contractAddress.substring(0, 6)}...${contractAddress.substring(38)}`,
-      duration: 2000,
-    });
+    try {
+      const started = await startScan(contractAddress, scanChainId);
+      setScanId(started.id);
+      setScanJobId(started.jobId);
+      setScanningState('scanning');
+      
+      toast({
+        title: "Scan initiated",
+        description: `Analyzing contract at ${contractAddress.substring(0, 6)}...${contractAddress.substring(38)}`,
+        duration: 2000,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Scan failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        duration: 3000,
+      });
+      setIsScanning(false);
+    }
   };
   
   const resetScanState = () => {
@@ -177,6 +253,9 @@ const Dashboard = () => {
     setContractAddress('');
     setContractSource(null);
     setScanResults(null);
+    setScanId(null);
+    setScanJobId(null);
+    setPreviousScanId(null);
   };
 
   return (
@@ -255,6 +334,20 @@ const Dashboard = () => {
                       {addressError && (
                         <div className="text-xs text-red-400 mt-1">{addressError}</div>
                       )}
+                      {networkConfig && networkConfig.networks.length > 1 && (
+                        <>
+                          <label className="text-sm text-gray-300 block">Network</label>
+                          <select
+                            value={scanChainId ?? networkConfig.defaultChainId}
+                            onChange={(e) => setScanChainId(parseInt(e.target.value, 10))}
+                            className="w-full bg-slate-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-white"
+                          >
+                            {networkConfig.networks.map((network) => (
+                              <option key={network.chainId} value={network.chainId}>{network.name}</option>
+                            ))}
+                          </select>
+                        </>
+                      )}
                     </div>
                     
                     <div className="bg-slate-900/50 rounded-md p-3 mt-4 border border-gray-700">
@@ -309,9 +402,12 @@ const Dashboard = () => {
           </div>
 
           <div className="flex-grow overflow-auto p-4">
-            {/* Quill.ai Contract Scanning States */}
+            {/* Contract Scanning States */}
             {isMainDashboard && scanningState === 'scanning' && (
-              <ContractScanProgress address={contractAddress} onComplete={handleQuillScanComplete} />
+              <ContractScanProgress
+                address={contractAddress}
+                jobId={scanJobId}
+              />
             )}
             
             {isMainDashboard && scanningState === 'results' && scanResults && (
@@ -330,7 +426,11 @@ const Dashboard = () => {
                   </Button>
                 </div>
                 <Suspense fallback={<div className="bg-slate-800 p-8 rounded-lg border border-gray-700 text-center">Loading scan results...</div>}>
-                  <ContractScanResults result={scanResults} sourceCode={contractSource || undefined} />
+                  <ContractScanResults
+                    result={scanResults}
+                    sourceCode={contractSource || undefined}
+                    previousScanId={previousScanId}
+                  />
                 </Suspense>
               </div>
             )}
@@ -388,7 +488,7 @@ const Dashboard = () => {
                     <div className="flex justify-between items-start">
                       <div>
                         <h3 className="text-gray-400 text-sm font-medium">AI Analysis</h3>
-                        <p className="text-xl font-bold text-white mt-1 bg-gradient-to-r from-primary-light to-primary bg-clip-text text-transparent">{aiUsage?.used || 0} Queries</p>
+                        <p className="text-xl font-bold text-white mt-1 bg-gradient-to-r from-primary-light to-primary bg-clip-text text-transparent">{aiUsage?.used.toLocaleString() || 0} Tokens</p>
                       </div>
                       <div className="bg-primary/10 p-2 rounded-full">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-primary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -399,12 +499,12 @@ const Dashboard = () => {
                     <div className="w-full bg-slate-700 rounded-full h-2.5 mt-4 overflow-hidden">
                       <div 
                         className="bg-gradient-to-r from-primary/70 to-primary h-2.5 rounded-full transition-all duration-500 ease-out" 
-                        style={{ width: `${aiUsage?.percentage || 0}%` }}
+                        style={{ width: `${Math.min(100, aiUsage?.percentage || 0)}%` }}
                       ></div>
                     </div>
                     <div className="mt-1 text-xs text-gray-400 flex justify-between">
-                      <span>{aiUsage?.used.toLocaleString() || 0} used</span>
-                      <span>{aiUsage?.percentage.toFixed(1) || 0}% of quota</span>
+                      <span>{aiUsage?.used.toLocaleString() || 0} tokens today</span>
+                      <span>{aiUsage?.percentage.toFixed(1) || 0}% of daily limit</span>
                     </div>
                   </div>
                 </div>
@@ -427,7 +527,10 @@ const Dashboard = () => {
                   </svg>
                   Security Alerts
                 </h2>
-                <AIAlertPanel fullSize={true} />
+                <div className="space-y-6">
+                  <IncidentList />
+                  <AIAlertPanel fullSize={true} />
+                </div>
               </div>
             )}
             
@@ -456,35 +559,55 @@ const Dashboard = () => {
                       <h3 className="text-lg font-medium text-white">AI Usage Statistics</h3>
                     </div>
                     
-                    <div className="w-full bg-slate-700 rounded-full h-3 mt-3 mb-5 overflow-hidden">
-                      <div 
-                        className="bg-gradient-to-r from-primary/70 to-primary h-3 rounded-full transition-all duration-500 ease-out" 
-                        style={{ width: `${aiUsage?.percentage || 0}%` }}
-                      ></div>
-                    </div>
+                    {aiUsage?.exhausted && (
+                      <div className="bg-amber-900/20 text-amber-300 border border-amber-700/30 rounded-md px-3 py-2 text-xs mb-3">
+                        {aiUsage.exhausted}. AI analysis is paused until usage drops below the limit.
+                      </div>
+                    )}
                     
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-2">
+                    {([['Last 24 hours', aiUsage?.daily], ['Last 30 days', aiUsage?.monthly]] as const).map(([label, window]) => (
+                      <div key={label} className="mb-3">
+                        <div className="flex justify-between text-xs text-gray-400 mb-1">
+                          <span>{label}</span>
+                          <span>{window?.used.toLocaleString() || 0} / {window?.limit.toLocaleString() || 0} tokens</span>
+                        </div>
+                        <div className="w-full bg-slate-800 rounded-full h-3 overflow-hidden">
+                          <div 
+                            className="bg-gradient-to-r from-primary/70 to-primary h-3 rounded-full transition-all duration-500 ease-out" 
+                            style={{ width: `${Math.min(100, window?.percentage || 0)}%` }}
+                          ></div>
+                        </div>
+                      </div>
+                    ))}
+                    
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-4 mb-4">
                       <div className="bg-slate-800 p-4 rounded-lg text-center border border-slate-700">
                         <div className="text-3xl font-bold text-white bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
-                          {aiUsage?.used.toLocaleString() || 0}
+                          {aiUsage?.features.CONTRACT_ANALYSIS.used.toLocaleString() || 0}
+                        </div>
+                        <div className="text-xs text-gray-400 mt-1">
+                          Contract Analysis (24h){aiUsage?.features.CONTRACT_ANALYSIS.quota != null && ` of ${aiUsage.features.CONTRACT_ANALYSIS.quota.toLocaleString()}`}
                         </div>
-                        <div className="text-xs text-gray-400 mt-1">Queries Used</div>
                       </div>
                       
                       <div className="bg-slate-800 p-4 rounded-lg text-center border border-slate-700">
                         <div className="text-3xl font-bold text-white bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
-                          {aiUsage?.limit.toLocaleString() || 100000}
+                          {aiUsage?.features.EVENT_ANALYSIS.used.toLocaleString() || 0}
+                        </div>
+                        <div className="text-xs text-gray-400 mt-1">
+                          Event Analysis (24h){aiUsage?.features.EVENT_ANALYSIS.quota != null && ` of ${aiUsage.features.EVENT_ANALYSIS.quota.toLocaleString()}`}
                         </div>
-                        <div className="text-xs text-gray-400 mt-1">Total Quota</div>
                       </div>
                       
                       <div className="bg-slate-800 p-4 rounded-lg text-center border border-slate-700">
                         <div className="text-3xl font-bold text-white bg-gradient-to-r from-primary to-primary-light bg-clip-text text-transparent">
-                          {aiUsage?.percentage.toFixed(1) || 0}%
+                          ${(aiUsage?.monthly.estimatedCost ?? 0).toFixed(2)}
                         </div>
-                        <div className="text-xs text-gray-400 mt-1">Utilization</div>
+                        <div className="text-xs text-gray-400 mt-1">Estimated Cost (30d)</div>
                       </div>
                     </div>
+                    
+                    <AiUsageChart />
                   </div>
                   
                   <div className="bg-slate-700 p-5 rounded-lg border border-slate-600 hover:shadow-md transition-all duration-200 hover:border-slate-500">
@@ -628,6 +751,21 @@ const Dashboard = () => {
                           </span>
                         </div>
                       </div>
+                      
+                      <div className="mt-4">
+                        <h4 className="text-sm font-medium text-white mb-2">Scan History</h4>
+                        <ScanTimeline contractId={contract.id} />
+                      </div>
+                      
+                      <div className="mt-4">
+                        <h4 className="text-sm font-medium text-white mb-2">Status History</h4>
+                        <ContractStatusHistory contractId={contract.id} />
+                      </div>
+                      
+                      <div className="mt-4">
+                        <h4 className="text-sm font-medium text-white mb-2">Monitoring Policy</h4>
+                        <ContractPolicyPanel contractId={contract.id} />
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -687,30 +825,67 @@ const Dashboard = () => {
                       
                       <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
                         <div className="flex flex-col">
-                          <span className="text-white font-medium">AI Analysis Frequency</span>
-                          <span className="text-xs text-gray-400">How often contracts are analyzed</span>
+                          <span className="text-white font-medium">Event Source</span>
+                          <span className="text-xs text-gray-400">
+                            {monitorStatus?.demoMode ? 'Simulated chain; set DEMO_MODE=false to use RPC endpoints' : 'Configured RPC endpoints'}
+                          </span>
                         </div>
                         <Button 
                           variant="outline" 
                           size="sm"
-                          className="border-primary text-primary hover:bg-primary/20"
+                          className={`${monitorStatus?.demoMode ? 'border-amber-500 text-amber-300 hover:bg-amber-500/20' : 'border-secondary text-secondary hover:bg-secondary/20'}`}
                         >
-                          Every 4 hours
+                          {monitorStatus?.demoMode ? "Demo" : "Live"}
                         </Button>
                       </div>
                       
+                      <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
+                        <div className="flex flex-col">
+                          <span className="text-white font-medium">Security Check Frequency</span>
+                          <span className="text-xs text-gray-400">Minutes between health checks, unless a contract's policy overrides it</span>
+                        </div>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={1440}
+                          value={settingsForm?.securityCheckIntervalMinutes ?? ''}
+                          onChange={(e) => updateSettingsField('securityCheckIntervalMinutes', parseInt(e.target.value, 10) || 0)}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-28 bg-slate-900 border-gray-700 text-white text-right"
+                        />
+                      </div>
+                      
+                      <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
+                        <div className="flex flex-col">
+                          <span className="text-white font-medium">AI Analysis Frequency</span>
+                          <span className="text-xs text-gray-400">Minutes between AI analyses, unless a contract's policy overrides it</span>
+                        </div>
+                        <Input
+                          type="number"
+                          min={5}
+                          max={10080}
+                          value={settingsForm?.aiAnalysisIntervalMinutes ?? ''}
+                          onChange={(e) => updateSettingsField('aiAnalysisIntervalMinutes', parseInt(e.target.value, 10) || 0)}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-28 bg-slate-900 border-gray-700 text-white text-right"
+                        />
+                      </div>
+                      
                       <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
                         <div className="flex flex-col">
                           <span className="text-white font-medium">Alert Severity Threshold</span>
                           <span className="text-xs text-gray-400">Minimum level for notifications</span>
                         </div>
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          className="border-accent text-accent hover:bg-accent/20"
+                        <select
+                          value={settingsForm?.alertSeverityThreshold ?? ''}
+                          onChange={(e) => updateSettingsField('alertSeverityThreshold', e.target.value as GuardianSettings['alertSeverityThreshold'])}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-28 bg-slate-900 border border-gray-700 rounded-md px-2 py-2 text-sm text-white disabled:opacity-50"
                         >
-                          Medium
-                        </Button>
+                          {severityLevels.map((level) => (
+                            <option key={level} value={level}>{level.charAt(0) + level.slice(1).toLowerCase()}</option>
+                          ))}
+                        </select>
                       </div>
                     </div>
                   </div>
@@ -729,15 +904,42 @@ const Dashboard = () => {
                       <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
                         <div className="flex flex-col">
                           <span className="text-white font-medium">AI Model</span>
-                          <span className="text-xs text-gray-400">AI model used for analysis</span>
+                          <span className="text-xs text-gray-400">Default model for all AI work</span>
                         </div>
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          className="border-primary text-primary hover:bg-primary/20"
-                        >
-                          LLama3-8b-8192
-                        </Button>
+                        <Input
+                          value={settingsForm?.aiModel ?? ''}
+                          onChange={(e) => updateSettingsField('aiModel', e.target.value)}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-44 bg-slate-900 border-gray-700 text-white"
+                        />
+                      </div>
+                      
+                      <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
+                        <div className="flex flex-col">
+                          <span className="text-white font-medium">Contract Analysis Model</span>
+                          <span className="text-xs text-gray-400">Model for contract audits; empty for the default</span>
+                        </div>
+                        <Input
+                          placeholder="Default model"
+                          value={settingsForm?.contractAnalysisModel ?? ''}
+                          onChange={(e) => updateSettingsField('contractAnalysisModel', e.target.value.trim() === '' ? null : e.target.value)}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-44 bg-slate-900 border-gray-700 text-white"
+                        />
+                      </div>
+                      
+                      <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
+                        <div className="flex flex-col">
+                          <span className="text-white font-medium">Event Analysis Model</span>
+                          <span className="text-xs text-gray-400">Model for event triage; empty for the default</span>
+                        </div>
+                        <Input
+                          placeholder="Default model"
+                          value={settingsForm?.eventAnalysisModel ?? ''}
+                          onChange={(e) => updateSettingsField('eventAnalysisModel', e.target.value.trim() === '' ? null : e.target.value)}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-44 bg-slate-900 border-gray-700 text-white"
+                        />
                       </div>
                       
                       <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
@@ -745,44 +947,126 @@ const Dashboard = () => {
                           <span className="text-white font-medium">Analysis Depth</span>
                           <span className="text-xs text-gray-400">Contract inspection detail level</span>
                         </div>
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          className="border-primary text-primary hover:bg-primary/20"
+                        <select
+                          value={settingsForm?.analysisDepth ?? ''}
+                          onChange={(e) => updateSettingsField('analysisDepth', e.target.value as GuardianSettings['analysisDepth'])}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-44 bg-slate-900 border border-gray-700 rounded-md px-2 py-2 text-sm text-white disabled:opacity-50"
                         >
-                          Comprehensive
-                        </Button>
+                          {analysisDepths.map((depth) => (
+                            <option key={depth} value={depth}>{depth.charAt(0) + depth.slice(1).toLowerCase()}</option>
+                          ))}
+                        </select>
+                      </div>
+                      
+                      <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
+                        <div className="flex flex-col">
+                          <span className="text-white font-medium">Daily Token Limit</span>
+                          <span className="text-xs text-gray-400">Tokens per rolling 24 hours; AI analysis pauses once reached</span>
+                        </div>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={1000}
+                          value={settingsForm?.dailyTokenLimit ?? ''}
+                          onChange={(e) => updateSettingsField('dailyTokenLimit', parseInt(e.target.value, 10) || 0)}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-44 bg-slate-900 border-gray-700 text-white text-right"
+                        />
+                      </div>
+                      
+                      <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
+                        <div className="flex flex-col">
+                          <span className="text-white font-medium">Monthly Token Limit</span>
+                          <span className="text-xs text-gray-400">Tokens per rolling 30 days</span>
+                        </div>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={10000}
+                          value={settingsForm?.monthlyTokenLimit ?? ''}
+                          onChange={(e) => updateSettingsField('monthlyTokenLimit', parseInt(e.target.value, 10) || 0)}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-44 bg-slate-900 border-gray-700 text-white text-right"
+                        />
                       </div>
                       
                       <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
                         <div className="flex flex-col">
-                          <span className="text-white font-medium">API Key Status</span>
-                          <span className="text-xs text-gray-400">Groq API key configuration</span>
+                          <span className="text-white font-medium">Contract Analysis Quota</span>
+                          <span className="text-xs text-gray-400">Daily tokens for contract analyses; empty for no cap</span>
+                        </div>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={1000}
+                          placeholder="No cap"
+                          value={settingsForm?.contractAnalysisTokenQuota ?? ''}
+                          onChange={(e) => updateSettingsField('contractAnalysisTokenQuota', e.target.value === '' ? null : parseInt(e.target.value, 10) || 0)}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-44 bg-slate-900 border-gray-700 text-white text-right"
+                        />
+                      </div>
+                      
+                      <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
+                        <div className="flex flex-col">
+                          <span className="text-white font-medium">Event Analysis Quota</span>
+                          <span className="text-xs text-gray-400">Daily tokens for event analyses; empty for no cap</span>
+                        </div>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={1000}
+                          placeholder="No cap"
+                          value={settingsForm?.eventAnalysisTokenQuota ?? ''}
+                          onChange={(e) => updateSettingsField('eventAnalysisTokenQuota', e.target.value === '' ? null : parseInt(e.target.value, 10) || 0)}
+                          disabled={!settingsForm || !canEditSettings}
+                          className="w-44 bg-slate-900 border-gray-700 text-white text-right"
+                        />
+                      </div>
+                      
+                      <div className="flex items-center justify-between bg-slate-800 p-3 rounded-md">
+                        <div className="flex flex-col">
+                          <span className="text-white font-medium">AI Provider</span>
+                          <span className="text-xs text-gray-400">{settingsData ? `${settingsData.aiProvider} endpoint and API key` : 'Endpoint and API key'}, set through AI_PROVIDER</span>
                         </div>
                         <Button 
                           variant="outline" 
                           size="sm"
-                          className="border-alert text-alert hover:bg-alert/20"
+                          className={`${settingsData?.aiConfigured ? 'border-secondary text-secondary hover:bg-secondary/20' : 'border-alert text-alert hover:bg-alert/20'}`}
                         >
-                          Not Set
+                          {settingsData?.aiConfigured ? "Configured" : "Not Set"}
                         </Button>
                       </div>
                     </div>
                   </div>
                 </div>
                 
-                <div className="mt-6 flex justify-end">
-                  <Button 
-                    variant="outline"
-                    className="mr-2 border-gray-600 text-gray-400 hover:bg-gray-700 hover:text-white"
-                  >
-                    Reset to Defaults
-                  </Button>
-                  <Button 
-                    className="bg-primary hover:bg-primary-dark text-white"
-                  >
-                    Save Settings
-                  </Button>
+                <div className="mt-6 flex justify-end items-center">
+                  {settingsData?.updatedAt && (
+                    <span className="mr-auto text-xs text-gray-500">
+                      Last saved {new Date(settingsData.updatedAt).toLocaleString()}
+                    </span>
+                  )}
+                  {canEditSettings && (
+                    <>
+                      <Button 
+                        variant="outline"
+                        className="mr-2 border-gray-600 text-gray-400 hover:bg-gray-700 hover:text-white"
+                        onClick={() => settingsData && setSettingsForm(settingsData.defaults)}
+                        disabled={!settingsData || isSavingSettings}
+                      >
+                        Reset to Defaults
+                      </Button>
+                      <Button 
+                        className="bg-primary hover:bg-primary-dark text-white"
+                        onClick={handleSaveSettings}
+                        disabled={!settingsForm || isSavingSettings}
+                      >
+                        {isSavingSettings ? "Saving..." : "Save Settings"}
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
             )}
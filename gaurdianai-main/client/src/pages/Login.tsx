@@ -0,0 +1,125 @@
+import { useState, type FormEvent } from "react";
+import { useLocation } from "wouter";
+import { login, siweLogin } from "@/lib/blockchain";
+import { signSiweMessage } from "@/lib/wallet";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const Login = () => {
+  const [, setLocation] = useLocation();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  
+  const signedIn = (user: unknown) => {
+    // Anything fetched while signed out was a 401, so start from a clean cache
+    queryClient.clear();
+    queryClient.setQueryData(['/api/auth/me'], user);
+    setLocation("/");
+  };
+  
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    
+    try {
+      const { user } = await login(username, password);
+      signedIn(user);
+    } catch (err) {
+      setError(err instanceof Error && err.message.startsWith("401")
+        ? "Invalid username or password"
+        : "Could not sign in. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  const handleWalletSignIn = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    
+    try {
+      const { message, signature } = await signSiweMessage("Sign in to Guardian AI");
+      const { user } = await siweLogin(message, signature);
+      signedIn(user);
+    } catch (err) {
+      // Server errors arrive as "401: {"message":"..."}"
+      const text = err instanceof Error ? err.message : String(err);
+      const match = text.match(/"message":"([^"]+)"/);
+      setError(match ? match[1] : text);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <div className="bg-slate-900 text-gray-100 min-h-screen font-sans flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm bg-slate-800 border-gray-700 text-white">
+        <CardHeader>
+          <CardTitle className="text-primary text-2xl">👾 Guardian AI</CardTitle>
+          <CardDescription className="text-gray-400">Sign in to the monitoring dashboard</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="bg-slate-900 border-gray-700"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="bg-slate-900 border-gray-700"
+                required
+              />
+            </div>
+            
+            {error && <div className="text-sm text-alert-light">{error}</div>}
+            
+            <Button
+              type="submit"
+              className="w-full bg-primary hover:bg-primary-dark"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? "Signing in..." : "Sign in"}
+            </Button>
+          </form>
+          
+          <div className="flex items-center my-4 text-xs text-gray-500">
+            <div className="flex-grow border-t border-gray-700"></div>
+            <span className="px-2">or</span>
+            <div className="flex-grow border-t border-gray-700"></div>
+          </div>
+          
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full border-gray-700 text-gray-300 hover:text-white hover:bg-gray-700"
+            onClick={handleWalletSignIn}
+            disabled={isSubmitting}
+          >
+            Sign in with MetaMask
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,27 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { logout } from "@/lib/blockchain";
+import { queryClient } from "@/lib/queryClient";
+
+// End the session, drop everything cached for the user and go back to the login page
+const Logout = () => {
+  const [, setLocation] = useLocation();
+  
+  useEffect(() => {
+    logout()
+      .catch(() => undefined) // An expired session is already signed out
+      .finally(() => {
+        queryClient.clear();
+        queryClient.setQueryData(['/api/auth/me'], null);
+        setLocation("/login");
+      });
+  }, [setLocation]);
+  
+  return (
+    <div className="bg-slate-900 text-gray-400 min-h-screen font-sans flex items-center justify-center text-sm">
+      Signing out...
+    </div>
+  );
+};
+
+export default Logout;
@@ -0,0 +1,51 @@
+CREATE TABLE "ai_queries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contract_id" integer NOT NULL,
+	"query" text NOT NULL,
+	"response" text,
+	"token_count" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "alerts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contract_id" integer NOT NULL,
+	"severity" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"ai_analysis" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"resolved" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "contracts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"address" text NOT NULL,
+	"type" text NOT NULL,
+	"abi" jsonb,
+	"status" text DEFAULT 'HEALTHY' NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "contracts_address_unique" UNIQUE("address")
+);
+--> statement-breakpoint
+CREATE TABLE "events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contract_id" integer NOT NULL,
+	"event_name" text NOT NULL,
+	"block_number" integer NOT NULL,
+	"transaction_hash" text NOT NULL,
+	"event_data" jsonb NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "ai_queries" ADD CONSTRAINT "ai_queries_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "ai_queries" DROP CONSTRAINT "ai_queries_contract_id_contracts_id_fk";
+--> statement-breakpoint
+ALTER TABLE "alerts" DROP CONSTRAINT "alerts_contract_id_contracts_id_fk";
+--> statement-breakpoint
+ALTER TABLE "events" DROP CONSTRAINT "events_contract_id_contracts_id_fk";
+--> statement-breakpoint
+ALTER TABLE "ai_queries" ADD CONSTRAINT "ai_queries_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "events" ADD CONSTRAINT "events_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
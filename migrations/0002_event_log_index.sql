@@ -0,0 +1,2 @@
+ALTER TABLE "events" ADD COLUMN "log_index" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "events_contract_log_idx" ON "events" USING btree ("contract_id","transaction_hash","log_index");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "alerts" ADD COLUMN "event_id" integer;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "block_hash" text;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "confirmed" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contract_id" integer,
+	"name" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"event_names" jsonb NOT NULL,
+	"conditions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"window_seconds" integer NOT NULL,
+	"threshold" integer DEFAULT 1 NOT NULL,
+	"severity" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rules" ADD CONSTRAINT "rules_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ai_queries" ALTER COLUMN "contract_id" DROP NOT NULL;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "scans" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contract_id" integer,
+	"address" text NOT NULL,
+	"status" text DEFAULT 'RUNNING' NOT NULL,
+	"overall_score" real,
+	"critical_count" integer DEFAULT 0 NOT NULL,
+	"high_count" integer DEFAULT 0 NOT NULL,
+	"medium_count" integer DEFAULT 0 NOT NULL,
+	"low_count" integer DEFAULT 0 NOT NULL,
+	"info_count" integer DEFAULT 0 NOT NULL,
+	"findings" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"gas_suggestions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"audit_summary" text,
+	"source_hash" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "scans" ADD CONSTRAINT "scans_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scans_contract_created_idx" ON "scans" USING btree ("contract_id","created_at");
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "alert_comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"alert_id" integer NOT NULL,
+	"user_id" integer,
+	"parent_id" integer,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "alert_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"alert_id" integer NOT NULL,
+	"user_id" integer,
+	"action" text NOT NULL,
+	"from_status" text,
+	"to_status" text,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "alerts" ADD COLUMN "status" text DEFAULT 'OPEN' NOT NULL;--> statement-breakpoint
+ALTER TABLE "alerts" ADD COLUMN "assignee_id" integer;--> statement-breakpoint
+ALTER TABLE "alerts" ADD COLUMN "resolution_note" text;--> statement-breakpoint
+ALTER TABLE "alerts" ADD COLUMN "resolved_at" timestamp;--> statement-breakpoint
+ALTER TABLE "alert_comments" ADD CONSTRAINT "alert_comments_alert_id_alerts_id_fk" FOREIGN KEY ("alert_id") REFERENCES "public"."alerts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_comments" ADD CONSTRAINT "alert_comments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_comments" ADD CONSTRAINT "alert_comments_parent_id_alert_comments_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."alert_comments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_history" ADD CONSTRAINT "alert_history_alert_id_alerts_id_fk" FOREIGN KEY ("alert_id") REFERENCES "public"."alerts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_history" ADD CONSTRAINT "alert_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_comments_alert_idx" ON "alert_comments" USING btree ("alert_id","created_at");--> statement-breakpoint
+CREATE INDEX "alert_history_alert_idx" ON "alert_history" USING btree ("alert_id","created_at");--> statement-breakpoint
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_assignee_id_users_id_fk" FOREIGN KEY ("assignee_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alerts_status_idx" ON "alerts" USING btree ("status");--> statement-breakpoint
+UPDATE "alerts" SET "status" = 'RESOLVED', "resolved_at" = now() WHERE "resolved";--> statement-breakpoint
+INSERT INTO "alert_history" ("alert_id", "action", "to_status", "created_at") SELECT "id", 'CREATED', 'OPEN', "created_at" FROM "alerts";--> statement-breakpoint
+INSERT INTO "alert_history" ("alert_id", "action", "from_status", "to_status", "note") SELECT "id", 'STATUS_CHANGED', 'OPEN', 'RESOLVED', 'Resolved before alert history was recorded' FROM "alerts" WHERE "resolved";--> statement-breakpoint
+ALTER TABLE "alerts" DROP COLUMN "resolved";
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "incidents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contract_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"severity" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_alert_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "alerts" ADD COLUMN "dedup_key" text;--> statement-breakpoint
+ALTER TABLE "alerts" ADD COLUMN "occurrences" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "alerts" ADD COLUMN "last_seen_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "alerts" ADD COLUMN "incident_id" integer;--> statement-breakpoint
+UPDATE "alerts" SET "last_seen_at" = "created_at";--> statement-breakpoint
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "incidents_contract_idx" ON "incidents" USING btree ("contract_id","last_alert_at");--> statement-breakpoint
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_incident_id_incidents_id_fk" FOREIGN KEY ("incident_id") REFERENCES "public"."incidents"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alerts_dedup_key_idx" ON "alerts" USING btree ("dedup_key");--> statement-breakpoint
+CREATE INDEX "alerts_incident_idx" ON "alerts" USING btree ("incident_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "contract_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contract_id" integer NOT NULL,
+	"from_status" text NOT NULL,
+	"to_status" text NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "health_check" text;--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "health_checked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "contract_status_history" ADD CONSTRAINT "contract_status_history_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contract_status_history_contract_idx" ON "contract_status_history" USING btree ("contract_id","created_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "contracts" DROP CONSTRAINT "contracts_address_unique";--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "chain_id" integer DEFAULT 1868 NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "chain_id" integer DEFAULT 1868 NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "contracts_chain_address_idx" ON "contracts" USING btree ("chain_id","address");
\ No newline at end of file
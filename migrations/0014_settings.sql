@@ -0,0 +1,13 @@
+CREATE TABLE "settings" (
+	"id" integer PRIMARY KEY NOT NULL,
+	"security_check_interval_minutes" integer NOT NULL,
+	"ai_analysis_interval_minutes" integer NOT NULL,
+	"alert_severity_threshold" text NOT NULL,
+	"ai_model" text NOT NULL,
+	"analysis_depth" text NOT NULL,
+	"daily_token_limit" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" integer
+);
+--> statement-breakpoint
+ALTER TABLE "settings" ADD CONSTRAINT "settings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
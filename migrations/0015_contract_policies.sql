@@ -0,0 +1 @@
+ALTER TABLE "contracts" ADD COLUMN "policy" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
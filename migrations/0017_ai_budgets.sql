@@ -0,0 +1,6 @@
+ALTER TABLE "ai_queries" ADD COLUMN "feature" text;--> statement-breakpoint
+ALTER TABLE "ai_queries" ADD COLUMN "model" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "monthly_token_limit" integer DEFAULT 3000000 NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "contract_analysis_token_quota" integer;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "event_analysis_token_quota" integer;--> statement-breakpoint
+CREATE INDEX "ai_queries_created_idx" ON "ai_queries" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "ai_queries" ADD COLUMN "provider" text;--> statement-breakpoint
+ALTER TABLE "ai_queries" ADD COLUMN "prompt_tokens" integer;--> statement-breakpoint
+ALTER TABLE "ai_queries" ADD COLUMN "completion_tokens" integer;--> statement-breakpoint
+ALTER TABLE "ai_queries" ADD COLUMN "estimated_cost" real;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "contract_analysis_model" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "event_analysis_model" text;
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- The proposal participation check moved from MonitorService into a default rule. Fresh
+-- databases get it when the default rules are seeded into the empty table; databases that
+-- were already seeded get it here.
+INSERT INTO "rules" ("contract_id", "name", "description", "event_names", "conditions", "window_seconds", "threshold", "severity")
+SELECT NULL, 'Proposal executed with low participation', 'A proposal was executed after votes from fewer than 3 distinct addresses. A lowered quorum or concentrated voting power may have let it pass unchallenged.', '["ProposalExecuted"]'::jsonb, '[{"count":{"eventNames":["Vote"],"matchArg":"proposalId","distinctArg":"voter"},"op":"lt","value":3}]'::jsonb, 60, 1, 'HIGH'
+WHERE EXISTS (SELECT 1 FROM "rules");
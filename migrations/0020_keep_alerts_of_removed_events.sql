@@ -0,0 +1,3 @@
+ALTER TABLE "alerts" DROP CONSTRAINT "alerts_event_id_events_id_fk";
+--> statement-breakpoint
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "ai_queries" DROP CONSTRAINT "ai_queries_contract_id_contracts_id_fk";
+--> statement-breakpoint
+ALTER TABLE "ai_queries" ADD CONSTRAINT "ai_queries_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
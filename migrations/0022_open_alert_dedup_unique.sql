@@ -0,0 +1,4 @@
+-- Open alerts duplicated before the unique index stay, but only the newest (which repeats were counted on) keeps its key
+UPDATE "alerts" SET "dedup_key" = NULL WHERE "dedup_key" IS NOT NULL AND "status" not in ('RESOLVED', 'FALSE_POSITIVE') AND "id" NOT IN (SELECT max("id") FROM "alerts" WHERE "dedup_key" IS NOT NULL AND "status" not in ('RESOLVED', 'FALSE_POSITIVE') GROUP BY "dedup_key");--> statement-breakpoint
+DROP INDEX "alerts_dedup_key_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "alerts_open_dedup_key_idx" ON "alerts" USING btree ("dedup_key") WHERE "alerts"."status" not in ('RESOLVED', 'FALSE_POSITIVE');
@@ -0,0 +1,3 @@
+-- Count conditions now only count events within the rule's window, so the participation rule's
+-- window has to span a voting period. Rules an admin already changed are left alone.
+UPDATE "rules" SET "window_seconds" = 604800 WHERE "contract_id" IS NULL AND "name" = 'Proposal executed with low participation' AND "window_seconds" = 60;
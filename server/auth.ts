@@ -0,0 +1,155 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { userRoles, type PublicUser, type User, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: PublicUser;
+      sessionId?: string;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SESSION_COOKIE = "guardian_session";
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_HOURS || "168", 10) * 60 * 60 * 1000;
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt>$<key>", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Session token from "Authorization: Bearer <token>" (API clients) or the session cookie (browser)
+function readToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice(7).trim();
+
+  for (const pair of (req.headers.cookie || "").split(";")) {
+    const [name, ...value] = pair.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+
+  return undefined;
+}
+
+// Start a session for the user, set the cookie and return the token for non-browser clients.
+// Wallet sign-ins pass the address so the session ends if that wallet is unlinked.
+export async function createSession(res: Response, user: User, address?: string): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await storage.createSession({ id: hashToken(token), userId: user.id, address, expiresAt });
+
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    expires: expiresAt,
+    path: "/"
+  });
+
+  return token;
+}
+
+export async function destroySession(req: Request, res: Response): Promise<void> {
+  if (req.sessionId) await storage.deleteSession(req.sessionId);
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+}
+
+// Attach req.user when the request carries a valid session; never rejects on its own
+export const authenticate: RequestHandler = async (req: Request, _res: Response, next: NextFunction) => {
+  try {
+    const token = readToken(req);
+    if (!token) return next();
+
+    const sessionId = hashToken(token);
+    const session = await storage.getSession(sessionId);
+    if (!session) return next();
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await storage.deleteSession(sessionId);
+      return next();
+    }
+
+    if (session.address) {
+      const wallet = await storage.getWalletByAddress(session.address);
+      if (!wallet || wallet.userId !== session.userId) {
+        await storage.deleteSession(sessionId);
+        return next();
+      }
+    }
+
+    const user = await storage.getUser(session.userId);
+    if (user) {
+      req.user = toPublicUser(user);
+      req.sessionId = sessionId;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export function hasRole(user: PublicUser, role: UserRole): boolean {
+  const roles: readonly string[] = userRoles;
+  return roles.indexOf(user.role) >= roles.indexOf(role);
+}
+
+// 401 without a session, 403 when the user's role is below the one required
+export function requireRole(role: UserRole): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ message: `Requires ${role} role` });
+    }
+
+    next();
+  };
+}
+
+// A fresh store has no users, so create the first admin from ADMIN_USERNAME/ADMIN_PASSWORD,
+// or with a generated password that is printed once
+export async function ensureAdminUser(): Promise<void> {
+  const existing = await storage.getUsers();
+  if (existing.length > 0) return;
+
+  const username = process.env.ADMIN_USERNAME || "admin";
+  const password = process.env.ADMIN_PASSWORD || randomBytes(12).toString("base64url");
+
+  await storage.createUser({ username, password: await hashPassword(password), role: "admin" });
+
+  if (process.env.ADMIN_PASSWORD) {
+    console.log(`Created admin user "${username}"`);
+  } else {
+    console.log(`Created admin user "${username}" with password: ${password} (set ADMIN_PASSWORD to choose one)`);
+  }
+}
@@ -0,0 +1,15 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Create a Drizzle client from a connection string or an existing pool
+// (e.g. one pointed at a local Postgres instance for testing)
+export function createDb(connection: string | pg.Pool): Database {
+  const pool = typeof connection === "string"
+    ? new pg.Pool({ connectionString: connection })
+    : connection;
+
+  return drizzle(pool, { schema });
+}
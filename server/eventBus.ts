@@ -0,0 +1,21 @@
+import { EventEmitter } from "events";
+import type { Alert, Contract, Event, GuardianSettings, Job, NetworkHealth } from "@shared/schema";
+
+// In-process notifications passed between services and pushed to clients over /api/stream
+export interface GuardianEvents {
+  "event.created": [event: Event];
+  "event.confirmed": [event: Event];
+  "event.removed": [event: Event]; // Orphaned by a reorg; alerts derived from it were resolved
+  "alert.created": [alert: Alert];
+  "alert.updated": [alert: Alert]; // Any lifecycle change: status, assignee, reopen
+  "alert.resolved": [alert: Alert];
+  "contract.status": [contract: Contract];
+  "network.health": [health: NetworkHealth]; // Status or active RPC endpoint of a network changed
+  "settings.updated": [settings: GuardianSettings];
+  "job.updated": [job: Job]; // Queued, progressed, retried or finished
+}
+
+export const eventBus = new EventEmitter<GuardianEvents>();
+
+// Every connected stream client adds its own listeners
+eventBus.setMaxListeners(0);
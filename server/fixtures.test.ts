@@ -0,0 +1,138 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import ganache from "ganache";
+import { ethers } from "ethers";
+import { deployGuardianContracts, FRESH_NODE_ADDRESSES } from "../fixtures/deploy";
+import { GuardianApi, runScenario } from "../fixtures/runner";
+import { scenarios } from "../fixtures/scenarios";
+import type { BackfillProgress } from "./services/blockchain";
+import type { Contract, Event } from "@shared/schema";
+
+// The default Anvil and Hardhat mnemonic, so the first account deploys to FRESH_NODE_ADDRESSES
+const MNEMONIC = "test test test test test test test test test test test junk";
+const USERNAME = "fixtures";
+const PASSWORD = "fixtures-password";
+
+// Proposals created before the server starts, which only a backfill can pick up
+const EARLY_PROPOSALS = 3;
+
+const node = ganache.server({ logging: { quiet: true }, wallet: { mnemonic: MNEMONIC }, chain: { chainId: 31337 } });
+let provider: ethers.JsonRpcProvider;
+let server: Server;
+let apiUrl: string;
+
+async function send(contract: ethers.Contract, method: string, ...args: unknown[]): Promise<void> {
+  const tx: ethers.TransactionResponse = await contract[method](...args);
+  await tx.wait();
+}
+
+// POST as the fixture user; GuardianApi only reads
+async function post(path: string, body: unknown): Promise<Response> {
+  const login = await fetch(`${apiUrl}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: USERNAME, password: PASSWORD })
+  });
+  const { token } = await login.json() as { token: string };
+
+  return fetch(`${apiUrl}${path}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+}
+
+// Wait until `read` returns something other than undefined
+async function eventually<T>(read: () => Promise<T | undefined>): Promise<T> {
+  const deadline = Date.now() + 10000;
+  while (Date.now() < deadline) {
+    const value = await read();
+    if (value !== undefined) return value;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error("Timed out");
+}
+
+before(async () => {
+  await node.listen(0);
+  const rpcUrl = `http://127.0.0.1:${(node.address() as AddressInfo).port}`;
+
+  // Read when the server modules load: watch the local node, confirm events quickly and
+  // backfill from genesis in small chunks
+  process.env.CHAIN_ID = "31337";
+  process.env.RPC_URL = rpcUrl;
+  process.env.RECONCILE_INTERVAL_MS = "500";
+  process.env.BACKFILL_START_BLOCK = "0";
+  process.env.BACKFILL_CHUNK_SIZE = "2";
+  process.env.ADMIN_USERNAME = USERNAME;
+  process.env.ADMIN_PASSWORD = PASSWORD;
+
+  provider = new ethers.JsonRpcProvider(rpcUrl, 31337, { staticNetwork: true, pollingInterval: 250 });
+  const deployment = await deployGuardianContracts(await provider.getSigner(0));
+  assert.equal(await deployment.badge.getAddress(), FRESH_NODE_ADDRESSES.badge);
+  for (let i = 0; i < EARLY_PROPOSALS; i++) {
+    await send(deployment.dao, "propose", `Proposal ${i} made while the server was down`);
+  }
+
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  const { monitorService } = await import("./services/monitor");
+  await monitorService.stop();
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  provider.destroy();
+  await node.close();
+});
+
+describe("fixture scenarios", () => {
+  it("rejects a login with the wrong password", async () => {
+    await assert.rejects(GuardianApi.login(apiUrl, USERNAME, "wrong"), /failed with 401/);
+  });
+
+  it("raises the alert a scenario expects on the server", { timeout: 60000 }, async () => {
+    const api = await GuardianApi.login(apiUrl, USERNAME, PASSWORD);
+    const scenario = scenarios.find((candidate) => candidate.name === "mass-badge-claims")!;
+
+    assert.equal(await runScenario(scenario, provider, api, FRESH_NODE_ADDRESSES, 45000), true);
+  });
+});
+
+describe("event backfill", () => {
+  it("stores the events emitted before the server started, once", async () => {
+    const api = await GuardianApi.login(apiUrl, USERNAME, PASSWORD);
+    const dao = (await api.getJson<Contract[]>("/api/contracts")).find((contract) => contract.address === FRESH_NODE_ADDRESSES.dao)!;
+
+    // Started for every contract when the server attached to the node
+    const startup = await eventually(async () => {
+      const progress = await api.getJson<BackfillProgress>(`/api/contracts/${dao.id}/backfill`);
+      return progress.status === "COMPLETED" ? progress : undefined;
+    });
+    assert.equal(startup.fromBlock, 0);
+    assert.equal(startup.eventsInserted, EARLY_PROPOSALS);
+
+    const proposals = (await api.getJson<Event[]>(`/api/events/contract/${dao.id}`)).filter((event) => event.eventName === "ProposalCreated");
+    assert.equal(proposals.length, EARLY_PROPOSALS);
+    assert.ok(proposals.every((event) => event.confirmed));
+
+    // Running it again over the same range finds the events but inserts none
+    const rerun = await post(`/api/contracts/${dao.id}/backfill`, { fromBlock: 0 });
+    assert.equal(rerun.status, 202);
+
+    const repeated = await eventually(async () => {
+      const progress = await api.getJson<BackfillProgress>(`/api/contracts/${dao.id}/backfill`);
+      return progress.status === "COMPLETED" ? progress : undefined;
+    });
+    assert.equal(repeated.eventsFound, EARLY_PROPOSALS);
+    assert.equal(repeated.eventsInserted, 0);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { SONEIUM_CHAIN_ID, type Event } from "@shared/schema";
+
+// Read when the modules load: two networks with the local one as the default, and the
+// simulator standing in for both chains
+process.env.NETWORKS = JSON.stringify([
+  { chainId: SONEIUM_CHAIN_ID, name: "Soneium", rpcUrls: ["https://rpc.scs.soneium.io"], explorerUrl: "https://soneium.blockscout.com/" },
+  { chainId: 31337, name: "Local", rpcUrls: ["http://127.0.0.1:8545"], confirmations: 1 }
+]);
+process.env.DEFAULT_CHAIN_ID = "31337";
+process.env.DEMO_MODE = "true";
+
+let networks: typeof import("./networks");
+let storage: typeof import("./storage").storage;
+let blockchainService: typeof import("./services/blockchain").blockchainService;
+let chainSimulator: typeof import("./services/simulator").chainSimulator;
+
+before(async () => {
+  networks = await import("./networks");
+  ({ storage } = await import("./storage"));
+  ({ blockchainService } = await import("./services/blockchain"));
+  ({ chainSimulator } = await import("./services/simulator"));
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("network configuration", () => {
+  it("loads every configured network and defaults to DEFAULT_CHAIN_ID", () => {
+    assert.deepEqual(networks.getNetworks().map((network) => network.chainId), [SONEIUM_CHAIN_ID, 31337]);
+    assert.equal(networks.defaultChainId(), 31337);
+    assert.equal(networks.getNetwork(1), undefined);
+  });
+
+  it("fills in the confirmation depth and explorer API of a network", () => {
+    const soneium = networks.getNetwork(SONEIUM_CHAIN_ID)!;
+
+    assert.equal(soneium.confirmations, 12);
+    assert.equal(networks.getNetwork(31337)!.confirmations, 1);
+    assert.equal(networks.explorerApiUrl(soneium), "https://soneium.blockscout.com/api");
+    assert.equal(networks.explorerApiUrl(networks.getNetwork(31337)!), undefined);
+  });
+
+  it("keeps RPC URLs out of what clients see", () => {
+    const published = networks.toPublicNetwork(networks.getNetwork(SONEIUM_CHAIN_ID)!);
+
+    assert.equal("rpcUrls" in published, false);
+    assert.equal(published.explorerUrl, "https://soneium.blockscout.com/");
+  });
+});
+
+describe("contracts on several chains", () => {
+  it("registers contracts on the default chain unless told otherwise", async () => {
+    const local = await storage.createContract({ name: "Local", address: "0x000000000000000000000000000000000000c4a1", type: "TOKEN", status: "HEALTHY" });
+    const soneium = await storage.createContract({ name: "Soneium", chainId: SONEIUM_CHAIN_ID, address: local.address, type: "TOKEN", status: "HEALTHY" });
+
+    assert.equal(local.chainId, 31337);
+    assert.equal(soneium.chainId, SONEIUM_CHAIN_ID);
+    assert.equal((await storage.getContractByAddress(local.address, 31337))?.id, local.id);
+    assert.equal((await storage.getContractByAddress(local.address, SONEIUM_CHAIN_ID))?.id, soneium.id);
+  });
+
+  it("confirms events at the depth of their contract's chain", async () => {
+    const head = 100;
+    mock.method(chainSimulator, "getBlockNumber", async () => head);
+    mock.method(chainSimulator, "getBlock", async (blockNumber: number) => ({ hash: ethers.id(`block:${blockNumber}`) }));
+
+    // One block deep: final on the local chain, not on Soneium
+    const pending: Event[] = [];
+    for (const chainId of [31337, SONEIUM_CHAIN_ID]) {
+      const contract = await storage.createContract({
+        name: `Depth ${chainId}`,
+        chainId,
+        address: "0x000000000000000000000000000000000000dee9",
+        type: "TOKEN",
+        status: "HEALTHY"
+      });
+      pending.push(await storage.createEvent({
+        contractId: contract.id,
+        eventName: "Transfer",
+        eventData: {},
+        blockNumber: head - 1,
+        blockHash: ethers.id(`block:${head - 1}`),
+        transactionHash: ethers.id(`tx:${chainId}`),
+        logIndex: 0,
+        confirmed: false
+      }));
+    }
+
+    await blockchainService.reconcileEvents();
+
+    const [local, soneium] = await Promise.all(pending.map((event) => storage.getEventByLog(event.contractId, event.transactionHash, event.logIndex)));
+    assert.equal(local?.confirmed, true);
+    assert.equal(soneium?.confirmed, false);
+  });
+});
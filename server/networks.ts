@@ -0,0 +1,83 @@
+import fs from "fs";
+import { z } from "zod";
+import { networkConfigSchema, SONEIUM_CHAIN_ID, type NetworkConfig, type PublicNetwork } from "@shared/schema";
+
+// Anvil and Hardhat dev nodes
+export const LOCAL_CHAIN_IDS = [31337, 1337];
+
+export function isLocalChain(chainId: number): boolean {
+  return LOCAL_CHAIN_IDS.includes(chainId);
+}
+
+// Defaults for a network configured through CHAIN_ID alone. Local nodes mine instantly,
+// never reorg and have no explorer.
+function networkDefaults(chainId: number): Omit<NetworkConfig, "chainId"> {
+  if (isLocalChain(chainId)) {
+    return { name: chainId === 31337 ? "Local (Anvil/Hardhat)" : "Local", rpcUrls: ["http://127.0.0.1:8545"], confirmations: 1 };
+  }
+
+  return {
+    name: "Soneium",
+    rpcUrls: ["https://rpc.scs.soneium.io"],
+    explorerUrl: "https://soneium.blockscout.com",
+    confirmations: 12
+  };
+}
+
+// Networks come from NETWORKS (a JSON array), or the JSON file at NETWORKS_FILE. Without
+// either, the single network described by RPC_URL/CHAIN_ID is used, which defaults to Soneium.
+function loadNetworks(): NetworkConfig[] {
+  const raw = process.env.NETWORKS
+    ?? (process.env.NETWORKS_FILE ? fs.readFileSync(process.env.NETWORKS_FILE, "utf8") : undefined);
+
+  if (raw === undefined) {
+    const chainId = parseInt(process.env.CHAIN_ID || String(SONEIUM_CHAIN_ID), 10);
+    const defaults = networkDefaults(chainId);
+
+    return [networkConfigSchema.parse({
+      chainId,
+      name: process.env.NETWORK_NAME || defaults.name,
+      rpcUrls: process.env.RPC_URL ? process.env.RPC_URL.split(",").map((url) => url.trim()) : defaults.rpcUrls,
+      explorerUrl: process.env.EXPLORER_URL || defaults.explorerUrl,
+      explorerApiUrl: process.env.EXPLORER_API_URL,
+      confirmations: process.env.CONFIRMATION_DEPTH ? parseInt(process.env.CONFIRMATION_DEPTH, 10) : defaults.confirmations
+    })];
+  }
+
+  const result = z.array(networkConfigSchema).min(1).safeParse(JSON.parse(raw));
+  if (!result.success) {
+    throw new Error(`Invalid network configuration: ${result.error.message}`);
+  }
+
+  const chainIds = result.data.map((network) => network.chainId);
+  const duplicate = chainIds.find((chainId, index) => chainIds.indexOf(chainId) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`Invalid network configuration: chain ${duplicate} is listed twice`);
+  }
+
+  return result.data;
+}
+
+const networks = loadNetworks();
+
+export function getNetworks(): NetworkConfig[] {
+  return networks;
+}
+
+export function getNetwork(chainId: number): NetworkConfig | undefined {
+  return networks.find((network) => network.chainId === chainId);
+}
+
+// Contracts and scans without an explicit chain go to DEFAULT_CHAIN_ID, else the first network
+export function defaultChainId(): number {
+  const configured = process.env.DEFAULT_CHAIN_ID ? parseInt(process.env.DEFAULT_CHAIN_ID, 10) : undefined;
+  return configured !== undefined && getNetwork(configured) ? configured : networks[0].chainId;
+}
+
+export function explorerApiUrl(network: NetworkConfig): string | undefined {
+  return network.explorerApiUrl ?? (network.explorerUrl ? `${network.explorerUrl.replace(/\/$/, "")}/api` : undefined);
+}
+
+export function toPublicNetwork({ chainId, name, explorerUrl, confirmations }: NetworkConfig): PublicNetwork {
+  return { chainId, name, explorerUrl, confirmations };
+}
@@ -0,0 +1,338 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { storage } from "./storage";
+import { eventBus } from "./eventBus";
+import { hashPassword } from "./auth";
+import type { UserRole } from "@shared/schema";
+
+// Read when the server modules load: events come from the simulator, which only plays
+// scenarios on request, so the tests need no RPC endpoint
+process.env.DEMO_MODE = "true";
+process.env.DEMO_SCENARIO_INTERVAL_BLOCKS = "0";
+process.env.ADMIN_USERNAME = "admin";
+process.env.ADMIN_PASSWORD = "admin-password";
+
+const PASSWORD = "correct horse battery staple";
+
+let server: Server;
+let baseUrl: string;
+let userCount = 0;
+
+interface RequestOptions {
+  method?: string;
+  token?: string;
+  cookie?: string;
+  body?: unknown;
+}
+
+function request(path: string, { method = "GET", token, cookie, body }: RequestOptions = {}): Promise<Response> {
+  const headers: Record<string, string> = {};
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (cookie) headers.Cookie = cookie;
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+
+  return fetch(`${baseUrl}${path}`, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+}
+
+function login(username: string, password: string): Promise<Response> {
+  return request("/api/auth/login", { method: "POST", body: { username, password } });
+}
+
+// A new user with the given role, signed in; returns the session token
+async function signedIn(role: UserRole): Promise<string> {
+  const username = `${role}-${++userCount}`;
+  await storage.createUser({ username, password: await hashPassword(PASSWORD), role });
+
+  const response = await login(username, PASSWORD);
+  assert.equal(response.status, 200);
+  return ((await response.json()) as { token: string }).token;
+}
+
+before(async () => {
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  const { monitorService } = await import("./services/monitor");
+  await monitorService.stop();
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("authentication", () => {
+  it("answers 401 to API requests without a session", async () => {
+    assert.equal((await request("/api/contracts")).status, 401);
+    assert.equal((await request("/api/auth/me")).status, 401);
+    assert.equal((await request("/api/contracts", { token: "not-a-session" })).status, 401);
+  });
+
+  it("rejects a wrong password", async () => {
+    assert.equal((await login("admin", "wrong")).status, 401);
+    assert.equal((await login("nobody", PASSWORD)).status, 401);
+  });
+
+  it("accepts the session as a Bearer token and as the cookie it sets", async () => {
+    const response = await login("admin", "admin-password");
+    const { token, user } = (await response.json()) as { token: string, user: { username: string, password?: string } };
+    const cookie = response.headers.get("set-cookie")!.split(";")[0];
+
+    assert.equal(user.username, "admin");
+    assert.equal(user.password, undefined);
+    assert.match(cookie, /^guardian_session=/);
+
+    const byToken = await request("/api/auth/me", { token });
+    const byCookie = await request("/api/auth/me", { cookie });
+    assert.equal(byToken.status, 200);
+    assert.equal(byCookie.status, 200);
+    assert.equal(((await byCookie.json()) as { role: string }).role, "admin");
+  });
+
+  it("rejects an expired session and forgets it", async () => {
+    const token = await signedIn("viewer");
+    const id = createHash("sha256").update(token).digest("hex");
+    const session = (await storage.getSession(id))!;
+    await storage.deleteSession(id);
+    await storage.createSession({ id, userId: session.userId, expiresAt: new Date(Date.now() - 1000) });
+
+    assert.equal((await request("/api/contracts", { token })).status, 401);
+    assert.equal(await storage.getSession(id), undefined);
+  });
+
+  it("ends the session on logout", async () => {
+    const token = await signedIn("analyst");
+
+    assert.equal((await request("/api/auth/logout", { method: "POST", token })).status, 200);
+    assert.equal((await request("/api/auth/me", { token })).status, 401);
+  });
+});
+
+describe("roles", () => {
+  const newUser = () => ({ username: `created-${++userCount}`, password: PASSWORD, role: "viewer" });
+
+  it("lets a viewer read but not change anything", async () => {
+    const token = await signedIn("viewer");
+
+    assert.equal((await request("/api/contracts", { token })).status, 200);
+    assert.equal((await request("/api/users", { token })).status, 403);
+    assert.equal((await request("/api/rules", { method: "POST", token, body: {} })).status, 403);
+    assert.equal((await request("/api/users", { method: "POST", token, body: newUser() })).status, 403);
+    assert.equal((await request("/api/settings", { method: "PUT", token, body: {} })).status, 403);
+  });
+
+  it("keeps configuration to admins", async () => {
+    const analyst = await signedIn("analyst");
+    const admin = await signedIn("admin");
+
+    assert.equal((await request("/api/users", { token: analyst })).status, 200);
+    assert.equal((await request("/api/users", { method: "POST", token: analyst, body: newUser() })).status, 403);
+    assert.equal((await request("/api/monitor/stop", { method: "POST", token: analyst })).status, 403);
+    assert.equal((await request("/api/users", { method: "POST", token: admin, body: newUser() })).status, 201);
+  });
+});
+
+describe("contracts", () => {
+  const ADDRESS = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+
+  it("validates the address checksum and ABI of a new contract", async () => {
+    const token = await signedIn("admin");
+    const contract = { name: "Checked", type: "TOKEN" };
+
+    const badChecksum = await request("/api/contracts", { method: "POST", token, body: { ...contract, address: "0x5aaeb6053F3E94C9b9A09f33669435E7Ef1BeAed" } });
+    const badAbi = await request("/api/contracts", { method: "POST", token, body: { ...contract, address: ADDRESS, abi: "[{\"type\": \"nonsense\"}]" } });
+
+    assert.equal(badChecksum.status, 400);
+    assert.equal(badAbi.status, 400);
+  });
+
+  it("watches a contract from registration until removal", async () => {
+    const { chainSimulator } = await import("./services/simulator");
+    const token = await signedIn("admin");
+    const watched = chainSimulator.status().contracts;
+
+    const created = await request("/api/contracts", { method: "POST", token, body: { name: "Registered", address: ADDRESS.toLowerCase(), type: "FEED" } });
+    const contract = (await created.json()) as { id: number, address: string };
+    assert.equal(created.status, 201);
+    assert.equal(contract.address, ADDRESS);
+    assert.equal(chainSimulator.status().contracts, watched + 1);
+
+    const duplicate = await request("/api/contracts", { method: "POST", token, body: { name: "Again", address: ADDRESS, type: "FEED" } });
+    assert.equal(duplicate.status, 409);
+
+    const renamed = await request(`/api/contracts/${contract.id}`, { method: "PATCH", token, body: { name: "Renamed" } });
+    assert.equal(((await renamed.json()) as { name: string }).name, "Renamed");
+    assert.equal(chainSimulator.status().contracts, watched + 1);
+
+    assert.equal((await request(`/api/contracts/${contract.id}`, { method: "DELETE", token })).status, 200);
+    assert.equal((await request(`/api/contracts/${contract.id}`, { token })).status, 404);
+    assert.equal(chainSimulator.status().contracts, watched);
+  });
+});
+
+describe("event stream", () => {
+  // Read server-sent messages until one of the given event arrives and return its data
+  async function nextMessage(reader: ReadableStreamDefaultReader<Uint8Array>, event: string): Promise<unknown> {
+    const decoder = new TextDecoder();
+    let buffered = "";
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) throw new Error(`Stream ended before ${event}`);
+      buffered += decoder.decode(value, { stream: true });
+
+      const messages = buffered.split("\n\n");
+      buffered = messages.pop()!;
+      for (const message of messages) {
+        const lines = message.split("\n");
+        if (lines.includes(`event: ${event}`)) {
+          return JSON.parse(lines.find((line) => line.startsWith("data: "))!.slice(6));
+        }
+      }
+    }
+  }
+
+  it("pushes bus events to signed-in clients until they disconnect", async () => {
+    const { alertService } = await import("./services/alerts");
+    assert.equal((await request("/api/stream")).status, 401);
+
+    const listeners = eventBus.listenerCount("alert.created");
+    const controller = new AbortController();
+    const stream = await fetch(`${baseUrl}/api/stream`, {
+      headers: { Authorization: `Bearer ${await signedIn("viewer")}` },
+      signal: controller.signal
+    });
+    assert.equal(stream.headers.get("content-type"), "text/event-stream");
+    assert.equal(eventBus.listenerCount("alert.created"), listeners + 1);
+
+    const contract = await storage.createContract({
+      name: "Streamed",
+      chainId: 1868,
+      address: "0x0000000000000000000000000000000000057ea4",
+      type: "TOKEN",
+      status: "HEALTHY"
+    });
+    const { alert } = await alertService.raise({ contractId: contract.id, severity: "HIGH", title: "Paused", description: "Paused detected" });
+
+    const pushed = await nextMessage(stream.body!.getReader(), "alert.created") as { id: number, title: string };
+    assert.equal(pushed.id, alert.id);
+    assert.equal(pushed.title, "Paused");
+
+    controller.abort();
+    const deadline = Date.now() + 5000;
+    while (eventBus.listenerCount("alert.created") > listeners) {
+      if (Date.now() > deadline) throw new Error("Stream listeners were not removed");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  });
+});
+
+describe("alert lifecycle", () => {
+  it("records each step of an alert's triage in its history", async () => {
+    const { alertService } = await import("./services/alerts");
+    const analyst = await signedIn("analyst");
+    const viewer = await signedIn("viewer");
+    const me = (await (await request("/api/auth/me", { token: analyst })).json()) as { id: number, username: string };
+
+    const contract = await storage.createContract({
+      name: "Triaged",
+      chainId: 1868,
+      address: "0x0000000000000000000000000000000000007a1e",
+      type: "TOKEN",
+      status: "HEALTHY"
+    });
+    const { alert } = await alertService.raise({ contractId: contract.id, severity: "HIGH", title: "Ownership moved", description: "Owner changed" });
+    const path = `/api/alerts/${alert.id}`;
+
+    assert.equal((await request(`${path}/status`, { method: "POST", token: viewer, body: { status: "ACKNOWLEDGED" } })).status, 403);
+    assert.equal((await request(`${path}/status`, { method: "POST", token: analyst, body: { status: "SNOOZED" } })).status, 400);
+
+    const acknowledged = await request(`${path}/status`, { method: "POST", token: analyst, body: { status: "ACKNOWLEDGED", note: "Looking" } });
+    assert.equal(((await acknowledged.json()) as { status: string }).status, "ACKNOWLEDGED");
+
+    const assigned = await request(`${path}/assign`, { method: "POST", token: analyst, body: { assigneeId: me.id } });
+    assert.equal(((await assigned.json()) as { assigneeId: number }).assigneeId, me.id);
+
+    const commented = await request(`${path}/comments`, { method: "POST", token: analyst, body: { body: "Owner is the team multisig" } });
+    assert.equal(commented.status, 201);
+    assert.equal(((await commented.json()) as { username: string }).username, me.username);
+
+    const resolved = await request(`${path}/resolve`, { method: "POST", token: analyst, body: { note: "Expected change" } });
+    assert.equal(((await resolved.json()) as { status: string }).status, "RESOLVED");
+
+    // A closed alert has to be reopened, with a reason, before it moves again
+    assert.equal((await request(`${path}/status`, { method: "POST", token: analyst, body: { status: "INVESTIGATING" } })).status, 409);
+    assert.equal((await request(`${path}/reopen`, { method: "POST", token: analyst, body: {} })).status, 400);
+    const reopened = await request(`${path}/reopen`, { method: "POST", token: analyst, body: { note: "Owner changed again" } });
+    assert.equal(((await reopened.json()) as { status: string }).status, "OPEN");
+    assert.equal((await request(`${path}/reopen`, { method: "POST", token: analyst, body: { note: "Twice" } })).status, 409);
+
+    const history = (await (await request(`${path}/history`, { token: viewer })).json()) as Array<{ action: string, toStatus: string | null, username: string | null }>;
+    assert.deepEqual(history.map((entry) => [entry.action, entry.toStatus ?? null]), [
+      ["CREATED", "OPEN"],
+      ["STATUS_CHANGED", "ACKNOWLEDGED"],
+      ["ASSIGNED", null],
+      ["COMMENTED", null],
+      ["STATUS_CHANGED", "RESOLVED"],
+      ["REOPENED", "OPEN"]
+    ]);
+    assert.ok(history.slice(1).every((entry) => entry.username === me.username));
+
+    const comments = (await (await request(`${path}/comments`, { token: viewer })).json()) as Array<{ body: string }>;
+    assert.deepEqual(comments.map((comment) => comment.body), ["Owner is the team multisig"]);
+  });
+});
+
+describe("settings", () => {
+  it("applies saved settings to running services without a restart", async () => {
+    const { settingsService } = await import("./services/settings");
+    const token = await signedIn("admin");
+    const previous = settingsService.get();
+    const contract = await storage.createContract({
+      name: "Default policy",
+      chainId: 1868,
+      address: "0x000000000000000000000000000000000005e771",
+      type: "TOKEN",
+      status: "HEALTHY"
+    });
+    const schedule = async () => (await (await request(`/api/contracts/${contract.id}/policy`, { token })).json()) as {
+      effective: { aiAnalysisIntervalMinutes: number, analysisDepth: string },
+      nextAnalysisAt: string
+    };
+    const scheduled = await schedule();
+
+    const invalid = await request("/api/settings", { method: "PUT", token, body: { ...previous, aiAnalysisIntervalMinutes: 1 } });
+    assert.equal(invalid.status, 400);
+
+    const broadcast: unknown[] = [];
+    const listener = (settings: unknown) => broadcast.push(settings);
+    eventBus.on("settings.updated", listener);
+    try {
+      const changed = { ...previous, aiAnalysisIntervalMinutes: previous.aiAnalysisIntervalMinutes + 60, analysisDepth: "QUICK" };
+      const saved = await request("/api/settings", { method: "PUT", token, body: changed });
+      const body = (await saved.json()) as { settings: typeof changed, updatedAt: string | null };
+
+      assert.equal(saved.status, 200);
+      assert.deepEqual(body.settings, changed);
+      assert.ok(body.updatedAt);
+      assert.deepEqual(broadcast, [changed]);
+    } finally {
+      eventBus.off("settings.updated", listener);
+    }
+
+    // Contracts without a policy of their own follow the settings, and their schedule moves with them
+    const rescheduled = await schedule();
+    assert.equal(rescheduled.effective.aiAnalysisIntervalMinutes, previous.aiAnalysisIntervalMinutes + 60);
+    assert.equal(rescheduled.effective.analysisDepth, "QUICK");
+    assert.equal(Date.parse(rescheduled.nextAnalysisAt) - Date.parse(scheduled.nextAnalysisAt), 60 * 60 * 1000);
+
+    await settingsService.update(previous, null);
+  });
+});
@@ -1,142 +1,1350 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import {
+  authenticate,
+  createSession,
+  destroySession,
+  ensureAdminUser,
+  hashPassword,
+  requireRole,
+  toPublicUser,
+  verifyPassword
+} from "./auth";
+import { issueNonce, verifySiweMessage } from "./siwe";
+import { defaultChainId, getNetwork, getNetworks, toPublicNetwork } from "./networks";
 import { monitorService } from "./services/monitor";
-import { groqService } from "./services/groq";
+import { aiService } from "./services/ai";
 import { blockchainService } from "./services/blockchain";
+import { chainSimulator } from "./services/simulator";
+import { scanService } from "./services/scanner";
+import { notificationService } from "./services/notifications";
+import { settingsService } from "./services/settings";
+import { jobQueue } from "./services/jobs";
+import { aiBudgetService } from "./services/aiBudget";
+import { effectivePolicy } from "./services/scheduler";
+import { alertService, type AlertChange } from "./services/alerts";
+import { eventBus, type GuardianEvents } from "./eventBus";
 import { z } from "zod";
+import { ethers } from "ethers";
+import {
+  alertStatuses,
+  contractPolicySchema,
+  contractTypes,
+  insertAlertCommentSchema,
+  insertNotificationChannelSchema,
+  insertRuleSchema,
+  insertUserSchema,
+  notificationChannelConfigSchemas,
+  settingsSchema,
+  type Contract,
+  type ContractPolicyResponse,
+  type MonitorStatus,
+  type NotificationChannel,
+  type NotificationChannelConfig,
+  type NotificationChannelType,
+  type SettingsResponse
+} from "@shared/schema";
+
+// Accept lowercase or correctly checksummed addresses and store the checksummed form
+const addressSchema = z.string()
+  .refine((address) => ethers.isAddress(address), { message: 'Invalid address or checksum' })
+  .transform((address) => ethers.getAddress(address));
+
+// ABI may be sent as a JSON array or as a JSON-encoded string of one
+const abiSchema = z.union([z.array(z.any()), z.string()])
+  .transform((abi, ctx) => {
+    try {
+      const parsed = typeof abi === 'string' ? JSON.parse(abi) : abi;
+      new ethers.Interface(parsed);
+      return parsed as unknown[];
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid ABI: ${error instanceof Error ? error.message : String(error)}`
+      });
+      return z.NEVER;
+    }
+  });
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1)
+});
+
+const siweSchema = z.object({
+  message: z.string().min(1),
+  signature: z.string().min(1)
+});
+
+// Sign-In with Ethereum messages must name SIWE_DOMAIN as their domain and URI host. It is never
+// taken from the Host header, which a client replaying a message signed for another site controls.
+function siweDomain(): string | null {
+  return process.env.SIWE_DOMAIN?.trim() || null;
+}
+
+const SIWE_DISABLED = 'Sign-In with Ethereum is disabled: SIWE_DOMAIN is not set';
+
+// Only chains listed in the network configuration can be monitored or scanned
+const chainIdSchema = z.number().int().refine((chainId) => getNetwork(chainId) !== undefined, {
+  message: 'Unknown network'
+});
+
+const contractBodySchema = z.object({
+  name: z.string().trim().min(1),
+  chainId: chainIdSchema.optional(),
+  address: addressSchema,
+  type: z.enum(contractTypes),
+  abi: abiSchema.nullable().optional()
+});
+
+// Channel secrets are never sent back to clients; a PATCH that echoes the
+// placeholder keeps the stored value
+const REDACTED = '********';
+const secretConfigKeys = ['secret', 'password'];
+
+function redactChannel(channel: NotificationChannel): NotificationChannel {
+  const config: Record<string, unknown> = { ...channel.config };
+  for (const key of secretConfigKeys) {
+    if (config[key]) config[key] = REDACTED;
+  }
+  return { ...channel, config: config as NotificationChannelConfig };
+}
+
+function parseChannelConfig(type: string, config: Record<string, unknown>, existing?: NotificationChannelConfig) {
+  const merged: Record<string, unknown> = { ...config };
+  for (const key of secretConfigKeys) {
+    if (merged[key] === REDACTED) merged[key] = (existing as Record<string, unknown> | undefined)?.[key];
+  }
+  return notificationChannelConfigSchemas[type as NotificationChannelType].safeParse(merged);
+}
+
+const alertStatusSchema = z.object({
+  status: z.enum(alertStatuses),
+  note: z.string().trim().max(2000).optional()
+});
+
+const alertReopenSchema = z.object({
+  note: z.string().trim().min(1).max(2000)
+});
+
+const alertAssignSchema = z.object({
+  assigneeId: z.number().int().positive().nullable()
+});
+
+const demoScenarioSchema = z.object({
+  contractId: z.number().int().positive().optional()
+});
+
+// Lifecycle changes the service refused: 409 when the alert's state forbids it, 400 otherwise
+function sendAlertChangeError(res: Response, change: Extract<AlertChange<unknown>, { success: false }>) {
+  return res.status(change.conflict ? 409 : 400).json({ message: change.error });
+}
+
+// Attach the author's username to history entries and comments
+async function withUsernames<T extends { userId: number | null }>(rows: T[]): Promise<(T & { username: string | null })[]> {
+  const ids = Array.from(new Set(rows.map((row) => row.userId).filter((id): id is number => id !== null)));
+  const users = await Promise.all(ids.map((id) => storage.getUser(id)));
+  const names = new Map(users.filter((user) => user !== undefined).map((user) => [user!.id, user!.username]));
+  
+  return rows.map((row) => ({ ...row, username: row.userId === null ? null : names.get(row.userId) ?? null }));
+}
+
+const POLICY_TOKEN_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+async function policyResponse(contract: Contract): Promise<ContractPolicyResponse> {
+  const { nextHealthCheckAt, nextAnalysisAt } = monitorService.getSchedule(contract);
+  
+  return {
+    policy: contract.policy,
+    effective: effectivePolicy(contract),
+    nextHealthCheckAt: nextHealthCheckAt?.toISOString() ?? null,
+    nextAnalysisAt: nextAnalysisAt?.toISOString() ?? null,
+    tokensUsed: await storage.getContractQueryTokenCountSince(contract.id, new Date(Date.now() - POLICY_TOKEN_WINDOW_MS))
+  };
+}
+
+function settingsResponse(): SettingsResponse {
+  return {
+    settings: settingsService.get(),
+    defaults: settingsService.defaults(),
+    updatedAt: settingsService.lastUpdatedAt()?.toISOString() ?? null,
+    aiConfigured: aiService.isConfigured(),
+    aiProvider: aiService.providerName
+  };
+}
+
+// Bus events forwarded to /api/stream clients
+const streamedEvents: (keyof GuardianEvents)[] = ['event.created', 'event.removed', 'alert.created', 'alert.updated', 'alert.resolved', 'contract.status', 'network.health', 'settings.updated', 'job.updated'];
+const STREAM_HEARTBEAT_MS = 25000;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
   
-  // Initialize blockchain service with demo mode
-  const blockchainInitialized = await blockchainService.initialize();
-  console.log(`Blockchain service initialization: ${blockchainInitialized ? 'success' : 'failed'}`);
+  // Services read settings as they run, so load them before anything starts
+  await settingsService.initialize();
+  
+  // Pick up queued work, including jobs interrupted by a restart
+  await jobQueue.initialize();
+  
+  // Resume notification deliveries a restart left pending
+  await notificationService.initialize();
+  
+  // Initialize blockchain service with demo mode
+  const blockchainInitialized = await blockchainService.initialize();
+  console.log(`Blockchain service initialization: ${blockchainInitialized ? 'success' : 'failed'}`);
+  
+  // Start monitoring service on server startup
+  monitorService.start().catch(err => {
+    console.error('Failed to start monitoring service:', err);
+  });
+  
+  await ensureAdminUser();
+  
+  // Every API request is resolved to a user (or none) before reaching a route
+  app.use('/api', authenticate);
+  
+  // Auth endpoints
+  app.post('/api/auth/login', async (req: Request, res: Response) => {
+    try {
+      const result = loginSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const user = await storage.getUserByUsername(result.data.username);
+      if (!user || !(await verifyPassword(result.data.password, user.password))) {
+        return res.status(401).json({ message: 'Invalid username or password' });
+      }
+      
+      const token = await createSession(res, user);
+      res.json({ user: toPublicUser(user), token });
+    } catch (error) {
+      res.status(500).json({ message: `Error logging in: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/auth/logout', async (req: Request, res: Response) => {
+    try {
+      await destroySession(req, res);
+      res.json({ message: 'Logged out' });
+    } catch (error) {
+      res.status(500).json({ message: `Error logging out: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/auth/siwe/nonce', (_req: Request, res: Response) => {
+    if (!siweDomain()) {
+      return res.status(503).json({ message: SIWE_DISABLED });
+    }
+    
+    res.json({ nonce: issueNonce() });
+  });
+  
+  app.post('/api/auth/siwe', async (req: Request, res: Response) => {
+    try {
+      const domain = siweDomain();
+      if (!domain) {
+        return res.status(503).json({ message: SIWE_DISABLED });
+      }
+      
+      const result = siweSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const verification = verifySiweMessage(result.data.message, result.data.signature, domain);
+      if (!verification.success) {
+        return res.status(401).json({ message: verification.error });
+      }
+      
+      const wallet = await storage.getWalletByAddress(verification.address);
+      const user = wallet && await storage.getUser(wallet.userId);
+      if (!user) {
+        return res.status(401).json({ message: 'Wallet is not linked to a user' });
+      }
+      
+      const token = await createSession(res, user, verification.address);
+      res.json({ user: toPublicUser(user), token });
+    } catch (error) {
+      res.status(500).json({ message: `Error signing in with wallet: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/auth/me', (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    
+    res.json(req.user);
+  });
+  
+  // Everything below needs a signed-in user; mutating routes also require a higher role.
+  // viewer: read-only, analyst: investigate (alerts, rules, scans, AI), admin: configuration.
+  app.use('/api', requireRole('viewer'));
+  
+  // Wallets linked to the signed-in user. Linking needs a signed message to prove ownership.
+  app.get('/api/auth/wallets', async (req: Request, res: Response) => {
+    try {
+      const wallets = await storage.getWalletsForUser(req.user!.id);
+      res.json(wallets);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching wallets: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/auth/wallets', async (req: Request, res: Response) => {
+    try {
+      const domain = siweDomain();
+      if (!domain) {
+        return res.status(503).json({ message: SIWE_DISABLED });
+      }
+      
+      const result = siweSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const verification = verifySiweMessage(result.data.message, result.data.signature, domain);
+      if (!verification.success) {
+        return res.status(400).json({ message: verification.error });
+      }
+      
+      const existing = await storage.getWalletByAddress(verification.address);
+      if (existing) {
+        return existing.userId === req.user!.id
+          ? res.json(existing)
+          : res.status(409).json({ message: 'Wallet is linked to another user' });
+      }
+      
+      const wallet = await storage.createWallet({ userId: req.user!.id, address: verification.address });
+      res.status(201).json(wallet);
+    } catch (error) {
+      res.status(500).json({ message: `Error linking wallet: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.delete('/api/auth/wallets/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid wallet ID' });
+      }
+      
+      const wallets = await storage.getWalletsForUser(req.user!.id);
+      if (!wallets.some((wallet) => wallet.id === id)) {
+        return res.status(404).json({ message: 'Wallet not found' });
+      }
+      
+      await storage.deleteWallet(id);
+      res.json({ message: 'Wallet unlinked' });
+    } catch (error) {
+      res.status(500).json({ message: `Error unlinking wallet: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // User management endpoints
+  // Analysts need the user list to pick alert assignees
+  app.get('/api/users', requireRole('analyst'), async (_req: Request, res: Response) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching users: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/users', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = insertUserSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      if (await storage.getUserByUsername(result.data.username)) {
+        return res.status(409).json({ message: 'Username already taken' });
+      }
+      
+      const user = await storage.createUser({
+        ...result.data,
+        password: await hashPassword(result.data.password)
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: `Error creating user: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.patch('/api/users/:id', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+      
+      const result = insertUserSchema.partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      if (id === req.user!.id && result.data.role !== undefined && result.data.role !== 'admin') {
+        return res.status(400).json({ message: 'Cannot remove your own admin role' });
+      }
+      
+      if (result.data.username !== undefined) {
+        const existing = await storage.getUserByUsername(result.data.username);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: 'Username already taken' });
+        }
+      }
+      
+      const { password, ...update } = result.data;
+      const user = await storage.updateUser(id, {
+        ...update,
+        password: password === undefined ? undefined : await hashPassword(password)
+      });
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      // A new password or role signs the user out everywhere
+      if (password !== undefined || update.role !== undefined) {
+        await storage.deleteSessionsForUser(id);
+      }
+      
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: `Error updating user: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Admins can map a wallet to any user without a signature, e.g. when onboarding an analyst
+  app.post('/api/users/:id/wallets', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+      
+      const result = z.object({ address: addressSchema }).safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      if (await storage.getWalletByAddress(result.data.address)) {
+        return res.status(409).json({ message: 'Wallet is already linked' });
+      }
+      
+      const wallet = await storage.createWallet({ userId: id, address: result.data.address });
+      res.status(201).json(wallet);
+    } catch (error) {
+      res.status(500).json({ message: `Error linking wallet: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.delete('/api/users/:id', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+      
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: 'Cannot delete your own account' });
+      }
+      
+      const deleted = await storage.deleteUser(id);
+      if (!deleted) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      res.json({ message: 'User deleted' });
+    } catch (error) {
+      res.status(500).json({ message: `Error deleting user: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Live updates as Server-Sent Events. Each message is named after the bus event
+  // ("event.created", "alert.created", "alert.updated", "alert.resolved", "contract.status", "network.health").
+  app.get('/api/stream', (req: Request, res: Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.write('retry: 5000\n\n');
+    
+    const listeners = streamedEvents.map((name) => {
+      const listener = (payload: unknown) => {
+        res.write(`event: ${name}\ndata: ${JSON.stringify(payload)}\n\n`);
+      };
+      eventBus.on(name, listener);
+      return () => eventBus.off(name, listener);
+    });
+    
+    // Comment lines keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+    
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      listeners.forEach((unsubscribe) => unsubscribe());
+    });
+  });
+  
+  // Networks contracts can be monitored on
+  app.get('/api/networks', (_req: Request, res: Response) => {
+    res.json({ defaultChainId: defaultChainId(), networks: getNetworks().map(toPublicNetwork) });
+  });
+  
+  // Latest RPC endpoint probes per network
+  app.get('/api/network/health', (_req: Request, res: Response) => {
+    res.json({ demoMode: blockchainService.isDemoMode(), networks: blockchainService.getNetworkHealth() });
+  });
+  
+  // Contract endpoints
+  app.get('/api/contracts', async (_req: Request, res: Response) => {
+    try {
+      const contracts = await storage.getContracts();
+      res.json(contracts);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching contracts: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/contracts/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const contract = await storage.getContract(id);
+      
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      res.json(contract);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching contract: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/contracts', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = contractBodySchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const chainId = result.data.chainId ?? defaultChainId();
+      const existing = await storage.getContractByAddress(result.data.address, chainId);
+      if (existing) {
+        return res.status(409).json({ message: 'Contract is already being monitored' });
+      }
+      
+      const contract = await storage.createContract({ ...result.data, chainId, status: 'HEALTHY' });
+      blockchainService.watchContract(contract);
+      
+      res.status(201).json(contract);
+    } catch (error) {
+      res.status(500).json({ message: `Error creating contract: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.patch('/api/contracts/:id', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const result = contractBodySchema.partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const contract = await storage.getContract(id);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      if (result.data.address || result.data.chainId) {
+        const existing = await storage.getContractByAddress(
+          result.data.address ?? contract.address,
+          result.data.chainId ?? contract.chainId
+        );
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: 'Contract is already being monitored' });
+        }
+      }
+      
+      const updated = await storage.updateContract(id, result.data);
+      if (!updated) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      // Re-attach listeners so network, address, type and ABI changes take effect
+      await blockchainService.unwatchContract(contract);
+      blockchainService.watchContract(updated);
+      
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: `Error updating contract: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.delete('/api/contracts/:id', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const contract = await storage.getContract(id);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      await blockchainService.unwatchContract(contract);
+      await storage.deleteContract(id);
+      
+      res.json({ message: 'Contract removed from monitoring' });
+    } catch (error) {
+      res.status(500).json({ message: `Error removing contract: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/contracts/:id/backfill', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const schema = z.object({
+        fromBlock: z.number().int().nonnegative().optional()
+      });
+      
+      const result = schema.safeParse(req.body ?? {});
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const contract = await storage.getContract(id);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      if (blockchainService.isDemoMode()) {
+        return res.status(409).json({ message: 'Backfill is unavailable in demo mode' });
+      }
+      
+      const progress = await blockchainService.startBackfill(contract, result.data.fromBlock);
+      if (!progress) {
+        return res.status(400).json({ message: 'No start block known: pass fromBlock or set BACKFILL_START_BLOCK' });
+      }
+      
+      res.status(202).json(progress);
+    } catch (error) {
+      res.status(500).json({ message: `Error starting backfill: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/contracts/:id/backfill', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const progress = blockchainService.getBackfillProgress(id);
+      if (!progress) {
+        return res.status(404).json({ message: 'No backfill has been run for this contract' });
+      }
+      
+      res.json(progress);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching backfill progress: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/contracts/:id/scans', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const contract = await storage.getContract(id);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const scans = await storage.getScansByContract(id, limit);
+      res.json(scans);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching contract scans: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/contracts/:id/status-history', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const contract = await storage.getContract(id);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const history = await storage.getContractStatusHistory(id, limit);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching contract status history: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/contracts/:id/policy', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const contract = await storage.getContract(id);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      res.json(await policyResponse(contract));
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching contract policy: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Replaces the whole policy; fields left out fall back to the global settings
+  app.put('/api/contracts/:id/policy', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const result = contractPolicySchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const contract = await storage.updateContractPolicy(id, result.data);
+      if (!contract) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      res.json(await policyResponse(contract));
+    } catch (error) {
+      res.status(500).json({ message: `Error updating contract policy: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Alert endpoints
+  app.get('/api/alerts', async (req: Request, res: Response) => {
+    try {
+      const alerts = await storage.getAlerts();
+      
+      if (req.query.status) {
+        const statuses = (req.query.status as string).split(',');
+        return res.json(alerts.filter((alert) => statuses.includes(alert.status)));
+      }
+      
+      res.json(alerts);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching alerts: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/alerts/active', async (_req: Request, res: Response) => {
+    try {
+      const alerts = await storage.getActiveAlerts();
+      res.json(alerts);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching active alerts: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/alerts/contract/:id', async (req: Request, res: Response) => {
+    try {
+      const contractId = parseInt(req.params.id);
+      if (isNaN(contractId)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const alerts = await storage.getAlertsByContract(contractId);
+      res.json(alerts);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching alerts for contract: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/alerts/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid alert ID' });
+      }
+      
+      const alert = await storage.getAlert(id);
+      if (!alert) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      
+      res.json(alert);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching alert: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/alerts/:id/status', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid alert ID' });
+      }
+      
+      const result = alertStatusSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const alert = await storage.getAlert(id);
+      if (!alert) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      
+      const change = await alertService.changeStatus(alert, result.data.status, req.user!.id, result.data.note);
+      if (!change.success) return sendAlertChangeError(res, change);
+      
+      res.json(change.alert);
+    } catch (error) {
+      res.status(500).json({ message: `Error updating alert status: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Shorthand for setting the status to RESOLVED
+  app.post('/api/alerts/:id/resolve', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid alert ID' });
+      }
+      
+      const result = alertStatusSchema.pick({ note: true }).safeParse(req.body ?? {});
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const alert = await storage.getAlert(id);
+      if (!alert) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      
+      const change = await alertService.changeStatus(alert, 'RESOLVED', req.user!.id, result.data.note);
+      if (!change.success) return sendAlertChangeError(res, change);
+      
+      res.json(change.alert);
+    } catch (error) {
+      res.status(500).json({ message: `Error resolving alert: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/alerts/:id/reopen', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid alert ID' });
+      }
+      
+      const result = alertReopenSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const alert = await storage.getAlert(id);
+      if (!alert) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      
+      const change = await alertService.reopen(alert, req.user!.id, result.data.note);
+      if (!change.success) return sendAlertChangeError(res, change);
+      
+      res.json(change.alert);
+    } catch (error) {
+      res.status(500).json({ message: `Error reopening alert: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/alerts/:id/assign', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid alert ID' });
+      }
+      
+      const result = alertAssignSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const alert = await storage.getAlert(id);
+      if (!alert) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      
+      const change = await alertService.assign(alert, result.data.assigneeId, req.user!.id);
+      if (!change.success) return sendAlertChangeError(res, change);
+      
+      res.json(change.alert);
+    } catch (error) {
+      res.status(500).json({ message: `Error assigning alert: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/alerts/:id/history', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid alert ID' });
+      }
+      
+      if (!(await storage.getAlert(id))) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      
+      const history = await storage.getAlertHistory(id);
+      res.json(await withUsernames(history));
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching alert history: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/alerts/:id/comments', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid alert ID' });
+      }
+      
+      if (!(await storage.getAlert(id))) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      
+      const comments = await storage.getAlertComments(id);
+      res.json(await withUsernames(comments));
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching alert comments: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/alerts/:id/comments', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid alert ID' });
+      }
+      
+      const result = insertAlertCommentSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const alert = await storage.getAlert(id);
+      if (!alert) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      
+      const change = await alertService.comment(alert, req.user!.id, result.data.body, result.data.parentId);
+      if (!change.success) return sendAlertChangeError(res, change);
+      
+      const [comment] = await withUsernames([change.result]);
+      res.status(201).json(comment);
+    } catch (error) {
+      res.status(500).json({ message: `Error adding comment: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Incident endpoints: related alerts grouped per contract
+  app.get('/api/incidents', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const status = req.query.status as string | undefined;
+      if (status !== undefined && status !== 'OPEN' && status !== 'CLOSED') {
+        return res.status(400).json({ message: 'Invalid incident status' });
+      }
+      
+      const incidents = await storage.getIncidents(limit);
+      const summaries = await Promise.all(incidents.map(async (incident) =>
+        alertService.summarizeIncident(incident, await storage.getAlertsByIncident(incident.id))
+      ));
+      
+      res.json(status ? summaries.filter((summary) => summary.status === status) : summaries);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching incidents: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/incidents/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid incident ID' });
+      }
+      
+      const incident = await storage.getIncident(id);
+      if (!incident) {
+        return res.status(404).json({ message: 'Incident not found' });
+      }
+      
+      const alerts = await storage.getAlertsByIncident(id);
+      res.json({ ...alertService.summarizeIncident(incident, alerts), alerts });
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching incident: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Event log endpoints
+  app.get('/api/events', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const events = await storage.getEvents(limit);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching events: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
   
-  // Start monitoring service on server startup
-  monitorService.start().catch(err => {
-    console.error('Failed to start monitoring service:', err);
+  app.get('/api/events/contract/:id', async (req: Request, res: Response) => {
+    try {
+      const contractId = parseInt(req.params.id);
+      if (isNaN(contractId)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const events = await storage.getEventsByContract(contractId, limit);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching events for contract: ${error instanceof Error ? error.message : String(error)}` });
+    }
   });
   
-  // Contract endpoints
-  app.get('/api/contracts', async (_req: Request, res: Response) => {
+  // Detection rule endpoints
+  app.get('/api/rules', async (req: Request, res: Response) => {
     try {
-      const contracts = await storage.getContracts();
-      res.json(contracts);
+      if (req.query.contractId) {
+        const contractId = parseInt(req.query.contractId as string);
+        if (isNaN(contractId)) {
+          return res.status(400).json({ message: 'Invalid contract ID' });
+        }
+        
+        const rules = await storage.getRulesForContract(contractId);
+        return res.json(rules);
+      }
+      
+      const rules = await storage.getRules();
+      res.json(rules);
     } catch (error) {
-      res.status(500).json({ message: `Error fetching contracts: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error fetching rules: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  app.get('/api/contracts/:id', async (req: Request, res: Response) => {
+  app.get('/api/rules/:id', async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: 'Invalid contract ID' });
+        return res.status(400).json({ message: 'Invalid rule ID' });
       }
       
-      const contract = await storage.getContract(id);
+      const rule = await storage.getRule(id);
+      if (!rule) {
+        return res.status(404).json({ message: 'Rule not found' });
+      }
       
-      if (!contract) {
+      res.json(rule);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching rule: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/rules', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      const result = insertRuleSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      if (result.data.contractId != null && !(await storage.getContract(result.data.contractId))) {
         return res.status(404).json({ message: 'Contract not found' });
       }
       
-      res.json(contract);
+      const rule = await storage.createRule(result.data);
+      res.status(201).json(rule);
     } catch (error) {
-      res.status(500).json({ message: `Error fetching contract: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error creating rule: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Alert endpoints
-  app.get('/api/alerts', async (_req: Request, res: Response) => {
+  app.patch('/api/rules/:id', requireRole('analyst'), async (req: Request, res: Response) => {
     try {
-      const alerts = await storage.getAlerts();
-      res.json(alerts);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid rule ID' });
+      }
+      
+      const result = insertRuleSchema.partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      if (result.data.contractId != null && !(await storage.getContract(result.data.contractId))) {
+        return res.status(404).json({ message: 'Contract not found' });
+      }
+      
+      const rule = await storage.updateRule(id, result.data);
+      if (!rule) {
+        return res.status(404).json({ message: 'Rule not found' });
+      }
+      
+      res.json(rule);
     } catch (error) {
-      res.status(500).json({ message: `Error fetching alerts: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error updating rule: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  app.get('/api/alerts/active', async (_req: Request, res: Response) => {
+  app.delete('/api/rules/:id', requireRole('analyst'), async (req: Request, res: Response) => {
     try {
-      const alerts = await storage.getActiveAlerts();
-      res.json(alerts);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid rule ID' });
+      }
+      
+      const deleted = await storage.deleteRule(id);
+      if (!deleted) {
+        return res.status(404).json({ message: 'Rule not found' });
+      }
+      
+      res.json({ message: 'Rule deleted' });
     } catch (error) {
-      res.status(500).json({ message: `Error fetching active alerts: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error deleting rule: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  app.get('/api/alerts/contract/:id', async (req: Request, res: Response) => {
+  // Notification channel endpoints
+  app.get('/api/notifications/channels', async (_req: Request, res: Response) => {
     try {
-      const contractId = parseInt(req.params.id);
-      if (isNaN(contractId)) {
-        return res.status(400).json({ message: 'Invalid contract ID' });
+      const channels = await storage.getNotificationChannels();
+      res.json(channels.map(redactChannel));
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching notification channels: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/notifications/channels', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = insertNotificationChannelSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
       }
       
-      const alerts = await storage.getAlertsByContract(contractId);
-      res.json(alerts);
+      const config = parseChannelConfig(result.data.type, result.data.config);
+      if (!config.success) {
+        return res.status(400).json({ message: 'Invalid channel config', errors: config.error.format() });
+      }
+      
+      const channel = await storage.createNotificationChannel({ ...result.data, config: config.data });
+      res.status(201).json(redactChannel(channel));
     } catch (error) {
-      res.status(500).json({ message: `Error fetching alerts for contract: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error creating notification channel: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  app.post('/api/alerts/:id/resolve', async (req: Request, res: Response) => {
+  app.patch('/api/notifications/channels/:id', requireRole('admin'), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: 'Invalid alert ID' });
+        return res.status(400).json({ message: 'Invalid channel ID' });
       }
       
-      const alert = await storage.resolveAlert(id);
+      const result = insertNotificationChannelSchema.partial().safeParse(req.body);
       
-      if (!alert) {
-        return res.status(404).json({ message: 'Alert not found' });
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
       }
       
-      res.json(alert);
+      const existing = await storage.getNotificationChannel(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Channel not found' });
+      }
+      
+      // A new type or config has to be valid together with whatever is not being changed
+      const { config: rawConfig, ...update } = result.data;
+      let config: NotificationChannelConfig | undefined;
+      if (rawConfig !== undefined || (update.type !== undefined && update.type !== existing.type)) {
+        const parsed = parseChannelConfig(
+          update.type ?? existing.type,
+          rawConfig ?? (existing.config as Record<string, unknown>),
+          existing.config
+        );
+        if (!parsed.success) {
+          return res.status(400).json({ message: 'Invalid channel config', errors: parsed.error.format() });
+        }
+        config = parsed.data;
+      }
+      
+      const channel = await storage.updateNotificationChannel(id, { ...update, config });
+      if (!channel) {
+        return res.status(404).json({ message: 'Channel not found' });
+      }
+      
+      res.json(redactChannel(channel));
     } catch (error) {
-      res.status(500).json({ message: `Error resolving alert: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error updating notification channel: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Event log endpoints
-  app.get('/api/events', async (req: Request, res: Response) => {
+  app.delete('/api/notifications/channels/:id', requireRole('admin'), async (req: Request, res: Response) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const events = await storage.getEvents(limit);
-      res.json(events);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid channel ID' });
+      }
+      
+      const deleted = await storage.deleteNotificationChannel(id);
+      if (!deleted) {
+        return res.status(404).json({ message: 'Channel not found' });
+      }
+      
+      res.json({ message: 'Channel deleted' });
     } catch (error) {
-      res.status(500).json({ message: `Error fetching events: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error deleting notification channel: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  app.get('/api/events/contract/:id', async (req: Request, res: Response) => {
+  app.post('/api/notifications/channels/:id/test', requireRole('admin'), async (req: Request, res: Response) => {
     try {
-      const contractId = parseInt(req.params.id);
-      if (isNaN(contractId)) {
-        return res.status(400).json({ message: 'Invalid contract ID' });
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid channel ID' });
       }
       
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const events = await storage.getEventsByContract(contractId, limit);
-      res.json(events);
+      const channel = await storage.getNotificationChannel(id);
+      if (!channel) {
+        return res.status(404).json({ message: 'Channel not found' });
+      }
+      
+      try {
+        await notificationService.sendTest(channel);
+      } catch (error) {
+        return res.status(502).json({ message: `Test notification failed: ${error instanceof Error ? error.message : String(error)}` });
+      }
+      
+      res.json({ message: 'Test notification sent' });
     } catch (error) {
-      res.status(500).json({ message: `Error fetching events for contract: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error sending test notification: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/notifications/deliveries', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+      const channelId = req.query.channelId ? parseInt(req.query.channelId as string) : undefined;
+      if (channelId !== undefined && isNaN(channelId)) {
+        return res.status(400).json({ message: 'Invalid channel ID' });
+      }
+      
+      const deliveries = await storage.getNotificationDeliveries(limit, channelId);
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching notification deliveries: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Settings endpoints
+  app.get('/api/settings', async (_req: Request, res: Response) => {
+    try {
+      res.json(settingsResponse());
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching settings: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Takes the complete settings; services pick up the new values without a restart
+  app.put('/api/settings', requireRole('admin'), async (req: Request, res: Response) => {
+    try {
+      const result = settingsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      await settingsService.update(result.data, req.user!.id);
+      res.json(settingsResponse());
+    } catch (error) {
+      res.status(500).json({ message: `Error saving settings: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
   // AI analysis endpoints
   app.get('/api/ai/usage', async (_req: Request, res: Response) => {
     try {
-      const usage = await groqService.getTokenUsage();
+      const usage = await aiBudgetService.usage();
       res.json(usage);
     } catch (error) {
       res.status(500).json({ message: `Error fetching AI usage: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  app.post('/api/ai/analyze-contract', async (req: Request, res: Response) => {
+  // Tokens and estimated cost per day, for the Reports page
+  app.get('/api/ai/usage/history', async (req: Request, res: Response) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 30;
+      if (isNaN(days) || days < 1 || days > 90) {
+        return res.status(400).json({ message: 'days must be between 1 and 90' });
+      }
+      
+      res.json(await aiBudgetService.history(days));
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching AI usage history: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/ai/analyze-contract', requireRole('analyst'), async (req: Request, res: Response) => {
     try {
       const schema = z.object({
         contractId: z.number()
@@ -156,17 +1364,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Contract not found' });
       }
       
-      // Start the analysis process
-      await monitorService.scanContract(contract.address);
-      
-      res.json({ message: 'Contract analysis started' });
+      // Runs in the background; poll the job for progress
+      const job = await monitorService.queueContractAnalysis(contract, req.user!.id);
+      res.status(202).json(job);
     } catch (error) {
       res.status(500).json({ message: `Error analyzing contract: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
+  // Contract scan endpoints
+  app.post('/api/scans', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      const result = z.object({ address: addressSchema, chainId: chainIdSchema.optional() }).safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const scan = await scanService.startScan(result.data.address, result.data.chainId ?? defaultChainId(), req.user!.id);
+      res.status(202).json(scan);
+    } catch (error) {
+      res.status(500).json({ message: `Error starting scan: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/scans/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      
+      const scan = await scanService.getScan(id);
+      if (!scan) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      res.json(scan);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching scan: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/scans/:a/diff/:b', async (req: Request, res: Response) => {
+    try {
+      const baseId = parseInt(req.params.a);
+      const targetId = parseInt(req.params.b);
+      if (isNaN(baseId) || isNaN(targetId)) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      
+      const [base, target] = await Promise.all([storage.getScan(baseId), storage.getScan(targetId)]);
+      if (!base || !target) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      // The same address on another chain is an unrelated contract
+      if (base.chainId !== target.chainId || base.address.toLowerCase() !== target.address.toLowerCase()) {
+        return res.status(400).json({ message: 'Scans are for different contracts' });
+      }
+      
+      if (base.status !== 'COMPLETED' || target.status !== 'COMPLETED') {
+        return res.status(409).json({ message: 'Both scans must be completed' });
+      }
+      
+      res.json(scanService.diff(base, target));
+    } catch (error) {
+      res.status(500).json({ message: `Error comparing scans: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Background job endpoints
+  app.get('/api/jobs', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const contractId = req.query.contractId ? parseInt(req.query.contractId as string) : undefined;
+      if (contractId !== undefined && isNaN(contractId)) {
+        return res.status(400).json({ message: 'Invalid contract ID' });
+      }
+      
+      const jobs = await storage.getJobs(limit, contractId);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching jobs: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.get('/api/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid job ID' });
+      }
+      
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: `Error fetching job: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  app.post('/api/jobs/:id/cancel', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid job ID' });
+      }
+      
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      
+      if (jobQueue.isFinished(job)) {
+        return res.status(409).json({ message: `Job already ${job.status.toLowerCase()}` });
+      }
+      
+      res.json(await jobQueue.cancel(id));
+    } catch (error) {
+      res.status(500).json({ message: `Error cancelling job: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
   // Monitor control endpoints
-  app.post('/api/monitor/start', async (_req: Request, res: Response) => {
+  app.post('/api/monitor/start', requireRole('admin'), async (_req: Request, res: Response) => {
     try {
       if (monitorService.isActive()) {
         return res.json({ message: 'Monitoring service is already running' });
@@ -184,7 +1509,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post('/api/monitor/stop', async (_req: Request, res: Response) => {
+  app.post('/api/monitor/stop', requireRole('admin'), async (_req: Request, res: Response) => {
     try {
       if (!monitorService.isActive()) {
         return res.json({ message: 'Monitoring service is already stopped' });
@@ -199,12 +1524,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.get('/api/monitor/status', async (_req: Request, res: Response) => {
     try {
-      const isActive = monitorService.isActive();
-      res.json({ active: isActive });
+      const demoMode = blockchainService.isDemoMode();
+      const status: MonitorStatus = {
+        active: monitorService.isActive(),
+        demoMode,
+        simulator: demoMode ? chainSimulator.status() : null
+      };
+      res.json(status);
     } catch (error) {
       res.status(500).json({ message: `Error getting monitoring status: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
+  // Play a scripted attack on the simulated chain, against the given contract or the first of the scenario's type
+  app.post('/api/demo/scenarios/:name', requireRole('analyst'), async (req: Request, res: Response) => {
+    try {
+      if (!blockchainService.isDemoMode()) {
+        return res.status(409).json({ message: 'Scenarios are only available in demo mode' });
+      }
+      
+      if (!chainSimulator.getScenarios().some((scenario) => scenario.name === req.params.name)) {
+        return res.status(404).json({ message: 'Scenario not found' });
+      }
+      
+      const result = demoScenarioSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid request data', errors: result.error.format() });
+      }
+      
+      const run = chainSimulator.runScenario(req.params.name, result.data.contractId);
+      if (!run) {
+        return res.status(409).json({ message: 'No contract of the scenario\'s type is being simulated' });
+      }
+      
+      res.status(202).json(run);
+    } catch (error) {
+      res.status(500).json({ message: `Error running scenario: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
   return httpServer;
 }
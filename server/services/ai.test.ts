@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { AiService } from './ai';
+import type { Completion, CompletionRequest, LlmProvider } from './llm';
+import type { Contract } from '@shared/schema';
+
+// Answers each completion with the next of the given replies
+class ScriptedProvider implements LlmProvider {
+  readonly name = 'scripted';
+  readonly local = false;
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(private replies: string[]) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    // The service keeps appending to the conversation, so keep it as it was sent
+    this.requests.push({ ...request, messages: [...request.messages] });
+    return { content: this.replies.shift() ?? '', model: request.model, promptTokens: 100, completionTokens: 20, totalTokens: 120 };
+  }
+}
+
+const FINDING = {
+  title: 'Unprotected quorum change',
+  category: 'access control',
+  severity: 'high',
+  confidence: 0.8,
+  location: 'setQuorum',
+  evidence: 'function setQuorum(uint256 quorum) external',
+  recommendation: 'Restrict setQuorum to the owner'
+};
+
+async function createContract(name: string): Promise<Contract> {
+  return storage.createContract({
+    name,
+    chainId: 1868,
+    address: `0x${Buffer.from(name).toString('hex').padStart(40, '0').slice(-40)}`,
+    type: 'DAO',
+    status: 'HEALTHY'
+  });
+}
+
+describe('AiService.analyzeContract', () => {
+  it('sends malformed and invalid output back to the model until it validates', async () => {
+    const contract = await createContract('Retried');
+    const provider = new ScriptedProvider([
+      'The contract looks fine, no reentrancy found.',
+      JSON.stringify({ summary: 'One issue', findings: [{ ...FINDING, severity: 'SEVERE' }] }),
+      '```json\n' + JSON.stringify({ summary: 'One issue', findings: [FINDING] }) + '\n```'
+    ]);
+
+    const result = await new AiService(provider).analyzeContract(contract, 'contract DAO {}', 'QUICK');
+
+    assert.equal(provider.requests.length, 3);
+    assert.ok(provider.requests.every(request => request.json));
+    assert.match(provider.requests[1].messages.at(-1)!.content, /invalid JSON/);
+    assert.match(provider.requests[2].messages.at(-1)!.content, /findings\.0\.severity/);
+
+    assert.equal(result.analysis?.findings.length, 1);
+    assert.equal(result.analysis?.findings[0].category, 'ACCESS_CONTROL');
+    assert.equal(result.analysis?.findings[0].severity, 'HIGH');
+    assert.equal(result.tokenCount, 360);
+
+    // The attempts are one query
+    const queries = await storage.getAiQueriesByContract(contract.id);
+    assert.equal(queries.length, 1);
+    assert.equal(queries[0].feature, 'CONTRACT_ANALYSIS');
+    assert.equal(queries[0].tokenCount, 360);
+  });
+
+  it('returns no analysis once the attempts are used up, and still records the tokens', async () => {
+    const contract = await createContract('Garbled');
+    const provider = new ScriptedProvider(['{', '{"summary": "ok"}', 'no']);
+
+    const result = await new AiService(provider).analyzeContract(contract, 'contract DAO {}');
+
+    assert.equal(result.analysis, null);
+    assert.equal(result.raw, 'no');
+    assert.equal((await storage.getAiQueriesByContract(contract.id))[0].tokenCount, 360);
+  });
+
+  it('reports no findings when the model finds nothing', async () => {
+    const contract = await createContract('Clean');
+    const provider = new ScriptedProvider([JSON.stringify({ summary: 'No reentrancy or access control issues found', findings: [] })]);
+
+    const result = await new AiService(provider).analyzeContract(contract, 'contract DAO {}');
+
+    assert.deepEqual(result.analysis?.findings, []);
+  });
+});
@@ -0,0 +1,282 @@
+import { storage } from '../storage';
+import { settingsService } from './settings';
+import { aiBudgetService } from './aiBudget';
+import { createProvider, type ChatMessage, type Completion, type LlmProvider } from './llm';
+import { aiAnalysisSchema, type AiAnalysis, type AiFeature, type AnalysisDepth, type Contract, type InsertAiQuery } from '@shared/schema';
+
+const MAX_ANALYSIS_ATTEMPTS = 3; // Structured requests retried on malformed output
+
+// Characters of contract code included in an analysis prompt, by the configured analysis depth
+const CODE_LIMITS: Record<AnalysisDepth, number> = {
+  QUICK: 4000,
+  STANDARD: 8000,
+  COMPREHENSIVE: 24000
+};
+
+const STRUCTURED_SYSTEM_PROMPT = `You are an expert blockchain security analyzer specializing in smart contract vulnerabilities.
+Respond with a single JSON object and nothing else, using exactly this shape:
+{
+  "summary": string,
+  "findings": [
+    {
+      "title": string,
+      "category": "REENTRANCY" | "ACCESS_CONTROL" | "ARITHMETIC" | "LOGIC" | "FRONT_RUNNING" | "ORACLE" | "GAS" | "SUSPICIOUS_ACTIVITY" | "OTHER",
+      "severity": "LOW" | "MEDIUM" | "HIGH" | "CRITICAL",
+      "confidence": number between 0 and 1,
+      "location": string (function name or line, optional),
+      "evidence": string (the code or data that shows the issue),
+      "recommendation": string
+    }
+  ]
+}
+Use an empty findings array when nothing is wrong.`;
+
+// Monitored contract, or an ad-hoc scan target without a contract record
+export type AnalysisTarget = Pick<Contract, 'name' | 'address' | 'type'> & { id: number | null };
+
+export interface StructuredAnalysisResult {
+  analysis: AiAnalysis | null; // null when the model never produced valid output
+  raw: string;
+  tokenCount: number;
+}
+
+// Tokens spent on one logical query, which may take several completions
+interface QueryUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Security analysis through the deployment's LLM provider (see ./llm), with the model chosen per feature
+export class AiService {
+  private provider: LlmProvider;
+  
+  constructor(provider: LlmProvider = createProvider()) {
+    this.provider = provider;
+    
+    if (!provider.isConfigured()) {
+      console.warn(`AI provider "${provider.name}" is not configured. AI analysis will be unavailable.`);
+    }
+  }
+  
+  async initialize(): Promise<boolean> {
+    if (!this.isConfigured()) return false;
+    
+    try {
+      // Test the API with a simple query
+      const testResult = await this.query('Hello, are you working?');
+      return !!testResult;
+    } catch (error) {
+      console.error(`Failed to initialize AI provider "${this.provider.name}":`, error);
+      return false;
+    }
+  }
+  
+  async query(prompt: string): Promise<string | null> {
+    if (!this.isConfigured()) return null;
+    
+    try {
+      const completion = await this.complete('QUERY', [
+        { role: 'system', content: 'You are an expert blockchain security analyzer specializing in smart contract vulnerabilities. Provide clear, concise analysis of potential security issues.' },
+        { role: 'user', content: prompt }
+      ]);
+      await this.recordQuery(null, 'QUERY', prompt, completion.content, this.addUsage(null, completion));
+      
+      return completion.content;
+    } catch (error) {
+      console.error('Error querying AI provider:', error);
+      return null;
+    }
+  }
+  
+  async analyzeContract(
+    contract: AnalysisTarget,
+    code: string,
+    depth: AnalysisDepth = settingsService.get().analysisDepth
+  ): Promise<StructuredAnalysisResult> {
+    if (!this.isConfigured()) {
+      return { analysis: null, raw: 'AI analysis unavailable: provider not configured', tokenCount: 0 };
+    }
+    
+    // Create an appropriate prompt for contract analysis
+    const codeLimit = CODE_LIMITS[depth];
+    const prompt = `
+      Analyze the following smart contract for security vulnerabilities:
+      
+      Contract Name: ${contract.name}
+      Contract Address: ${contract.address}
+      Contract Type: ${contract.type}
+      
+      Contract Code:
+      ${code.slice(0, codeLimit)} ${code.length > codeLimit ? '...(truncated)' : ''}
+      
+      Specifically look for:
+      1. Reentrancy vulnerabilities
+      2. Access control issues
+      3. Integer overflow/underflow
+      4. Logic errors
+      5. Gas optimization issues
+      6. Front-running vulnerabilities
+      
+      Only report issues you found evidence for. Checks that found nothing must not be listed as findings.
+    `;
+    
+    try {
+      return await this.queryStructured(contract, 'CONTRACT_ANALYSIS', prompt);
+    } catch (error) {
+      console.error('Error analyzing contract with AI:', error);
+      return { 
+        analysis: null,
+        raw: `Error analyzing contract: ${error instanceof Error ? error.message : String(error)}`, 
+        tokenCount: 0 
+      };
+    }
+  }
+  
+  async analyzeEvent(contract: Contract, eventName: string, eventData: any): Promise<StructuredAnalysisResult> {
+    if (!this.isConfigured()) {
+      return { analysis: null, raw: 'AI analysis unavailable: provider not configured', tokenCount: 0 };
+    }
+    
+    // Create a prompt for event analysis
+    const prompt = `
+      Analyze the following blockchain event:
+      
+      Contract: ${contract.name} (${contract.address})
+      Event: ${eventName}
+      Event Data: ${JSON.stringify(eventData, null, 2)}
+      
+      Is this event suspicious or unusual in any way?
+      Does it indicate a potential security issue?
+      
+      Report a finding only if the event indicates a potential security issue. A normal event has no findings.
+    `;
+    
+    try {
+      return await this.queryStructured(contract, 'EVENT_ANALYSIS', prompt);
+    } catch (error) {
+      console.error('Error analyzing event with AI:', error);
+      return { 
+        analysis: null,
+        raw: `Error analyzing event: ${error instanceof Error ? error.message : String(error)}`, 
+        tokenCount: 0 
+      };
+    }
+  }
+  
+  // Ask for JSON matching aiAnalysisSchema. Malformed or invalid output is sent back to the
+  // model with the validation errors; once attempts run out the analysis is null. Tokens of
+  // every attempt are recorded, also when a later one fails.
+  private async queryStructured(contract: AnalysisTarget, feature: AiFeature, prompt: string): Promise<StructuredAnalysisResult> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: STRUCTURED_SYSTEM_PROMPT },
+      { role: 'user', content: prompt }
+    ];
+    let raw = '';
+    let usage: QueryUsage | null = null;
+    
+    try {
+      for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS; attempt++) {
+        const completion = await this.complete(feature, messages, { json: true, temperature: 0.2 });
+        raw = completion.content;
+        usage = this.addUsage(usage, completion);
+        
+        const result = this.parseAnalysis(raw);
+        if (result.success) {
+          return { analysis: result.data, raw, tokenCount: usage.totalTokens };
+        }
+        
+        console.warn(`${this.provider.name} returned invalid analysis (attempt ${attempt}/${MAX_ANALYSIS_ATTEMPTS}): ${result.error}`);
+        messages.push(
+          { role: 'assistant', content: raw },
+          { role: 'user', content: `That response was rejected: ${result.error}. Reply again with only the corrected JSON object.` }
+        );
+      }
+      
+      return { analysis: null, raw, tokenCount: usage?.totalTokens ?? 0 };
+    } finally {
+      if (usage) await this.recordQuery(contract, feature, prompt, raw, usage);
+    }
+  }
+  
+  private parseAnalysis(raw: string): { success: true, data: AiAnalysis } | { success: false, error: string } {
+    // Some models wrap JSON in a markdown fence even in JSON mode
+    const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      return { success: false, error: `invalid JSON (${error instanceof Error ? error.message : String(error)})` };
+    }
+    
+    const result = aiAnalysisSchema.safeParse(json);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+      return { success: false, error: `schema mismatch (${issues.join('; ')})` };
+    }
+    
+    return { success: true, data: result.data };
+  }
+  
+  // The feature's model from the settings, else the default model
+  modelFor(feature: AiFeature): string {
+    const settings = settingsService.get();
+    
+    if (feature === 'CONTRACT_ANALYSIS') return settings.contractAnalysisModel ?? settings.aiModel;
+    if (feature === 'EVENT_ANALYSIS') return settings.eventAnalysisModel ?? settings.aiModel;
+    return settings.aiModel;
+  }
+  
+  private complete(
+    feature: AiFeature,
+    messages: ChatMessage[],
+    options: { json?: boolean, temperature?: number } = {}
+  ): Promise<Completion> {
+    return this.provider.complete({ model: this.modelFor(feature), messages, ...options });
+  }
+  
+  private addUsage(usage: QueryUsage | null, completion: Completion): QueryUsage {
+    return {
+      model: completion.model,
+      promptTokens: (usage?.promptTokens ?? 0) + completion.promptTokens,
+      completionTokens: (usage?.completionTokens ?? 0) + completion.completionTokens,
+      totalTokens: (usage?.totalTokens ?? 0) + completion.totalTokens
+    };
+  }
+  
+  private async recordQuery(
+    contract: AnalysisTarget | null,
+    feature: AiFeature,
+    prompt: string,
+    response: string,
+    usage: QueryUsage
+  ): Promise<void> {
+    const aiQueryData: InsertAiQuery = {
+      contractId: contract?.id ?? null,
+      feature,
+      provider: this.provider.name,
+      model: usage.model,
+      query: prompt,
+      response,
+      tokenCount: usage.totalTokens,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      // Local models cost nothing beyond the hardware they run on
+      estimatedCost: this.provider.local ? 0 : aiBudgetService.estimateCost(usage.model, usage.totalTokens)
+    };
+    
+    await storage.createAiQuery(aiQueryData);
+  }
+  
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+  
+  get providerName(): string {
+    return this.provider.name;
+  }
+}
+
+export const aiService = new AiService();
@@ -0,0 +1,125 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { aiBudgetService } from './aiBudget';
+import { settingsService } from './settings';
+import type { AiFeature, Contract, GuardianSettings } from '@shared/schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+let epochCount = 0;
+let contractCount = 0;
+
+// Start the clock at midday of a day of its own, a year after the last test's, so the
+// queries of other tests are outside every window
+function startClock(): number {
+  const now = Date.UTC(2030 + ++epochCount, 0, 15, 12);
+  mock.timers.enable({ apis: ['Date'], now });
+  return now;
+}
+
+async function useSettings(values: Partial<GuardianSettings>): Promise<void> {
+  await settingsService.update({ ...settingsService.defaults(), ...values }, null);
+}
+
+async function createContract(dailyTokenQuota?: number): Promise<Contract> {
+  const contract = await storage.createContract({
+    name: `Budgeted ${++contractCount}`,
+    chainId: 1868,
+    address: `0x${(0xb0d9e7 + contractCount).toString(16).padStart(40, '0')}`,
+    type: 'TOKEN',
+    status: 'HEALTHY'
+  });
+  return dailyTokenQuota === undefined ? contract : (await storage.updateContractPolicy(contract.id, { dailyTokenQuota }))!;
+}
+
+async function spend(tokenCount: number, feature: AiFeature = 'CONTRACT_ANALYSIS', contractId: number | null = null): Promise<void> {
+  await storage.createAiQuery({ contractId, feature, model: 'llama3-70b-8192', query: 'Analyze', tokenCount, estimatedCost: tokenCount / 1000 });
+}
+
+async function budgetAlerts(contract: Contract) {
+  return (await storage.getAlertsByContract(contract.id)).filter(alert => alert.title === 'AI token budget exhausted');
+}
+
+afterEach(async () => {
+  mock.timers.reset();
+  await useSettings({});
+});
+
+describe('AiBudgetService', () => {
+  it('only counts the last 24 hours toward the daily limit', async () => {
+    const now = startClock();
+    await useSettings({ dailyTokenLimit: 1000 });
+
+    mock.timers.setTime(now - 25 * HOUR_MS);
+    await spend(900);
+    mock.timers.setTime(now);
+    await spend(200);
+
+    assert.deepEqual(await aiBudgetService.check(null, 'CONTRACT_ANALYSIS'), { allowed: true });
+    const usage = await aiBudgetService.usage();
+    assert.equal(usage.daily.used, 200);
+    assert.equal(usage.monthly.used, 1100);
+    assert.equal(usage.exhausted, null);
+
+    await spend(800);
+    const check = await aiBudgetService.check(null, 'CONTRACT_ANALYSIS');
+    assert.equal(check.allowed, false);
+    assert.match((check as { reason: string }).reason, /1000 of 1000 tokens used in the last 24 hours/);
+    assert.match((await aiBudgetService.usage()).exhausted!, /Daily limit reached/);
+  });
+
+  it('turns away a feature that used its quota and lets the others run', async () => {
+    startClock();
+    await useSettings({ eventAnalysisTokenQuota: 500 });
+
+    await spend(500, 'EVENT_ANALYSIS');
+
+    assert.equal((await aiBudgetService.check(null, 'EVENT_ANALYSIS')).allowed, false);
+    assert.equal((await aiBudgetService.check(null, 'CONTRACT_ANALYSIS')).allowed, true);
+    assert.deepEqual((await aiBudgetService.usage()).features.EVENT_ANALYSIS, { used: 500, quota: 500 });
+  });
+
+  it('holds a contract to the quota of its policy and raises one alert a day about it', async () => {
+    const now = startClock();
+    const limited = await createContract(300);
+    const other = await createContract();
+
+    await spend(300, 'CONTRACT_ANALYSIS', limited.id);
+
+    assert.equal((await aiBudgetService.check(other, 'CONTRACT_ANALYSIS')).allowed, true);
+    assert.equal((await aiBudgetService.check(limited, 'CONTRACT_ANALYSIS')).allowed, false);
+    assert.equal((await aiBudgetService.check(limited, 'EVENT_ANALYSIS')).allowed, false);
+
+    const [alert, ...rest] = await budgetAlerts(limited);
+    assert.deepEqual(rest, []);
+    assert.equal(alert.severity, 'MEDIUM');
+    assert.match(alert.description, /300 of its 300 daily tokens used/);
+    assert.deepEqual(await budgetAlerts(other), []);
+
+    // The usage leaves the window a day later and the contract may run again
+    mock.timers.setTime(now + DAY_MS + 1);
+    assert.equal((await aiBudgetService.check(limited, 'CONTRACT_ANALYSIS')).allowed, true);
+  });
+
+  it('reports usage per UTC day, including days without queries', async () => {
+    const now = startClock();
+
+    mock.timers.setTime(now - DAY_MS);
+    await spend(100, 'CONTRACT_ANALYSIS');
+    mock.timers.setTime(now);
+    await spend(40, 'EVENT_ANALYSIS');
+    await spend(2, 'QUERY');
+
+    const history = await aiBudgetService.history(3);
+    const day = (offset: number) => new Date(now + offset * DAY_MS).toISOString().slice(0, 10);
+
+    assert.deepEqual(history.map(point => point.date), [day(-2), day(-1), day(0)]);
+    assert.deepEqual(history.map(point => point.total), [0, 100, 42]);
+    assert.equal(history[1].contractAnalysis, 100);
+    assert.equal(history[2].eventAnalysis, 40);
+    assert.equal(history[2].other, 2);
+    assert.equal(history[2].estimatedCost, 0.042);
+  });
+});
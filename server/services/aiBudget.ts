@@ -0,0 +1,205 @@
+import { storage } from '../storage';
+import { settingsService } from './settings';
+import { alertService } from './alerts';
+import { effectivePolicy } from './scheduler';
+import {
+  aiFeatures,
+  type AiFeature,
+  type AiQueryUsage,
+  type AiUsageHistoryPoint,
+  type AiUsageSummary,
+  type AiUsageWindow,
+  type Contract
+} from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+
+// An exhausted budget raises one alert a day, however often work is turned away
+const BUDGET_ALERT_INTERVAL_MS = DAY_MS;
+
+// Approximate USD per million tokens, input and output blended, since only totals are recorded
+const MODEL_PRICES: Record<string, number> = {
+  'llama3-8b-8192': 0.065,
+  'llama-3.1-8b-instant': 0.065,
+  'llama3-70b-8192': 0.69,
+  'llama-3.3-70b-versatile': 0.69,
+  'mixtral-8x7b-32768': 0.24,
+  'gemma2-9b-it': 0.2
+};
+const DEFAULT_PRICE = parseFloat(process.env.AI_DEFAULT_PRICE_PER_MILLION_TOKENS || '0.5');
+
+const FEATURE_LABELS: Record<AiFeature, string> = {
+  CONTRACT_ANALYSIS: 'contract analysis',
+  EVENT_ANALYSIS: 'event analysis',
+  QUERY: 'free-form queries'
+};
+
+export type BudgetCheck = { allowed: true } | { allowed: false; reason: string };
+
+interface ExceededBudget {
+  key: string; // Which budget, for alert throttling and deduplication
+  reason: string;
+}
+
+function sumTokens(rows: AiQueryUsage[]): number {
+  return rows.reduce((total, row) => total + (row.tokenCount ?? 0), 0);
+}
+
+// Token budgets over rolling windows: the global daily and monthly limits, the daily quotas
+// per feature from the settings and the daily quota from each contract's policy.
+class AiBudgetService {
+  private lastAlerts: Map<string, number> = new Map();
+  
+  // Queries to local providers are free; the caller knows which provider it used
+  estimateCost(model: string, tokens: number): number {
+    return (tokens / 1000000) * (MODEL_PRICES[model] ?? DEFAULT_PRICE);
+  }
+  
+  // Older rows carry no cost and are priced now, at the current default model if they have no model either
+  private costOf(row: AiQueryUsage): number {
+    return row.estimatedCost ?? this.estimateCost(row.model ?? settingsService.get().aiModel, row.tokenCount ?? 0);
+  }
+  
+  // Whether AI work of this kind may run for the contract now. The first time in a day a
+  // budget turns work away, an alert is raised on the contract.
+  async check(contract: Contract | null, feature: AiFeature): Promise<BudgetCheck> {
+    const exceeded = await this.exceededBudget(contract, feature);
+    if (!exceeded) return { allowed: true };
+    
+    console.warn(`AI ${FEATURE_LABELS[feature]} of ${contract?.name ?? 'unregistered contract'} skipped: ${exceeded.reason}`);
+    if (contract) await this.alert(contract, exceeded);
+    
+    return { allowed: false, reason: exceeded.reason };
+  }
+  
+  async usage(): Promise<AiUsageSummary> {
+    const settings = settingsService.get();
+    const now = Date.now();
+    const monthRows = await storage.getAiQueryUsageSince(new Date(now - MONTH_MS));
+    const dayRows = monthRows.filter(row => row.createdAt.getTime() >= now - DAY_MS);
+    
+    const daily = this.window(dayRows, settings.dailyTokenLimit);
+    const monthly = this.window(monthRows, settings.monthlyTokenLimit);
+    const quotas = this.featureQuotas();
+    
+    const features = {} as AiUsageSummary['features'];
+    for (const feature of aiFeatures) {
+      features[feature] = { used: sumTokens(dayRows.filter(row => row.feature === feature)), quota: quotas[feature] };
+    }
+    
+    let exhausted: string | null = null;
+    if (daily.used >= daily.limit) {
+      exhausted = `Daily limit reached (${daily.used} of ${daily.limit} tokens)`;
+    } else if (monthly.used >= monthly.limit) {
+      exhausted = `Monthly limit reached (${monthly.used} of ${monthly.limit} tokens)`;
+    }
+    
+    return { used: daily.used, limit: daily.limit, percentage: daily.percentage, daily, monthly, features, exhausted };
+  }
+  
+  // Tokens per UTC day for the last `days` days, oldest first. Days without queries are included.
+  async history(days: number): Promise<AiUsageHistoryPoint[]> {
+    const start = new Date();
+    start.setUTCHours(0, 0, 0, 0);
+    start.setUTCDate(start.getUTCDate() - (days - 1));
+    
+    const points = new Map<string, AiUsageHistoryPoint>();
+    for (let i = 0; i < days; i++) {
+      const date = new Date(start.getTime() + i * DAY_MS).toISOString().slice(0, 10);
+      points.set(date, { date, contractAnalysis: 0, eventAnalysis: 0, other: 0, total: 0, estimatedCost: 0 });
+    }
+    
+    for (const row of await storage.getAiQueryUsageSince(start)) {
+      const point = points.get(row.createdAt.toISOString().slice(0, 10));
+      if (!point) continue;
+      
+      const tokens = row.tokenCount ?? 0;
+      if (row.feature === 'CONTRACT_ANALYSIS') {
+        point.contractAnalysis += tokens;
+      } else if (row.feature === 'EVENT_ANALYSIS') {
+        point.eventAnalysis += tokens;
+      } else {
+        point.other += tokens;
+      }
+      point.total += tokens;
+      point.estimatedCost += this.costOf(row);
+    }
+    
+    return Array.from(points.values());
+  }
+  
+  private featureQuotas(): Record<AiFeature, number | null> {
+    const settings = settingsService.get();
+    
+    return {
+      CONTRACT_ANALYSIS: settings.contractAnalysisTokenQuota,
+      EVENT_ANALYSIS: settings.eventAnalysisTokenQuota,
+      QUERY: null
+    };
+  }
+  
+  private window(rows: AiQueryUsage[], limit: number): AiUsageWindow {
+    const used = sumTokens(rows);
+    
+    return {
+      used,
+      limit,
+      percentage: limit > 0 ? (used / limit) * 100 : 100,
+      estimatedCost: rows.reduce((total, row) => total + this.costOf(row), 0)
+    };
+  }
+  
+  private async exceededBudget(contract: Contract | null, feature: AiFeature): Promise<ExceededBudget | null> {
+    const settings = settingsService.get();
+    const now = Date.now();
+    const dayStart = new Date(now - DAY_MS);
+    
+    const daily = await storage.getQueryTokenCountSince(dayStart);
+    if (daily >= settings.dailyTokenLimit) {
+      return { key: 'daily', reason: `${daily} of ${settings.dailyTokenLimit} tokens used in the last 24 hours` };
+    }
+    
+    const monthly = await storage.getQueryTokenCountSince(new Date(now - MONTH_MS));
+    if (monthly >= settings.monthlyTokenLimit) {
+      return { key: 'monthly', reason: `${monthly} of ${settings.monthlyTokenLimit} tokens used in the last 30 days` };
+    }
+    
+    const featureQuota = this.featureQuotas()[feature];
+    if (featureQuota !== null) {
+      const used = await storage.getQueryTokenCountSince(dayStart, feature);
+      if (used >= featureQuota) {
+        return { key: `feature:${feature}`, reason: `${used} of the ${featureQuota} daily tokens for ${FEATURE_LABELS[feature]} used` };
+      }
+    }
+    
+    const contractQuota = contract ? effectivePolicy(contract).dailyTokenQuota : null;
+    if (contract && contractQuota !== null) {
+      const used = await storage.getContractQueryTokenCountSince(contract.id, dayStart);
+      if (used >= contractQuota) {
+        return { key: `contract:${contract.id}`, reason: `${used} of its ${contractQuota} daily tokens used` };
+      }
+    }
+    
+    return null;
+  }
+  
+  private async alert(contract: Contract, exceeded: ExceededBudget): Promise<void> {
+    const lastAlert = this.lastAlerts.get(exceeded.key);
+    if (lastAlert !== undefined && Date.now() - lastAlert < BUDGET_ALERT_INTERVAL_MS) return;
+    this.lastAlerts.set(exceeded.key, Date.now());
+    
+    try {
+      await alertService.raise({
+        contractId: contract.id,
+        severity: 'MEDIUM',
+        title: 'AI token budget exhausted',
+        description: `AI analysis of ${contract.name} was skipped: ${exceeded.reason}. It resumes as older usage leaves the rolling window, or once the limit is raised.`
+      }, `budget:${exceeded.key}`);
+    } catch (error) {
+      console.error('Error raising budget alert:', error);
+    }
+  }
+}
+
+export const aiBudgetService = new AiBudgetService();
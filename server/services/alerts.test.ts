@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { eventBus } from '../eventBus';
+import { alertDedupKey, alertService } from './alerts';
+import type { Alert, Contract, InsertAlert } from '@shared/schema';
+
+async function createContract(name: string): Promise<Contract> {
+  return storage.createContract({
+    name,
+    chainId: 1868,
+    address: `0x${Buffer.from(name).toString('hex').padStart(40, '0').slice(-40)}`,
+    type: 'TOKEN',
+    status: 'HEALTHY'
+  });
+}
+
+function detection(contract: Contract, title: string, severity: string = 'MEDIUM'): InsertAlert {
+  return { contractId: contract.id, severity, title, description: `${title} detected` };
+}
+
+describe('alertDedupKey', () => {
+  it('ignores case and surrounding whitespace of the title and fingerprint', () => {
+    assert.equal(alertDedupKey(1, 'Large Transfer', ' 0xAB '), alertDedupKey(1, ' large transfer', '0xab'));
+    assert.notEqual(alertDedupKey(1, 'Large transfer'), alertDedupKey(2, 'Large transfer'));
+    assert.notEqual(alertDedupKey(1, 'Large transfer', 'a'), alertDedupKey(1, 'Large transfer', 'b'));
+  });
+});
+
+describe('AlertService.raise', () => {
+  it('counts repeats of an open alert instead of creating new ones', async () => {
+    const contract = await createContract('Dedup');
+    const created: Alert[] = [];
+    const listener = (alert: Alert) => created.push(alert);
+    eventBus.on('alert.created', listener);
+
+    const first = await alertService.raise(detection(contract, 'Large transfer'), 'tx-1');
+    const repeat = await alertService.raise(detection(contract, 'Large transfer'), 'tx-1');
+    const other = await alertService.raise(detection(contract, 'Large transfer'), 'tx-2');
+    eventBus.off('alert.created', listener);
+
+    assert.equal(first.created, true);
+    assert.equal(repeat.created, false);
+    assert.equal(repeat.alert.id, first.alert.id);
+    assert.equal(repeat.alert.occurrences, 2);
+    assert.equal(other.created, true);
+    assert.deepEqual(created.map(alert => alert.id), [first.alert.id, other.alert.id]);
+  });
+
+  it('creates one alert for concurrent detections of the same finding', async () => {
+    const contract = await createContract('Concurrent');
+
+    const raised = await Promise.all([1, 2, 3].map(() => alertService.raise(detection(contract, 'Reentrancy'), 'withdraw')));
+
+    assert.equal(raised.filter(result => result.created).length, 1);
+    assert.equal((await storage.getAlertsByContract(contract.id)).length, 1);
+    assert.equal((await storage.getIncidents()).filter(incident => incident.contractId === contract.id).length, 1);
+  });
+
+  it('groups alerts of a contract into its open incident at the highest severity', async () => {
+    const contract = await createContract('Grouping');
+
+    const low = await alertService.raise(detection(contract, 'Paused', 'LOW'));
+    const critical = await alertService.raise(detection(contract, 'Ownership transferred', 'CRITICAL'));
+
+    assert.ok(low.alert.incidentId);
+    assert.equal(critical.alert.incidentId, low.alert.incidentId);
+    assert.equal((await storage.getIncident(low.alert.incidentId!))?.severity, 'CRITICAL');
+  });
+
+  it('starts a new incident once the previous one has no open alerts', async () => {
+    const contract = await createContract('Closed incident');
+
+    const first = await alertService.raise(detection(contract, 'Paused'));
+    await alertService.changeStatus(first.alert, 'RESOLVED', null, 'Expected pause');
+    const second = await alertService.raise(detection(contract, 'Unpaused'));
+
+    assert.notEqual(second.alert.incidentId, first.alert.incidentId);
+  });
+
+  it('raises a new alert after the open one is closed, and will not reopen the old one beside it', async () => {
+    const contract = await createContract('Reopen');
+
+    const first = await alertService.raise(detection(contract, 'Large transfer'));
+    const resolved = await alertService.changeStatus(first.alert, 'RESOLVED', null);
+    const second = await alertService.raise(detection(contract, 'Large transfer'));
+
+    assert.equal(second.created, true);
+    assert.ok(resolved.success);
+
+    const reopened = await alertService.reopen(resolved.alert, null, 'Not actually fixed');
+    assert.equal(reopened.success, false);
+    assert.equal(!reopened.success && reopened.conflict, true);
+  });
+});
@@ -0,0 +1,227 @@
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import { eventBus } from '../eventBus';
+import { hasRole } from '../auth';
+import {
+  closedAlertStatuses,
+  severityLevels,
+  type Alert,
+  type AlertComment,
+  type AlertStatus,
+  type Event,
+  type Incident,
+  type IncidentSummary,
+  type InsertAlert
+} from '@shared/schema';
+
+// A new alert joins the contract's latest incident if that incident is still open and saw activity this recently
+const INCIDENT_WINDOW_MS = parseInt(process.env.INCIDENT_WINDOW_MINUTES || '60', 10) * 60 * 1000;
+
+// Statuses an alert can move to from each status. Closed alerts only leave through reopen().
+const TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  OPEN: ['ACKNOWLEDGED', 'INVESTIGATING', 'RESOLVED', 'FALSE_POSITIVE'],
+  ACKNOWLEDGED: ['INVESTIGATING', 'RESOLVED', 'FALSE_POSITIVE'],
+  INVESTIGATING: ['ACKNOWLEDGED', 'RESOLVED', 'FALSE_POSITIVE'],
+  RESOLVED: [],
+  FALSE_POSITIVE: []
+};
+
+export interface RaisedAlert {
+  alert: Alert;
+  created: boolean; // false when an open alert with the same dedup key was bumped instead
+}
+
+// Same contract, same title or rule, same fingerprint (e.g. finding location) means the same alert
+export function alertDedupKey(contractId: number, title: string, fingerprint: string = ''): string {
+  return createHash('sha256')
+    .update(`${contractId}|${title.trim().toLowerCase()}|${fingerprint.trim().toLowerCase()}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+function higherSeverity(a: string, b: string): string {
+  const levels: readonly string[] = severityLevels;
+  return levels.indexOf(b) > levels.indexOf(a) ? b : a;
+}
+
+export type AlertChange<T = Alert> =
+  | { success: true; alert: Alert; result: T }
+  | { success: false; error: string; conflict?: boolean };
+
+class AlertService {
+  isClosed(alert: Alert): boolean {
+    return closedAlertStatuses.includes(alert.status as AlertStatus);
+  }
+  
+  // Record a detection. A repeat of an open alert increments its occurrence count instead of
+  // creating a new one; otherwise a new alert is created and grouped into an incident.
+  async raise(input: InsertAlert, fingerprint?: string): Promise<RaisedAlert> {
+    const dedupKey = alertDedupKey(input.contractId, input.title, fingerprint);
+    const raised = await storage.raiseAlert({ ...input, dedupKey, incidentId: null });
+    
+    if (!raised.created) {
+      if (raised.alert.incidentId !== null) {
+        await storage.updateIncident(raised.alert.incidentId, { lastAlertAt: raised.alert.lastSeenAt });
+      }
+      eventBus.emit('alert.updated', raised.alert);
+      return raised;
+    }
+    
+    // Grouped only once the alert exists, so a raise that turned out to be a repeat leaves no empty incident
+    const incident = await this.incidentFor(input.contractId, input.title, input.severity);
+    const alert = (await storage.updateAlert(raised.alert.id, { incidentId: incident.id })) ?? raised.alert;
+    eventBus.emit('alert.created', alert);
+    
+    return { alert, created: true };
+  }
+  
+  // The contract's latest incident if it is open and recent, raised to this severity; else a new one
+  private async incidentFor(contractId: number, title: string, severity: string): Promise<Incident> {
+    const now = new Date();
+    const latest = await storage.getLatestIncident(contractId);
+    
+    if (latest && now.getTime() - latest.lastAlertAt.getTime() <= INCIDENT_WINDOW_MS) {
+      const members = await storage.getAlertsByIncident(latest.id);
+      if (members.some(alert => !this.isClosed(alert))) {
+        const updated = await storage.updateIncident(latest.id, {
+          severity: higherSeverity(latest.severity, severity),
+          lastAlertAt: now
+        });
+        if (updated) return updated;
+      }
+    }
+    
+    return storage.createIncident({ contractId, title, severity, createdAt: now, lastAlertAt: now });
+  }
+  
+  summarizeIncident(incident: Incident, members: Alert[]): IncidentSummary {
+    const openAlertCount = members.filter(alert => !this.isClosed(alert)).length;
+    
+    return {
+      ...incident,
+      status: openAlertCount > 0 ? 'OPEN' : 'CLOSED',
+      alertCount: members.length,
+      openAlertCount,
+      occurrences: members.reduce((total, alert) => total + alert.occurrences, 0)
+    };
+  }
+  
+  // Move an alert along its lifecycle, recording who did it and why
+  async changeStatus(alert: Alert, status: AlertStatus, userId: number | null, note?: string): Promise<AlertChange> {
+    const from = alert.status as AlertStatus;
+    if (from === status) {
+      return { success: true, alert, result: alert };
+    }
+    
+    if (!TRANSITIONS[from]?.includes(status)) {
+      return {
+        success: false,
+        conflict: true,
+        error: this.isClosed(alert)
+          ? `Alert is ${from}; reopen it first`
+          : `Cannot move alert from ${from} to ${status}`
+      };
+    }
+    
+    const closing = closedAlertStatuses.includes(status);
+    const updated = await storage.updateAlert(alert.id, {
+      status,
+      ...(closing ? { resolutionNote: note ?? null, resolvedAt: new Date() } : {})
+    });
+    if (!updated) return { success: false, error: 'Alert not found' };
+    
+    await storage.addAlertHistory({
+      alertId: alert.id,
+      userId,
+      action: 'STATUS_CHANGED',
+      fromStatus: from,
+      toStatus: status,
+      note
+    });
+    
+    eventBus.emit('alert.updated', updated);
+    if (closing) eventBus.emit('alert.resolved', updated);
+    
+    return { success: true, alert: updated, result: updated };
+  }
+  
+  async reopen(alert: Alert, userId: number | null, note: string): Promise<AlertChange> {
+    if (!this.isClosed(alert)) {
+      return { success: false, conflict: true, error: `Alert is ${alert.status}, not closed` };
+    }
+    
+    // Only one alert per dedup key can be open; further occurrences are already counted on that one
+    const duplicate = alert.dedupKey ? await storage.getOpenAlertByDedupKey(alert.dedupKey) : undefined;
+    if (duplicate) {
+      return { success: false, conflict: true, error: `Alert #${duplicate.id} for the same finding is already open` };
+    }
+    
+    const updated = await storage.updateAlert(alert.id, {
+      status: 'OPEN',
+      resolutionNote: null,
+      resolvedAt: null
+    });
+    if (!updated) return { success: false, error: 'Alert not found' };
+    
+    await storage.addAlertHistory({
+      alertId: alert.id,
+      userId,
+      action: 'REOPENED',
+      fromStatus: alert.status,
+      toStatus: 'OPEN',
+      note
+    });
+    
+    eventBus.emit('alert.updated', updated);
+    return { success: true, alert: updated, result: updated };
+  }
+  
+  // The event the alerts were derived from was orphaned by a reorg and is about to be deleted.
+  // The alerts stay for the audit trail with a history entry saying so; open ones are resolved.
+  async detachRemovedEvent(event: Event): Promise<void> {
+    const note = `${event.eventName} event in transaction ${event.transactionHash} was removed by a chain reorganization`;
+    
+    for (const alert of await storage.getAlertsByEvent(event.id)) {
+      await storage.addAlertHistory({ alertId: alert.id, userId: null, action: 'EVENT_REMOVED', note });
+      if (!this.isClosed(alert)) {
+        await this.changeStatus(alert, 'RESOLVED', null, 'Source event removed by a chain reorganization');
+      }
+    }
+  }
+  
+  // Assign to an analyst (or admin), or clear the assignee with null
+  async assign(alert: Alert, assigneeId: number | null, userId: number | null): Promise<AlertChange> {
+    let note = 'Unassigned';
+    
+    if (assigneeId !== null) {
+      const assignee = await storage.getUser(assigneeId);
+      if (!assignee) return { success: false, error: 'Assignee not found' };
+      if (!hasRole(assignee, 'analyst')) return { success: false, error: 'Assignee must be an analyst or admin' };
+      note = `Assigned to ${assignee.username}`;
+    }
+    
+    const updated = await storage.updateAlert(alert.id, { assigneeId });
+    if (!updated) return { success: false, error: 'Alert not found' };
+    
+    await storage.addAlertHistory({ alertId: alert.id, userId, action: 'ASSIGNED', note });
+    
+    eventBus.emit('alert.updated', updated);
+    return { success: true, alert: updated, result: updated };
+  }
+  
+  async comment(alert: Alert, userId: number | null, body: string, parentId?: number | null): Promise<AlertChange<AlertComment>> {
+    if (parentId != null) {
+      const parent = await storage.getAlertComment(parentId);
+      if (!parent || parent.alertId !== alert.id) {
+        return { success: false, error: 'Parent comment not found on this alert' };
+      }
+    }
+    
+    const comment = await storage.createAlertComment({ alertId: alert.id, userId, body, parentId: parentId ?? null });
+    await storage.addAlertHistory({ alertId: alert.id, userId, action: 'COMMENTED', note: `Comment #${comment.id}` });
+    
+    return { success: true, alert, result: comment };
+  }
+}
+
+export const alertService = new AlertService();
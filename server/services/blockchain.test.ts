@@ -0,0 +1,196 @@
+import { afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { storage } from '../storage';
+import { eventBus } from '../eventBus';
+import { alertService } from './alerts';
+import type { Contract, Event } from '@shared/schema';
+
+// Read when the module loads: in demo mode the simulator is the chain reconciliation reads,
+// and the tests stand in for it without starting it
+process.env.DEMO_MODE = 'true';
+
+// Soneium's confirmation depth
+const CONFIRMATIONS = 12;
+
+let blockchainService: typeof import('./blockchain').blockchainService;
+let chainSimulator: typeof import('./simulator').chainSimulator;
+
+// A chain whose blocks can be replaced by those of another fork. Block hashes only depend on
+// the fork and the number, so blocks nobody rewrote keep their hash.
+class StubChain {
+  head = 0;
+  private hashes = new Map<number, string>();
+  private receipts = new Map<string, { blockNumber: number; blockHash: string }>();
+
+  hash(blockNumber: number): string {
+    return this.hashes.get(blockNumber)!;
+  }
+
+  mine(blocks: number, fork = 'main') {
+    for (let i = 0; i < blocks; i++) {
+      this.head++;
+      this.hashes.set(this.head, ethers.id(`${fork}:${this.head}`));
+    }
+  }
+
+  // Replace the blocks from `fromBlock` to the head, dropping the transactions mined in them
+  rewrite(fromBlock: number, fork: string) {
+    for (let blockNumber = fromBlock; blockNumber <= this.head; blockNumber++) {
+      this.hashes.set(blockNumber, ethers.id(`${fork}:${blockNumber}`));
+    }
+    for (const [hash, receipt] of Array.from(this.receipts.entries())) {
+      if (receipt.blockNumber >= fromBlock) this.receipts.delete(hash);
+    }
+  }
+
+  include(transactionHash: string, blockNumber: number) {
+    this.receipts.set(transactionHash, { blockNumber, blockHash: this.hash(blockNumber) });
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.head;
+  }
+
+  async getBlock(blockNumber: number): Promise<{ hash: string } | null> {
+    return blockNumber <= this.head ? { hash: this.hash(blockNumber) } : null;
+  }
+
+  async getTransactionReceipt(hash: string): Promise<{ blockNumber: number; blockHash: string } | null> {
+    return this.receipts.get(hash) ?? null;
+  }
+}
+
+const chain = new StubChain();
+let logIndex = 0;
+
+async function createContract(name: string): Promise<Contract> {
+  return storage.createContract({
+    name,
+    chainId: 1868,
+    address: `0x${Buffer.from(name).toString('hex').padStart(40, '0').slice(-40)}`,
+    type: 'TOKEN',
+    status: 'HEALTHY'
+  });
+}
+
+// An unconfirmed event as a live listener stores it, in a block just mined on the stub chain
+async function liveEvent(contract: Contract): Promise<Event> {
+  chain.mine(1);
+  logIndex++;
+  const transactionHash = ethers.id(`tx:${logIndex}`);
+  chain.include(transactionHash, chain.head);
+
+  return storage.createEvent({
+    contractId: contract.id,
+    eventName: 'Transfer',
+    eventData: {},
+    blockNumber: chain.head,
+    blockHash: chain.hash(chain.head),
+    transactionHash,
+    logIndex,
+    confirmed: false
+  });
+}
+
+async function findEvent(event: Event): Promise<Event | undefined> {
+  return storage.getEventByLog(event.contractId, event.transactionHash, event.logIndex);
+}
+
+// Collect the events of one kind emitted while `action` runs
+async function emitted(name: 'event.confirmed' | 'event.removed', action: () => Promise<unknown>): Promise<Event[]> {
+  const events: Event[] = [];
+  const listener = (event: Event) => events.push(event);
+  eventBus.on(name, listener);
+  try {
+    await action();
+  } finally {
+    eventBus.off(name, listener);
+  }
+  return events;
+}
+
+describe('BlockchainService.reconcileEvents', () => {
+  before(async () => {
+    ({ blockchainService } = await import('./blockchain'));
+    ({ chainSimulator } = await import('./simulator'));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const useStubChain = () => {
+    mock.method(chainSimulator, 'getBlockNumber', () => chain.getBlockNumber());
+    mock.method(chainSimulator, 'getBlock', (blockNumber: number) => chain.getBlock(blockNumber));
+    mock.method(chainSimulator, 'getTransactionReceipt', (hash: string) => chain.getTransactionReceipt(hash));
+  };
+
+  it('confirms an event once it is buried under the confirmation depth', async () => {
+    useStubChain();
+    const event = await liveEvent(await createContract('Depth'));
+
+    chain.mine(CONFIRMATIONS - 2);
+    assert.deepEqual(await emitted('event.confirmed', () => blockchainService.reconcileEvents()), []);
+    assert.equal((await findEvent(event))?.confirmed, false);
+
+    chain.mine(1);
+    const confirmed = await emitted('event.confirmed', () => blockchainService.reconcileEvents());
+    assert.deepEqual(confirmed.map(candidate => candidate.id), [event.id]);
+    assert.equal((await findEvent(event))?.confirmed, true);
+  });
+
+  it('leaves events in blocks the endpoint has not reached yet', async () => {
+    useStubChain();
+    const event = await liveEvent(await createContract('Lagging'));
+    chain.head--;
+
+    await blockchainService.reconcileEvents();
+    chain.head++;
+
+    const unchanged = await findEvent(event);
+    assert.equal(unchanged?.confirmed, false);
+    assert.equal(unchanged?.blockHash, event.blockHash);
+  });
+
+  it('removes an event whose transaction was dropped by a reorg and resolves the alerts derived from it', async () => {
+    useStubChain();
+    const contract = await createContract('Orphaned');
+    const event = await liveEvent(contract);
+    const { alert } = await alertService.raise({
+      contractId: contract.id,
+      severity: 'HIGH',
+      title: 'Large transfer',
+      description: 'Large transfer detected',
+      eventId: event.id
+    }, event.transactionHash);
+
+    chain.rewrite(event.blockNumber, 'fork');
+    chain.mine(2, 'fork');
+    const removed = await emitted('event.removed', () => blockchainService.reconcileEvents());
+
+    assert.deepEqual(removed.map(candidate => candidate.id), [event.id]);
+    assert.equal(await findEvent(event), undefined);
+    assert.equal((await storage.getAlert(alert.id))?.status, 'RESOLVED');
+    assert.ok((await storage.getAlertHistory(alert.id)).some(entry => entry.action === 'EVENT_REMOVED'));
+  });
+
+  it('moves an event to the block its transaction was mined in again, then confirms it there', async () => {
+    useStubChain();
+    const event = await liveEvent(await createContract('Moved'));
+
+    chain.rewrite(event.blockNumber, 'fork');
+    chain.mine(2, 'fork');
+    chain.include(event.transactionHash, event.blockNumber + 2);
+    await blockchainService.reconcileEvents();
+
+    const moved = await findEvent(event);
+    assert.equal(moved?.blockNumber, event.blockNumber + 2);
+    assert.equal(moved?.blockHash, chain.hash(event.blockNumber + 2));
+    assert.equal(moved?.confirmed, false);
+
+    chain.mine(CONFIRMATIONS, 'fork');
+    await blockchainService.reconcileEvents();
+    assert.equal((await findEvent(event))?.confirmed, true);
+  });
+});
@@ -1,10 +1,34 @@
 import { ethers } from 'ethers';
 import { storage } from '../storage';
-import type { Contract, InsertEvent } from '@shared/schema';
+import { eventBus } from '../eventBus';
+import { ProviderPool } from './providerPool';
+import { chainSimulator } from './simulator';
+import { alertService } from './alerts';
+import { defaultChainId, getNetwork, getNetworks } from '../networks';
+import type { Contract, InsertEvent, NetworkHealth } from '@shared/schema';
 
-// RPC URL from environment variables
-const RPC_URL = process.env.RPC_URL || 'https://rpc.scs.soneium.io';
-const DEMO_MODE = process.env.DEMO_MODE === 'true' || true; // Default to demo mode for now
+// Demo mode replaces every network with the chain simulator; it is never entered implicitly
+const DEMO_MODE = process.env.DEMO_MODE === 'true';
+
+const RECONCILE_INTERVAL_MS = parseInt(process.env.RECONCILE_INTERVAL_MS || '60000');
+const RPC_PROBE_INTERVAL_MS = parseInt(process.env.RPC_PROBE_INTERVAL_MS || '30000');
+
+// Historical backfill settings
+const BACKFILL_START_BLOCK = process.env.BACKFILL_START_BLOCK ? parseInt(process.env.BACKFILL_START_BLOCK) : undefined;
+const BACKFILL_CHUNK_SIZE = parseInt(process.env.BACKFILL_CHUNK_SIZE || '2000');
+
+export interface BackfillProgress {
+  contractId: number;
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  fromBlock: number;
+  toBlock: number;
+  currentBlock: number;
+  eventsFound: number;
+  eventsInserted: number;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
 
 // Guardian contract ABIs
 const FEED_ABI = [
@@ -23,136 +47,166 @@ const BADGE_ABI = [
   "event BadgeRevoked(uint256 indexed tokenId, address indexed revoker, string reason)"
 ];
 
-// Demo mode implementation
+// What reorg reconciliation needs from a chain: RPC providers and the simulator both provide it
+interface ChainReader {
+  getBlockNumber(): Promise<number>;
+  getBlock(blockNumber: number): Promise<{ hash: string | null } | null>;
+  getTransactionReceipt(hash: string): Promise<{ blockNumber: number; blockHash: string } | null>;
+}
+
 class BlockchainService {
-  private provider: ethers.JsonRpcProvider | null;
-  private contracts: Map<string, any>;
-  private listeners: Map<string, any>;
+  private pools: Map<number, ProviderPool>; // One per configured network, by chain ID
+  private contracts: Map<number, ethers.Contract>; // By contract ID
+  private listeners: Map<number, ethers.Contract>;
+  private backfills: Map<number, BackfillProgress>;
+  private reconcileInterval: NodeJS.Timeout | null = null;
+  private probeInterval: NodeJS.Timeout | null = null;
+  private probing = false;
+  private initialized = false;
   private demoMode: boolean;
 
   constructor() {
     this.demoMode = DEMO_MODE;
+    this.pools = new Map();
     this.contracts = new Map();
     this.listeners = new Map();
+    this.backfills = new Map();
     
-    // Only create a real provider if not in demo mode
+    // Only create real providers if not in demo mode
     if (!this.demoMode) {
-      try {
-        this.provider = new ethers.JsonRpcProvider(RPC_URL);
-      } catch (error) {
-        console.error('Error creating provider:', error);
-        this.provider = null;
+      for (const network of getNetworks()) {
+        try {
+          this.pools.set(network.chainId, new ProviderPool(network));
+        } catch (error) {
+          console.error(`Error creating provider for ${network.name}:`, error);
+        }
       }
     } else {
-      this.provider = null;
-      console.log('⚠️ Running in DEMO mode - No blockchain connection will be established');
+      console.log('🔮 Running in DEMO mode - events come from the chain simulator, no RPC endpoint is used');
+    }
+  }
+  
+  // Provider of the active endpoint for a chain; throws for chains that are not configured
+  // or have no healthy endpoint right now
+  getProvider(chainId: number): ethers.JsonRpcProvider {
+    const provider = this.pools.get(chainId)?.getProvider();
+    if (!provider) {
+      throw new Error(getNetwork(chainId) ? `Provider not available for chain ${chainId}` : `Unknown network: chain ${chainId}`);
     }
+    return provider;
+  }
+  
+  isConnected(chainId: number): boolean {
+    return !!this.pools.get(chainId)?.getProvider();
+  }
+  
+  getNetworkHealth(): NetworkHealth[] {
+    return getNetworks().map(network => this.pools.get(network.chainId)?.health() ?? {
+      chainId: network.chainId,
+      name: network.name,
+      status: 'UNKNOWN',
+      activeEndpoint: null,
+      blockNumber: null,
+      endpoints: []
+    });
+  }
+  
+  // The simulator stands in for every chain in demo mode
+  private chainReader(chainId: number): ChainReader | null {
+    if (this.demoMode) return chainSimulator;
+    return this.isConnected(chainId) ? this.getProvider(chainId) : null;
+  }
+  
+  private confirmations(chainId: number): number {
+    return getNetwork(chainId)?.confirmations ?? 12;
   }
 
   async initialize() {
+    if (this.initialized) return true;
+    this.initialized = true;
+    
     if (this.demoMode) {
-      console.log('🔮 Guardian AI initialized in demo mode');
-      
-      // Initialize contracts from storage without real blockchain
-      const contracts = await storage.getContracts();
+      for (const contract of await storage.getContracts()) {
+        this.watchContract(contract);
+      }
       
-      // Create demo data
-      await this.createDemoEvents(contracts);
-      await this.createDemoAlerts();
+      chainSimulator.start();
+      this.startReconciler();
+      console.log('🔮 Guardian AI initialized in demo mode');
       
       return true;
     }
     
-    try {
-      if (!this.provider) {
-        throw new Error('Provider not initialized');
-      }
-      
-      // Test connection
-      const blockNumber = await this.provider.getBlockNumber();
-      console.log(`Connected to Soneium blockchain, current block: ${blockNumber}`);
-      
-      // Initialize contracts from storage
-      const contracts = await storage.getContracts();
-      for (const contract of contracts) {
-        this.initializeContract(contract);
-      }
-      
-      return true;
-    } catch (error) {
-      console.error('Failed to initialize blockchain service:', error);
-      console.log('⚠️ Switching to DEMO mode due to connection failure');
-      this.demoMode = true;
-      
-      // Initialize in demo mode instead
-      const contracts = await storage.getContracts();
-      await this.createDemoEvents(contracts);
-      await this.createDemoAlerts();
-      
-      return true;
+    // The first probe attaches contracts on every network that can be reached; networks
+    // that come up later are attached by the periodic probes
+    await this.probeNetworks();
+    this.startProbing();
+    this.startReconciler();
+    
+    if (!Array.from(this.pools.keys()).some(chainId => this.isConnected(chainId))) {
+      console.error('No network could be reached; contracts will be watched once one becomes reachable');
     }
+    
+    return true;
   }
   
-  // Demo mode function to create sample events
-  private async createDemoEvents(contracts: Contract[]) {
-    const now = new Date();
+  private startProbing() {
+    if (this.probeInterval) return;
     
-    // Create one event for each contract
-    for (const contract of contracts) {
-      type EventTypes = {
-        [key: string]: { 
-          name: string; 
-          data: Record<string, string>; 
-        }
-      };
-      
-      const eventTypes: EventTypes = {
-        'FEED': { 
-          name: 'AlertSubmitted', 
-          data: { 
-            submitter: '0x7834CbA335D49B6160cB7ad17f17A6ec38a18f32', 
-            alertId: '123', 
-            description: 'Suspicious activity detected in token transfer functions' 
-          }
-        },
-        'DAO': { 
-          name: 'ProposalCreated', 
-          data: { 
-            proposalId: '7', 
-            proposer: '0x1A78be26D8373eDb66A71dd38dB196f7B9621C0F', 
-            description: 'Proposal to update Guardian security parameters' 
-          }
-        },
-        'BADGE': { 
-          name: 'BadgeClaim', 
-          data: { 
-            claimer: '0x9B45dc3F0F271E1B1538189D6FD49A033c58De39', 
-            tokenId: '42' 
+    this.probeInterval = setInterval(() => {
+      this.probeNetworks().catch(err => {
+        console.error('Error probing RPC endpoints:', err);
+      });
+    }, RPC_PROBE_INTERVAL_MS);
+  }
+  
+  // Probe the endpoints of every network, moving contract listeners over when a network
+  // fails over to another endpoint, loses its last healthy endpoint or comes back
+  async probeNetworks(): Promise<void> {
+    if (this.probing) return;
+    this.probing = true;
+    
+    try {
+      for (const pool of Array.from(this.pools.values())) {
+        const before = pool.status();
+        const changed = await pool.probe();
+        const health = pool.health();
+        
+        if (changed) {
+          if (health.activeEndpoint) {
+            console.log(`Using ${health.activeEndpoint} for ${pool.network.name} (chain ${pool.network.chainId}), current block: ${health.blockNumber}`);
+          } else {
+            console.error(`No healthy RPC endpoint for ${pool.network.name} (chain ${pool.network.chainId})`);
           }
+          
+          await this.attachChain(pool.network.chainId);
         }
-      };
-      
-      const eventType = contract.type.toUpperCase();
-      if (eventType in eventTypes) {
-        const { name, data } = eventTypes[eventType];
-        
-        const timestamp = new Date(now);
-        timestamp.setMinutes(timestamp.getMinutes() - Math.floor(Math.random() * 60));
         
-        const eventData: InsertEvent = {
-          contractId: contract.id,
-          eventName: name,
-          blockNumber: 12345678,
-          transactionHash: `0x${Array.from({length: 64}, () => Math.floor(Math.random()*16).toString(16)).join('')}`,
-          eventData: data
-        };
-        
-        await storage.createEvent(eventData);
-        console.log(`🔮 Created demo event ${name} for contract ${contract.name}`);
+        if (changed || health.status !== before) {
+          eventBus.emit('network.health', health);
+        }
       }
+    } finally {
+      this.probing = false;
     }
+  }
+  
+  // Re-create the listeners of every contract on a chain against its current provider, and
+  // backfill what was missed while the previous endpoint was failing
+  private async attachChain(chainId: number): Promise<void> {
+    const contracts = (await storage.getContracts()).filter(contract => contract.chainId === chainId);
     
-    console.log('🔮 Demo events created successfully');
+    for (const contract of contracts) {
+      await this.unwatchContract(contract);
+      
+      if (!this.isConnected(chainId)) {
+        console.warn(`Not watching ${contract.name}: chain ${chainId} is not connected`);
+        continue;
+      }
+      
+      this.initializeContract(contract);
+      await this.startBackfill(contract);
+    }
   }
   
   private getContractAbi(type: string) {
@@ -168,6 +222,37 @@ class BlockchainService {
     }
   }
 
+  // Start monitoring a contract that was added to the watchlist at runtime
+  watchContract(contract: Contract): boolean {
+    if (this.demoMode) {
+      const contractAbi = contract.abi || this.getContractAbi(contract.type);
+      if (!Array.isArray(contractAbi) || contractAbi.length === 0) {
+        console.warn(`No ABI available for contract ${contract.name}`);
+        return false;
+      }
+      
+      chainSimulator.watch(contract, contractAbi, log => this.handleLog(contract, log));
+      console.log(`🔮 Simulating events for contract: ${contract.name}`);
+      return true;
+    }
+    
+    return this.initializeContract(contract);
+  }
+  
+  // Stop monitoring a contract and detach all of its event listeners
+  async unwatchContract(contract: Contract): Promise<void> {
+    const ethersContract = this.listeners.get(contract.id);
+    
+    if (ethersContract) {
+      await ethersContract.removeAllListeners();
+      console.log(`Event listeners removed for contract: ${contract.address}`);
+    }
+    
+    this.listeners.delete(contract.id);
+    this.contracts.delete(contract.id);
+    chainSimulator.unwatch(contract.id);
+  }
+
   private initializeContract(contract: Contract) {
     const { address, type, abi } = contract;
     
@@ -181,11 +266,11 @@ class BlockchainService {
         return false;
       }
       
-      // Create a contract instance
-      const ethersContract = new ethers.Contract(address, contractAbi, this.provider);
-      this.contracts.set(address, ethersContract);
+      // Create a contract instance on the contract's own network
+      const ethersContract = new ethers.Contract(address, contractAbi, this.getProvider(contract.chainId));
+      this.contracts.set(contract.id, ethersContract);
       
-      console.log(`Initialized contract: ${contract.name} (${address})`);
+      console.log(`Initialized contract: ${contract.name} (${address} on chain ${contract.chainId})`);
       
       // Start listening to events
       this.setupEventListeners(contract, ethersContract);
@@ -215,35 +300,214 @@ class BlockchainService {
       const eventFragment = fragment as unknown as EventFragment;
       const eventName = eventFragment.name;
       
-      ethersContract.on(eventName, async (...args) => {
-        // The last argument contains the event object with info like transaction hash
+      ethersContract.on(eventName, (...args) => {
+        // The last argument is the event payload wrapping the decoded log
         const eventObj = args[args.length - 1];
+        this.handleLog(contract, eventObj.log);
+      });
+    }
+    
+    // Store in the listeners map
+    this.listeners.set(contract.id, ethersContract);
+    console.log(`Event listeners set up for contract: ${contract.name}`);
+  }
+  
+  // Live logs from contract listeners and the simulator; confirmed later by the reconciler
+  private async handleLog(contract: Contract, log: ethers.EventLog): Promise<void> {
+    console.log(`Event detected: ${log.eventName} on contract ${contract.name}`);
+    
+    // Store event in database
+    try {
+      await this.storeEvent(contract, log, { confirmed: false });
+    } catch (error) {
+      console.error(`Error storing event ${log.eventName}:`, error);
+    }
+  }
+  
+  // Store a decoded log unless it has already been recorded. Returns whether it was inserted.
+  private async storeEvent(
+    contract: Contract,
+    log: ethers.EventLog,
+    options: { confirmed: boolean, timestamp?: Date }
+  ): Promise<boolean> {
+    const existing = await storage.getEventByLog(contract.id, log.transactionHash, log.index);
+    if (existing) return false;
+    
+    const eventData: InsertEvent = {
+      contractId: contract.id,
+      eventName: log.eventName,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      blockHash: log.blockHash,
+      confirmed: options.confirmed,
+      eventData: this.formatEventArgs(log.args.toObject()),
+      timestamp: options.timestamp
+    };
+    
+    const event = await storage.createEvent(eventData);
+    eventBus.emit('event.created', event);
+    if (event.confirmed) eventBus.emit('event.confirmed', event);
+    return true;
+  }
+  
+  getBackfillProgress(contractId: number): BackfillProgress | undefined {
+    return this.backfills.get(contractId);
+  }
+  
+  // Start backfilling historical events for a contract. The range starts at fromBlock,
+  // the last stored event block or BACKFILL_START_BLOCK, in that order, and ends at the
+  // current head. Returns null when no start block can be determined.
+  async startBackfill(contract: Contract, fromBlock?: number): Promise<BackfillProgress | null> {
+    if (this.demoMode || !this.isConnected(contract.chainId)) return null;
+    
+    const running = this.backfills.get(contract.id);
+    if (running?.status === 'RUNNING') return running;
+    
+    const startBlock = fromBlock ?? await storage.getLatestEventBlock(contract.id) ?? BACKFILL_START_BLOCK;
+    if (startBlock === undefined) return null;
+    
+    const progress: BackfillProgress = {
+      contractId: contract.id,
+      status: 'RUNNING',
+      fromBlock: startBlock,
+      toBlock: await this.getProvider(contract.chainId).getBlockNumber(),
+      currentBlock: startBlock,
+      eventsFound: 0,
+      eventsInserted: 0,
+      startedAt: new Date().toISOString()
+    };
+    this.backfills.set(contract.id, progress);
+    
+    this.runBackfill(contract, progress).catch(error => {
+      console.error(`Backfill failed for contract ${contract.name}:`, error);
+      progress.status = 'FAILED';
+      progress.error = error instanceof Error ? error.message : String(error);
+      progress.finishedAt = new Date().toISOString();
+    });
+    
+    return progress;
+  }
+  
+  private async runBackfill(contract: Contract, progress: BackfillProgress): Promise<void> {
+    const contractAbi = contract.abi || this.getContractAbi(contract.type);
+    if (!Array.isArray(contractAbi) || contractAbi.length === 0) {
+      throw new Error(`No ABI available for contract ${contract.name}`);
+    }
+    
+    const ethersContract = new ethers.Contract(contract.address, contractAbi, this.getProvider(contract.chainId));
+    const confirmations = this.confirmations(contract.chainId);
+    const blockTimestamps = new Map<number, Date>();
+    
+    console.log(`Backfilling ${contract.name} from block ${progress.fromBlock} to ${progress.toBlock}`);
+    
+    // Query in chunks so a single request never spans more blocks than RPC providers allow
+    for (let start = progress.fromBlock; start <= progress.toBlock; start += BACKFILL_CHUNK_SIZE) {
+      const end = Math.min(start + BACKFILL_CHUNK_SIZE - 1, progress.toBlock);
+      const logs = await ethersContract.queryFilter('*', start, end);
+      
+      for (const log of logs) {
+        // Logs that do not match the ABI cannot be decoded
+        if (!(log instanceof ethers.EventLog)) continue;
+        progress.eventsFound++;
         
-        // Extract useful info
-        const { blockNumber, transactionHash, args: eventArgs } = eventObj;
+        if (!blockTimestamps.has(log.blockNumber)) {
+          blockTimestamps.set(log.blockNumber, new Date(await this.getBlockTimestamp(log.blockNumber, contract.chainId) * 1000));
+        }
         
-        console.log(`Event detected: ${eventName} on contract ${contract.name}`);
+        const confirmed = progress.toBlock - log.blockNumber + 1 >= confirmations;
         
-        // Store event in database
-        try {
-          const eventData: InsertEvent = {
-            contractId: contract.id,
-            eventName,
-            blockNumber,
-            transactionHash,
-            eventData: this.formatEventArgs(eventArgs)
-          };
-          
-          await storage.createEvent(eventData);
-        } catch (error) {
-          console.error(`Error storing event ${eventName}:`, error);
+        if (await this.storeEvent(contract, log, { confirmed, timestamp: blockTimestamps.get(log.blockNumber) })) {
+          progress.eventsInserted++;
         }
+      }
+      
+      progress.currentBlock = end;
+    }
+    
+    progress.status = 'COMPLETED';
+    progress.finishedAt = new Date().toISOString();
+    console.log(`Backfill completed for ${contract.name}: ${progress.eventsInserted} new events`);
+  }
+  
+  private startReconciler() {
+    if (this.reconcileInterval) return;
+    
+    this.reconcileInterval = setInterval(() => {
+      this.reconcileEvents().catch(err => {
+        console.error('Error reconciling events:', err);
       });
+    }, RECONCILE_INTERVAL_MS);
+  }
+  
+  // Walk unconfirmed events and compare them against the canonical chain of their contract's
+  // network. Events whose block was replaced by one with a different hash are moved to the
+  // block their transaction was re-mined in, or deleted if the transaction is gone; alerts
+  // derived from deleted events are resolved and kept. Events buried under the network's confirmation depth are
+  // marked as confirmed. Blocks the endpoint has not reached yet are left for a later pass.
+  async reconcileEvents(): Promise<{ confirmed: number, moved: number, orphaned: number }> {
+    const result = { confirmed: 0, moved: 0, orphaned: 0 };
+    
+    const pending = await storage.getUnconfirmedEvents();
+    if (pending.length === 0) return result;
+    
+    const contractChains = new Map((await storage.getContracts()).map(contract => [contract.id, contract.chainId]));
+    const heads = new Map<number, number>();
+    const canonicalHashes = new Map<string, string | null>();
+    
+    for (const event of pending) {
+      const chainId = contractChains.get(event.contractId);
+      const provider = chainId === undefined ? null : this.chainReader(chainId);
+      if (chainId === undefined || !provider) continue;
+      
+      if (!heads.has(chainId)) {
+        heads.set(chainId, await provider.getBlockNumber());
+      }
+      
+      const blockKey = `${chainId}:${event.blockNumber}`;
+      if (!canonicalHashes.has(blockKey)) {
+        const block = await provider.getBlock(event.blockNumber);
+        canonicalHashes.set(blockKey, block?.hash ?? null);
+      }
+      
+      const head = heads.get(chainId)!;
+      const canonicalHash = canonicalHashes.get(blockKey);
+      
+      // A lagging endpoint, e.g. a failover node that is behind, does not know the block yet.
+      // Nothing can be concluded about the event until it does, so try again on the next pass.
+      if (head < event.blockNumber || !canonicalHash) continue;
+      
+      if (event.blockHash && canonicalHash !== event.blockHash) {
+        const receipt = await provider.getTransactionReceipt(event.transactionHash);
+        
+        if (!receipt) {
+          console.warn(`Reorg: removing orphaned event ${event.eventName} (${event.transactionHash})`);
+          await alertService.detachRemovedEvent(event);
+          if (await storage.deleteEvent(event.id)) eventBus.emit('event.removed', event);
+          result.orphaned++;
+          continue;
+        }
+        
+        await storage.updateEvent(event.id, {
+          blockNumber: receipt.blockNumber,
+          blockHash: receipt.blockHash
+        });
+        result.moved++;
+        continue;
+      }
+      
+      if (head - event.blockNumber + 1 >= this.confirmations(chainId)) {
+        const confirmedEvent = await storage.updateEvent(event.id, { confirmed: true, blockHash: canonicalHash });
+        if (confirmedEvent) eventBus.emit('event.confirmed', confirmedEvent);
+        result.confirmed++;
+      }
     }
     
-    // Store in the listeners map
-    this.listeners.set(contract.address, ethersContract);
-    console.log(`Event listeners set up for contract: ${contract.name}`);
+    if (result.moved > 0 || result.orphaned > 0) {
+      console.log(`Reorg reconciliation: ${result.moved} events moved, ${result.orphaned} removed`);
+    }
+    
+    return result;
   }
   
   private formatEventArgs(args: any): Record<string, any> {
@@ -262,79 +526,41 @@ class BlockchainService {
     return formatted;
   }
   
-  async getContractCode(address: string): Promise<string> {
+  isDemoMode(): boolean {
+    return this.demoMode;
+  }
+  
+  async getContractCode(address: string, chainId: number = defaultChainId()): Promise<string> {
     if (this.demoMode) {
       // Return dummy bytecode in demo mode
       return '0x608060405234801561001057600080fd5b50610150806100206000396000f3fe608060405234801561001057600080fd5b50600436106100365760003560e01c8063209652551461003b57806330065c7f14610059575b600080fd5b610043610075565b60405161005091906100a1565b60405180910390f35b610073600480360381019061006e91906100ed565b61007e565b005b60005481565b8060008190555050565b6000819050919050565b61009b81610088565b82525050565b60006020820190506100b66000830184610092565b92915050565b600080fd5b6100ca81610088565b81146100d557600080fd5b50565b6000813590506100e7816100c1565b92915050565b600060208284031215610103576101026100bc565b5b6000610111848285016100d8565b9150509291505056fe';
     }
     
-    if (!this.provider) {
-      throw new Error('Provider not available');
-    }
-    
-    return await this.provider.getCode(address);
+    return await this.getProvider(chainId).getCode(address);
   }
   
-  async getContractAt(address: string): Promise<ethers.Contract | undefined> {
+  async getContractAt(contract: Contract): Promise<ethers.Contract | undefined> {
     if (this.demoMode) {
       // Return a mock contract in demo mode
       return {
-        address,
+        address: contract.address,
         interface: { fragments: [] }
       } as any;
     }
     
-    return this.contracts.get(address);
+    return this.contracts.get(contract.id);
   }
   
-  async getBlockTimestamp(blockNumber: number): Promise<number> {
+  async getBlockTimestamp(blockNumber: number, chainId: number = defaultChainId()): Promise<number> {
     if (this.demoMode) {
       // Return current timestamp in demo mode
       return Math.floor(Date.now() / 1000);
     }
     
-    if (!this.provider) {
-      throw new Error('Provider not available');
-    }
-    
-    const block = await this.provider.getBlock(blockNumber);
+    const block = await this.getProvider(chainId).getBlock(blockNumber);
     return block ? block.timestamp : 0;
   }
-  
-  // Add some demo alerts
-  async createDemoAlerts() {
-    // Create some demo alerts for the contracts
-    const contracts = await storage.getContracts();
-    
-    const alertTypes = [
-      {
-        contractId: contracts[0].id, // Feed contract
-        title: "Suspicious Transfer Pattern Detected",
-        severity: "HIGH",
-        description: "Multiple high-value transfers to newly created wallets in short succession. Possible early signs of a rug pull.",
-        aiAnalysis: "The contract's transfer function was called 17 times in 3 minutes, sending tokens to wallets that were all created within the last hour. This pattern matches known exit scam behaviors. Recommend immediate investigation."
-      },
-      {
-        contractId: contracts[1].id, // DAO contract
-        title: "Governance Parameter Change",
-        severity: "MEDIUM",
-        description: "Proposal to modify voting threshold was accepted with minimal participation.",
-        aiAnalysis: "The proposal passed with only 12% of token holders voting, which is unusually low. The new parameters reduce the quorum needed for future proposals, potentially centralizing control."
-      },
-      {
-        contractId: contracts[2].id, // Badge contract
-        title: "Unusual Minting Activity",
-        severity: "LOW",
-        description: "Large batch of new badges minted to a single address.",
-        aiAnalysis: "While within contract parameters, this minting activity represents a 23% increase in total supply. The receiving address has no prior history with this contract."
-      }
-    ];
-    
-    for (const alert of alertTypes) {
-      await storage.createAlert(alert);
-      console.log(`🔮 Created demo alert: ${alert.title}`);
-    }
-  }
+
 }
 
 export const blockchainService = new BlockchainService();
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { deriveContractStatus } from './contractStatus';
+import { settingsService } from './settings';
+import type { Contract } from '@shared/schema';
+
+const MINUTE_MS = 60 * 1000;
+
+function contractCheckedAt(healthCheckedAt: Date, healthCheckIntervalMinutes?: number): Contract {
+  return {
+    id: 1,
+    name: 'Vault',
+    chainId: 1868,
+    address: '0x00000000000000000000000000000000000000aa',
+    type: 'TOKEN',
+    status: 'HEALTHY',
+    abi: null,
+    addedAt: healthCheckedAt,
+    healthCheck: 'FAILED',
+    healthCheckedAt,
+    policy: healthCheckIntervalMinutes ? { healthCheckIntervalMinutes } : {}
+  };
+}
+
+describe('deriveContractStatus', () => {
+  it('keeps a health check for two of the contract\'s check intervals', () => {
+    const now = new Date();
+    const daily = contractCheckedAt(new Date(now.getTime() - 30 * 60 * MINUTE_MS), 24 * 60);
+
+    assert.equal(deriveContractStatus(daily, [], now).status, 'WARNING');
+    assert.equal(deriveContractStatus(daily, [], new Date(now.getTime() + 18 * 60 * MINUTE_MS + MINUTE_MS)).status, 'HEALTHY');
+  });
+
+  it('falls back to the global check interval from the settings', () => {
+    const now = new Date();
+    const interval = settingsService.get().securityCheckIntervalMinutes;
+    const contract = contractCheckedAt(new Date(now.getTime() - interval * MINUTE_MS));
+
+    assert.equal(deriveContractStatus(contract, [], now).status, 'WARNING');
+    assert.equal(deriveContractStatus(contract, [], new Date(now.getTime() + interval * MINUTE_MS + MINUTE_MS)).status, 'HEALTHY');
+  });
+});
@@ -0,0 +1,140 @@
+import { storage } from '../storage';
+import { eventBus } from '../eventBus';
+import { effectivePolicy } from './scheduler';
+import {
+  closedAlertStatuses,
+  type Alert,
+  type AlertStatus,
+  type Contract,
+  type ContractStatus,
+  type HealthCheckResult
+} from '@shared/schema';
+
+// A health check counts until two of the contract's check intervals have passed, so one late or
+// failed run does not drop it. After that, e.g. once monitoring is stopped, it no longer counts.
+export function healthCheckTtlMs(contract: Contract): number {
+  return 2 * effectivePolicy(contract).healthCheckIntervalMinutes * 60 * 1000;
+}
+
+export interface DerivedStatus {
+  status: ContractStatus;
+  reason: string;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// ALERT for open HIGH/CRITICAL alerts or an unavailable contract, WARNING for open MEDIUM
+// alerts or a failing health check, HEALTHY otherwise
+export function deriveContractStatus(contract: Contract, openAlerts: Alert[], now: Date = new Date()): DerivedStatus {
+  const severe = openAlerts.filter(alert => alert.severity === 'HIGH' || alert.severity === 'CRITICAL');
+  const medium = openAlerts.filter(alert => alert.severity === 'MEDIUM');
+  const health = contract.healthCheckedAt && now.getTime() - contract.healthCheckedAt.getTime() <= healthCheckTtlMs(contract)
+    ? contract.healthCheck as HealthCheckResult | null
+    : null;
+  
+  if (severe.length > 0) {
+    return { status: 'ALERT', reason: plural(severe.length, 'open high severity alert') };
+  }
+  if (health === 'UNAVAILABLE') {
+    return { status: 'ALERT', reason: 'Health check: contract code unavailable' };
+  }
+  if (medium.length > 0) {
+    return { status: 'WARNING', reason: plural(medium.length, 'open medium severity alert') };
+  }
+  if (health === 'FAILED') {
+    return { status: 'WARNING', reason: 'Health check failed' };
+  }
+  
+  return { status: 'HEALTHY', reason: openAlerts.length > 0 ? `Only ${plural(openAlerts.length, 'low severity alert')} open` : 'No open alerts' };
+}
+
+class ContractStatusService {
+  // Recomputations queued per contract so concurrent alert changes apply in order
+  private queues: Map<number, Promise<unknown>> = new Map();
+  // Recomputations due when a contract's latest health check stops counting
+  private expiryTimers: Map<number, NodeJS.Timeout> = new Map();
+  
+  constructor() {
+    const onAlertChange = (alert: Alert) => {
+      this.recompute(alert.contractId).catch(err => {
+        console.error('Error recomputing contract status:', err);
+      });
+    };
+    
+    eventBus.on('alert.created', onAlertChange);
+    eventBus.on('alert.updated', onAlertChange);
+    
+    // Alerts derived from a reorged event were resolved before it was removed
+    eventBus.on('event.removed', event => {
+      this.recompute(event.contractId).catch(err => {
+        console.error('Error recomputing contract status:', err);
+      });
+    });
+  }
+  
+  // Derive the status from open alerts and the latest health check, persisting and
+  // announcing it only when it changes
+  recompute(contractId: number): Promise<Contract | undefined> {
+    const previous = this.queues.get(contractId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.apply(contractId));
+    
+    this.queues.set(contractId, next);
+    next.finally(() => {
+      if (this.queues.get(contractId) === next) this.queues.delete(contractId);
+    }).catch(() => undefined);
+    
+    return next;
+  }
+  
+  async recordHealthCheck(contract: Contract, result: HealthCheckResult): Promise<Contract | undefined> {
+    await storage.recordContractHealthCheck(contract.id, result);
+    return this.recompute(contract.id);
+  }
+  
+  // Recompute once the contract's health check stops counting; otherwise a status held up by
+  // a stale check would only change with the next alert
+  private scheduleExpiry(contract: Contract, now: Date): void {
+    clearTimeout(this.expiryTimers.get(contract.id));
+    this.expiryTimers.delete(contract.id);
+    
+    const delay = contract.healthCheckedAt
+      ? contract.healthCheckedAt.getTime() + healthCheckTtlMs(contract) - now.getTime() + 1000
+      : 0;
+    if (delay <= 0) return;
+    
+    const timer = setTimeout(() => {
+      this.expiryTimers.delete(contract.id);
+      this.recompute(contract.id).catch(err => {
+        console.error('Error recomputing contract status:', err);
+      });
+    }, delay);
+    timer.unref();
+    this.expiryTimers.set(contract.id, timer);
+  }
+  
+  private async apply(contractId: number): Promise<Contract | undefined> {
+    const contract = await storage.getContract(contractId);
+    if (!contract) return undefined;
+    
+    const alerts = await storage.getAlertsByContract(contractId);
+    const openAlerts = alerts.filter(alert => !closedAlertStatuses.includes(alert.status as AlertStatus));
+    const now = new Date();
+    const { status, reason } = deriveContractStatus(contract, openAlerts, now);
+    this.scheduleExpiry(contract, now);
+    
+    if (status === contract.status) return contract;
+    
+    const updated = await storage.updateContractStatus(contractId, status);
+    if (!updated) return undefined;
+    
+    await storage.addContractStatusHistory({ contractId, fromStatus: contract.status, toStatus: status, reason });
+    eventBus.emit('contract.status', updated);
+    console.log(`Contract ${contract.name} is now ${status}: ${reason}`);
+    
+    return updated;
+  }
+}
+
+export const contractStatusService = new ContractStatusService();
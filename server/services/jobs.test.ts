@@ -0,0 +1,140 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import type { Job } from '@shared/schema';
+
+// Retries back off from 10ms instead of seconds; read when the queue module loads
+process.env.JOB_RETRY_BASE_MS = '10';
+
+let jobQueue: typeof import('./jobs').jobQueue;
+
+// Jobs run in the background; wait until this one has finished
+async function finished(id: number): Promise<Job> {
+  const deadline = Date.now() + 5000;
+
+  while (Date.now() < deadline) {
+    const job = await storage.getJob(id);
+    if (job && jobQueue.isFinished(job)) return job;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
+  throw new Error(`Job ${id} did not finish`);
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 5000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('JobQueue', () => {
+  before(async () => {
+    ({ jobQueue } = await import('./jobs'));
+    await jobQueue.initialize();
+  });
+
+  it('stores the handler result of a completed job', async () => {
+    jobQueue.register('SCAN', async (_job, context) => {
+      await context.progress('Scanning', 50);
+      return { findings: 2 };
+    });
+
+    const job = await finished((await jobQueue.enqueue('SCAN', { scanId: 1 })).id);
+
+    assert.equal(job.status, 'COMPLETED');
+    assert.equal(job.progress, 100);
+    assert.equal(job.attempts, 1);
+    assert.deepEqual(job.result, { findings: 2 });
+  });
+
+  it('retries failed attempts until one succeeds', async () => {
+    let calls = 0;
+    jobQueue.register('CONTRACT_ANALYSIS', async () => {
+      calls++;
+      if (calls < 3) throw new Error(`Attempt ${calls} failed`);
+      return { calls };
+    });
+
+    const job = await finished((await jobQueue.enqueue('CONTRACT_ANALYSIS', {}, { maxAttempts: 3 })).id);
+
+    assert.equal(job.status, 'COMPLETED');
+    assert.equal(job.attempts, 3);
+    assert.equal(job.error, null);
+  });
+
+  it('fails a job once its attempts are used up and keeps the last error', async () => {
+    jobQueue.register('CONTRACT_ANALYSIS', async () => {
+      throw new Error('Model unavailable');
+    });
+
+    const job = await finished((await jobQueue.enqueue('CONTRACT_ANALYSIS', {}, { maxAttempts: 2 })).id);
+
+    assert.equal(job.status, 'FAILED');
+    assert.equal(job.attempts, 2);
+    assert.equal(job.error, 'Model unavailable');
+  });
+
+  it('aborts a running job on cancel and ignores what its handler returns afterwards', async () => {
+    let started = false;
+    let release: () => void = () => undefined;
+    jobQueue.register('EVENT_ANALYSIS', async (_job, context) => {
+      started = true;
+      await new Promise<void>(resolve => { release = resolve; });
+      assert.equal(context.signal.aborted, true);
+      return { analyzed: true };
+    });
+
+    const queued = await jobQueue.enqueue('EVENT_ANALYSIS', { eventId: 1 });
+    await until(() => started);
+
+    const cancelled = await jobQueue.cancel(queued.id);
+    release();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    assert.equal(cancelled?.status, 'CANCELLED');
+    const job = await storage.getJob(queued.id);
+    assert.equal(job?.status, 'CANCELLED');
+    assert.equal(job?.result, null);
+  });
+
+  it('leaves a job that finished while being cancelled completed', async () => {
+    jobQueue.register('SCAN', async () => ({ findings: 0 }));
+    const job = await finished((await jobQueue.enqueue('SCAN', { scanId: 2 })).id);
+
+    // cancel() reads the job while it is still running; it completes before the write
+    const getJob = storage.getJob;
+    storage.getJob = async (id: number) => {
+      storage.getJob = getJob;
+      return { ...job, status: 'RUNNING' };
+    };
+
+    const result = await jobQueue.cancel(job.id);
+
+    assert.equal(result?.status, 'COMPLETED');
+    assert.equal((await storage.getJob(job.id))?.status, 'COMPLETED');
+  });
+
+  it('does not start a queued job that was cancelled', async () => {
+    let ran = false;
+    jobQueue.register('SCAN', async () => {
+      ran = true;
+    });
+
+    // More jobs than run at once, so the last one is still queued when it is cancelled
+    let release: () => void = () => undefined;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    jobQueue.register('EVENT_ANALYSIS', () => blocked);
+    const blockers = [await jobQueue.enqueue('EVENT_ANALYSIS', {}), await jobQueue.enqueue('EVENT_ANALYSIS', {})];
+    const queued = await jobQueue.enqueue('SCAN', { scanId: 3 });
+
+    const cancelled = await jobQueue.cancel(queued.id);
+    release();
+    await Promise.all(blockers.map(blocker => finished(blocker.id)));
+
+    assert.equal(cancelled?.status, 'CANCELLED');
+    assert.equal(ran, false);
+    assert.equal((await storage.getJob(queued.id))?.status, 'CANCELLED');
+  });
+});
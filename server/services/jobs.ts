@@ -0,0 +1,218 @@
+import { storage } from '../storage';
+import { eventBus } from '../eventBus';
+import { finishedJobStatuses, type InsertJob, type Job, type JobStatus, type JobType } from '@shared/schema';
+
+const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10));
+const RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || '5000', 10); // Doubles after each failed attempt
+
+export interface JobContext {
+  signal: AbortSignal; // Aborted when the job is cancelled
+  // Record the step the job is on. Throws once the job was cancelled, so handlers stop at the next step.
+  progress(stage: string, progress: number): Promise<void>;
+}
+
+// Returns what is stored as the job's result; throwing fails the attempt
+export type JobHandler = (job: Job, context: JobContext) => Promise<Record<string, unknown> | void>;
+
+export interface EnqueueOptions {
+  contractId?: number | null;
+  requestedBy?: number | null;
+  maxAttempts?: number;
+}
+
+// Runs persisted jobs in the background, at most JOB_CONCURRENCY at once. Failed attempts
+// are retried with exponential backoff until the job's maxAttempts is used up.
+class JobQueue {
+  private handlers: Map<JobType, JobHandler> = new Map();
+  private running: Map<number, AbortController> = new Map();
+  private wakeTimer: NodeJS.Timeout | null = null;
+  private pumping = false;
+  private pumpAgain = false;
+  private initialized = false;
+  
+  register(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+  
+  // Jobs that were running when the server stopped are queued again
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+    
+    for (const job of await storage.getUnfinishedJobs()) {
+      if (job.status === 'RUNNING') {
+        this.emit(await storage.updateJob(job.id, { status: 'QUEUED', stage: null, progress: 0 }));
+      }
+    }
+    
+    this.pump();
+  }
+  
+  async enqueue(type: JobType, payload: Record<string, unknown>, options: EnqueueOptions = {}): Promise<Job> {
+    const job = await storage.createJob({
+      type,
+      status: 'QUEUED',
+      payload,
+      contractId: options.contractId ?? null,
+      requestedBy: options.requestedBy ?? null,
+      maxAttempts: options.maxAttempts ?? 3
+    });
+    this.emit(job);
+    this.pump();
+    
+    return job;
+  }
+  
+  // Queued jobs are dropped, running ones aborted. Returns undefined for unknown jobs and
+  // the job unchanged when it had already finished.
+  async cancel(id: number): Promise<Job | undefined> {
+    for (;;) {
+      const job = await storage.getJob(id);
+      if (!job || this.isFinished(job)) return job;
+      
+      // Only applied while the job still has the status just read. If it started or finished
+      // in between, look again: a started job is cancelled, a finished one keeps its outcome.
+      const cancelled = await storage.updateJob(id, { status: 'CANCELLED', finishedAt: new Date() }, job.status as JobStatus);
+      if (!cancelled) continue;
+      
+      this.running.get(id)?.abort(new Error('Job cancelled'));
+      this.emit(cancelled);
+      return cancelled;
+    }
+  }
+  
+  isFinished(job: Job): boolean {
+    return finishedJobStatuses.includes(job.status as JobStatus);
+  }
+  
+  // Whether the contract already has work of this type waiting or running
+  async hasPending(type: JobType, contractId: number): Promise<boolean> {
+    const jobs = await storage.getUnfinishedJobs();
+    return jobs.some(job => job.type === type && job.contractId === contractId);
+  }
+  
+  // Start as many due jobs as there are free slots and wake up again for the next retry
+  private pump(): void {
+    if (!this.initialized) return;
+    
+    if (this.pumping) {
+      this.pumpAgain = true;
+      return;
+    }
+    this.pumping = true;
+    
+    this.fill().catch(err => {
+      console.error('Error starting queued jobs:', err);
+    }).finally(() => {
+      this.pumping = false;
+      if (this.pumpAgain) {
+        this.pumpAgain = false;
+        this.pump();
+      }
+    });
+  }
+  
+  private async fill(): Promise<void> {
+    const now = Date.now();
+    const queued = (await storage.getUnfinishedJobs()).filter(job =>
+      job.status === 'QUEUED' && !this.running.has(job.id) && this.handlers.has(job.type as JobType)
+    );
+    
+    for (const job of queued) {
+      if (this.running.size >= JOB_CONCURRENCY) return;
+      if (job.runAfter.getTime() <= now) this.start(job);
+    }
+    
+    const waiting = queued.filter(job => job.runAfter.getTime() > now);
+    if (waiting.length > 0) {
+      const next = Math.min(...waiting.map(job => job.runAfter.getTime()));
+      if (this.wakeTimer) clearTimeout(this.wakeTimer);
+      this.wakeTimer = setTimeout(() => {
+        this.wakeTimer = null;
+        this.pump();
+      }, next - now);
+      this.wakeTimer.unref();
+    }
+  }
+  
+  private start(job: Job): void {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+    
+    this.run(job, controller).catch(err => {
+      console.error(`Error recording job ${job.id}:`, err);
+    }).finally(() => {
+      this.running.delete(job.id);
+      this.pump();
+    });
+  }
+  
+  private async run(queued: Job, controller: AbortController): Promise<void> {
+    const { signal } = controller;
+    const attempts = queued.attempts + 1;
+    // Only a job that is still queued starts; one cancelled since fill() picked it up is skipped
+    const job = await this.update(queued.id, {
+      status: 'RUNNING',
+      attempts,
+      stage: null,
+      progress: 0,
+      startedAt: new Date()
+    }, 'QUEUED');
+    if (!job) return;
+    
+    // Cancelled while being started; cancel() records the cancellation before aborting
+    if (signal.aborted) return;
+    
+    const context: JobContext = {
+      signal,
+      progress: async (stage, progress) => {
+        signal.throwIfAborted();
+        await this.update(job.id, { stage, progress }, 'RUNNING');
+      }
+    };
+    
+    try {
+      const result = await this.handlers.get(job.type as JobType)!(job, context);
+      if (signal.aborted) return;
+      
+      // Guarded like every outcome below, so a cancel that got in first wins and this is a no-op
+      await this.update(job.id, {
+        status: 'COMPLETED',
+        progress: 100,
+        result: result ?? null,
+        error: null,
+        finishedAt: new Date()
+      }, 'RUNNING');
+    } catch (error) {
+      // Cancellation was recorded by cancel(); whatever the handler did afterwards is ignored
+      if (signal.aborted) return;
+      
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= job.maxAttempts;
+      
+      if (exhausted) {
+        console.error(`Job ${job.id} (${job.type}) failed after ${attempts} attempts: ${message}`);
+        await this.update(job.id, { status: 'FAILED', error: message, finishedAt: new Date() }, 'RUNNING');
+        return;
+      }
+      
+      await this.update(job.id, {
+        status: 'QUEUED',
+        error: message,
+        runAfter: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1))
+      }, 'RUNNING');
+    }
+  }
+  
+  private async update(id: number, update: Partial<InsertJob>, expectedStatus?: JobStatus): Promise<Job | undefined> {
+    const job = await storage.updateJob(id, update, expectedStatus);
+    this.emit(job);
+    return job;
+  }
+  
+  private emit(job: Job | undefined): void {
+    if (job) eventBus.emit('job.updated', job);
+  }
+}
+
+export const jobQueue = new JobQueue();
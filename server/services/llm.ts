@@ -0,0 +1,121 @@
+export type ChatMessage = { role: 'system' | 'user' | 'assistant', content: string };
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  json?: boolean; // Ask for a single JSON object
+  temperature?: number;
+}
+
+export interface Completion {
+  content: string;
+  model: string; // As reported by the provider, else the requested model
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly local: boolean; // Runs on our own hardware, so queries cost nothing
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<Completion>;
+}
+
+interface ProviderConfig {
+  name: string;
+  baseUrl: string; // Up to and including the API version, e.g. https://api.groq.com/openai/v1
+  apiKey: string;
+  requiresKey: boolean;
+  local: boolean;
+}
+
+// Known providers; anything else needs AI_BASE_URL
+const PRESETS: Record<string, Omit<ProviderConfig, 'name' | 'apiKey'>> = {
+  groq: { baseUrl: 'https://api.groq.com/openai/v1', requiresKey: true, local: false },
+  openai: { baseUrl: 'https://api.openai.com/v1', requiresKey: true, local: false },
+  ollama: { baseUrl: 'http://localhost:11434/v1', requiresKey: false, local: true },
+  llamacpp: { baseUrl: 'http://localhost:8080/v1', requiresKey: false, local: true }
+};
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.AI_REQUEST_TIMEOUT_MS || '120000', 10);
+
+function isLoopback(url: string): boolean {
+  try {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Any server speaking the OpenAI chat completions API: Groq, OpenAI, Ollama, llama.cpp
+// or the stub server from the fixtures
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name: string;
+  readonly local: boolean;
+  private config: ProviderConfig;
+  
+  constructor(config: ProviderConfig) {
+    this.name = config.name;
+    this.local = config.local;
+    this.config = config;
+  }
+  
+  isConfigured(): boolean {
+    return !!this.config.baseUrl && (!this.config.requiresKey || !!this.config.apiKey);
+  }
+  
+  async complete(request: CompletionRequest): Promise<Completion> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.5,
+        ...(request.json ? { response_format: { type: 'json_object' } } : {})
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    
+    if (!response.ok) {
+      const error = await response.text().catch(() => '');
+      throw new Error(`${this.name} API error (HTTP ${response.status})${error ? `: ${error.slice(0, 500)}` : ''}`);
+    }
+    
+    const data = await response.json();
+    const promptTokens: number = data.usage?.prompt_tokens ?? 0;
+    const completionTokens: number = data.usage?.completion_tokens ?? 0;
+    
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      model: data.model || request.model,
+      promptTokens,
+      completionTokens,
+      totalTokens: data.usage?.total_tokens ?? promptTokens + completionTokens
+    };
+  }
+}
+
+// The provider for this deployment, from AI_PROVIDER (groq by default), AI_BASE_URL and
+// AI_API_KEY. GROQ_API_KEY is still read when the provider is Groq.
+export function createProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const name = (env.AI_PROVIDER || 'groq').toLowerCase();
+  const preset = PRESETS[name];
+  const baseUrl = (env.AI_BASE_URL || preset?.baseUrl || '').replace(/\/+$/, '');
+  
+  if (!baseUrl) {
+    console.error(`Unknown AI provider "${name}": set AI_BASE_URL to its OpenAI-compatible endpoint`);
+  }
+  
+  return new OpenAiCompatibleProvider({
+    name,
+    baseUrl,
+    apiKey: env.AI_API_KEY || (name === 'groq' ? env.GROQ_API_KEY || '' : ''),
+    requiresKey: preset?.requiresKey ?? false,
+    local: env.AI_BASE_URL ? isLoopback(baseUrl) : preset?.local ?? false
+  });
+}
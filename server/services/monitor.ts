@@ -1,17 +1,58 @@
 import { storage } from '../storage';
 import { blockchainService } from './blockchain.ts';
-import { groqService } from './groq.ts';
-import type { Contract, InsertAlert } from '@shared/schema';
+import { aiService, type StructuredAnalysisResult } from './ai';
+import { ruleEngine } from './rules';
+import { alertService } from './alerts';
+import { contractStatusService } from './contractStatus';
+import { settingsService } from './settings';
+import { ContractScheduler, effectivePolicy } from './scheduler';
+import { jobQueue, type JobContext } from './jobs';
+import { aiBudgetService } from './aiBudget';
+import { eventBus } from '../eventBus';
+import type { AiFinding, Contract, Event, InsertAlert, Job } from '@shared/schema';
+
+const MIN_FINDING_CONFIDENCE = 0.5;
 
 class MonitorService {
   private isRunning: boolean = false;
-  private checkInterval: NodeJS.Timeout | null = null;
-  private analysisInterval: NodeJS.Timeout | null = null;
+  
+  // Health checks and AI analysis at the intervals from each contract's policy
+  private scheduler = new ContractScheduler([
+    {
+      name: 'healthCheck',
+      intervalMinutes: policy => policy.healthCheckIntervalMinutes,
+      runOnStart: true,
+      run: contract => this.checkContractHealth(contract)
+    },
+    {
+      name: 'aiAnalysis',
+      intervalMinutes: policy => policy.aiAnalysisIntervalMinutes,
+      runOnStart: false,
+      run: contract => this.queueScheduledAnalysis(contract)
+    }
+  ]);
+  
+  constructor() {
+    jobQueue.register('CONTRACT_ANALYSIS', (job, context) => this.runContractAnalysis(job, context));
+    jobQueue.register('EVENT_ANALYSIS', (job, context) => this.runEventAnalysis(job, context));
+    
+    // Detection rules run as soon as an event is final
+    eventBus.on('event.confirmed', event => {
+      this.evaluateRules(event).catch(err => {
+        console.error('Error evaluating detection rules:', err);
+      });
+      this.autoAnalyzeEvent(event).catch(err => {
+        console.error('Error analyzing event with AI:', err);
+      });
+    });
+  }
   
   async start(): Promise<boolean> {
     if (this.isRunning) return true;
     
     try {
+      await settingsService.initialize();
+      
       // Initialize blockchain connection
       const blockchainInit = await blockchainService.initialize();
       if (!blockchainInit) {
@@ -20,28 +61,14 @@ class MonitorService {
       }
       
       // Initialize AI service
-      const aiInit = await groqService.initialize();
+      const aiInit = await aiService.initialize();
       console.log(`AI service initialization: ${aiInit ? 'SUCCESS' : 'FAILED'}`);
       
       // Start monitoring cycle
       this.isRunning = true;
       
-      // Schedule periodic security checks (every 30 minutes)
-      this.checkInterval = setInterval(() => {
-        this.runSecurityChecks().catch(err => {
-          console.error('Error in security check cycle:', err);
-        });
-      }, 30 * 60 * 1000);
-      
-      // Schedule AI analysis cycle (every 2 hours)
-      this.analysisInterval = setInterval(() => {
-        this.runAIAnalysis().catch(err => {
-          console.error('Error in AI analysis cycle:', err);
-        });
-      }, 2 * 60 * 60 * 1000);
-      
-      // Run the first check immediately
-      await this.runSecurityChecks();
+      // Health checks are due immediately, AI analysis one interval from now
+      await this.scheduler.start();
       
       console.log('Guardian AI monitoring service started successfully');
       return true;
@@ -54,36 +81,17 @@ class MonitorService {
   
   async stop(): Promise<void> {
     this.isRunning = false;
-    
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
-      this.checkInterval = null;
-    }
-    
-    if (this.analysisInterval) {
-      clearInterval(this.analysisInterval);
-      this.analysisInterval = null;
-    }
+    this.scheduler.stop();
     
     console.log('Guardian AI monitoring service stopped');
   }
   
-  private async runSecurityChecks(): Promise<void> {
-    if (!this.isRunning) return;
-    
-    console.log('Running security checks on monitored contracts...');
-    
-    try {
-      const contracts = await storage.getContracts();
-      
-      for (const contract of contracts) {
-        await this.checkContractHealth(contract);
-      }
-      
-      console.log('Security check cycle completed');
-    } catch (error) {
-      console.error('Error during security checks:', error);
-    }
+  // When the contract's next health check and AI analysis are due, null while stopped
+  getSchedule(contract: Contract): { nextHealthCheckAt: Date | null, nextAnalysisAt: Date | null } {
+    return {
+      nextHealthCheckAt: this.scheduler.nextRunAt('healthCheck', contract),
+      nextAnalysisAt: this.scheduler.nextRunAt('aiAnalysis', contract)
+    };
   }
   
   private async checkContractHealth(contract: Contract): Promise<void> {
@@ -91,120 +99,144 @@ class MonitorService {
     
     try {
       // Check if contract code is available
-      const contractCode = await blockchainService.getContractCode(contract.address);
+      const contractCode = await blockchainService.getContractCode(contract.address, contract.chainId);
       
       if (!contractCode || contractCode === '0x') {
         // Contract doesn't exist or is self-destructed
-        this.createAlert(contract, 'HIGH', 
+        await this.createAlert(contract, 'HIGH', 
           'Contract unavailable', 
           `The contract at ${contract.address} is unavailable or self-destructed.`);
         
-        await storage.updateContractStatus(contract.id, 'ALERT');
+        await contractStatusService.recordHealthCheck(contract, 'UNAVAILABLE');
         return;
       }
       
-      // Check recent events for suspicious activity
-      const recentEvents = await storage.getEventsByContract(contract.id, 10);
-      
-      // If no events, consider it healthy
-      if (recentEvents.length === 0) {
-        await storage.updateContractStatus(contract.id, 'HEALTHY');
-        return;
-      }
-      
-      // Check for suspicious patterns in events
-      // This is a simplified example - real analysis would be more complex
-      const suspiciousEventCount = recentEvents.filter(event => {
-        // Example: Multiple BadgeClaim events in short period might be suspicious
-        return event.eventName === 'BadgeClaim' || event.eventName === 'AlertSubmitted';
-      }).length;
-      
-      if (suspiciousEventCount >= 3) {
-        this.createAlert(contract, 'MEDIUM',
-          'Unusual event pattern detected',
-          `Multiple ${recentEvents[0].eventName} events detected in a short time period.`);
-        
-        await storage.updateContractStatus(contract.id, 'WARNING');
-      }
+      await contractStatusService.recordHealthCheck(contract, 'OK');
     } catch (error) {
       console.error(`Error checking contract ${contract.name}:`, error);
       
       // Create an alert for the error
-      this.createAlert(contract, 'LOW',
+      await this.createAlert(contract, 'LOW',
         'Error monitoring contract', 
         `Failed to monitor contract: ${error instanceof Error ? error.message : String(error)}`);
+      await contractStatusService.recordHealthCheck(contract, 'FAILED');
     }
   }
   
-  private async runAIAnalysis(): Promise<void> {
+  // Scheduled analyses are queued so a slow model call does not hold up the scheduler.
+  // A contract whose previous analysis is still queued or running is skipped.
+  private async queueScheduledAnalysis(contract: Contract): Promise<void> {
+    if (!this.isRunning || !(await aiBudgetService.check(contract, 'CONTRACT_ANALYSIS')).allowed) return;
+    if (await jobQueue.hasPending('CONTRACT_ANALYSIS', contract.id)) return;
+    
+    await jobQueue.enqueue('CONTRACT_ANALYSIS', { scheduled: true }, { contractId: contract.id });
+  }
+  
+  // Health check and AI analysis of a contract in the background, as requested by a user
+  async queueContractAnalysis(contract: Contract, requestedBy?: number): Promise<Job> {
+    return jobQueue.enqueue('CONTRACT_ANALYSIS', { scheduled: false }, { contractId: contract.id, requestedBy });
+  }
+  
+  private async runContractAnalysis(job: Job, context: JobContext): Promise<Record<string, unknown>> {
+    const contract = job.contractId !== null ? await storage.getContract(job.contractId) : undefined;
+    if (!contract) throw new Error(`Contract ${job.contractId} not found`);
+    
+    // Scheduled runs only cover the AI part; health checks have their own schedule
+    if (job.payload.scheduled !== true) {
+      await context.progress('Health check', 10);
+      await this.checkContractHealth(contract);
+    }
+    
+    await context.progress('Retrieving contract code', 30);
+    const contractCode = await blockchainService.getContractCode(contract.address, contract.chainId);
+    if (!contractCode || contractCode === '0x') {
+      console.warn(`Cannot analyze contract ${contract.name}: No code available`);
+      return { findings: 0, skipped: 'No contract code' };
+    }
+    
+    // Checked again here, as other jobs may have used up the budget since this one was queued
+    const budget = await aiBudgetService.check(contract, 'CONTRACT_ANALYSIS');
+    if (!budget.allowed) return { findings: 0, skipped: budget.reason };
+    
+    await context.progress('AI analysis', 50);
+    console.log(`Analyzing contract with AI: ${contract.name}`);
+    const analysis = this.requireAnalysis(
+      await aiService.analyzeContract(contract, contractCode, effectivePolicy(contract).analysisDepth)
+    );
+    if (!analysis) {
+      console.warn(`AI analysis of ${contract.name} produced no valid findings`);
+      return { findings: 0 };
+    }
+    
+    await context.progress('Raising alerts', 90);
+    await this.createFindingAlerts(contract, analysis.findings);
+    return { findings: analysis.findings.length };
+  }
+  
+  // Failed requests are thrown so the job is retried. Output the model got wrong has
+  // already used its tokens and is not worth repeating, so that comes back as null.
+  private requireAnalysis(result: StructuredAnalysisResult): StructuredAnalysisResult['analysis'] {
+    if (!result.analysis && result.tokenCount === 0 && aiService.isConfigured()) {
+      throw new Error(result.raw);
+    }
+    return result.analysis;
+  }
+  
+  private async evaluateRules(event: Event): Promise<void> {
     if (!this.isRunning) return;
     
-    console.log('Running AI analysis on contracts...');
+    const contract = await storage.getContract(event.contractId);
+    if (!contract) return;
     
-    try {
-      // Check if we're within the token usage limit
-      const withinLimit = await groqService.isWithinUsageLimit();
-      
-      if (!withinLimit) {
-        console.warn('AI analysis skipped: Token usage limit reached');
-        return;
-      }
-      
-      const contracts = await storage.getContracts();
-      
-      for (const contract of contracts) {
-        await this.analyzeContractWithAI(contract);
-      }
-      
-      console.log('AI analysis cycle completed');
-    } catch (error) {
-      console.error('Error during AI analysis:', error);
+    const matches = await ruleEngine.evaluate(contract, event);
+    
+    for (const { rule, matchCount, fingerprint } of matches) {
+      const description = rule.threshold > 1
+        ? `${matchCount} matching events within ${rule.windowSeconds} seconds (threshold ${rule.threshold}).`
+        : `${event.eventName} event matched the rule conditions.`;
+      
+      await this.createAlert(
+        contract,
+        rule.severity,
+        rule.name,
+        rule.description ? `${rule.description} ${description}` : description,
+        undefined,
+        event.id,
+        fingerprint
+      );
     }
   }
   
-  private async analyzeContractWithAI(contract: Contract): Promise<void> {
-    try {
-      console.log(`Analyzing contract with AI: ${contract.name}`);
-      
-      // Get contract code
-      const contractCode = await blockchainService.getContractCode(contract.address);
-      
-      if (!contractCode || contractCode === '0x') {
-        console.warn(`Cannot analyze contract ${contract.name}: No code available`);
-        return;
+  private async autoAnalyzeEvent(event: Event): Promise<void> {
+    if (!this.isRunning) return;
+    
+    const contract = await storage.getContract(event.contractId);
+    if (!contract) return;
+    
+    if (!effectivePolicy(contract).autoAnalyzeEvents) return;
+    if (!(await aiBudgetService.check(contract, 'EVENT_ANALYSIS')).allowed) return;
+    
+    await jobQueue.enqueue('EVENT_ANALYSIS', { eventId: event.id }, { contractId: contract.id });
+  }
+  
+  // One alert per validated finding; low-confidence findings are only logged
+  private async createFindingAlerts(contract: Contract, findings: AiFinding[], eventId?: number): Promise<void> {
+    for (const finding of findings) {
+      if (finding.confidence < MIN_FINDING_CONFIDENCE) {
+        console.log(`Ignoring low-confidence finding for ${contract.name}: ${finding.title} (${finding.confidence})`);
+        continue;
       }
       
-      // Analyze with AI
-      const { analysis, tokenCount } = await groqService.analyzeContract(contract, contractCode);
-      
-      // Parse the analysis for vulnerability indicators
-      const vulnerabilityIndicators = [
-        { pattern: /reentrancy/i, severity: 'HIGH', title: 'Reentrancy vulnerability' },
-        { pattern: /access control/i, severity: 'HIGH', title: 'Access control issue' },
-        { pattern: /overflow|underflow/i, severity: 'MEDIUM', title: 'Integer overflow/underflow' },
-        { pattern: /front.?running/i, severity: 'MEDIUM', title: 'Front-running vulnerability' },
-        { pattern: /logic error/i, severity: 'MEDIUM', title: 'Logic error' },
-        { pattern: /gas optimization/i, severity: 'LOW', title: 'Gas optimization issue' }
-      ];
-      
-      // Check for indicators in the analysis
-      for (const { pattern, severity, title } of vulnerabilityIndicators) {
-        if (pattern.test(analysis)) {
-          this.createAlert(contract, severity, title, analysis);
-          
-          // Update contract status based on severity
-          if (severity === 'HIGH') {
-            await storage.updateContractStatus(contract.id, 'ALERT');
-          } else if (severity === 'MEDIUM' && contract.status !== 'ALERT') {
-            await storage.updateContractStatus(contract.id, 'WARNING');
-          }
-          
-          // Only create one alert per analysis
-          break;
-        }
-      }
-    } catch (error) {
-      console.error(`Error analyzing contract ${contract.name} with AI:`, error);
+      const location = finding.location ? ` (${finding.location})` : '';
+      await this.createAlert(
+        contract,
+        finding.severity,
+        finding.title,
+        `${finding.evidence}${location}\n\nRecommendation: ${finding.recommendation}`,
+        JSON.stringify(finding),
+        eventId,
+        `${finding.category}|${finding.location ?? ''}`
+      );
     }
   }
   
@@ -213,7 +245,9 @@ class MonitorService {
     severity: string, 
     title: string, 
     description: string,
-    aiAnalysis?: string
+    aiAnalysis?: string,
+    eventId?: number,
+    fingerprint?: string
   ): Promise<void> {
     try {
       const alertData: InsertAlert = {
@@ -222,96 +256,52 @@ class MonitorService {
         title,
         description,
         aiAnalysis,
-        resolved: false
+        eventId
       };
       
-      await storage.createAlert(alertData);
-      console.log(`Alert created for ${contract.name}: ${title}`);
+      const { alert, created } = await alertService.raise(alertData, fingerprint);
+      console.log(created
+        ? `Alert created for ${contract.name}: ${title}`
+        : `Alert repeated for ${contract.name}: ${title} (${alert.occurrences} occurrences)`);
     } catch (error) {
       console.error('Error creating alert:', error);
     }
   }
   
-  async analyzeEvent(contractId: number, eventId: number): Promise<void> {
-    try {
-      const contract = await storage.getContract(contractId);
-      if (!contract) {
-        console.error(`Cannot analyze event: Contract ID ${contractId} not found`);
-        return;
-      }
-      
-      // Get events for this contract
-      const events = await storage.getEventsByContract(contractId);
-      const event = events.find(e => e.id === eventId);
-      
-      if (!event) {
-        console.error(`Event ID ${eventId} not found for contract ${contract.name}`);
-        return;
-      }
-      
-      console.log(`Analyzing event ${event.eventName} with AI...`);
-      
-      // Use AI to analyze the event
-      const { analysis, tokenCount } = await groqService.analyzeEvent(
-        contract, 
-        event.eventName, 
-        event.eventData
-      );
-      
-      // Look for indications of issues in the analysis
-      const hasSuspiciousActivity = /suspicious|unusual|vulnerability|attack|exploit/i.test(analysis);
-      
-      if (hasSuspiciousActivity) {
-        const severity = /critical|severe|high risk/i.test(analysis) ? 'HIGH' :
-                       /medium|moderate/i.test(analysis) ? 'MEDIUM' : 'LOW';
-        
-        this.createAlert(
-          contract,
-          severity,
-          `Suspicious activity in ${event.eventName} event`,
-          `AI detected potentially suspicious activity: ${analysis.slice(0, 200)}...`,
-          analysis
-        );
-        
-        // Update contract status based on severity
-        if (severity === 'HIGH') {
-          await storage.updateContractStatus(contract.id, 'ALERT');
-        } else if (severity === 'MEDIUM' && contract.status !== 'ALERT') {
-          await storage.updateContractStatus(contract.id, 'WARNING');
-        }
-      }
-    } catch (error) {
-      console.error('Error analyzing event with AI:', error);
+  private async runEventAnalysis(job: Job, context: JobContext): Promise<Record<string, unknown>> {
+    const contract = job.contractId !== null ? await storage.getContract(job.contractId) : undefined;
+    if (!contract) throw new Error(`Contract ${job.contractId} not found`);
+    
+    const eventId = Number(job.payload.eventId);
+    const event = (await storage.getEventsByContract(contract.id)).find(e => e.id === eventId);
+    if (!event) throw new Error(`Event ID ${eventId} not found for contract ${contract.name}`);
+    
+    if (!event.confirmed) {
+      console.log(`Skipping analysis of unconfirmed event ${event.eventName} (${event.transactionHash})`);
+      return { findings: 0, skipped: 'Event not confirmed' };
     }
+    
+    const budget = await aiBudgetService.check(contract, 'EVENT_ANALYSIS');
+    if (!budget.allowed) return { findings: 0, skipped: budget.reason };
+    
+    await context.progress('AI analysis', 30);
+    console.log(`Analyzing event ${event.eventName} with AI...`);
+    const analysis = this.requireAnalysis(
+      await aiService.analyzeEvent(contract, event.eventName, event.eventData)
+    );
+    if (!analysis) {
+      console.warn(`AI analysis of event ${event.eventName} produced no valid findings`);
+      return { findings: 0 };
+    }
+    
+    await context.progress('Raising alerts', 90);
+    await this.createFindingAlerts(contract, analysis.findings, event.id);
+    return { findings: analysis.findings.length };
   }
   
   isActive(): boolean {
     return this.isRunning;
   }
-  
-  async scanContract(contractAddress: string): Promise<void> {
-    try {
-      // Find the contract
-      const contract = await storage.getContractByAddress(contractAddress);
-      
-      if (!contract) {
-        console.error(`Contract not found: ${contractAddress}`);
-        return;
-      }
-      
-      console.log(`Manual scan initiated for contract: ${contract.name}`);
-      
-      // Perform contract health check
-      await this.checkContractHealth(contract);
-      
-      // Run AI analysis
-      await this.analyzeContractWithAI(contract);
-      
-      console.log(`Manual scan completed for contract: ${contract.name}`);
-    } catch (error) {
-      console.error(`Error scanning contract ${contractAddress}:`, error);
-    }
-  }
 }
 
 export const monitorService = new MonitorService();
@@ -0,0 +1,344 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { storage } from '../storage';
+import { settingsService } from './settings';
+import type { Alert, NotificationChannel, NotificationDelivery, severityLevels } from '@shared/schema';
+
+// Retries back off from 10ms instead of seconds; read when the service module loads
+process.env.NOTIFICATION_RETRY_BASE_MS = '10';
+
+let notificationService: typeof import('./notifications').notificationService;
+
+interface ReceivedRequest {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+interface ReceivedMail {
+  auth: string | null;
+  from: string;
+  to: string[];
+  data: string;
+}
+
+function listen(server: Server | net.Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+function close(server: Server | net.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+// An HTTP receiver answering with the given status codes in turn, then with the last one
+async function httpReceiver(statuses: number[]): Promise<{ url: string, requests: ReceivedRequest[], server: Server }> {
+  const requests: ReceivedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.writeHead(statuses[Math.min(requests.length, statuses.length) - 1]);
+      res.end();
+    });
+  });
+  const port = await listen(server);
+  
+  return { url: `http://127.0.0.1:${port}/hook`, requests, server };
+}
+
+// An SMTP sink that accepts every message without TLS
+async function smtpSink(): Promise<{ port: number, messages: ReceivedMail[], server: net.Server }> {
+  const messages: ReceivedMail[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let mail: ReceivedMail = { auth: null, from: '', to: [], data: '' };
+    let inData = false;
+    
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(mail);
+            mail = { auth: mail.auth, from: '', to: [], data: '' };
+            socket.write('250 Queued\r\n');
+          } else {
+            mail.data += `${line}\r\n`;
+          }
+          continue;
+        }
+        
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-sink\r\n250 AUTH PLAIN\r\n');
+        } else if (verb === 'AUTH') {
+          mail.auth = Buffer.from(line.split(' ')[2], 'base64').toString('utf8');
+          socket.write('235 Authenticated\r\n');
+        } else if (verb === 'MAIL') {
+          mail.from = line.slice(line.indexOf('<') + 1, line.indexOf('>'));
+          socket.write('250 OK\r\n');
+        } else if (verb === 'RCPT') {
+          mail.to.push(line.slice(line.indexOf('<') + 1, line.indexOf('>')));
+          socket.write('250 OK\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('502 Not implemented\r\n');
+        }
+      }
+    });
+  });
+  const port = await listen(server);
+  
+  return { port, messages, server };
+}
+
+async function createAlert(severity: typeof severityLevels[number]): Promise<Alert> {
+  const [contract] = await storage.getContracts();
+  
+  return storage.createAlert({
+    contractId: contract.id,
+    severity,
+    title: `${severity} test alert`,
+    description: 'Something happened\n.Starts with a dot'
+  });
+}
+
+// Deliveries are sent in the background; wait until none of the channel's is pending
+async function settledDeliveries(channel: NotificationChannel): Promise<NotificationDelivery[]> {
+  const deadline = Date.now() + 5000;
+  
+  while (Date.now() < deadline) {
+    const deliveries = await storage.getNotificationDeliveries(undefined, channel.id);
+    if (deliveries.every(delivery => delivery.status !== 'PENDING')) return deliveries;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  
+  throw new Error(`Deliveries to ${channel.name} still pending`);
+}
+
+describe('NotificationService', () => {
+  const servers: (Server | net.Server)[] = [];
+  
+  before(async () => {
+    ({ notificationService } = await import('./notifications'));
+  });
+  
+  afterEach(async () => {
+    for (const channel of await storage.getNotificationChannels()) {
+      await storage.deleteNotificationChannel(channel.id);
+    }
+    await Promise.all(servers.splice(0).map(close));
+  });
+  
+  after(async () => {
+    await settingsService.update(settingsService.defaults(), null);
+  });
+  
+  it('delivers a signed webhook and records the delivery', async () => {
+    const receiver = await httpReceiver([200]);
+    servers.push(receiver.server);
+    const channel = await storage.createNotificationChannel({
+      name: 'Webhook',
+      type: 'WEBHOOK',
+      config: { url: receiver.url, secret: 'shh' },
+      minSeverity: 'LOW'
+    });
+    const alert = await createAlert('HIGH');
+    
+    await notificationService.dispatch(alert);
+    const [delivery] = await settledDeliveries(channel);
+    
+    assert.equal(delivery.status, 'DELIVERED');
+    assert.equal(delivery.alertId, alert.id);
+    assert.equal(delivery.attempts, 1);
+    assert.equal(delivery.lastError, null);
+    assert.ok(delivery.deliveredAt);
+    
+    const [request] = receiver.requests;
+    const timestamp = request.headers['x-guardian-timestamp'];
+    const signature = createHmac('sha256', 'shh').update(`${timestamp}.${request.body}`).digest('hex');
+    assert.equal(request.headers['x-guardian-signature'], `sha256=${signature}`);
+    assert.equal(JSON.parse(request.body).alert.id, alert.id);
+  });
+  
+  it('retries failed deliveries until the receiver accepts them', async () => {
+    const receiver = await httpReceiver([500, 503, 200]);
+    servers.push(receiver.server);
+    const channel = await storage.createNotificationChannel({
+      name: 'Flaky Slack',
+      type: 'SLACK',
+      config: { url: receiver.url },
+      minSeverity: 'LOW'
+    });
+    
+    await notificationService.dispatch(await createAlert('MEDIUM'));
+    const [delivery] = await settledDeliveries(channel);
+    
+    assert.equal(delivery.status, 'DELIVERED');
+    assert.equal(delivery.attempts, 3);
+    assert.equal(delivery.lastError, null);
+    assert.equal(receiver.requests.length, 3);
+  });
+  
+  it('gives up after the last attempt and keeps the error', async () => {
+    const receiver = await httpReceiver([500]);
+    servers.push(receiver.server);
+    const channel = await storage.createNotificationChannel({
+      name: 'Broken Discord',
+      type: 'DISCORD',
+      config: { url: receiver.url },
+      minSeverity: 'LOW'
+    });
+    
+    await notificationService.dispatch(await createAlert('CRITICAL'));
+    const [delivery] = await settledDeliveries(channel);
+    
+    assert.equal(delivery.status, 'FAILED');
+    assert.equal(delivery.attempts, 5);
+    assert.equal(delivery.lastError, 'HTTP 500');
+    assert.equal(delivery.deliveredAt, null);
+    assert.equal(receiver.requests.length, 5);
+  });
+  
+  it('only notifies channels whose minimum severity the alert meets', async () => {
+    const receiver = await httpReceiver([200]);
+    servers.push(receiver.server);
+    const low = await storage.createNotificationChannel({ name: 'Low', type: 'WEBHOOK', config: { url: receiver.url }, minSeverity: 'LOW' });
+    const high = await storage.createNotificationChannel({ name: 'High', type: 'WEBHOOK', config: { url: receiver.url }, minSeverity: 'HIGH' });
+    const disabled = await storage.createNotificationChannel({ name: 'Off', type: 'WEBHOOK', config: { url: receiver.url }, minSeverity: 'LOW', enabled: false });
+    
+    await notificationService.dispatch(await createAlert('MEDIUM'));
+    
+    assert.equal((await settledDeliveries(low)).length, 1);
+    assert.deepEqual(await settledDeliveries(high), []);
+    assert.deepEqual(await settledDeliveries(disabled), []);
+    assert.equal(receiver.requests.length, 1);
+  });
+  
+  it('sends nothing below the global severity threshold', async () => {
+    const receiver = await httpReceiver([200]);
+    servers.push(receiver.server);
+    const channel = await storage.createNotificationChannel({ name: 'All', type: 'WEBHOOK', config: { url: receiver.url }, minSeverity: 'LOW' });
+    await settingsService.update({ ...settingsService.defaults(), alertSeverityThreshold: 'HIGH' }, null);
+    
+    await notificationService.dispatch(await createAlert('MEDIUM'));
+    await notificationService.dispatch(await createAlert('CRITICAL'));
+    
+    const deliveries = await settledDeliveries(channel);
+    assert.equal(deliveries.length, 1);
+    assert.equal(receiver.requests.length, 1);
+    assert.equal(JSON.parse(receiver.requests[0].body).alert.severity, 'CRITICAL');
+    
+    await settingsService.update(settingsService.defaults(), null);
+  });
+  
+  it('delivers email through SMTP', async () => {
+    const sink = await smtpSink();
+    servers.push(sink.server);
+    const channel = await storage.createNotificationChannel({
+      name: 'Email',
+      type: 'EMAIL',
+      config: {
+        host: '127.0.0.1',
+        port: sink.port,
+        secure: false,
+        username: 'guardian',
+        password: 'secret',
+        allowInsecureAuth: true,
+        from: 'guardian@example.com',
+        to: ['oncall@example.com', 'security@example.com']
+      },
+      minSeverity: 'LOW'
+    });
+    const alert = await createAlert('HIGH');
+    
+    await notificationService.dispatch(alert);
+    const [delivery] = await settledDeliveries(channel);
+    
+    assert.equal(delivery.status, 'DELIVERED');
+    assert.equal(sink.messages.length, 1);
+    
+    const [mail] = sink.messages;
+    assert.equal(mail.auth, '\0guardian\0secret');
+    assert.equal(mail.from, 'guardian@example.com');
+    assert.deepEqual(mail.to, ['oncall@example.com', 'security@example.com']);
+    assert.match(mail.data, /^Subject: \[Guardian AI\]\[HIGH\] HIGH test alert\r$/m);
+    assert.match(mail.data, /^\.\.Starts with a dot\r$/m); // Dot-stuffed
+  });
+  
+  it('does not send SMTP credentials without TLS unless allowed', async () => {
+    const sink = await smtpSink();
+    servers.push(sink.server);
+    const channel = await storage.createNotificationChannel({
+      name: 'Plaintext email',
+      type: 'EMAIL',
+      config: {
+        host: '127.0.0.1',
+        port: sink.port,
+        secure: false,
+        username: 'guardian',
+        password: 'secret',
+        allowInsecureAuth: false,
+        from: 'guardian@example.com',
+        to: ['oncall@example.com']
+      },
+      minSeverity: 'LOW'
+    });
+    
+    await notificationService.dispatch(await createAlert('HIGH'));
+    const [delivery] = await settledDeliveries(channel);
+    
+    assert.equal(delivery.status, 'FAILED');
+    assert.match(delivery.lastError ?? '', /does not offer TLS/);
+    assert.equal(sink.messages.length, 0);
+  });
+  
+  it('resumes deliveries left pending by a restart and fails those of disabled channels', async () => {
+    const receiver = await httpReceiver([200]);
+    servers.push(receiver.server);
+    const channel = await storage.createNotificationChannel({
+      name: 'Webhook',
+      type: 'WEBHOOK',
+      config: { url: receiver.url },
+      minSeverity: 'LOW'
+    });
+    const disabled = await storage.createNotificationChannel({
+      name: 'Disabled webhook',
+      type: 'WEBHOOK',
+      config: { url: receiver.url },
+      minSeverity: 'LOW',
+      enabled: false
+    });
+    const alert = await createAlert('HIGH');
+    
+    // Left behind mid-retry, as if the server stopped before the next attempt
+    await storage.createNotificationDelivery({ channelId: channel.id, alertId: alert.id, status: 'PENDING', attempts: 2 });
+    await storage.createNotificationDelivery({ channelId: disabled.id, alertId: alert.id, status: 'PENDING', attempts: 0 });
+    
+    await notificationService.initialize();
+    const [resumed] = await settledDeliveries(channel);
+    const [failed] = await settledDeliveries(disabled);
+    
+    assert.equal(resumed.status, 'DELIVERED');
+    assert.equal(resumed.attempts, 3);
+    assert.equal(failed.status, 'FAILED');
+    assert.equal(receiver.requests.length, 1);
+  });
+});
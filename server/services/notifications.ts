@@ -0,0 +1,249 @@
+import { createHmac } from 'crypto';
+import { storage } from '../storage';
+import { eventBus } from '../eventBus';
+import { sendMail } from './smtp';
+import { settingsService } from './settings';
+import {
+  severityLevels,
+  type Alert,
+  type ChatChannelConfig,
+  type Contract,
+  type EmailChannelConfig,
+  type NotificationChannel,
+  type NotificationChannelType,
+  type WebhookChannelConfig
+} from '@shared/schema';
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_MS = parseInt(process.env.NOTIFICATION_RETRY_BASE_MS || '2000', 10); // Doubles after each failed attempt
+const HTTP_TIMEOUT_MS = 10000;
+// Deliveries still pending this long after they were queued are not resumed after a restart
+const PENDING_EXPIRY_MS = parseInt(process.env.NOTIFICATION_PENDING_EXPIRY_MS || String(60 * 60 * 1000), 10);
+
+const SEVERITY_COLORS: Record<string, number> = {
+  LOW: 0x3b82f6,
+  MEDIUM: 0xeab308,
+  HIGH: 0xf97316,
+  CRITICAL: 0xef4444
+};
+
+// Everything a channel needs to render one alert
+export interface AlertNotification {
+  alert: Alert;
+  contract: Contract | null;
+}
+
+type ChannelSender = (channel: NotificationChannel, notification: AlertNotification) => Promise<void>;
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+  });
+  
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
+
+function describe({ alert, contract }: AlertNotification): string {
+  const target = contract ? `${contract.name} (${contract.address})` : `contract #${alert.contractId}`;
+  return `${alert.description}\n\nContract: ${target}\nSeverity: ${alert.severity}\nAlert ID: ${alert.id}`;
+}
+
+// Generic webhook: the JSON payload is signed with HMAC-SHA256 over "<timestamp>.<body>"
+// so receivers can verify the sender and reject replays
+const sendWebhook: ChannelSender = async (channel, { alert, contract }) => {
+  const config = channel.config as WebhookChannelConfig;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const body = JSON.stringify({ type: 'alert.created', alert, contract });
+  const headers: Record<string, string> = { 'X-Guardian-Timestamp': timestamp };
+  
+  if (config.secret) {
+    const signature = createHmac('sha256', config.secret).update(`${timestamp}.${body}`).digest('hex');
+    headers['X-Guardian-Signature'] = `sha256=${signature}`;
+  }
+  
+  await postJson(config.url, body, headers);
+};
+
+const sendSlack: ChannelSender = async (channel, notification) => {
+  const config = channel.config as ChatChannelConfig;
+  const { alert } = notification;
+  
+  await postJson(config.url, JSON.stringify({
+    text: `*[${alert.severity}] ${alert.title}*\n${describe(notification)}`
+  }));
+};
+
+const sendDiscord: ChannelSender = async (channel, notification) => {
+  const config = channel.config as ChatChannelConfig;
+  const { alert } = notification;
+  
+  await postJson(config.url, JSON.stringify({
+    content: `[${alert.severity}] ${alert.title}`,
+    embeds: [{
+      title: alert.title,
+      description: describe(notification),
+      color: SEVERITY_COLORS[alert.severity] ?? SEVERITY_COLORS.MEDIUM,
+      timestamp: new Date(alert.createdAt).toISOString()
+    }]
+  }));
+};
+
+const sendEmail: ChannelSender = async (channel, notification) => {
+  const config = channel.config as EmailChannelConfig;
+  const { alert } = notification;
+  
+  await sendMail({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    username: config.username,
+    password: config.password,
+    allowInsecureAuth: config.allowInsecureAuth,
+    from: config.from,
+    to: config.to,
+    subject: `[Guardian AI][${alert.severity}] ${alert.title}`,
+    text: describe(notification)
+  });
+};
+
+class NotificationService {
+  private senders: Record<NotificationChannelType, ChannelSender> = {
+    WEBHOOK: sendWebhook,
+    SLACK: sendSlack,
+    DISCORD: sendDiscord,
+    EMAIL: sendEmail
+  };
+  private initialized = false;
+  
+  constructor() {
+    eventBus.on('alert.created', alert => {
+      this.dispatch(alert).catch(err => {
+        console.error('Error dispatching alert notifications:', err);
+      });
+    });
+  }
+  
+  // Retries only live in timers, so deliveries left pending by a restart are picked up again.
+  // Those whose channel was disabled or that have been pending too long are failed instead.
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+    
+    for (const delivery of await storage.getPendingNotificationDeliveries()) {
+      const channel = await storage.getNotificationChannel(delivery.channelId);
+      const alert = delivery.alertId === null ? undefined : await storage.getAlert(delivery.alertId);
+      
+      const expired = Date.now() - delivery.createdAt.getTime() > PENDING_EXPIRY_MS;
+      
+      if (!channel?.enabled || !alert || expired) {
+        await storage.updateNotificationDelivery(delivery.id, {
+          status: 'FAILED',
+          lastError: expired ? 'Expired while the server was down' : 'Channel was disabled or the alert removed before delivery'
+        });
+        continue;
+      }
+      
+      const contract = (await storage.getContract(alert.contractId)) ?? null;
+      this.deliver(delivery.id, channel, { alert, contract }, delivery.attempts);
+    }
+  }
+  
+  // Queue a delivery for every enabled channel whose threshold the alert meets. Alerts
+  // below the global threshold from the settings are not sent anywhere.
+  async dispatch(alert: Alert): Promise<void> {
+    if (!this.meetsThreshold(alert.severity, settingsService.get().alertSeverityThreshold)) return;
+    
+    const channels = await storage.getNotificationChannels();
+    const recipients = channels.filter(channel => channel.enabled && this.meetsThreshold(alert.severity, channel.minSeverity));
+    if (recipients.length === 0) return;
+    
+    const contract = (await storage.getContract(alert.contractId)) ?? null;
+    
+    for (const channel of recipients) {
+      const delivery = await storage.createNotificationDelivery({
+        channelId: channel.id,
+        alertId: alert.id,
+        status: 'PENDING',
+        attempts: 0
+      });
+      this.deliver(delivery.id, channel, { alert, contract });
+    }
+  }
+  
+  // Send a sample alert straight away, bypassing thresholds and retries
+  async sendTest(channel: NotificationChannel): Promise<void> {
+    const now = new Date();
+    const alert: Alert = {
+      id: 0,
+      contractId: 0,
+      eventId: null,
+      title: 'Guardian AI test notification',
+      description: `This is a test message for the "${channel.name}" notification channel.`,
+      severity: channel.minSeverity,
+      aiAnalysis: null,
+      createdAt: now,
+      status: 'OPEN',
+      assigneeId: null,
+      resolutionNote: null,
+      resolvedAt: null,
+      dedupKey: null,
+      occurrences: 1,
+      lastSeenAt: now,
+      incidentId: null
+    };
+    
+    await this.senders[channel.type as NotificationChannelType](channel, { alert, contract: null });
+  }
+  
+  meetsThreshold(severity: string, minSeverity: string): boolean {
+    const levels: readonly string[] = severityLevels;
+    return levels.indexOf(severity) >= levels.indexOf(minSeverity);
+  }
+  
+  private async attempt(deliveryId: number, channel: NotificationChannel, notification: AlertNotification, attempts: number = 0): Promise<void> {
+    const sender = this.senders[channel.type as NotificationChannelType];
+    
+    try {
+      await sender(channel, notification);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts + 1 >= MAX_DELIVERY_ATTEMPTS;
+      
+      await storage.updateNotificationDelivery(deliveryId, {
+        status: exhausted ? 'FAILED' : 'PENDING',
+        attempts: attempts + 1,
+        lastError: message
+      });
+      
+      if (exhausted) {
+        console.error(`Notification to ${channel.name} failed after ${attempts + 1} attempts: ${message}`);
+        return;
+      }
+      
+      const delay = RETRY_BASE_MS * 2 ** attempts;
+      setTimeout(() => this.deliver(deliveryId, channel, notification, attempts + 1), delay);
+      return;
+    }
+    
+    await storage.updateNotificationDelivery(deliveryId, {
+      status: 'DELIVERED',
+      attempts: attempts + 1,
+      lastError: null,
+      deliveredAt: new Date()
+    });
+  }
+  
+  private deliver(deliveryId: number, channel: NotificationChannel, notification: AlertNotification, attempts: number = 0) {
+    this.attempt(deliveryId, channel, notification, attempts).catch(err => {
+      console.error('Error recording notification delivery:', err);
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
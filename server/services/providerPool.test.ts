@@ -0,0 +1,148 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { NetworkConfig } from '@shared/schema';
+
+// Read when the module loads: give up on an endpoint quickly
+process.env.RPC_PROBE_TIMEOUT_MS = '1000';
+
+let ProviderPool: typeof import('./providerPool').ProviderPool;
+
+// A JSON-RPC endpoint that only knows its block number, and can be taken down
+class RpcNode {
+  head = 1000;
+  up = true;
+  url = '';
+  private server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (!this.up) {
+        res.writeHead(503).end();
+        return;
+      }
+
+      // ethers batches requests made together into one array
+      const payload = JSON.parse(body);
+      const requests: Array<{ id: number, method: string }> = [payload].flat();
+      const responses = requests.map(({ id, method }) => method === 'eth_blockNumber'
+        ? { jsonrpc: '2.0', id, result: `0x${this.head.toString(16)}` }
+        : { jsonrpc: '2.0', id, error: { code: -32601, message: `${method} not supported` } });
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(Array.isArray(payload) ? responses : responses[0]));
+    });
+  });
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+const primary = new RpcNode();
+const secondary = new RpcNode();
+
+function pool(): InstanceType<typeof ProviderPool> {
+  const network: NetworkConfig = { chainId: 1868, name: 'Soneium', rpcUrls: [primary.url, secondary.url], confirmations: 12 };
+  return new ProviderPool(network);
+}
+
+// ethers answers repeated requests from a cache for 250ms; probe again once it has lapsed
+async function probeAgain(target: InstanceType<typeof ProviderPool>): Promise<boolean> {
+  await new Promise(resolve => setTimeout(resolve, 300));
+  return target.probe();
+}
+
+function activeHost(target: InstanceType<typeof ProviderPool>): string | null {
+  return target.health().activeEndpoint;
+}
+
+describe('ProviderPool', () => {
+  before(async () => {
+    ({ ProviderPool } = await import('./providerPool'));
+    await primary.start();
+    await secondary.start();
+  });
+
+  after(async () => {
+    await primary.stop();
+    await secondary.stop();
+  });
+
+  const reset = () => {
+    for (const node of [primary, secondary]) {
+      node.head = 1000;
+      node.up = true;
+    }
+  };
+
+  it('is unknown until probed, then serves from the first listed endpoint', async () => {
+    reset();
+    const target = pool();
+    assert.equal(target.status(), 'UNKNOWN');
+    assert.equal(target.getProvider(), null);
+
+    assert.equal(await target.probe(), true);
+    assert.equal(target.status(), 'HEALTHY');
+    assert.equal(activeHost(target), new URL(primary.url).host);
+    assert.equal(target.health().blockNumber, 1000);
+  });
+
+  it('fails over when the active endpoint falls more than 5 blocks behind', async () => {
+    reset();
+    const target = pool();
+    await target.probe();
+
+    secondary.head = 1005;
+    assert.equal(await probeAgain(target), false);
+    assert.equal(activeHost(target), new URL(primary.url).host);
+
+    secondary.head = 1006;
+    assert.equal(await probeAgain(target), true);
+    assert.equal(activeHost(target), new URL(secondary.url).host);
+    assert.equal(target.status(), 'DEGRADED');
+    assert.equal(target.health().endpoints[0].error, '6 blocks behind');
+    assert.equal(target.health().endpoints[0].score, 0);
+  });
+
+  it('fails over when the active endpoint stops answering and stays on the new one after it recovers', async () => {
+    reset();
+    const target = pool();
+    await target.probe();
+
+    primary.up = false;
+    assert.equal(await probeAgain(target), true);
+    assert.equal(activeHost(target), new URL(secondary.url).host);
+    assert.equal(target.health().endpoints[0].healthy, false);
+    assert.ok(target.health().endpoints[0].error);
+
+    primary.up = true;
+    assert.equal(await probeAgain(target), false);
+    assert.equal(activeHost(target), new URL(secondary.url).host);
+    assert.equal(target.status(), 'HEALTHY');
+  });
+
+  it('is down while no endpoint answers and recovers with the first that does', async () => {
+    reset();
+    const target = pool();
+    await target.probe();
+
+    primary.up = false;
+    secondary.up = false;
+    assert.equal(await probeAgain(target), true);
+    assert.equal(target.status(), 'DOWN');
+    assert.equal(target.getProvider(), null);
+
+    secondary.up = true;
+    assert.equal(await probeAgain(target), true);
+    assert.equal(activeHost(target), new URL(secondary.url).host);
+    assert.equal(target.status(), 'DEGRADED');
+  });
+});
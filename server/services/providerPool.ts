@@ -0,0 +1,139 @@
+import { ethers } from 'ethers';
+import type { EndpointHealth, NetworkConfig, NetworkHealth, NetworkHealthStatus } from '@shared/schema';
+
+const PROBE_TIMEOUT_MS = parseInt(process.env.RPC_PROBE_TIMEOUT_MS || '5000');
+
+// Endpoints more than this many blocks behind the best head of their network are unhealthy
+const MAX_BLOCK_LAG = parseInt(process.env.RPC_MAX_BLOCK_LAG || '5');
+
+interface Endpoint {
+  host: string;
+  provider: ethers.JsonRpcProvider;
+  healthy: boolean;
+  latencyMs: number | null;
+  blockNumber: number | null;
+  blockLag: number | null;
+  lastCheckedAt: Date | null;
+  error?: string;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid url';
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// 100 for an endpoint at the head answering instantly; each block of lag costs 10 points
+// and every 20ms of latency one. Unhealthy endpoints score 0.
+function score(endpoint: Endpoint): number {
+  if (!endpoint.healthy) return 0;
+  return Math.max(1, Math.round(100 - (endpoint.blockLag ?? 0) * 10 - (endpoint.latencyMs ?? 0) / 20));
+}
+
+// The RPC endpoints of one network. Requests go to a single active endpoint, which is kept
+// while it passes probes and replaced by the best scoring healthy endpoint when it fails.
+export class ProviderPool {
+  readonly network: NetworkConfig;
+  private endpoints: Endpoint[];
+  private active: Endpoint | null = null;
+  private probed = false;
+  
+  constructor(network: NetworkConfig) {
+    this.network = network;
+    this.endpoints = network.rpcUrls.map(url => ({
+      host: hostOf(url),
+      provider: new ethers.JsonRpcProvider(url, network.chainId, { staticNetwork: true }),
+      healthy: false,
+      latencyMs: null,
+      blockNumber: null,
+      blockLag: null,
+      lastCheckedAt: null
+    }));
+  }
+  
+  // Provider of the active endpoint, or null while no endpoint is healthy
+  getProvider(): ethers.JsonRpcProvider | null {
+    return this.active?.provider ?? null;
+  }
+  
+  // Probe every endpoint and fail over if the active one stopped passing. Returns whether
+  // the active endpoint changed, including to or from none.
+  async probe(): Promise<boolean> {
+    await Promise.all(this.endpoints.map(endpoint => this.probeEndpoint(endpoint)));
+    
+    const heads = this.endpoints.map(endpoint => endpoint.blockNumber).filter((block): block is number => block !== null);
+    const head = heads.length > 0 ? Math.max(...heads) : null;
+    
+    for (const endpoint of this.endpoints) {
+      endpoint.blockLag = head !== null && endpoint.blockNumber !== null ? head - endpoint.blockNumber : null;
+      endpoint.healthy = endpoint.blockLag !== null && endpoint.blockLag <= MAX_BLOCK_LAG;
+      if (endpoint.blockLag !== null && !endpoint.healthy) {
+        endpoint.error = `${endpoint.blockLag} blocks behind`;
+      }
+    }
+    this.probed = true;
+    
+    const previous = this.active;
+    if (!previous?.healthy) {
+      // Ties go to the endpoint listed first in the configuration
+      const candidates = this.endpoints.filter(endpoint => endpoint.healthy);
+      this.active = candidates.reduce<Endpoint | null>((best, endpoint) => !best || score(endpoint) > score(best) ? endpoint : best, null);
+    }
+    
+    return this.active !== previous;
+  }
+  
+  private async probeEndpoint(endpoint: Endpoint): Promise<void> {
+    const startedAt = Date.now();
+    
+    try {
+      endpoint.blockNumber = await withTimeout(endpoint.provider.getBlockNumber(), PROBE_TIMEOUT_MS);
+      endpoint.latencyMs = Date.now() - startedAt;
+      endpoint.error = undefined;
+    } catch (error) {
+      endpoint.blockNumber = null;
+      endpoint.latencyMs = null;
+      endpoint.error = error instanceof Error ? error.message : String(error);
+    }
+    
+    endpoint.lastCheckedAt = new Date();
+  }
+  
+  status(): NetworkHealthStatus {
+    if (!this.probed) return 'UNKNOWN';
+    if (!this.active) return 'DOWN';
+    return this.endpoints.every(endpoint => endpoint.healthy) ? 'HEALTHY' : 'DEGRADED';
+  }
+  
+  health(): NetworkHealth {
+    return {
+      chainId: this.network.chainId,
+      name: this.network.name,
+      status: this.status(),
+      activeEndpoint: this.active?.host ?? null,
+      blockNumber: this.active?.blockNumber ?? null,
+      endpoints: this.endpoints.map((endpoint): EndpointHealth => ({
+        host: endpoint.host,
+        active: endpoint === this.active,
+        healthy: endpoint.healthy,
+        score: score(endpoint),
+        latencyMs: endpoint.latencyMs,
+        blockNumber: endpoint.blockNumber,
+        blockLag: endpoint.blockLag,
+        lastCheckedAt: endpoint.lastCheckedAt?.toISOString() ?? null,
+        error: endpoint.error
+      }))
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { ruleEngine } from './rules';
+import type { Contract, Event, InsertRule, Rule } from '@shared/schema';
+
+let logIndex = 0;
+
+async function createContract(name: string): Promise<Contract> {
+  return storage.createContract({
+    name,
+    chainId: 1868,
+    address: `0x${Buffer.from(name).toString('hex').padStart(40, '0').slice(-40)}`,
+    type: 'DAO',
+    status: 'HEALTHY'
+  });
+}
+
+async function createRule(contract: Contract, rule: Partial<InsertRule>): Promise<Rule> {
+  return storage.createRule({
+    contractId: contract.id,
+    name: 'Test rule',
+    eventNames: ['Transfer'],
+    conditions: [],
+    windowSeconds: 60,
+    threshold: 1,
+    severity: 'HIGH',
+    enabled: true,
+    ...rule
+  });
+}
+
+// A confirmed event the given number of seconds after a fixed start time
+async function confirmedEvent(contract: Contract, eventName: string, eventData: Record<string, unknown>, second: number): Promise<Event> {
+  logIndex++;
+
+  return storage.createEvent({
+    contractId: contract.id,
+    eventName,
+    eventData,
+    blockNumber: 1000 + logIndex,
+    blockHash: `0x${logIndex.toString(16).padStart(64, '0')}`,
+    transactionHash: `0x${(logIndex + 0x10000).toString(16).padStart(64, '0')}`,
+    logIndex,
+    timestamp: new Date(Date.UTC(2026, 0, 1) + second * 1000),
+    confirmed: true
+  });
+}
+
+async function matchedRules(contract: Contract, event: Event, rule: Rule) {
+  return (await ruleEngine.evaluate(contract, event)).filter(match => match.rule.id === rule.id);
+}
+
+describe('RuleEngine', () => {
+  it('matches argument conditions, comparing uint256 values as integers', async () => {
+    const contract = await createContract('Arguments');
+    const rule = await createRule(contract, {
+      conditions: [{ arg: 'value', op: 'gte', value: '100000000000000000000' }, { arg: 'to', op: 'eq', value: '0xABC' }]
+    });
+
+    const large = await confirmedEvent(contract, 'Transfer', { to: '0xabc', value: '250000000000000000000' }, 0);
+    const small = await confirmedEvent(contract, 'Transfer', { to: '0xabc', value: '99999999999999999999' }, 1);
+    const elsewhere = await confirmedEvent(contract, 'Transfer', { to: '0xdef', value: '250000000000000000000' }, 2);
+
+    assert.equal((await matchedRules(contract, large, rule)).length, 1);
+    assert.equal((await matchedRules(contract, small, rule)).length, 0);
+    assert.equal((await matchedRules(contract, elsewhere, rule)).length, 0);
+  });
+
+  it('fires a single-event rule for every matching event with its own fingerprint', async () => {
+    const contract = await createContract('Single');
+    const rule = await createRule(contract, {});
+
+    const first = await matchedRules(contract, await confirmedEvent(contract, 'Transfer', {}, 0), rule);
+    const second = await matchedRules(contract, await confirmedEvent(contract, 'Transfer', {}, 5), rule);
+
+    assert.equal(first.length, 1);
+    assert.equal(second.length, 1);
+    assert.notEqual(first[0].fingerprint, second[0].fingerprint);
+  });
+
+  it('fires a threshold rule once enough events fall within the window, with one fingerprint', async () => {
+    const contract = await createContract('Burst');
+    const rule = await createRule(contract, { eventNames: ['BadgeClaim'], threshold: 3 });
+
+    await confirmedEvent(contract, 'BadgeClaim', {}, 0);
+    const second = await confirmedEvent(contract, 'BadgeClaim', {}, 10);
+    const third = await confirmedEvent(contract, 'BadgeClaim', {}, 20);
+    const fourth = await confirmedEvent(contract, 'BadgeClaim', {}, 30);
+    const late = await confirmedEvent(contract, 'BadgeClaim', {}, 200);
+
+    assert.equal((await matchedRules(contract, second, rule)).length, 0);
+    const [atThree] = await matchedRules(contract, third, rule);
+    const [atFour] = await matchedRules(contract, fourth, rule);
+    assert.equal(atThree.matchCount, 3);
+    assert.equal(atFour.matchCount, 4);
+    assert.equal(atFour.fingerprint, atThree.fingerprint);
+    assert.equal((await matchedRules(contract, late, rule)).length, 0);
+  });
+
+  it('counts distinct related events within the window', async () => {
+    const contract = await createContract('Participation');
+    const rule = await createRule(contract, {
+      eventNames: ['ProposalExecuted'],
+      conditions: [{ count: { eventNames: ['Vote'], matchArg: 'proposalId', distinctArg: 'voter' }, op: 'lt', value: 3 }],
+      windowSeconds: 3600
+    });
+
+    for (const voter of ['0x01', '0x02', '0x02']) {
+      await confirmedEvent(contract, 'Vote', { proposalId: '1', voter }, 0);
+    }
+    for (const voter of ['0x01', '0x02', '0x03']) {
+      await confirmedEvent(contract, 'Vote', { proposalId: '2', voter }, 0);
+    }
+
+    const lowParticipation = await confirmedEvent(contract, 'ProposalExecuted', { proposalId: '1' }, 60);
+    const quorum = await confirmedEvent(contract, 'ProposalExecuted', { proposalId: '2' }, 60);
+
+    assert.equal((await matchedRules(contract, lowParticipation, rule)).length, 1);
+    assert.equal((await matchedRules(contract, quorum, rule)).length, 0);
+
+    // Votes cast before the window are not counted
+    const afterWindow = await confirmedEvent(contract, 'ProposalExecuted', { proposalId: '2' }, 7200);
+    assert.equal((await matchedRules(contract, afterWindow, rule)).length, 1);
+  });
+
+  it('skips disabled rules', async () => {
+    const contract = await createContract('Disabled');
+    const rule = await createRule(contract, { enabled: false });
+
+    assert.equal((await matchedRules(contract, await confirmedEvent(contract, 'Transfer', {}, 0), rule)).length, 0);
+  });
+});
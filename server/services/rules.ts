@@ -0,0 +1,130 @@
+import { storage } from '../storage';
+import type { Contract, Event, Rule, RuleArgCondition, RuleCountCondition } from '@shared/schema';
+
+export interface RuleMatch {
+  rule: Rule;
+  matchCount: number;
+  // Alert fingerprint: a burst rule keeps counting on one open alert, a single-event rule alerts per event
+  fingerprint: string;
+}
+
+function eventArgs(event: Event): Record<string, unknown> {
+  return (event.eventData ?? {}) as Record<string, unknown>;
+}
+
+class RuleEngine {
+  // Evaluate every enabled rule for the contract against a newly confirmed event. Repeat
+  // matches are not suppressed here; they raise the same alert, which counts them.
+  async evaluate(contract: Contract, event: Event): Promise<RuleMatch[]> {
+    const rules = await storage.getRulesForContract(contract.id);
+    const matches: RuleMatch[] = [];
+    
+    for (const rule of rules) {
+      if (!rule.enabled || !this.matchesEvent(rule, event)) continue;
+      
+      const windowStart = new Date(event.timestamp.getTime() - rule.windowSeconds * 1000);
+      const needsWindow = rule.threshold > 1 || rule.conditions.some(condition => 'count' in condition);
+      // Events confirmed in the same batch may be later than this one; they belong to their own window
+      const windowEvents = needsWindow
+        ? (await storage.getConfirmedEventsSince(contract.id, windowStart)).filter(e => e.timestamp <= event.timestamp)
+        : [];
+      
+      if (!this.matchesCounts(rule, event, windowEvents)) continue;
+      
+      const matchCount = rule.threshold > 1
+        ? windowEvents.filter(e => this.matchesEvent(rule, e)).length
+        : 1;
+      if (matchCount < rule.threshold) continue;
+      
+      matches.push({
+        rule,
+        matchCount,
+        fingerprint: rule.threshold > 1
+          ? `rule:${rule.id}`
+          : `rule:${rule.id}|${event.transactionHash}|${event.logIndex}`
+      });
+    }
+    
+    return matches;
+  }
+  
+  // Event name and argument conditions; count conditions need storage and are checked in evaluate()
+  matchesEvent(rule: Rule, event: Event): boolean {
+    const nameMatches = rule.eventNames.some(name => name === '*' || name === event.eventName);
+    if (!nameMatches) return false;
+    
+    const args = eventArgs(event);
+    return rule.conditions.every(condition => 'count' in condition || this.matchesCondition(condition, args[condition.arg]));
+  }
+  
+  // Count conditions only apply to the event that triggers the rule, and count the other
+  // events in the rule's window
+  private matchesCounts(rule: Rule, event: Event, windowEvents: Event[]): boolean {
+    const conditions = rule.conditions.filter((condition): condition is RuleCountCondition => 'count' in condition);
+    if (conditions.length === 0) return true;
+    
+    const args = eventArgs(event);
+    
+    return conditions.every(({ count, op, value }) => {
+      const key = args[count.matchArg];
+      if (key === undefined || key === null) return false;
+      
+      const related = windowEvents.filter(e =>
+        e.id !== event.id && count.eventNames.includes(e.eventName) && this.equals(eventArgs(e)[count.matchArg], key)
+      );
+      const total = count.distinctArg
+        ? new Set(related.map(e => String(eventArgs(e)[count.distinctArg!]).toLowerCase())).size
+        : related.length;
+      
+      return this.matchesCondition({ arg: count.matchArg, op, value }, total);
+    });
+  }
+  
+  private matchesCondition(condition: RuleArgCondition, actual: unknown): boolean {
+    if (actual === undefined || actual === null) return false;
+    
+    const { op, value } = condition;
+    
+    switch (op) {
+      case 'eq':
+        return this.equals(actual, value);
+      case 'neq':
+        return !this.equals(actual, value);
+      case 'gt':
+        return this.compare(actual, value) > 0;
+      case 'gte':
+        return this.compare(actual, value) >= 0;
+      case 'lt':
+        return this.compare(actual, value) < 0;
+      case 'lte':
+        return this.compare(actual, value) <= 0;
+      case 'in':
+        return Array.isArray(value) && value.some(v => this.equals(actual, v));
+      case 'contains':
+        return String(actual).toLowerCase().includes(String(value).toLowerCase());
+      default:
+        return false;
+    }
+  }
+  
+  // Addresses and hashes differ only in case, so string comparison ignores it
+  private equals(actual: unknown, expected: unknown): boolean {
+    return String(actual).toLowerCase() === String(expected).toLowerCase();
+  }
+  
+  // uint256 arguments are stored as strings, so compare integers as BigInt
+  private compare(actual: unknown, expected: unknown): number {
+    const a = String(actual);
+    const b = String(expected);
+    
+    if (/^-?\d+$/.test(a) && /^-?\d+$/.test(b)) {
+      const diff = BigInt(a) - BigInt(b);
+      return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+    }
+    
+    const diff = Number(a) - Number(b);
+    return isNaN(diff) ? NaN : diff;
+  }
+}
+
+export const ruleEngine = new RuleEngine();
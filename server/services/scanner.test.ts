@@ -0,0 +1,145 @@
+import { afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { aiService } from './ai';
+import { blockchainService } from './blockchain';
+import { jobQueue } from './jobs';
+import { scanService } from './scanner';
+import type { AiFinding, Scan } from '@shared/schema';
+
+const ADDRESS = '0x00000000000000000000000000000000000005ca';
+
+const SOURCE = [
+  'pragma solidity ^0.8.0;',
+  'contract Vault {',
+  '  mapping(address => uint256) balances;',
+  '  function withdraw() external {',
+  '    (bool ok, ) = msg.sender.call{value: balances[msg.sender]}("");',
+  '    require(ok);',
+  '    balances[msg.sender] = 0;',
+  '  }',
+  '}'
+].join('\n');
+
+function finding(fields: Partial<AiFinding>): AiFinding {
+  return {
+    title: 'Reentrancy in withdraw',
+    category: 'REENTRANCY',
+    severity: 'HIGH',
+    confidence: 0.9,
+    evidence: 'msg.sender.call',
+    recommendation: 'Zero the balance before the call',
+    ...fields
+  };
+}
+
+// Scans run as jobs; wait until this one has finished
+async function completed(id: number): Promise<Scan> {
+  const deadline = Date.now() + 5000;
+  while (Date.now() < deadline) {
+    const scan = await storage.getScan(id);
+    if (scan?.status === 'COMPLETED') return scan;
+    if (scan?.status === 'FAILED') throw new Error(scan.error ?? 'Scan failed');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
+  throw new Error(`Scan ${id} did not finish`);
+}
+
+// Answer every contract analysis with the given findings
+function answerWith(findings: AiFinding[]) {
+  return mock.method(aiService, 'analyzeContract', async () => ({
+    analysis: { summary: 'Reviewed', findings },
+    raw: '',
+    tokenCount: 0
+  }));
+}
+
+// Run a scan to completion with the given findings as the model's answer
+async function scanWith(findings: AiFinding[], address: string = ADDRESS): Promise<Scan> {
+  answerWith(findings);
+  return completed((await scanService.startScan(address, 1868)).id);
+}
+
+before(async () => {
+  await jobQueue.initialize();
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('ScanService.startScan', () => {
+  it('analyses a registered contract at the depth of its policy', async () => {
+    const contract = await storage.createContract({
+      name: 'Deep vault',
+      chainId: 1868,
+      address: '0x00000000000000000000000000000000000005cb',
+      type: 'TOKEN',
+      status: 'HEALTHY'
+    });
+    await storage.updateContractPolicy(contract.id, { analysisDepth: 'COMPREHENSIVE' });
+    mock.method(blockchainService, 'getContractCode', async () => '0x6080604052');
+    mock.method(globalThis, 'fetch', async () => new Response('{}', { status: 404 }));
+    const analyze = answerWith([]);
+
+    await completed((await scanService.startScan(contract.address, contract.chainId)).id);
+    await completed((await scanService.startScan(ADDRESS, 1868)).id);
+
+    assert.equal(analyze.mock.calls[0].arguments[2], 'COMPREHENSIVE');
+    assert.equal(analyze.mock.calls[1].arguments[2], undefined);
+  });
+});
+
+describe('scan history', () => {
+  it('keeps every completed scan of a contract for its timeline', async () => {
+    const contract = await storage.createContract({
+      name: 'Timeline',
+      chainId: 1868,
+      address: '0x00000000000000000000000000000000000005cc',
+      type: 'TOKEN',
+      status: 'HEALTHY'
+    });
+    mock.method(blockchainService, 'getContractCode', async () => '0x6080604052');
+    mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify({ result: [{ SourceCode: SOURCE }] })));
+
+    const first = await scanWith([finding({ location: 'withdraw(), line 5' })], contract.address);
+    const second = await scanWith([], contract.address);
+
+    const timeline = await storage.getScansByContract(contract.id);
+    assert.deepEqual(timeline.map(scan => scan.id), [second.id, first.id]);
+    assert.equal(first.highCount - second.highCount, 1);
+    assert.ok(second.overallScore! > first.overallScore!);
+    assert.equal(first.findings.length, first.criticalCount + first.highCount + first.mediumCount + first.lowCount + first.infoCount);
+    assert.ok(first.auditSummary);
+
+    const progress = await scanService.getScan(second.id);
+    assert.equal(progress?.previousScanId, first.id);
+    assert.equal(progress?.result?.overall_score, second.overallScore);
+  });
+});
+
+describe('ScanService.diff', () => {
+  it('matches AI findings across scans that word their evidence differently', async () => {
+    mock.method(blockchainService, 'getContractCode', async () => '0x6080604052');
+    mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify({ result: [{ SourceCode: SOURCE }] })));
+
+    const base = await scanWith([
+      finding({ location: 'withdraw(), line 5', evidence: '(bool ok, ) = msg.sender.call{value: balances[msg.sender]}("");' }),
+      finding({ title: 'No access control', category: 'ACCESS_CONTROL', severity: 'MEDIUM', location: 'Vault', evidence: 'None of the functions check the caller' })
+    ]);
+    const target = await scanWith([
+      finding({ location: 'withdraw(), line 5', evidence: 'The external call sends the balance before it is set to zero' }),
+      finding({ title: 'Missing access control', category: 'ACCESS_CONTROL', severity: 'MEDIUM', location: 'Vault', evidence: 'Any account can call every function' })
+    ]);
+
+    // The snippet of a finding located in the source is the source line, not the evidence
+    const located = target.findings.find(candidate => candidate.name === 'Reentrancy in withdraw');
+    assert.equal(located?.code_snippet, '(bool ok, ) = msg.sender.call{value: balances[msg.sender]}("");');
+
+    const diff = scanService.diff(base, target);
+    assert.deepEqual(diff.new_findings, []);
+    assert.deepEqual(diff.fixed_findings, []);
+    assert.equal(diff.persisting_findings.length, target.findings.length);
+  });
+});
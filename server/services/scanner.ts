@@ -0,0 +1,529 @@
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import { blockchainService } from './blockchain';
+import { explorerApiUrl, getNetwork } from '../networks';
+import { aiService } from './ai';
+import { jobQueue, type JobContext } from './jobs';
+import { aiBudgetService } from './aiBudget';
+import { effectivePolicy } from './scheduler';
+import { eventBus } from '../eventBus';
+import type {
+  AiFinding,
+  ContractScanResult,
+  Job,
+  Scan,
+  ScanDiff,
+  scanStatuses,
+  VulnerabilityFinding,
+  VulnerabilitySeverity
+} from '@shared/schema';
+
+// Verified source is fetched from the network's Etherscan-compatible explorer API
+const EXPLORER_TIMEOUT_MS = 10000;
+const SOURCE_RETENTION_MS = 10 * 60 * 1000; // Keep fetched source around for clients still polling
+
+export type ScanStatus = typeof scanStatuses[number];
+
+// Scan as returned by the API: the persisted row plus the progress of the job running it
+export interface ScanProgress {
+  id: number;
+  jobId: number | null;
+  chainId: number;
+  address: string;
+  status: ScanStatus;
+  stage: string;
+  progress: number; // 0-100
+  sourceCode: string | null;
+  result: ContractScanResult | null;
+  error?: string;
+  previousScanId: number | null; // Latest earlier completed scan of the same address, for diffing
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+interface StaticCheck {
+  name: string;
+  category: string;
+  severity: VulnerabilitySeverity;
+  description: string;
+  recommendation: string;
+}
+
+// Opcodes worth reporting when present in deployed bytecode
+const OPCODE_CHECKS: Record<number, StaticCheck> = {
+  0xff: {
+    name: 'Self-destruct capability',
+    category: 'Access Control',
+    severity: 'HIGH',
+    description: 'The bytecode contains SELFDESTRUCT. If reachable by an attacker the contract can be destroyed and its balance drained.',
+    recommendation: 'Remove selfdestruct or restrict it to a multisig-controlled path.'
+  },
+  0xf4: {
+    name: 'Delegatecall usage',
+    category: 'Unchecked External Calls',
+    severity: 'MEDIUM',
+    description: 'The bytecode contains DELEGATECALL, which runs external code against this contract\'s storage.',
+    recommendation: 'Make sure the delegatecall target is fixed or only settable by a trusted role.'
+  },
+  0xf2: {
+    name: 'Deprecated CALLCODE usage',
+    category: 'Unchecked External Calls',
+    severity: 'MEDIUM',
+    description: 'The bytecode contains the deprecated CALLCODE opcode.',
+    recommendation: 'Replace callcode with delegatecall.'
+  },
+  0x32: {
+    name: 'tx.origin usage',
+    category: 'Access Control',
+    severity: 'LOW',
+    description: 'The bytecode reads ORIGIN. Authorization based on tx.origin can be bypassed through phishing contracts.',
+    recommendation: 'Use msg.sender for authorization checks.'
+  }
+};
+
+// Patterns checked line by line when verified source is available
+const SOURCE_CHECKS: { pattern: RegExp, check: StaticCheck }[] = [
+  {
+    pattern: /tx\.origin\s*==|==\s*tx\.origin/,
+    check: {
+      name: 'Authorization through tx.origin',
+      category: 'Access Control',
+      severity: 'HIGH',
+      description: 'tx.origin is compared in an authorization check and can be bypassed by an intermediate contract.',
+      recommendation: 'Use msg.sender for authorization checks.'
+    }
+  },
+  {
+    pattern: /^\s*[\w.\[\]()]+\.call\b[^;=]*;/, // Call used as a statement, result discarded
+    check: {
+      name: 'Unchecked low-level call',
+      category: 'Unchecked External Calls',
+      severity: 'MEDIUM',
+      description: 'The return value of a low-level call is not captured, so a failed call goes unnoticed.',
+      recommendation: 'Check the returned success flag and revert on failure.'
+    }
+  },
+  {
+    pattern: /\bblock\.timestamp\b/,
+    check: {
+      name: 'Timestamp dependence',
+      category: 'Front-Running',
+      severity: 'INFO',
+      description: 'Logic depends on the block timestamp, which block producers can shift slightly.',
+      recommendation: 'Avoid using block.timestamp for randomness or tight deadlines.'
+    }
+  }
+];
+
+const OPCODE_NAMES: Record<number, string> = {
+  0xff: 'SELFDESTRUCT',
+  0xf4: 'DELEGATECALL',
+  0xf2: 'CALLCODE',
+  0x32: 'ORIGIN'
+};
+
+const CATEGORY_LABELS: Record<AiFinding['category'], string> = {
+  REENTRANCY: 'Reentrancy',
+  ACCESS_CONTROL: 'Access Control',
+  ARITHMETIC: 'Integer Overflow/Underflow',
+  LOGIC: 'Logic Errors',
+  FRONT_RUNNING: 'Front-Running',
+  ORACLE: 'Oracle Manipulation',
+  GAS: 'Gas Optimization',
+  SUSPICIOUS_ACTIVITY: 'Suspicious Activity',
+  OTHER: 'Other'
+};
+
+const SEVERITY_ORDER: Record<VulnerabilitySeverity, number> = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3, INFO: 4 };
+
+// Rebuild the report the client renders from a persisted scan
+export function toScanResult(scan: Scan): ContractScanResult {
+  return {
+    contract_address: scan.address,
+    scan_id: String(scan.id),
+    timestamp: (scan.completedAt ?? scan.createdAt).toISOString(),
+    overall_score: scan.overallScore ?? 0,
+    vulnerability_count: {
+      critical: scan.criticalCount,
+      high: scan.highCount,
+      medium: scan.mediumCount,
+      low: scan.lowCount,
+      info: scan.infoCount
+    },
+    vulnerabilities: scan.findings,
+    gas_optimization_suggestions: scan.gasSuggestions,
+    audit_summary: scan.auditSummary ?? ''
+  };
+}
+
+// Stable identity of a finding across scans: category, location and the snippet with
+// comments, whitespace and case stripped. Line numbers are left out since they shift.
+// Pass an empty snippet for findings whose only code is worded anew on every scan.
+export function fingerprintFinding(finding: VulnerabilityFinding, snippet: string = finding.code_snippet ?? finding.name): string {
+  const location = (finding.location ?? '')
+    .toLowerCase()
+    .replace(/\blines?\s*\d+(\s*-\s*\d+)?/g, '')
+    .replace(/\s+/g, '');
+  const code = snippet
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\/\/.*$/gm, '')
+    .replace(/\s+/g, '')
+    .toLowerCase();
+  
+  return createHash('sha256')
+    .update(`${finding.category.toLowerCase()}|${location}|${code}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+class ScanService {
+  private sources: Map<number, string | null>; // Verified source by scan ID; not persisted
+  
+  constructor() {
+    this.sources = new Map();
+    
+    jobQueue.register('SCAN', (job, context) => this.runScan(job, context));
+    
+    // The scan only fails once its job gave up or was cancelled; retries keep it running
+    eventBus.on('job.updated', job => {
+      if (job.type !== 'SCAN' || (job.status !== 'FAILED' && job.status !== 'CANCELLED')) return;
+      
+      this.failScan(job).catch(err => {
+        console.error(`Error recording failure of scan job ${job.id}:`, err);
+      });
+    });
+  }
+  
+  async getScan(id: number): Promise<ScanProgress | undefined> {
+    const scan = await storage.getScan(id);
+    if (!scan) return undefined;
+    
+    const previous = await storage.getLatestCompletedScan(scan.address, scan.chainId, scan.id);
+    const job = scan.jobId !== null ? await storage.getJob(scan.jobId) : undefined;
+    return this.toProgress(scan, previous?.id ?? null, job);
+  }
+  
+  // Compare a later scan against an earlier one of the same contract
+  diff(base: Scan, target: Scan): ScanDiff {
+    const baseFindings = new Map<string, VulnerabilityFinding[]>();
+    for (const finding of base.findings) {
+      const fingerprint = finding.fingerprint ?? fingerprintFinding(finding);
+      baseFindings.set(fingerprint, [...(baseFindings.get(fingerprint) ?? []), finding]);
+    }
+    
+    const newFindings: VulnerabilityFinding[] = [];
+    const persistingFindings: VulnerabilityFinding[] = [];
+    
+    for (const finding of target.findings) {
+      const matches = baseFindings.get(finding.fingerprint ?? fingerprintFinding(finding));
+      if (matches && matches.length > 0) {
+        matches.shift();
+        persistingFindings.push(finding);
+      } else {
+        newFindings.push(finding);
+      }
+    }
+    
+    return {
+      base_scan_id: String(base.id),
+      target_scan_id: String(target.id),
+      score_delta: (target.overallScore ?? 0) - (base.overallScore ?? 0),
+      new_findings: newFindings,
+      fixed_findings: Array.from(baseFindings.values()).flat(),
+      persisting_findings: persistingFindings
+    };
+  }
+  
+  // Record a scan and queue a job to run it. Poll getScan for progress and the result.
+  async startScan(address: string, chainId: number, requestedBy?: number): Promise<ScanProgress> {
+    const contract = await storage.getContractByAddress(address, chainId);
+    const created = await storage.createScan({
+      contractId: contract?.id ?? null,
+      chainId,
+      address,
+      status: 'RUNNING'
+    });
+    
+    const job = await jobQueue.enqueue('SCAN', { scanId: created.id }, {
+      contractId: contract?.id ?? null,
+      requestedBy
+    });
+    const scan = (await storage.updateScan(created.id, { jobId: job.id })) ?? created;
+    
+    return this.toProgress(scan, null, job);
+  }
+  
+  private async runScan(job: Job, context: JobContext): Promise<Record<string, unknown>> {
+    const scanId = Number(job.payload.scanId);
+    const scan = await storage.getScan(scanId);
+    if (!scan) throw new Error(`Scan ${scanId} not found`);
+    
+    const contract = scan.contractId !== null ? await storage.getContract(scan.contractId) : undefined;
+    
+    await context.progress('Retrieving contract code', 10);
+    const bytecode = await blockchainService.getContractCode(scan.address, scan.chainId);
+    if (!bytecode || bytecode === '0x') {
+      throw new Error(`No contract code found at ${scan.address}`);
+    }
+    
+    await context.progress('Fetching verified source', 25);
+    const sourceCode = await this.fetchVerifiedSource(scan.address, scan.chainId);
+    this.sources.set(scan.id, sourceCode);
+    setTimeout(() => this.sources.delete(scan.id), SOURCE_RETENTION_MS).unref();
+    
+    await context.progress('Static analysis', 40);
+    const vulnerabilities = [
+      ...this.analyzeBytecode(bytecode),
+      ...(sourceCode ? this.analyzeSource(sourceCode) : [])
+    ];
+    
+    // Over budget, the report is built from the static checks alone. Registered contracts
+    // are analysed at the depth of their policy, others at the global setting.
+    await context.progress('AI analysis', 60);
+    const budget = await aiBudgetService.check(contract ?? null, 'CONTRACT_ANALYSIS');
+    const { analysis } = budget.allowed
+      ? await aiService.analyzeContract(
+        contract ?? { id: null, name: 'Unregistered contract', address: scan.address, type: 'OTHER' },
+        sourceCode ?? bytecode,
+        contract ? effectivePolicy(contract).analysisDepth : undefined
+      )
+      : { analysis: null };
+    
+    if (analysis) {
+      vulnerabilities.push(...analysis.findings.map(finding => this.toVulnerability(finding, sourceCode)));
+    }
+    
+    await context.progress('Generating report', 90);
+    vulnerabilities.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+    vulnerabilities.forEach((vulnerability, index) => {
+      vulnerability.id = `VULN-${scan.id}-${index + 1}`;
+      vulnerability.fingerprint ??= fingerprintFinding(vulnerability);
+    });
+    
+    const count = { critical: 0, high: 0, medium: 0, low: 0, info: 0 };
+    for (const vulnerability of vulnerabilities) {
+      count[vulnerability.severity.toLowerCase() as keyof typeof count]++;
+    }
+    
+    // Score is inversely related to the weighted vulnerability count, capped at 100
+    const penalty = count.critical * 25 + count.high * 10 + count.medium * 5 + count.low * 2 + count.info * 0.5;
+    const overallScore = Math.max(0, 100 - Math.min(100, penalty));
+    
+    await storage.updateScan(scan.id, {
+      status: 'COMPLETED',
+      overallScore,
+      criticalCount: count.critical,
+      highCount: count.high,
+      mediumCount: count.medium,
+      lowCount: count.low,
+      infoCount: count.info,
+      findings: vulnerabilities,
+      gasSuggestions: vulnerabilities
+        .filter(v => v.category === CATEGORY_LABELS.GAS && v.recommendation)
+        .map(v => v.recommendation!),
+      auditSummary: this.buildSummary(scan.address, sourceCode, count, overallScore, vulnerabilities, analysis?.summary),
+      sourceHash: createHash('sha256').update(sourceCode ?? bytecode).digest('hex'),
+      completedAt: new Date()
+    });
+    await context.progress('Scan complete', 100);
+    
+    return { scanId: scan.id, overallScore };
+  }
+  
+  private async failScan(job: Job): Promise<void> {
+    const scan = await storage.getScan(Number(job.payload.scanId));
+    if (!scan || scan.status !== 'RUNNING') return;
+    
+    await storage.updateScan(scan.id, {
+      status: 'FAILED',
+      error: job.status === 'CANCELLED' ? 'Scan cancelled' : job.error,
+      completedAt: new Date()
+    });
+  }
+  
+  private toProgress(scan: Scan, previousScanId: number | null, job?: Job): ScanProgress {
+    const finished = scan.status !== 'RUNNING';
+    
+    return {
+      id: scan.id,
+      jobId: scan.jobId,
+      chainId: scan.chainId,
+      address: scan.address,
+      status: scan.status as ScanStatus,
+      stage: scan.status === 'COMPLETED' ? 'Scan complete' : finished ? 'Scan failed' : job?.stage ?? 'Initializing scan',
+      progress: finished ? 100 : job?.progress ?? 0,
+      sourceCode: this.sources.get(scan.id) ?? null,
+      result: scan.status === 'COMPLETED' ? toScanResult(scan) : null,
+      error: scan.error ?? undefined,
+      previousScanId,
+      startedAt: scan.createdAt,
+      finishedAt: scan.completedAt ?? undefined
+    };
+  }
+  
+  // Returns null when the contract is not verified or the explorer is unreachable
+  private async fetchVerifiedSource(address: string, chainId: number): Promise<string | null> {
+    const network = getNetwork(chainId);
+    const apiUrl = network && explorerApiUrl(network);
+    if (!apiUrl) return null;
+    
+    try {
+      const url = `${apiUrl}?module=contract&action=getsourcecode&address=${address}`;
+      const response = await fetch(url, { signal: AbortSignal.timeout(EXPLORER_TIMEOUT_MS) });
+      if (!response.ok) return null;
+      
+      const data = await response.json();
+      const source: string | undefined = data?.result?.[0]?.SourceCode;
+      return source ? source : null;
+    } catch (error) {
+      console.warn(`Could not fetch verified source for ${address}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+  
+  private analyzeBytecode(bytecode: string): VulnerabilityFinding[] {
+    const code = this.stripMetadata(Buffer.from(bytecode.replace(/^0x/, ''), 'hex'));
+    const found = new Set<number>();
+    
+    for (let pc = 0; pc < code.length; pc++) {
+      const opcode = code[pc];
+      
+      // PUSH1..PUSH32 carry inline data that must not be read as opcodes
+      if (opcode >= 0x60 && opcode <= 0x7f) {
+        pc += opcode - 0x5f;
+        continue;
+      }
+      
+      // INVALID ends the code section unless a jump target follows; what comes after is data
+      if (opcode === 0xfe && code[pc + 1] !== 0x5b) break;
+      
+      if (OPCODE_CHECKS[opcode]) found.add(opcode);
+    }
+    
+    return Array.from(found).map(opcode => ({
+      ...this.fromCheck(OPCODE_CHECKS[opcode]),
+      location: 'bytecode',
+      code_snippet: OPCODE_NAMES[opcode]
+    }));
+  }
+  
+  // solc appends CBOR metadata (compiler version, source hash) whose length is in the last
+  // two bytes. Its hash bytes would otherwise be read as opcodes.
+  private stripMetadata(code: Buffer): Buffer {
+    if (code.length < 2) return code;
+    
+    const length = code.readUInt16BE(code.length - 2);
+    const start = code.length - 2 - length;
+    // The trailer is a CBOR map (major type 5)
+    if (length === 0 || start < 0 || (code[start] & 0xe0) !== 0xa0) return code;
+    
+    return code.subarray(0, start);
+  }
+  
+  private analyzeSource(source: string): VulnerabilityFinding[] {
+    const lines = source.split('\n');
+    const findings: VulnerabilityFinding[] = [];
+    
+    for (const { pattern, check } of SOURCE_CHECKS) {
+      const index = lines.findIndex(line => !line.trim().startsWith('//') && pattern.test(line));
+      if (index === -1) continue;
+      
+      findings.push({
+        ...this.fromCheck(check),
+        line_number: index + 1,
+        code_snippet: lines[index].trim(),
+        location: this.enclosingFunction(lines, index)
+      });
+    }
+    
+    return findings;
+  }
+  
+  private enclosingFunction(lines: string[], index: number): string | undefined {
+    for (let i = index; i >= 0; i--) {
+      const match = lines[i].match(/\b(function\s+\w+|constructor|modifier\s+\w+|receive|fallback)\b/);
+      if (match) return match[1].replace(/\s+/, ' ');
+    }
+    return undefined;
+  }
+  
+  private fromCheck(check: StaticCheck): VulnerabilityFinding {
+    return {
+      id: '',
+      name: check.name,
+      description: check.description,
+      severity: check.severity,
+      recommendation: check.recommendation,
+      category: check.category
+    };
+  }
+  
+  private toVulnerability(finding: AiFinding, sourceCode: string | null): VulnerabilityFinding {
+    const lineMatch = finding.location?.match(/line\s*(\d+)/i);
+    let lineNumber = lineMatch ? parseInt(lineMatch[1]) : undefined;
+    
+    const sourceLines = sourceCode?.split('\n') ?? [];
+    
+    // Locate the quoted evidence in the source when the model did not give a line
+    if (lineNumber === undefined) {
+      const firstLine = finding.evidence.split('\n')[0].trim();
+      const index = firstLine ? sourceLines.findIndex(line => line.includes(firstLine)) : -1;
+      if (index !== -1) lineNumber = index + 1;
+    }
+    
+    // The evidence is free text the model words differently on every run, so it only serves
+    // as the snippet when it could not be pinned to a line of the source
+    const sourceLine = lineNumber !== undefined ? sourceLines[lineNumber - 1]?.trim() : undefined;
+    const vulnerability: VulnerabilityFinding = {
+      id: '',
+      name: finding.title,
+      description: finding.location ? `${finding.title} in ${finding.location}.` : `${finding.title}.`,
+      severity: finding.severity,
+      line_number: lineNumber,
+      code_snippet: sourceLine || finding.evidence,
+      recommendation: finding.recommendation,
+      category: CATEGORY_LABELS[finding.category],
+      location: finding.location
+    };
+    if (!sourceLine) vulnerability.fingerprint = fingerprintFinding(vulnerability, '');
+    
+    return vulnerability;
+  }
+  
+  private buildSummary(
+    address: string,
+    sourceCode: string | null,
+    count: ContractScanResult['vulnerability_count'],
+    score: number,
+    vulnerabilities: VulnerabilityFinding[],
+    aiSummary?: string
+  ): string {
+    const total = vulnerabilities.length;
+    
+    let riskLevel = 'Low';
+    if (count.critical > 0 || count.high > 1) {
+      riskLevel = 'Critical';
+    } else if (count.high > 0 || count.medium > 2) {
+      riskLevel = 'High';
+    } else if (count.medium > 0 || count.low > 3) {
+      riskLevel = 'Medium';
+    }
+    
+    const sources = [
+      'bytecode analysis',
+      sourceCode ? 'verified source analysis' : null,
+      aiSummary !== undefined ? 'AI review' : null
+    ].filter(Boolean).join(', ');
+    
+    return [
+      `The smart contract at ${address} was analyzed using ${sources}.`,
+      `Overall Security Score: ${score.toFixed(1)}/100 (${riskLevel} Risk)`,
+      `Summary: The scan identified ${total} findings (${count.critical} critical, ${count.high} high, ${count.medium} medium, ${count.low} low, ${count.info} informational).`,
+      aiSummary ? `AI review: ${aiSummary}` : null,
+      sourceCode ? null : 'No verified source code was available, so source-level checks were skipped.',
+      'This report provides an automated assessment and should be followed by a thorough manual security review.'
+    ].filter(Boolean).join('\n\n');
+  }
+}
+
+export const scanService = new ScanService();
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { ContractScheduler, type ScheduledTask } from './scheduler';
+import { settingsService } from './settings';
+import type { Contract } from '@shared/schema';
+
+const TICK_MS = 15000;
+const MINUTE = 60 * 1000;
+
+let contractCount = 0;
+
+async function createContract(policy?: Contract['policy']): Promise<Contract> {
+  const contract = await storage.createContract({
+    name: `Scheduled ${++contractCount}`,
+    chainId: 1868,
+    address: `0x${(0x5c4ed000 + contractCount).toString(16).padStart(40, '0')}`,
+    type: 'TOKEN',
+    status: 'HEALTHY'
+  });
+  return policy ? (await storage.updateContractPolicy(contract.id, policy))! : contract;
+}
+
+// Tasks that record the contracts they ran for, on the intervals the monitor uses
+function recordingTasks(runs: Array<[string, number]>): ScheduledTask[] {
+  return [
+    { name: 'healthCheck', runOnStart: true, intervalMinutes: policy => policy.healthCheckIntervalMinutes, run: async contract => { runs.push(['healthCheck', contract.id]); } },
+    { name: 'aiAnalysis', runOnStart: false, intervalMinutes: policy => policy.aiAnalysisIntervalMinutes, run: async contract => { runs.push(['aiAnalysis', contract.id]); } }
+  ];
+}
+
+// Move the clock forward tick by tick, letting each tick finish before the next
+async function advance(ms: number): Promise<void> {
+  for (let elapsed = 0; elapsed < ms; elapsed += TICK_MS) {
+    mock.timers.tick(TICK_MS);
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('ContractScheduler', () => {
+  let scheduler: ContractScheduler | undefined;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setInterval', 'Date'], now: Date.now() });
+  });
+
+  afterEach(() => {
+    scheduler?.stop();
+    mock.timers.reset();
+  });
+
+  it('schedules each contract on the intervals of its policy, falling back to the settings', async () => {
+    const custom = await createContract({ healthCheckIntervalMinutes: 5, aiAnalysisIntervalMinutes: 10 });
+    const standard = await createContract();
+    const settings = settingsService.get();
+
+    scheduler = new ContractScheduler(recordingTasks([]));
+    assert.equal(scheduler.nextRunAt('aiAnalysis', custom), null);
+
+    const startedAt = Date.now();
+    await scheduler.start();
+
+    assert.equal(scheduler.nextRunAt('aiAnalysis', custom)!.getTime(), startedAt + 10 * MINUTE);
+    assert.equal(scheduler.nextRunAt('aiAnalysis', standard)!.getTime(), startedAt + settings.aiAnalysisIntervalMinutes * MINUTE);
+    assert.equal(scheduler.nextRunAt('healthCheck', custom)!.getTime(), startedAt + 5 * MINUTE);
+  });
+
+  it('runs a task once the interval of the policy has passed, and picks up policy changes', async () => {
+    const fast = await createContract({ aiAnalysisIntervalMinutes: 10 });
+    const slow = await createContract({ aiAnalysisIntervalMinutes: 60 });
+    const runs: Array<[string, number]> = [];
+    const analysed = () => runs.filter(([task, id]) => task === 'aiAnalysis' && (id === fast.id || id === slow.id)).map(([, id]) => id);
+
+    scheduler = new ContractScheduler(recordingTasks(runs));
+    await scheduler.start();
+    assert.ok(runs.some(([task, id]) => task === 'healthCheck' && id === fast.id));
+    assert.deepEqual(analysed(), []);
+
+    await advance(10 * MINUTE);
+    assert.deepEqual(analysed(), [fast.id]);
+
+    // Shortening the interval makes the slow contract due right away, without a restart
+    await storage.updateContractPolicy(slow.id, { aiAnalysisIntervalMinutes: 5 });
+    await advance(TICK_MS);
+    assert.deepEqual(analysed(), [fast.id, slow.id]);
+
+    // Another ten minutes: one more run of the fast contract, two of the slow one
+    await advance(10 * MINUTE);
+    assert.equal(analysed().filter(id => id === fast.id).length, 2);
+    assert.equal(analysed().filter(id => id === slow.id).length, 3);
+  });
+});
@@ -0,0 +1,105 @@
+import { storage } from '../storage';
+import { settingsService } from './settings';
+import type { Contract, EffectivePolicy } from '@shared/schema';
+
+// How often due work is looked for; the shortest interval a policy can set is one minute
+const TICK_MS = parseInt(process.env.SCHEDULER_TICK_MS || '15000');
+
+// The contract's policy with the global settings filled in for anything it leaves out
+export function effectivePolicy(contract: Contract): EffectivePolicy {
+  const settings = settingsService.get();
+  const policy = contract.policy ?? {};
+  
+  return {
+    healthCheckIntervalMinutes: policy.healthCheckIntervalMinutes ?? settings.securityCheckIntervalMinutes,
+    aiAnalysisIntervalMinutes: policy.aiAnalysisIntervalMinutes ?? settings.aiAnalysisIntervalMinutes,
+    autoAnalyzeEvents: policy.autoAnalyzeEvents ?? false,
+    analysisDepth: policy.analysisDepth ?? settings.analysisDepth,
+    dailyTokenQuota: policy.dailyTokenQuota ?? null
+  };
+}
+
+export interface ScheduledTask {
+  name: string;
+  intervalMinutes(policy: EffectivePolicy): number;
+  runOnStart: boolean; // Due as soon as the scheduler starts, rather than one interval later
+  run(contract: Contract, policy: EffectivePolicy): Promise<void>;
+}
+
+// Runs every task for every contract once the interval from the contract's policy has
+// passed since the task last ran for it. Intervals are looked up on each tick, so policy
+// and settings changes apply without rescheduling anything.
+export class ContractScheduler {
+  private tasks: ScheduledTask[];
+  private lastRuns: Map<string, number> = new Map(); // Keyed by task name and contract ID
+  private timer: NodeJS.Timeout | null = null;
+  private startedAt: number = 0;
+  private ticking = false;
+  
+  constructor(tasks: ScheduledTask[]) {
+    this.tasks = tasks;
+  }
+  
+  // Resolves once the work due at start has run
+  start(): Promise<void> {
+    if (this.timer) return Promise.resolve();
+    
+    this.startedAt = Date.now();
+    this.lastRuns.clear();
+    this.timer = setInterval(() => {
+      this.tick().catch(err => {
+        console.error('Error in scheduler tick:', err);
+      });
+    }, TICK_MS);
+    
+    return this.tick();
+  }
+  
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  // When the task is next due for the contract, or null while stopped
+  nextRunAt(taskName: string, contract: Contract): Date | null {
+    const task = this.tasks.find(candidate => candidate.name === taskName);
+    if (!task || !this.timer) return null;
+    
+    return new Date(Math.max(this.dueAt(task, contract), this.startedAt));
+  }
+  
+  private dueAt(task: ScheduledTask, contract: Contract): number {
+    const lastRun = this.lastRuns.get(`${task.name}:${contract.id}`) ?? (task.runOnStart ? 0 : this.startedAt);
+    return lastRun + task.intervalMinutes(effectivePolicy(contract)) * 60 * 1000;
+  }
+  
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    
+    try {
+      const contracts = await storage.getContracts();
+      
+      for (const contract of contracts) {
+        for (const task of this.tasks) {
+          if (!this.timer) return;
+          
+          const now = Date.now();
+          if (now < this.dueAt(task, contract)) continue;
+          
+          // Counted from the start of the run, so slow runs do not push the schedule back
+          this.lastRuns.set(`${task.name}:${contract.id}`, now);
+          try {
+            await task.run(contract, effectivePolicy(contract));
+          } catch (error) {
+            console.error(`Error running ${task.name} for ${contract.name}:`, error);
+          }
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
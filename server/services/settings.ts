@@ -0,0 +1,82 @@
+import { storage } from '../storage';
+import { eventBus } from '../eventBus';
+import type { AnalysisDepth, GuardianSettings, Settings } from '@shared/schema';
+
+// Values used until settings are first saved. Models and token limits can be seeded
+// from the environment; afterwards the stored settings win.
+function defaultSettings(): GuardianSettings {
+  return {
+    securityCheckIntervalMinutes: 30,
+    aiAnalysisIntervalMinutes: 120,
+    alertSeverityThreshold: 'LOW',
+    aiModel: process.env.AI_MODEL || 'llama3-8b-8192',
+    contractAnalysisModel: process.env.AI_CONTRACT_ANALYSIS_MODEL || null,
+    eventAnalysisModel: process.env.AI_EVENT_ANALYSIS_MODEL || null,
+    analysisDepth: 'STANDARD',
+    dailyTokenLimit: parseInt(process.env.AI_DAILY_TOKEN_LIMIT || '100000'),
+    monthlyTokenLimit: parseInt(process.env.AI_MONTHLY_TOKEN_LIMIT || '3000000'),
+    contractAnalysisTokenQuota: null,
+    eventAnalysisTokenQuota: null
+  };
+}
+
+// Holds the current settings in memory so services can read them synchronously on every
+// use. Saving emits settings.updated for services that have to reschedule work.
+class SettingsService {
+  private current: GuardianSettings = defaultSettings();
+  private updatedAt: Date | null = null;
+  private loading: Promise<void> | null = null;
+  
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = storage.getSettings().then(row => {
+        if (row) this.apply(row);
+      }).catch(error => {
+        // Keep the defaults; the next save creates the row
+        console.error('Failed to load settings, using defaults:', error);
+      });
+    }
+    
+    return this.loading;
+  }
+  
+  get(): GuardianSettings {
+    return this.current;
+  }
+  
+  defaults(): GuardianSettings {
+    return defaultSettings();
+  }
+  
+  lastUpdatedAt(): Date | null {
+    return this.updatedAt;
+  }
+  
+  async update(values: GuardianSettings, updatedBy: number | null): Promise<GuardianSettings> {
+    const row = await storage.saveSettings(values, updatedBy);
+    this.apply(row);
+    eventBus.emit('settings.updated', this.current);
+    
+    return this.current;
+  }
+  
+  // Rows are only written from validated settings, so the text columns hold valid values
+  private apply(row: Settings): void {
+    this.current = {
+      securityCheckIntervalMinutes: row.securityCheckIntervalMinutes,
+      aiAnalysisIntervalMinutes: row.aiAnalysisIntervalMinutes,
+      alertSeverityThreshold: row.alertSeverityThreshold as GuardianSettings['alertSeverityThreshold'],
+      aiModel: row.aiModel,
+      contractAnalysisModel: row.contractAnalysisModel,
+      eventAnalysisModel: row.eventAnalysisModel,
+      analysisDepth: row.analysisDepth as AnalysisDepth,
+      dailyTokenLimit: row.dailyTokenLimit,
+      monthlyTokenLimit: row.monthlyTokenLimit,
+      contractAnalysisTokenQuota: row.contractAnalysisTokenQuota,
+      eventAnalysisTokenQuota: row.eventAnalysisTokenQuota
+    };
+    this.updatedAt = row.updatedAt;
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -0,0 +1,79 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { eventBus } from '../eventBus';
+import { ruleEngine } from './rules';
+import type { Contract, Event } from '@shared/schema';
+
+// Read when the modules load: simulate a fast chain that only plays scenarios on request
+process.env.DEMO_MODE = 'true';
+process.env.DEMO_BLOCK_TIME_MS = '5';
+process.env.DEMO_SCENARIO_INTERVAL_BLOCKS = '0';
+process.env.RECONCILE_INTERVAL_MS = '10';
+
+let blockchainService: typeof import('./blockchain').blockchainService;
+let chainSimulator: typeof import('./simulator').chainSimulator;
+
+// The default rules a scenario is built to trip
+const EXPECTED: Record<string, { title: string, severity: string }> = {
+  'feed-spam': { title: 'Burst of claims or submitted alerts', severity: 'MEDIUM' },
+  'governance-takeover': { title: 'Proposal executed with low participation', severity: 'HIGH' },
+  'badge-farming': { title: 'Burst of claims or submitted alerts', severity: 'MEDIUM' }
+};
+
+async function until(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 10000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('ChainSimulator scenarios', () => {
+  before(async () => {
+    ({ blockchainService } = await import('./blockchain'));
+    ({ chainSimulator } = await import('./simulator'));
+    await blockchainService.initialize();
+  });
+
+  after(() => {
+    chainSimulator.stop();
+  });
+
+  for (const scenario of Object.keys(EXPECTED)) {
+    it(`trips a default rule with ${scenario}`, async () => {
+      const type = chainSimulator.getScenarios().find(candidate => candidate.name === scenario)!.contractType;
+      const contract: Contract = await storage.createContract({
+        name: `Scenario ${scenario}`,
+        chainId: 1868,
+        address: `0x${Buffer.from(scenario).toString('hex').padStart(40, '0').slice(-40)}`,
+        type,
+        status: 'HEALTHY'
+      });
+      assert.equal(blockchainService.watchContract(contract), true);
+
+      // Evaluate the rules the way the monitor does, once each event of the run is confirmed
+      const run = chainSimulator.runScenario(scenario, contract.id)!;
+      const fired: Array<{ title: string, severity: string }> = [];
+      let evaluated = 0;
+      let pending = 0;
+      const listener = async (event: Event) => {
+        if (event.contractId !== contract.id || event.blockNumber < run.startBlock || event.blockNumber > run.endBlock) return;
+        pending++;
+        for (const match of await ruleEngine.evaluate(contract, event)) {
+          fired.push({ title: match.rule.name, severity: match.rule.severity });
+        }
+        pending--;
+        if (event.blockNumber === run.endBlock) evaluated++;
+      };
+      eventBus.on('event.confirmed', listener);
+
+      await until(() => evaluated > 0 && pending === 0);
+      eventBus.off('event.confirmed', listener);
+      await blockchainService.unwatchContract(contract);
+
+      assert.ok(fired.some(alert => alert.title === EXPECTED[scenario].title && alert.severity === EXPECTED[scenario].severity),
+        `${scenario} fired ${JSON.stringify(fired)}`);
+    });
+  }
+});
@@ -0,0 +1,370 @@
+import { ethers } from 'ethers';
+import type { Contract, DemoScenario, SimulatorStatus } from '@shared/schema';
+
+const DEMO_SEED = parseInt(process.env.DEMO_SEED || '1');
+const DEMO_BLOCK_TIME_MS = parseInt(process.env.DEMO_BLOCK_TIME_MS || '2000');
+
+// Scripted scenarios are played in turn every this many blocks; 0 leaves them to manual triggers
+const DEMO_SCENARIO_INTERVAL_BLOCKS = parseInt(process.env.DEMO_SCENARIO_INTERVAL_BLOCKS || '300');
+
+// The height follows the clock, so a restarted simulator continues past the blocks it already
+// produced instead of replaying them. DEMO_START_BLOCK pins it for reproducible runs.
+const DEMO_EPOCH = Date.UTC(2024, 0, 1);
+const DEMO_START_BLOCK = process.env.DEMO_START_BLOCK ? parseInt(process.env.DEMO_START_BLOCK) : undefined;
+
+// Receipts are kept this many blocks so reorg reconciliation can still look them up
+const RECEIPT_RETENTION_BLOCKS = 5000;
+
+type Random = () => number;
+
+// mulberry32 seeded from a string, so every block and scenario run has its own reproducible stream
+function random(key: string): Random {
+  let state = parseInt(ethers.id(key).slice(2, 10), 16);
+  
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(rng: Random, items: T[]): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+function address(key: string): string {
+  return ethers.getAddress(ethers.id(`${DEMO_SEED}:${key}`).slice(0, 42));
+}
+
+// Regular users of the simulated contracts
+function actor(rng: Random): string {
+  return address(`actor:${Math.floor(rng() * 16)}`);
+}
+
+// Whole token amounts in wei
+function tokens(rng: Random, min: number, max: number): bigint {
+  return ethers.parseUnits(String(Math.floor(min + rng() * (max - min))), 18);
+}
+
+interface SimulatedEvent {
+  eventName: string;
+  args: unknown[];
+}
+
+interface ScheduledEvent extends SimulatedEvent {
+  contractId: number;
+}
+
+interface ScenarioStep extends SimulatedEvent {
+  offset: number; // Blocks after the scenario starts
+}
+
+interface Scenario extends DemoScenario {
+  steps(rng: Random, startBlock: number): ScenarioStep[];
+}
+
+interface Subscription {
+  contract: Contract;
+  iface: ethers.Interface;
+  onLog: (log: ethers.EventLog) => void;
+}
+
+type ScenarioRun = SimulatorStatus['runningScenarios'][number];
+
+const FEED_DESCRIPTIONS = [
+  'Unusual approval granted to unverified router',
+  'Oracle price deviates 4% from reference feeds',
+  'Large withdrawal from lending pool reserve',
+  'Contract upgraded without timelock delay',
+  'Repeated failed calls to admin function'
+];
+
+const PROPOSAL_DESCRIPTIONS = [
+  'Raise the alert bounty to 500 tokens',
+  'Add a second oracle to the price feed',
+  'Extend the voting period to five days',
+  'Fund the Q3 audit from the treasury'
+];
+
+// Chance per block of a background BadgeClaim or AlertSubmitted: about one every two hours at
+// the default block time, so ordinary activity stays clear of the default burst rule (3 an hour)
+// and only the scenarios trip it
+const BURST_EVENT_CHANCE = 1 / 4000;
+
+// Ordinary activity of one contract in one block
+function backgroundActivity(type: string, rng: Random, blockNumber: number): SimulatedEvent[] {
+  const activity: SimulatedEvent[] = [];
+  
+  switch (type.toUpperCase()) {
+    case 'FEED':
+      if (rng() < BURST_EVENT_CHANCE) {
+        activity.push({ eventName: 'AlertSubmitted', args: [actor(rng), blockNumber, pick(rng, FEED_DESCRIPTIONS)] });
+      }
+      if (rng() < 0.02) {
+        activity.push({ eventName: 'AlertResolved', args: [blockNumber - 50 - Math.floor(rng() * 50), actor(rng)] });
+      }
+      break;
+    case 'DAO': {
+      // A proposal every 200 blocks: voting for 150 of them, executed at block 180
+      const proposalId = Math.floor(blockNumber / 200);
+      const phase = blockNumber % 200;
+      
+      if (phase === 0) {
+        activity.push({ eventName: 'ProposalCreated', args: [proposalId, actor(rng), pick(rng, PROPOSAL_DESCRIPTIONS)] });
+      } else if (phase < 150 && rng() < 0.1) {
+        activity.push({ eventName: 'Vote', args: [proposalId, actor(rng), rng() < 0.8, tokens(rng, 100, 20000)] });
+      } else if (phase === 180) {
+        activity.push({ eventName: 'ProposalExecuted', args: [proposalId] });
+      }
+      break;
+    }
+    case 'BADGE':
+      if (rng() < BURST_EVENT_CHANCE) {
+        activity.push({ eventName: 'BadgeClaim', args: [actor(rng), blockNumber] });
+      }
+      if (rng() < 0.003) {
+        activity.push({ eventName: 'BadgeRevoked', args: [blockNumber - 1000, actor(rng), 'Duplicate account'] });
+      }
+      break;
+  }
+  
+  return activity;
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: 'feed-spam',
+    description: 'One address floods the alert feed with near-identical submissions',
+    contractType: 'FEED',
+    steps: (rng, startBlock) => {
+      const spammer = address(`spammer:${startBlock}`);
+      const pool = Math.floor(rng() * 1000);
+      
+      return Array.from({ length: 8 }, (_, i) => ({
+        offset: i,
+        eventName: 'AlertSubmitted',
+        args: [spammer, startBlock * 10 + i, `URGENT: funds draining from pool #${pool}, withdraw now`]
+      }));
+    }
+  },
+  {
+    name: 'governance-takeover',
+    description: 'A fresh address proposes moving the treasury and passes it with borrowed voting power and one accomplice',
+    contractType: 'DAO',
+    steps: (rng, startBlock) => {
+      const attacker = address(`attacker:${startBlock}`);
+      const proposalId = startBlock;
+      // Fewer distinct voters than the default low participation rule allows
+      const votes = [attacker, address(`accomplice:${startBlock}`)].map((voter, i) => ({
+        offset: 1 + i,
+        eventName: 'Vote',
+        args: [proposalId, voter, true, tokens(rng, 400000, 900000)]
+      }));
+      
+      return [
+        { offset: 0, eventName: 'ProposalCreated', args: [proposalId, attacker, `Migrate treasury liquidity to ${attacker}`] },
+        ...votes,
+        { offset: 4, eventName: 'ProposalExecuted', args: [proposalId] }
+      ];
+    }
+  },
+  {
+    name: 'badge-farming',
+    description: 'One wallet mints a burst of badges, then an unknown address revokes legitimate ones',
+    contractType: 'BADGE',
+    steps: (rng, startBlock) => {
+      const farmer = address(`farmer:${startBlock}`);
+      const revoker = address(`revoker:${startBlock}`);
+      const claims = Array.from({ length: 10 }, (_, i) => ({
+        offset: Math.floor(i / 2),
+        eventName: 'BadgeClaim',
+        args: [farmer, startBlock * 100 + i]
+      }));
+      const revocations = Array.from({ length: 3 }, (_, i) => ({
+        offset: 6 + i,
+        eventName: 'BadgeRevoked',
+        args: [startBlock - 1000 - Math.floor(rng() * 5000), revoker, 'Policy violation']
+      }));
+      
+      return [...claims, ...revocations];
+    }
+  }
+];
+
+// Stand-in chain for demo mode. Blocks are mined on a timer and their logs delivered to
+// watchers as decoded ethers logs, just like contract listeners on a real provider. The
+// contents of a block depend only on the seed, its number and the watched contracts.
+class ChainSimulator {
+  private head: number;
+  private timer: NodeJS.Timeout | null = null;
+  private subscriptions: Map<number, Subscription> = new Map(); // By contract ID
+  private receipts: Map<string, { blockNumber: number; blockHash: string }> = new Map();
+  private scheduled: Map<number, ScheduledEvent[]> = new Map(); // Scenario events by block
+  private running: ScenarioRun[] = [];
+  private scenarioTurn = 0;
+  
+  constructor() {
+    this.head = DEMO_START_BLOCK ?? Math.floor((Date.now() - DEMO_EPOCH) / DEMO_BLOCK_TIME_MS);
+  }
+  
+  start() {
+    if (this.timer) return;
+    
+    this.timer = setInterval(() => this.mineBlock(), DEMO_BLOCK_TIME_MS);
+    console.log(`🔮 Simulating chain from block ${this.head} (seed ${DEMO_SEED})`);
+  }
+  
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  watch(contract: Contract, abi: ethers.InterfaceAbi, onLog: (log: ethers.EventLog) => void) {
+    this.subscriptions.set(contract.id, { contract, iface: new ethers.Interface(abi), onLog });
+  }
+  
+  unwatch(contractId: number) {
+    this.subscriptions.delete(contractId);
+  }
+  
+  getScenarios(): DemoScenario[] {
+    return SCENARIOS.map(({ name, description, contractType }) => ({ name, description, contractType }));
+  }
+  
+  // Schedule a scenario from the next block on, against the given contract or the first watched
+  // contract of the scenario's type. Returns null when there is no such contract.
+  runScenario(name: string, contractId?: number): ScenarioRun | null {
+    const scenario = SCENARIOS.find(candidate => candidate.name === name);
+    if (!scenario) {
+      throw new Error(`Unknown scenario: ${name}`);
+    }
+    
+    const target = contractId !== undefined
+      ? this.subscriptions.get(contractId)
+      : this.watched().find(subscription => subscription.contract.type.toUpperCase() === scenario.contractType);
+    if (!target || target.contract.type.toUpperCase() !== scenario.contractType) return null;
+    
+    const startBlock = this.head + 1;
+    const steps = scenario.steps(random(`${DEMO_SEED}:${name}:${startBlock}`), startBlock);
+    
+    for (const { offset, eventName, args } of steps) {
+      const block = startBlock + offset;
+      this.scheduled.set(block, [...(this.scheduled.get(block) ?? []), { contractId: target.contract.id, eventName, args }]);
+    }
+    
+    const run = {
+      name,
+      contractId: target.contract.id,
+      startBlock,
+      endBlock: startBlock + Math.max(...steps.map(step => step.offset))
+    };
+    this.running.push(run);
+    console.log(`🔮 Playing scenario ${name} against ${target.contract.name} in blocks ${run.startBlock}-${run.endBlock}`);
+    
+    return run;
+  }
+  
+  async getBlockNumber(): Promise<number> {
+    return this.head;
+  }
+  
+  async getBlock(blockNumber: number): Promise<{ hash: string } | null> {
+    return blockNumber <= this.head ? { hash: this.blockHash(blockNumber) } : null;
+  }
+  
+  async getTransactionReceipt(hash: string): Promise<{ blockNumber: number; blockHash: string } | null> {
+    return this.receipts.get(hash) ?? null;
+  }
+  
+  status(): SimulatorStatus {
+    return {
+      seed: DEMO_SEED,
+      blockNumber: this.head,
+      blockTimeMs: DEMO_BLOCK_TIME_MS,
+      contracts: this.subscriptions.size,
+      scenarios: this.getScenarios(),
+      runningScenarios: [...this.running]
+    };
+  }
+  
+  private watched(): Subscription[] {
+    return Array.from(this.subscriptions.values()).sort((a, b) => a.contract.id - b.contract.id);
+  }
+  
+  private blockHash(blockNumber: number): string {
+    return ethers.id(`${DEMO_SEED}:block:${blockNumber}`);
+  }
+  
+  private mineBlock() {
+    const blockNumber = ++this.head;
+    const blockHash = this.blockHash(blockNumber);
+    
+    if (DEMO_SCENARIO_INTERVAL_BLOCKS > 0 && blockNumber % DEMO_SCENARIO_INTERVAL_BLOCKS === 0) {
+      this.playNextScenario();
+    }
+    
+    const rng = random(`${DEMO_SEED}:activity:${blockNumber}`);
+    const events: ScheduledEvent[] = [];
+    for (const { contract } of this.watched()) {
+      for (const event of backgroundActivity(contract.type, rng, blockNumber)) {
+        events.push({ contractId: contract.id, ...event });
+      }
+    }
+    events.push(...(this.scheduled.get(blockNumber) ?? []));
+    this.scheduled.delete(blockNumber);
+    
+    events.forEach((event, index) => this.emit(event, blockNumber, blockHash, index));
+    
+    this.running = this.running.filter(run => run.endBlock > blockNumber);
+    for (const [hash, receipt] of Array.from(this.receipts.entries())) {
+      if (receipt.blockNumber > blockNumber - RECEIPT_RETENTION_BLOCKS) break;
+      this.receipts.delete(hash);
+    }
+  }
+  
+  // Scenarios take turns; those without a watched contract of their type are skipped
+  private playNextScenario() {
+    for (let i = 0; i < SCENARIOS.length; i++) {
+      const scenario = SCENARIOS[(this.scenarioTurn + i) % SCENARIOS.length];
+      
+      if (this.watched().some(subscription => subscription.contract.type.toUpperCase() === scenario.contractType)) {
+        this.scenarioTurn = (this.scenarioTurn + i + 1) % SCENARIOS.length;
+        this.runScenario(scenario.name);
+        return;
+      }
+    }
+  }
+  
+  private emit(event: ScheduledEvent, blockNumber: number, blockHash: string, index: number) {
+    const subscription = this.subscriptions.get(event.contractId);
+    if (!subscription) return;
+    
+    // Contracts with a custom ABI may not declare the event
+    const fragment = subscription.iface.getEvent(event.eventName);
+    if (!fragment) return;
+    
+    const { data, topics } = subscription.iface.encodeEventLog(fragment, event.args);
+    const transactionHash = ethers.id(`${DEMO_SEED}:tx:${blockNumber}:${index}`);
+    
+    // Nothing downstream fetches through the log's provider, and there is none to give it
+    const log = new ethers.Log({
+      transactionHash,
+      blockHash,
+      blockNumber,
+      removed: false,
+      address: subscription.contract.address,
+      data,
+      topics,
+      index,
+      transactionIndex: index
+    }, null as unknown as ethers.Provider);
+    
+    this.receipts.set(transactionHash, { blockNumber, blockHash });
+    subscription.onLog(new ethers.EventLog(log, subscription.iface, fragment));
+  }
+}
+
+export const chainSimulator = new ChainSimulator();
@@ -0,0 +1,193 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { randomUUID } from 'crypto';
+
+const SMTP_TIMEOUT_MS = 15000;
+
+export interface MailOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  allowInsecureAuth?: boolean; // Authenticate without TLS, e.g. against a local relay
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// A single SMTP session. Replies are read in order, one per command sent.
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  private error: Error | null = null;
+  
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+  
+  static connect(options: MailOptions): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpSession(socket));
+      });
+      socket.once('error', reject);
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    });
+  }
+  
+  // Replace the plain socket with a TLS one after STARTTLS
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secured = tls.connect({ socket: plain, servername: host }, () => resolve(secured));
+      secured.once('error', reject);
+      secured.setTimeout(SMTP_TIMEOUT_MS, () => secured.destroy(new Error('SMTP connection timed out')));
+    });
+    this.attach(this.socket);
+  }
+  
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, line.startsWith('AUTH') ? 'AUTH' : line);
+  }
+  
+  async expect(expected: number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${context} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+  
+  close() {
+    this.socket.end();
+  }
+  
+  private attach(socket: net.Socket) {
+    socket.on('data', (chunk) => this.receive(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+  
+  private receive(data: string) {
+    this.buffer += data;
+    
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.lines.push(line.slice(4));
+      
+      // "250-..." continues a multiline reply, "250 ..." ends it
+      if (line.length < 4 || line[3] === ' ') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines };
+        this.lines = [];
+        
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+  
+  private fail(error: Error) {
+    if (this.error) return;
+    this.error = error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(error);
+  }
+  
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+    
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+}
+
+// RFC 2047 encoded-word for header values that are not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildMessage(options: MailOptions): string {
+  const domain = options.from.split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${options.from}`,
+    `To: ${options.to.join(', ')}`,
+    `Subject: ${encodeHeader(options.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  
+  // Normalize line endings and dot-stuff lines so the body cannot end the DATA section early
+  const body = options.text
+    .split(/\r?\n/)
+    .map(line => line.startsWith('.') ? `.${line}` : line)
+    .join('\r\n');
+  
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.`;
+}
+
+// Deliver a plain-text message over SMTP, using STARTTLS when the server offers it. Credentials
+// are only sent over TLS unless allowInsecureAuth is set.
+export async function sendMail(options: MailOptions): Promise<void> {
+  const session = await SmtpSession.connect(options);
+  const hostname = os.hostname() || 'localhost';
+  
+  try {
+    await session.expect([220], 'greeting');
+    const ehlo = await session.command(`EHLO ${hostname}`, [250]);
+    let encrypted = options.secure;
+    
+    if (!encrypted && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(options.host);
+      await session.command(`EHLO ${hostname}`, [250]);
+      encrypted = true;
+    }
+    
+    if (options.username && !encrypted && !options.allowInsecureAuth) {
+      throw new Error(`SMTP server ${options.host} does not offer TLS; refusing to send credentials in plain text`);
+    }
+    
+    if (options.username) {
+      const credentials = Buffer.from(`\0${options.username}\0${options.password ?? ''}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    
+    await session.command(`MAIL FROM:<${options.from}>`, [250]);
+    for (const recipient of options.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+    await session.command(buildMessage(options), [250]);
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
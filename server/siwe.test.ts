@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { SONEIUM_CHAIN_ID } from "@shared/schema";
+import { issueNonce, parseSiweMessage, verifySiweMessage } from "./siwe";
+
+const DOMAIN = "guardian.example";
+const wallet = ethers.Wallet.createRandom();
+
+interface MessageFields {
+  domain?: string;
+  uri?: string;
+  chainId?: number;
+  nonce?: string;
+  issuedAt?: Date;
+  expirationTime?: Date;
+}
+
+// An EIP-4361 message laid out the way the client builds it
+function siweMessage(fields: MessageFields = {}): string {
+  const issuedAt = fields.issuedAt ?? new Date();
+
+  return [
+    `${fields.domain ?? DOMAIN} wants you to sign in with your Ethereum account:`,
+    wallet.address,
+    "",
+    "Sign in to Guardian AI",
+    "",
+    `URI: ${fields.uri ?? `https://${DOMAIN}`}`,
+    "Version: 1",
+    `Chain ID: ${fields.chainId ?? SONEIUM_CHAIN_ID}`,
+    `Nonce: ${fields.nonce ?? issueNonce()}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${(fields.expirationTime ?? new Date(issuedAt.getTime() + 5 * 60 * 1000)).toISOString()}`
+  ].join("\n");
+}
+
+async function signed(fields: MessageFields = {}): Promise<{ message: string, signature: string }> {
+  const message = siweMessage(fields);
+  return { message, signature: await wallet.signMessage(message) };
+}
+
+describe("parseSiweMessage", () => {
+  it("reads the statement and fields", () => {
+    const parsed = parseSiweMessage(siweMessage({ nonce: "abc123" }));
+
+    assert.equal(parsed?.domain, DOMAIN);
+    assert.equal(parsed?.address, wallet.address);
+    assert.equal(parsed?.statement, "Sign in to Guardian AI");
+    assert.equal(parsed?.chainId, SONEIUM_CHAIN_ID);
+    assert.equal(parsed?.nonce, "abc123");
+  });
+
+  it("rejects messages without the required fields", () => {
+    assert.equal(parseSiweMessage(`${DOMAIN} wants you to sign in with your Ethereum account:\n${wallet.address}`), null);
+  });
+});
+
+describe("verifySiweMessage", () => {
+  it("accepts a message signed by the account it names", async () => {
+    const { message, signature } = await signed();
+
+    assert.deepEqual(verifySiweMessage(message, signature, DOMAIN), {
+      success: true,
+      address: wallet.address,
+      chainId: SONEIUM_CHAIN_ID
+    });
+  });
+
+  it("accepts each nonce once", async () => {
+    const { message, signature } = await signed();
+
+    assert.equal(verifySiweMessage(message, signature, DOMAIN).success, true);
+    assert.deepEqual(verifySiweMessage(message, signature, DOMAIN), { success: false, error: "Unknown or expired nonce" });
+  });
+
+  it("rejects nonces it did not issue", async () => {
+    const { message, signature } = await signed({ nonce: "0123456789abcdef" });
+
+    assert.deepEqual(verifySiweMessage(message, signature, DOMAIN), { success: false, error: "Unknown or expired nonce" });
+  });
+
+  it("rejects a message signed for another domain", async () => {
+    const { message, signature } = await signed({ domain: "evil.example", uri: "https://evil.example" });
+    const verification = verifySiweMessage(message, signature, DOMAIN);
+
+    assert.equal(verification.success, false);
+    assert.match(!verification.success ? verification.error : "", /evil\.example/);
+  });
+
+  it("rejects a URI on another host than the domain", async () => {
+    const { message, signature } = await signed({ uri: "https://evil.example/login" });
+    const verification = verifySiweMessage(message, signature, DOMAIN);
+
+    assert.equal(verification.success, false);
+    assert.match(!verification.success ? verification.error : "", /URI/);
+  });
+
+  it("rejects chains that are not configured", async () => {
+    const { message, signature } = await signed({ chainId: 424242 });
+
+    assert.deepEqual(verifySiweMessage(message, signature, DOMAIN), { success: false, error: "Unsupported chain 424242" });
+  });
+
+  it("rejects expired messages", async () => {
+    const issuedAt = new Date(Date.now() - 10 * 60 * 1000);
+    const { message, signature } = await signed({ issuedAt, expirationTime: new Date(issuedAt.getTime() + 60 * 1000) });
+
+    assert.deepEqual(verifySiweMessage(message, signature, DOMAIN), { success: false, error: "Message has expired" });
+  });
+
+  it("rejects a signature from another account", async () => {
+    const message = siweMessage();
+    const signature = await ethers.Wallet.createRandom().signMessage(message);
+
+    assert.deepEqual(verifySiweMessage(message, signature, DOMAIN), { success: false, error: "Signature does not match address" });
+  });
+});
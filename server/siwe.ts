@@ -0,0 +1,143 @@
+import { randomBytes } from "crypto";
+import { ethers } from "ethers";
+import { getNetwork } from "./networks";
+
+const NONCE_TTL_MS = 5 * 60 * 1000;
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Nonces are handed out without authentication, so only this many are kept. Beyond that the
+// oldest is dropped, and a sign-in that took longer than a burst of requests has to retry.
+const MAX_OUTSTANDING_NONCES = parseInt(process.env.SIWE_MAX_NONCES || "10000", 10);
+
+// Fields of an EIP-4361 (Sign-In with Ethereum) message
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement: string | null;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string | null;
+  notBefore: string | null;
+}
+
+export type SiweVerification =
+  | { success: true; address: string; chainId: number }
+  | { success: false; error: string };
+
+// Outstanding nonces and when they stop being accepted. Each one can be used once.
+const nonces = new Map<string, number>();
+
+export function issueNonce(): string {
+  const now = Date.now();
+  for (const [nonce, expiresAt] of Array.from(nonces.entries())) {
+    if (expiresAt <= now) nonces.delete(nonce);
+  }
+
+  // Maps iterate in insertion order, so the first key is the oldest nonce
+  while (nonces.size >= MAX_OUTSTANDING_NONCES) {
+    nonces.delete(nonces.keys().next().value!);
+  }
+
+  const nonce = randomBytes(16).toString("hex");
+  nonces.set(nonce, now + NONCE_TTL_MS);
+  return nonce;
+}
+
+function consumeNonce(nonce: string): boolean {
+  const expiresAt = nonces.get(nonce);
+  nonces.delete(nonce);
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+export function parseSiweMessage(message: string): SiweMessage | null {
+  const lines = message.split("\n");
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/);
+  const address = lines[1]?.trim();
+  if (!header || !address) return null;
+
+  // The statement sits between blank lines before the "Key: value" fields and may be absent
+  let index = 2;
+  let statement: string | null = null;
+  if (lines[index] === "" && lines[index + 1] !== undefined && !lines[index + 1].startsWith("URI: ")) {
+    statement = lines[index + 1];
+    index += 2;
+  }
+  if (lines[index] === "") index++;
+
+  const fields = new Map<string, string>();
+  for (const line of lines.slice(index)) {
+    const separator = line.indexOf(": ");
+    if (separator === -1) continue;
+    fields.set(line.slice(0, separator), line.slice(separator + 2));
+  }
+
+  const chainId = parseInt(fields.get("Chain ID") ?? "", 10);
+  const uri = fields.get("URI");
+  const version = fields.get("Version");
+  const nonce = fields.get("Nonce");
+  const issuedAt = fields.get("Issued At");
+  if (!uri || !version || !nonce || !issuedAt || isNaN(chainId)) return null;
+
+  return {
+    domain: header[1],
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: fields.get("Expiration Time") ?? null,
+    notBefore: fields.get("Not Before") ?? null
+  };
+}
+
+function uriHost(uri: string): string | null {
+  try {
+    return new URL(uri).host;
+  } catch {
+    return null;
+  }
+}
+
+// Check a signed message was issued for this server and a network it supports, with a nonce
+// we handed out, within its validity window, and signed by the account it names
+export function verifySiweMessage(message: string, signature: string, expectedDomain: string): SiweVerification {
+  const parsed = parseSiweMessage(message);
+  if (!parsed) return { success: false, error: "Malformed sign-in message" };
+
+  if (!consumeNonce(parsed.nonce)) return { success: false, error: "Unknown or expired nonce" };
+  if (parsed.domain !== expectedDomain) return { success: false, error: `Message is for ${parsed.domain}, not ${expectedDomain}` };
+  if (uriHost(parsed.uri) !== expectedDomain) return { success: false, error: `Message URI ${parsed.uri} is not on ${expectedDomain}` };
+  if (!getNetwork(parsed.chainId)) return { success: false, error: `Unsupported chain ${parsed.chainId}` };
+  if (parsed.version !== "1") return { success: false, error: `Unsupported message version ${parsed.version}` };
+  if (!ethers.isAddress(parsed.address)) return { success: false, error: "Invalid address in message" };
+
+  const now = Date.now();
+  const issuedAt = Date.parse(parsed.issuedAt);
+  if (isNaN(issuedAt) || issuedAt > now + CLOCK_SKEW_MS) {
+    return { success: false, error: "Invalid issue time" };
+  }
+  if (parsed.expirationTime && !(Date.parse(parsed.expirationTime) > now)) {
+    return { success: false, error: "Message has expired" };
+  }
+  if (parsed.notBefore && !(Date.parse(parsed.notBefore) <= now)) {
+    return { success: false, error: "Message is not valid yet" };
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(message, signature);
+  } catch {
+    return { success: false, error: "Invalid signature" };
+  }
+
+  if (signer.toLowerCase() !== parsed.address.toLowerCase()) {
+    return { success: false, error: "Signature does not match address" };
+  }
+
+  return { success: true, address: ethers.getAddress(parsed.address), chainId: parsed.chainId };
+}
@@ -0,0 +1,231 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { newDb, type IBackup, type IMemoryDb } from "pg-mem";
+import type pg from "pg";
+import { createDb } from "./db";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+import { settingsService } from "./services/settings";
+
+const MIGRATIONS_DIR = path.resolve(__dirname, "..", "migrations");
+
+// An in-memory Postgres with every migration applied, restored to that state before each test
+function migratedDb(): { mem: IMemoryDb, backup: IBackup } {
+  const mem = newDb();
+  
+  for (const file of readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith(".sql")).sort()) {
+    for (const statement of readFileSync(path.join(MIGRATIONS_DIR, file), "utf8").split("--> statement-breakpoint")) {
+      if (statement.replace(/--.*$/gm, "").trim()) mem.public.none(statement);
+    }
+  }
+  
+  return { mem, backup: mem.backup() };
+}
+
+// pg-mem's pg adapter supports neither the array row mode nor the type parsers drizzle asks
+// for, and fails on NOT IN over an indexed column, so queries are adapted on their way in
+function memPool(mem: IMemoryDb): pg.Pool {
+  const { Pool } = mem.adapters.createPg();
+  const pool = new Pool();
+  const query = pool.query.bind(pool);
+  
+  pool.query = async (config: any, values?: unknown[]) => {
+    if (typeof config !== "object") return query(config, values);
+    
+    const { rowMode, types, ...rest } = config;
+    rest.text = rest.text.replace(/("\w+"\."\w+") not in \(/g, "not $1 in (");
+    const result = await query(rest, values);
+    
+    return rowMode === "array"
+      ? { ...result, rows: result.rows.map((row: Record<string, unknown>) => Object.values(row)) }
+      : result;
+  };
+  
+  return pool;
+}
+
+// Timestamps without milliseconds, which pg-mem does not keep
+function seconds(offsetSeconds: number = 0): Date {
+  return new Date(Math.floor(Date.now() / 1000) * 1000 + offsetSeconds * 1000);
+}
+
+function storageSuite(name: string, createStorage: () => IStorage) {
+  describe(name, () => {
+    let storage: IStorage;
+    
+    beforeEach(() => {
+      storage = createStorage();
+    });
+    
+    it("starts with the Guardian contracts and default rules", async () => {
+      const contracts = await storage.getContracts();
+      
+      assert.deepEqual(contracts.map((contract) => contract.name).sort(), ["Guardian Badge", "Guardian DAO", "Guardian Feed"]);
+      assert.equal((await storage.getRules()).length, 2);
+    });
+    
+    it("round-trips a contract with its policy", async () => {
+      const created = await storage.createContract({
+        name: "Vault",
+        chainId: 1868,
+        address: "0x00000000000000000000000000000000000000aa",
+        type: "TOKEN",
+        status: "HEALTHY"
+      });
+      
+      await storage.updateContractPolicy(created.id, { dailyTokenQuota: 5000, autoAnalyzeEvents: false });
+      
+      const found = await storage.getContractByAddress("0x00000000000000000000000000000000000000AA", 1868);
+      assert.equal(found?.id, created.id);
+      assert.deepEqual(found?.policy, { dailyTokenQuota: 5000, autoAnalyzeEvents: false });
+      assert.equal(await storage.getContractByAddress(created.address, 1), undefined);
+    });
+    
+    it("round-trips users, wallets and sessions", async () => {
+      const user = await storage.createUser({ username: "analyst", password: "hash", role: "analyst" });
+      const wallet = await storage.createWallet({ userId: user.id, address: "0x00000000000000000000000000000000000000bb" });
+      await storage.createSession({ id: "session-1", userId: user.id, address: wallet.address, expiresAt: seconds(3600) });
+      
+      assert.equal((await storage.getUserByUsername("analyst"))?.role, "analyst");
+      assert.equal((await storage.getWalletByAddress(wallet.address))?.userId, user.id);
+      assert.equal((await storage.getSession("session-1"))?.userId, user.id);
+      
+      await storage.deleteSessionsForUser(user.id);
+      assert.equal(await storage.getSession("session-1"), undefined);
+    });
+    
+    it("records alert history and comments", async () => {
+      const [contract] = await storage.getContracts();
+      const alert = await storage.createAlert({
+        contractId: contract.id,
+        severity: "HIGH",
+        title: "Suspicious withdrawal",
+        description: "Large withdrawal",
+        dedupKey: "withdrawal"
+      });
+      
+      await storage.addAlertHistory({ alertId: alert.id, userId: null, action: "STATUS_CHANGED", fromStatus: "OPEN", toStatus: "ACKNOWLEDGED" });
+      const comment = await storage.createAlertComment({ alertId: alert.id, userId: null, body: "Looking into it", parentId: null });
+      
+      assert.deepEqual((await storage.getActiveAlerts()).map((active) => active.id), [alert.id]);
+      assert.equal((await storage.getOpenAlertByDedupKey("withdrawal"))?.id, alert.id);
+      assert.deepEqual((await storage.getAlertHistory(alert.id)).map((entry) => entry.action), ["CREATED", "STATUS_CHANGED"]);
+      assert.equal((await storage.getAlertComment(comment.id))?.body, "Looking into it");
+      
+      await storage.updateAlert(alert.id, { status: "RESOLVED", resolvedAt: seconds() });
+      assert.deepEqual(await storage.getActiveAlerts(), []);
+      assert.equal(await storage.getOpenAlertByDedupKey("withdrawal"), undefined);
+    });
+    
+    it("raises one open alert per dedup key, also when raised concurrently", async () => {
+      const [contract] = await storage.getContracts();
+      const insert = { contractId: contract.id, severity: "HIGH", title: "Reentrancy", description: "Reentrant call", dedupKey: "reentrancy" };
+      
+      const raised = await Promise.all([storage.raiseAlert(insert), storage.raiseAlert(insert), storage.raiseAlert(insert)]);
+      
+      assert.equal(raised.filter((result) => result.created).length, 1);
+      assert.equal(new Set(raised.map((result) => result.alert.id)).size, 1);
+      assert.equal((await storage.getOpenAlertByDedupKey("reentrancy"))?.occurrences, 3);
+      
+      await storage.updateAlert(raised[0].alert.id, { status: "RESOLVED", resolvedAt: seconds() });
+      const again = await storage.raiseAlert(insert);
+      assert.equal(again.created, true);
+      assert.notEqual(again.alert.id, raised[0].alert.id);
+    });
+    
+    it("keeps alerts when their event is deleted", async () => {
+      const [contract] = await storage.getContracts();
+      const event = await storage.createEvent({
+        contractId: contract.id,
+        eventName: "Transfer",
+        eventData: { value: "1000" },
+        blockNumber: 100,
+        blockHash: "0x01",
+        transactionHash: "0x02",
+        logIndex: 0,
+        timestamp: seconds(),
+        confirmed: false
+      });
+      const alert = await storage.createAlert({
+        contractId: contract.id,
+        severity: "MEDIUM",
+        title: "Large transfer",
+        description: "Transfer of 1000",
+        eventId: event.id,
+        dedupKey: "transfer"
+      });
+      
+      assert.deepEqual((await storage.getUnconfirmedEvents()).map((unconfirmed) => unconfirmed.id), [event.id]);
+      assert.equal(await storage.deleteEvent(event.id), true);
+      
+      assert.equal((await storage.getAlert(alert.id))?.eventId, null);
+      assert.equal((await storage.getAlertHistory(alert.id)).length, 1);
+    });
+    
+    it("keeps AI queries and their tokens when the contract is deleted", async () => {
+      const [contract] = await storage.getContracts();
+      await storage.createAiQuery({
+        contractId: contract.id,
+        feature: "CONTRACT_ANALYSIS",
+        provider: "groq",
+        model: "llama3-8b-8192",
+        query: "Analyze",
+        response: "{}",
+        promptTokens: 900,
+        completionTokens: 100,
+        tokenCount: 1000,
+        estimatedCost: 0.0001
+      });
+      
+      assert.equal(await storage.getContractQueryTokenCountSince(contract.id, seconds(-60)), 1000);
+      assert.equal(await storage.deleteContract(contract.id), true);
+      
+      assert.equal(await storage.getQueryTokenCountSince(seconds(-60)), 1000);
+      assert.equal(await storage.getQueryTokenCountSince(seconds(-60), "CONTRACT_ANALYSIS"), 1000);
+      assert.deepEqual((await storage.getAiQueries()).map((query) => query.contractId), [null]);
+    });
+    
+    it("only updates a job that still has the expected status", async () => {
+      const job = await storage.createJob({ type: "SCAN", status: "QUEUED", payload: { scanId: 1 }, maxAttempts: 3 });
+      
+      assert.equal(await storage.updateJob(job.id, { status: "RUNNING" }, "RUNNING"), undefined);
+      assert.equal((await storage.updateJob(job.id, { status: "RUNNING" }, "QUEUED"))?.status, "RUNNING");
+      assert.deepEqual((await storage.getUnfinishedJobs()).map((unfinished) => unfinished.id), [job.id]);
+    });
+    
+    it("round-trips settings", async () => {
+      assert.equal(await storage.getSettings(), undefined);
+      
+      const values = { ...settingsService.defaults(), dailyTokenLimit: 1234, contractAnalysisModel: "large-model" };
+      await storage.saveSettings(values, null);
+      await storage.saveSettings({ ...values, dailyTokenLimit: 4321 }, null);
+      
+      const saved = await storage.getSettings();
+      assert.equal(saved?.dailyTokenLimit, 4321);
+      assert.equal(saved?.contractAnalysisModel, "large-model");
+    });
+  });
+}
+
+storageSuite("MemStorage", () => new MemStorage());
+
+const { mem, backup } = migratedDb();
+
+storageSuite("DbStorage", () => {
+  backup.restore();
+  return new DbStorage(createDb(memPool(mem)));
+});
+
+describe("DbStorage seeding", () => {
+  it("does not bring back a deleted Guardian contract on restart", async () => {
+    backup.restore();
+    const pool = memPool(mem);
+    const [feed] = await new DbStorage(createDb(pool)).getContracts();
+    
+    await new DbStorage(createDb(pool)).deleteContract(feed.id);
+    const restarted = new DbStorage(createDb(pool));
+    
+    assert.equal((await restarted.getContracts()).some((contract) => contract.id === feed.id), false);
+  });
+});
@@ -1,10 +1,25 @@
 import { 
   users, type User, type InsertUser,
-  contracts, type Contract, type InsertContract,
-  alerts, type Alert, type InsertAlert,
+  sessions, type Session, type InsertSession,
+  userWallets, type UserWallet, type InsertUserWallet,
+  contracts, type Contract, type InsertContract, type HealthCheckResult, type ContractPolicy,
+  contractStatusHistory, type ContractStatusHistory, type InsertContractStatusHistory,
+  alerts, type Alert, type InsertAlert, type AlertUpdate, closedAlertStatuses,
+  incidents, type Incident, type InsertIncident, type IncidentUpdate,
+  alertHistory, type AlertHistory, type InsertAlertHistory,
+  alertComments, type AlertComment, type InsertAlertComment,
   events, type Event, type InsertEvent,
-  aiQueries, type AiQuery, type InsertAiQuery
+  aiQueries, type AiQuery, type InsertAiQuery, type AiQueryUsage, type AiFeature,
+  rules, type Rule, type InsertRule,
+  scans, type Scan, type InsertScan,
+  jobs, type Job, type InsertJob, type JobStatus,
+  notificationChannels, type NotificationChannel, type InsertNotificationChannel,
+  notificationDeliveries, type NotificationDelivery, type InsertNotificationDelivery,
+  settings, type Settings, type GuardianSettings
 } from "@shared/schema";
+import { and, asc, desc, eq, gte, isNull, lt, max, notInArray, or, sql } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { defaultChainId, isLocalChain } from "./networks";
 
 // Storage interface with all needed CRUD operations
 export interface IStorage {
@@ -12,108 +27,384 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
+  
+  // Session operations
+  getSession(id: string): Promise<Session | undefined>;
+  createSession(session: InsertSession): Promise<Session>;
+  deleteSession(id: string): Promise<boolean>;
+  deleteSessionsForUser(userId: number): Promise<void>;
+  
+  // Wallet operations
+  getWalletByAddress(address: string): Promise<UserWallet | undefined>;
+  getWalletsForUser(userId: number): Promise<UserWallet[]>;
+  createWallet(wallet: InsertUserWallet): Promise<UserWallet>;
+  deleteWallet(id: number): Promise<boolean>;
   
   // Contract operations
   getContracts(): Promise<Contract[]>;
   getContract(id: number): Promise<Contract | undefined>;
-  getContractByAddress(address: string): Promise<Contract | undefined>;
+  getContractByAddress(address: string, chainId: number): Promise<Contract | undefined>;
   createContract(contract: InsertContract): Promise<Contract>;
+  updateContract(id: number, contract: Partial<InsertContract>): Promise<Contract | undefined>;
   updateContractStatus(id: number, status: string): Promise<Contract | undefined>;
+  recordContractHealthCheck(id: number, result: HealthCheckResult): Promise<Contract | undefined>;
+  updateContractPolicy(id: number, policy: ContractPolicy): Promise<Contract | undefined>;
+  deleteContract(id: number): Promise<boolean>;
+  
+  // Contract status history (append-only)
+  getContractStatusHistory(contractId: number, limit?: number): Promise<ContractStatusHistory[]>;
+  addContractStatusHistory(entry: InsertContractStatusHistory): Promise<ContractStatusHistory>;
   
   // Alert operations
   getAlerts(): Promise<Alert[]>;
   getAlertsByContract(contractId: number): Promise<Alert[]>;
+  getAlertsByEvent(eventId: number): Promise<Alert[]>;
   getActiveAlerts(): Promise<Alert[]>;
+  getAlert(id: number): Promise<Alert | undefined>;
   createAlert(alert: InsertAlert): Promise<Alert>;
-  resolveAlert(id: number): Promise<Alert | undefined>;
+  updateAlert(id: number, update: AlertUpdate): Promise<Alert | undefined>;
+  getOpenAlertByDedupKey(dedupKey: string): Promise<Alert | undefined>;
+  // Create the alert, unless an open alert already has its dedup key: that one's occurrences are bumped instead
+  raiseAlert(alert: InsertAlert & { dedupKey: string }): Promise<{ alert: Alert, created: boolean }>;
+  
+  // Incident operations
+  getIncidents(limit?: number): Promise<Incident[]>;
+  getIncident(id: number): Promise<Incident | undefined>;
+  getLatestIncident(contractId: number): Promise<Incident | undefined>;
+  getAlertsByIncident(incidentId: number): Promise<Alert[]>;
+  createIncident(incident: InsertIncident): Promise<Incident>;
+  updateIncident(id: number, update: IncidentUpdate): Promise<Incident | undefined>;
+  
+  // Alert history (append-only) and comment operations
+  getAlertHistory(alertId: number): Promise<AlertHistory[]>;
+  addAlertHistory(entry: InsertAlertHistory): Promise<AlertHistory>;
+  getAlertComments(alertId: number): Promise<AlertComment[]>;
+  getAlertComment(id: number): Promise<AlertComment | undefined>;
+  createAlertComment(comment: InsertAlertComment): Promise<AlertComment>;
   
   // Event operations
   getEvents(limit?: number): Promise<Event[]>;
   getEventsByContract(contractId: number, limit?: number): Promise<Event[]>;
+  getEventByLog(contractId: number, transactionHash: string, logIndex: number): Promise<Event | undefined>;
+  getLatestEventBlock(contractId: number): Promise<number | undefined>;
+  getUnconfirmedEvents(): Promise<Event[]>;
+  getConfirmedEventsByContract(contractId: number, limit?: number): Promise<Event[]>;
+  getConfirmedEventsSince(contractId: number, since: Date): Promise<Event[]>;
   createEvent(event: InsertEvent): Promise<Event>;
+  updateEvent(id: number, event: Partial<InsertEvent>): Promise<Event | undefined>;
+  deleteEvent(id: number): Promise<boolean>;
   
   // AI Query operations
   getAiQueries(): Promise<AiQuery[]>;
   getAiQueriesByContract(contractId: number): Promise<AiQuery[]>;
   createAiQuery(query: InsertAiQuery): Promise<AiQuery>;
-  getTotalQueryTokenCount(): Promise<number>;
+  getQueryTokenCountSince(since: Date, feature?: AiFeature): Promise<number>;
+  getContractQueryTokenCountSince(contractId: number, since: Date): Promise<number>;
+  getAiQueryUsageSince(since: Date): Promise<AiQueryUsage[]>; // Oldest first
+  
+  // Detection rule operations
+  getRules(): Promise<Rule[]>;
+  getRule(id: number): Promise<Rule | undefined>;
+  getRulesForContract(contractId: number): Promise<Rule[]>;
+  createRule(rule: InsertRule): Promise<Rule>;
+  updateRule(id: number, rule: Partial<InsertRule>): Promise<Rule | undefined>;
+  deleteRule(id: number): Promise<boolean>;
+  
+  // Scan operations
+  getScan(id: number): Promise<Scan | undefined>;
+  getScansByContract(contractId: number, limit?: number): Promise<Scan[]>;
+  getLatestCompletedScan(address: string, chainId: number, beforeId?: number): Promise<Scan | undefined>;
+  createScan(scan: InsertScan): Promise<Scan>;
+  updateScan(id: number, scan: Partial<InsertScan>): Promise<Scan | undefined>;
+  
+  // Job operations
+  getJob(id: number): Promise<Job | undefined>;
+  getJobs(limit?: number, contractId?: number): Promise<Job[]>;
+  getUnfinishedJobs(): Promise<Job[]>; // QUEUED or RUNNING, oldest first
+  createJob(job: InsertJob): Promise<Job>;
+  // With expectedStatus, only applied while the job still has that status
+  updateJob(id: number, job: Partial<InsertJob>, expectedStatus?: JobStatus): Promise<Job | undefined>;
+  
+  // Notification operations
+  getNotificationChannels(): Promise<NotificationChannel[]>;
+  getNotificationChannel(id: number): Promise<NotificationChannel | undefined>;
+  createNotificationChannel(channel: InsertNotificationChannel): Promise<NotificationChannel>;
+  updateNotificationChannel(id: number, channel: Partial<InsertNotificationChannel>): Promise<NotificationChannel | undefined>;
+  deleteNotificationChannel(id: number): Promise<boolean>;
+  getNotificationDeliveries(limit?: number, channelId?: number): Promise<NotificationDelivery[]>;
+  getPendingNotificationDeliveries(): Promise<NotificationDelivery[]>; // Oldest first
+  createNotificationDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery>;
+  updateNotificationDelivery(id: number, delivery: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined>;
+  
+  // Settings operations (single row)
+  getSettings(): Promise<Settings | undefined>;
+  saveSettings(values: GuardianSettings, updatedBy: number | null): Promise<Settings>;
+}
+
+// Guardian contracts every fresh store starts out watching, on GUARDIAN_CHAIN_ID or the default network.
+// On a local node they default to where `npm run fixtures -- deploy` puts them on a fresh chain.
+function guardianContracts(): InsertContract[] {
+  const chainId = process.env.GUARDIAN_CHAIN_ID ? parseInt(process.env.GUARDIAN_CHAIN_ID, 10) : defaultChainId();
+  const local = isLocalChain(chainId);
+  
+  return [
+    {
+      name: "Guardian Feed",
+      address: process.env.GUARDIAN_FEED || (local ? "0x5FbDB2315678afecb367f032d93F642f64180aa3" : "0xea1Ad2Ebf76b490a327eF1885863c9209994F015"),
+      type: "FEED",
+      status: "HEALTHY",
+      chainId
+    },
+    {
+      name: "Guardian DAO",
+      address: process.env.GUARDIAN_DAO || (local ? "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512" : "0xd4DcBae99C65079ba6CA2e99c8D5Dcc37d60456b"),
+      type: "DAO",
+      status: "HEALTHY",
+      chainId
+    },
+    {
+      name: "Guardian Badge",
+      address: process.env.GUARDIAN_BADGE || (local ? "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0" : "0x525975C25823ecb3a3875F577a5B9574aB758197"),
+      type: "BADGE",
+      status: "HEALTHY",
+      chainId
+    }
+  ];
+}
+
+// Rules every fresh store starts out with. They mirror checks that used to be hardcoded in
+// MonitorService. Migration 0019 adds the second to stores seeded before it existed, and
+// migration 0023 widens its window.
+function defaultRules(): InsertRule[] {
+  return [
+    {
+      contractId: null,
+      name: "Burst of claims or submitted alerts",
+      description: "Several BadgeClaim or AlertSubmitted events in a short time period",
+      eventNames: ["BadgeClaim", "AlertSubmitted"],
+      conditions: [],
+      windowSeconds: 60 * 60,
+      threshold: 3,
+      severity: "MEDIUM",
+      enabled: true
+    },
+    {
+      contractId: null,
+      name: "Proposal executed with low participation",
+      description: "A proposal was executed after votes from fewer than 3 distinct addresses. A lowered quorum or concentrated voting power may have let it pass unchallenged.",
+      eventNames: ["ProposalExecuted"],
+      conditions: [{ count: { eventNames: ["Vote"], matchArg: "proposalId", distinctArg: "voter" }, op: "lt", value: 3 }],
+      windowSeconds: 7 * 24 * 60 * 60, // Votes are only counted within the window, so it spans a voting period
+      threshold: 1,
+      severity: "HIGH",
+      enabled: true
+    }
+  ];
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private sessions: Map<string, Session>;
+  private userWallets: Map<number, UserWallet>;
   private contracts: Map<number, Contract>;
+  private contractStatusHistory: Map<number, ContractStatusHistory>;
   private alerts: Map<number, Alert>;
+  private incidents: Map<number, Incident>;
+  private alertHistory: Map<number, AlertHistory>;
+  private alertComments: Map<number, AlertComment>;
   private events: Map<number, Event>;
   private aiQueries: Map<number, AiQuery>;
+  private rules: Map<number, Rule>;
+  private scans: Map<number, Scan>;
+  private jobs: Map<number, Job>;
+  private notificationChannels: Map<number, NotificationChannel>;
+  private notificationDeliveries: Map<number, NotificationDelivery>;
+  private settings: Settings | undefined;
   
   private userCurrentId: number;
+  private userWalletCurrentId: number;
   private contractCurrentId: number;
+  private contractStatusHistoryCurrentId: number;
   private alertCurrentId: number;
+  private incidentCurrentId: number;
+  private alertHistoryCurrentId: number;
+  private alertCommentCurrentId: number;
   private eventCurrentId: number;
   private aiQueryCurrentId: number;
-
+  private ruleCurrentId: number;
+  private scanCurrentId: number;
+  private jobCurrentId: number;
+  private notificationChannelCurrentId: number;
+  private notificationDeliveryCurrentId: number;
+  
   constructor() {
     this.users = new Map();
+    this.sessions = new Map();
+    this.userWallets = new Map();
     this.contracts = new Map();
+    this.contractStatusHistory = new Map();
     this.alerts = new Map();
+    this.incidents = new Map();
+    this.alertHistory = new Map();
+    this.alertComments = new Map();
     this.events = new Map();
     this.aiQueries = new Map();
+    this.rules = new Map();
+    this.scans = new Map();
+    this.jobs = new Map();
+    this.notificationChannels = new Map();
+    this.notificationDeliveries = new Map();
     
     this.userCurrentId = 1;
+    this.userWalletCurrentId = 1;
     this.contractCurrentId = 1;
+    this.contractStatusHistoryCurrentId = 1;
     this.alertCurrentId = 1;
+    this.incidentCurrentId = 1;
+    this.alertHistoryCurrentId = 1;
+    this.alertCommentCurrentId = 1;
     this.eventCurrentId = 1;
     this.aiQueryCurrentId = 1;
+    this.ruleCurrentId = 1;
+    this.scanCurrentId = 1;
+    this.jobCurrentId = 1;
+    this.notificationChannelCurrentId = 1;
+    this.notificationDeliveryCurrentId = 1;
     
-    // Initialize with Guardian contracts
+    // Initialize with Guardian contracts and default detection rules
     this.initGuardianContracts();
+    this.initDefaultRules();
   }
-
+  
   private initGuardianContracts() {
-    const guardianFeed: InsertContract = {
-      name: "Guardian Feed",
-      address: process.env.GUARDIAN_FEED || "0xea1Ad2Ebf76b490a327eF1885863c9209994F015",
-      type: "FEED",
-      status: "HEALTHY"
-    };
-    
-    const guardianDAO: InsertContract = {
-      name: "Guardian DAO",
-      address: process.env.GUARDIAN_DAO || "0xd4DcBae99C65079ba6CA2e99c8D5Dcc37d60456b",
-      type: "DAO",
-      status: "WARNING"
-    };
-    
-    const guardianBadge: InsertContract = {
-      name: "Guardian Badge",
-      address: process.env.GUARDIAN_BADGE || "0x525975C25823ecb3a3875F577a5B9574aB758197",
-      type: "BADGE",
-      status: "ALERT"
-    };
-    
-    this.createContract(guardianFeed);
-    this.createContract(guardianDAO);
-    this.createContract(guardianBadge);
+    for (const contract of guardianContracts()) {
+      this.createContract(contract);
+    }
   }
-
+  
+  private initDefaultRules() {
+    for (const rule of defaultRules()) {
+      this.createRule(rule);
+    }
+  }
+  
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
-
+  
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.username === username,
     );
   }
-
+  
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userCurrentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      role: insertUser.role || 'viewer',
+      createdAt: new Date()
+    };
     this.users.set(id, user);
     return user;
   }
   
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+  
+  async updateUser(id: number, update: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user };
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) (updatedUser as Record<string, unknown>)[key] = value;
+    }
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async deleteUser(id: number): Promise<boolean> {
+    if (!this.users.delete(id)) return false;
+    
+    await this.deleteSessionsForUser(id);
+    for (const [walletId, wallet] of Array.from(this.userWallets.entries())) {
+      if (wallet.userId === id) this.userWallets.delete(walletId);
+    }
+    
+    // Alerts, history and comments keep their records without the user, mirroring ON DELETE SET NULL
+    for (const alert of Array.from(this.alerts.values())) {
+      if (alert.assigneeId === id) this.alerts.set(alert.id, { ...alert, assigneeId: null });
+    }
+    for (const entry of Array.from(this.alertHistory.values())) {
+      if (entry.userId === id) this.alertHistory.set(entry.id, { ...entry, userId: null });
+    }
+    for (const comment of Array.from(this.alertComments.values())) {
+      if (comment.userId === id) this.alertComments.set(comment.id, { ...comment, userId: null });
+    }
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.requestedBy === id) this.jobs.set(job.id, { ...job, requestedBy: null });
+    }
+    if (this.settings?.updatedBy === id) this.settings = { ...this.settings, updatedBy: null };
+    
+    return true;
+  }
+  
+  // Session operations
+  async getSession(id: string): Promise<Session | undefined> {
+    return this.sessions.get(id);
+  }
+  
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const session: Session = {
+      id: insertSession.id,
+      userId: insertSession.userId,
+      address: insertSession.address ?? null,
+      expiresAt: insertSession.expiresAt,
+      createdAt: insertSession.createdAt ?? new Date()
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+  
+  async deleteSession(id: string): Promise<boolean> {
+    return this.sessions.delete(id);
+  }
+  
+  async deleteSessionsForUser(userId: number): Promise<void> {
+    for (const [sessionId, session] of Array.from(this.sessions.entries())) {
+      if (session.userId === userId) this.sessions.delete(sessionId);
+    }
+  }
+  
+  // Wallet operations
+  async getWalletByAddress(address: string): Promise<UserWallet | undefined> {
+    return Array.from(this.userWallets.values()).find(
+      (wallet) => wallet.address.toLowerCase() === address.toLowerCase(),
+    );
+  }
+  
+  async getWalletsForUser(userId: number): Promise<UserWallet[]> {
+    return Array.from(this.userWallets.values()).filter((wallet) => wallet.userId === userId);
+  }
+  
+  async createWallet(insertWallet: InsertUserWallet): Promise<UserWallet> {
+    const id = this.userWalletCurrentId++;
+    const wallet: UserWallet = { ...insertWallet, id, createdAt: new Date() };
+    this.userWallets.set(id, wallet);
+    return wallet;
+  }
+  
+  async deleteWallet(id: number): Promise<boolean> {
+    return this.userWallets.delete(id);
+  }
+  
   // Contract operations
   async getContracts(): Promise<Contract[]> {
     return Array.from(this.contracts.values());
@@ -123,9 +414,9 @@ export class MemStorage implements IStorage {
     return this.contracts.get(id);
   }
   
-  async getContractByAddress(address: string): Promise<Contract | undefined> {
+  async getContractByAddress(address: string, chainId: number): Promise<Contract | undefined> {
     return Array.from(this.contracts.values()).find(
-      (contract) => contract.address.toLowerCase() === address.toLowerCase(),
+      (contract) => contract.chainId === chainId && contract.address.toLowerCase() === address.toLowerCase(),
     );
   }
   
@@ -136,13 +427,30 @@ export class MemStorage implements IStorage {
       ...insertContract, 
       id, 
       addedAt: now,
+      chainId: insertContract.chainId ?? defaultChainId(),
       status: insertContract.status || 'HEALTHY',
-      abi: insertContract.abi || null
+      abi: insertContract.abi || null,
+      healthCheck: null,
+      healthCheckedAt: null,
+      policy: {}
     };
     this.contracts.set(id, contract);
     return contract;
   }
   
+  async updateContract(id: number, update: Partial<InsertContract>): Promise<Contract | undefined> {
+    const contract = this.contracts.get(id);
+    if (!contract) return undefined;
+    
+    const updatedContract: Contract = {
+      ...contract,
+      ...update,
+      abi: update.abi === undefined ? contract.abi : update.abi
+    };
+    this.contracts.set(id, updatedContract);
+    return updatedContract;
+  }
+  
   async updateContractStatus(id: number, status: string): Promise<Contract | undefined> {
     const contract = this.contracts.get(id);
     if (!contract) return undefined;
@@ -155,6 +463,81 @@ export class MemStorage implements IStorage {
     return updatedContract;
   }
   
+  async recordContractHealthCheck(id: number, result: HealthCheckResult): Promise<Contract | undefined> {
+    const contract = this.contracts.get(id);
+    if (!contract) return undefined;
+    
+    const updatedContract: Contract = { ...contract, healthCheck: result, healthCheckedAt: new Date() };
+    this.contracts.set(id, updatedContract);
+    return updatedContract;
+  }
+  
+  async updateContractPolicy(id: number, policy: ContractPolicy): Promise<Contract | undefined> {
+    const contract = this.contracts.get(id);
+    if (!contract) return undefined;
+    
+    const updatedContract: Contract = { ...contract, policy };
+    this.contracts.set(id, updatedContract);
+    return updatedContract;
+  }
+  
+  async deleteContract(id: number): Promise<boolean> {
+    if (!this.contracts.delete(id)) return false;
+    
+    // Remove everything recorded for the contract, mirroring ON DELETE CASCADE
+    for (const [alertId, alert] of Array.from(this.alerts.entries())) {
+      if (alert.contractId === id) this.alerts.delete(alertId);
+    }
+    for (const [incidentId, incident] of Array.from(this.incidents.entries())) {
+      if (incident.contractId === id) this.incidents.delete(incidentId);
+    }
+    for (const [entryId, entry] of Array.from(this.contractStatusHistory.entries())) {
+      if (entry.contractId === id) this.contractStatusHistory.delete(entryId);
+    }
+    this.removeOrphanedAlertRecords();
+    for (const [eventId, event] of Array.from(this.events.entries())) {
+      if (event.contractId === id) this.events.delete(eventId);
+    }
+    for (const [ruleId, rule] of Array.from(this.rules.entries())) {
+      if (rule.contractId === id) this.rules.delete(ruleId);
+    }
+    for (const [scanId, scan] of Array.from(this.scans.entries())) {
+      if (scan.contractId === id) this.scans.delete(scanId);
+    }
+    for (const [jobId, job] of Array.from(this.jobs.entries())) {
+      if (job.contractId === id) this.jobs.delete(jobId);
+    }
+    
+    // AI queries stay in the token budgets and usage history, mirroring ON DELETE SET NULL
+    for (const query of Array.from(this.aiQueries.values())) {
+      if (query.contractId === id) query.contractId = null;
+    }
+    
+    return true;
+  }
+  
+  // Contract status history operations
+  async getContractStatusHistory(contractId: number, limit?: number): Promise<ContractStatusHistory[]> {
+    const history = Array.from(this.contractStatusHistory.values())
+      .filter((entry) => entry.contractId === contractId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    return limit ? history.slice(0, limit) : history;
+  }
+  
+  async addContractStatusHistory(entry: InsertContractStatusHistory): Promise<ContractStatusHistory> {
+    const id = this.contractStatusHistoryCurrentId++;
+    const history: ContractStatusHistory = {
+      id,
+      contractId: entry.contractId,
+      fromStatus: entry.fromStatus,
+      toStatus: entry.toStatus,
+      reason: entry.reason,
+      createdAt: entry.createdAt ?? new Date()
+    };
+    this.contractStatusHistory.set(id, history);
+    return history;
+  }
+  
   // Alert operations
   async getAlerts(): Promise<Alert[]> {
     return Array.from(this.alerts.values());
@@ -166,12 +549,23 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getAlertsByEvent(eventId: number): Promise<Alert[]> {
+    return Array.from(this.alerts.values()).filter(
+      (alert) => alert.eventId === eventId,
+    );
+  }
+  
   async getActiveAlerts(): Promise<Alert[]> {
     return Array.from(this.alerts.values()).filter(
-      (alert) => !alert.resolved,
+      (alert) => !closedAlertStatuses.includes(alert.status as typeof closedAlertStatuses[number]),
     );
   }
   
+  async getAlert(id: number): Promise<Alert | undefined> {
+    return this.alerts.get(id);
+  }
+  
+  // New alerts start OPEN with a CREATED entry in their history
   async createAlert(insertAlert: InsertAlert): Promise<Alert> {
     const id = this.alertCurrentId++;
     const now = new Date();
@@ -180,22 +574,160 @@ export class MemStorage implements IStorage {
       id, 
       createdAt: now,
       aiAnalysis: insertAlert.aiAnalysis || null,
-      resolved: insertAlert.resolved || false
+      eventId: insertAlert.eventId ?? null,
+      dedupKey: insertAlert.dedupKey ?? null,
+      incidentId: insertAlert.incidentId ?? null,
+      status: 'OPEN',
+      assigneeId: null,
+      resolutionNote: null,
+      resolvedAt: null,
+      occurrences: 1,
+      lastSeenAt: now
     };
     this.alerts.set(id, alert);
+    await this.addAlertHistory({ alertId: id, action: 'CREATED', toStatus: 'OPEN' });
     return alert;
   }
   
-  async resolveAlert(id: number): Promise<Alert | undefined> {
+  async updateAlert(id: number, update: AlertUpdate): Promise<Alert | undefined> {
     const alert = this.alerts.get(id);
     if (!alert) return undefined;
     
-    const resolvedAlert: Alert = {
-      ...alert,
-      resolved: true
+    const updatedAlert: Alert = { ...alert };
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) (updatedAlert as Record<string, unknown>)[key] = value;
+    }
+    this.alerts.set(id, updatedAlert);
+    return updatedAlert;
+  }
+  
+  async getOpenAlertByDedupKey(dedupKey: string): Promise<Alert | undefined> {
+    return Array.from(this.alerts.values()).find(
+      (alert) => alert.dedupKey === dedupKey && !closedAlertStatuses.includes(alert.status as typeof closedAlertStatuses[number]),
+    );
+  }
+  
+  // Looks up and inserts without yielding in between, so concurrent raises cannot both create
+  async raiseAlert(insertAlert: InsertAlert & { dedupKey: string }): Promise<{ alert: Alert, created: boolean }> {
+    const existing = Array.from(this.alerts.values()).find(
+      (alert) => alert.dedupKey === insertAlert.dedupKey && !closedAlertStatuses.includes(alert.status as typeof closedAlertStatuses[number]),
+    );
+    if (!existing) return { alert: await this.createAlert(insertAlert), created: true };
+    
+    const repeated: Alert = { ...existing, occurrences: existing.occurrences + 1, lastSeenAt: new Date() };
+    this.alerts.set(existing.id, repeated);
+    return { alert: repeated, created: false };
+  }
+  
+  // Incident operations
+  async getIncidents(limit?: number): Promise<Incident[]> {
+    const sorted = Array.from(this.incidents.values()).sort(
+      (a, b) => b.lastAlertAt.getTime() - a.lastAlertAt.getTime() || b.id - a.id
+    );
+    return limit ? sorted.slice(0, limit) : sorted;
+  }
+  
+  async getIncident(id: number): Promise<Incident | undefined> {
+    return this.incidents.get(id);
+  }
+  
+  async getLatestIncident(contractId: number): Promise<Incident | undefined> {
+    return (await this.getIncidents()).find((incident) => incident.contractId === contractId);
+  }
+  
+  async getAlertsByIncident(incidentId: number): Promise<Alert[]> {
+    return Array.from(this.alerts.values()).filter(
+      (alert) => alert.incidentId === incidentId,
+    );
+  }
+  
+  async createIncident(insertIncident: InsertIncident): Promise<Incident> {
+    const id = this.incidentCurrentId++;
+    const now = new Date();
+    const incident: Incident = {
+      id,
+      contractId: insertIncident.contractId,
+      title: insertIncident.title,
+      severity: insertIncident.severity,
+      createdAt: insertIncident.createdAt ?? now,
+      lastAlertAt: insertIncident.lastAlertAt ?? now
     };
-    this.alerts.set(id, resolvedAlert);
-    return resolvedAlert;
+    this.incidents.set(id, incident);
+    return incident;
+  }
+  
+  async updateIncident(id: number, update: IncidentUpdate): Promise<Incident | undefined> {
+    const incident = this.incidents.get(id);
+    if (!incident) return undefined;
+    
+    const updatedIncident: Incident = { ...incident };
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) (updatedIncident as Record<string, unknown>)[key] = value;
+    }
+    this.incidents.set(id, updatedIncident);
+    return updatedIncident;
+  }
+  
+  // Alert history and comment operations
+  async getAlertHistory(alertId: number): Promise<AlertHistory[]> {
+    return Array.from(this.alertHistory.values())
+      .filter((entry) => entry.alertId === alertId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async addAlertHistory(entry: InsertAlertHistory): Promise<AlertHistory> {
+    const id = this.alertHistoryCurrentId++;
+    const history: AlertHistory = {
+      id,
+      alertId: entry.alertId,
+      userId: entry.userId ?? null,
+      action: entry.action,
+      fromStatus: entry.fromStatus ?? null,
+      toStatus: entry.toStatus ?? null,
+      note: entry.note ?? null,
+      createdAt: entry.createdAt ?? new Date()
+    };
+    this.alertHistory.set(id, history);
+    return history;
+  }
+  
+  async getAlertComments(alertId: number): Promise<AlertComment[]> {
+    return Array.from(this.alertComments.values())
+      .filter((comment) => comment.alertId === alertId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getAlertComment(id: number): Promise<AlertComment | undefined> {
+    return this.alertComments.get(id);
+  }
+  
+  async createAlertComment(insertComment: InsertAlertComment): Promise<AlertComment> {
+    const id = this.alertCommentCurrentId++;
+    const comment: AlertComment = {
+      id,
+      alertId: insertComment.alertId,
+      userId: insertComment.userId,
+      parentId: insertComment.parentId ?? null,
+      body: insertComment.body,
+      createdAt: new Date()
+    };
+    this.alertComments.set(id, comment);
+    return comment;
+  }
+  
+  // Records attached to deleted alerts go with them, mirroring ON DELETE CASCADE
+  private removeOrphanedAlertRecords() {
+    for (const [entryId, entry] of Array.from(this.alertHistory.entries())) {
+      if (!this.alerts.has(entry.alertId)) this.alertHistory.delete(entryId);
+    }
+    for (const [commentId, comment] of Array.from(this.alertComments.entries())) {
+      if (!this.alerts.has(comment.alertId)) this.alertComments.delete(commentId);
+    }
+    for (const [deliveryId, delivery] of Array.from(this.notificationDeliveries.entries())) {
+      if (delivery.alertId !== null && !this.alerts.has(delivery.alertId)) {
+        this.notificationDeliveries.delete(deliveryId);
+      }
+    }
   }
   
   // Event operations
@@ -214,18 +746,79 @@ export class MemStorage implements IStorage {
     return limit ? events.slice(0, limit) : events;
   }
   
+  async getEventByLog(contractId: number, transactionHash: string, logIndex: number): Promise<Event | undefined> {
+    return Array.from(this.events.values()).find(
+      (event) => event.contractId === contractId &&
+        event.transactionHash === transactionHash &&
+        event.logIndex === logIndex,
+    );
+  }
+  
+  async getLatestEventBlock(contractId: number): Promise<number | undefined> {
+    const blocks = Array.from(this.events.values())
+      .filter(event => event.contractId === contractId)
+      .map(event => event.blockNumber);
+    
+    return blocks.length > 0 ? Math.max(...blocks) : undefined;
+  }
+  
+  async getUnconfirmedEvents(): Promise<Event[]> {
+    return Array.from(this.events.values()).filter(
+      (event) => !event.confirmed,
+    );
+  }
+  
+  async getConfirmedEventsByContract(contractId: number, limit?: number): Promise<Event[]> {
+    const events = (await this.getEventsByContract(contractId))
+      .filter(event => event.confirmed);
+    
+    return limit ? events.slice(0, limit) : events;
+  }
+  
+  async getConfirmedEventsSince(contractId: number, since: Date): Promise<Event[]> {
+    return (await this.getConfirmedEventsByContract(contractId))
+      .filter(event => event.timestamp >= since);
+  }
+  
   async createEvent(insertEvent: InsertEvent): Promise<Event> {
     const id = this.eventCurrentId++;
     const now = new Date();
     const event: Event = { 
       ...insertEvent, 
       id, 
-      timestamp: now
+      logIndex: insertEvent.logIndex ?? null,
+      blockHash: insertEvent.blockHash ?? null,
+      confirmed: insertEvent.confirmed || false,
+      timestamp: insertEvent.timestamp || now
     };
     this.events.set(id, event);
     return event;
   }
   
+  async updateEvent(id: number, update: Partial<InsertEvent>): Promise<Event | undefined> {
+    const event = this.events.get(id);
+    if (!event) return undefined;
+    
+    const updatedEvent: Event = {
+      ...event,
+      ...update,
+      eventData: update.eventData === undefined ? event.eventData : update.eventData
+    };
+    this.events.set(id, updatedEvent);
+    return updatedEvent;
+  }
+  
+  async deleteEvent(id: number): Promise<boolean> {
+    if (!this.events.delete(id)) return false;
+    
+    // Alerts derived from the event are kept, mirroring ON DELETE SET NULL
+    for (const alert of Array.from(this.alerts.values())) {
+      if (alert.eventId === id) alert.eventId = null;
+    }
+    
+    return true;
+  }
+  
   // AI Query operations
   async getAiQueries(): Promise<AiQuery[]> {
     return Array.from(this.aiQueries.values());
@@ -244,19 +837,1003 @@ export class MemStorage implements IStorage {
       ...insertQuery, 
       id, 
       createdAt: now,
+      contractId: insertQuery.contractId ?? null,
+      feature: insertQuery.feature ?? null,
+      provider: insertQuery.provider ?? null,
+      model: insertQuery.model ?? null,
       response: insertQuery.response || null,
-      tokenCount: insertQuery.tokenCount || 0
+      promptTokens: insertQuery.promptTokens ?? null,
+      completionTokens: insertQuery.completionTokens ?? null,
+      tokenCount: insertQuery.tokenCount || 0,
+      estimatedCost: insertQuery.estimatedCost ?? null
     };
     this.aiQueries.set(id, query);
     return query;
   }
   
-  async getTotalQueryTokenCount(): Promise<number> {
-    return Array.from(this.aiQueries.values()).reduce(
-      (total, query) => total + (query.tokenCount || 0),
-      0
+  async getQueryTokenCountSince(since: Date, feature?: AiFeature): Promise<number> {
+    return Array.from(this.aiQueries.values())
+      .filter((query) => query.createdAt >= since && (feature === undefined || query.feature === feature))
+      .reduce((total, query) => total + (query.tokenCount || 0), 0);
+  }
+  
+  async getContractQueryTokenCountSince(contractId: number, since: Date): Promise<number> {
+    return Array.from(this.aiQueries.values())
+      .filter((query) => query.contractId === contractId && query.createdAt >= since)
+      .reduce((total, query) => total + (query.tokenCount || 0), 0);
+  }
+  
+  async getAiQueryUsageSince(since: Date): Promise<AiQueryUsage[]> {
+    return Array.from(this.aiQueries.values())
+      .filter((query) => query.createdAt >= since)
+      .map(({ contractId, feature, model, tokenCount, estimatedCost, createdAt }) => ({ contractId, feature, model, tokenCount, estimatedCost, createdAt }));
+  }
+  
+  // Detection rule operations
+  async getRules(): Promise<Rule[]> {
+    return Array.from(this.rules.values());
+  }
+  
+  async getRule(id: number): Promise<Rule | undefined> {
+    return this.rules.get(id);
+  }
+  
+  async getRulesForContract(contractId: number): Promise<Rule[]> {
+    return Array.from(this.rules.values()).filter(
+      (rule) => rule.contractId === null || rule.contractId === contractId,
     );
   }
+  
+  async createRule(insertRule: InsertRule): Promise<Rule> {
+    const id = this.ruleCurrentId++;
+    const now = new Date();
+    const rule: Rule = {
+      ...insertRule,
+      id,
+      createdAt: now,
+      contractId: insertRule.contractId ?? null,
+      description: insertRule.description || '',
+      threshold: insertRule.threshold || 1,
+      enabled: insertRule.enabled ?? true
+    };
+    this.rules.set(id, rule);
+    return rule;
+  }
+  
+  async updateRule(id: number, update: Partial<InsertRule>): Promise<Rule | undefined> {
+    const rule = this.rules.get(id);
+    if (!rule) return undefined;
+    
+    const updatedRule: Rule = {
+      ...rule,
+      ...update,
+      contractId: update.contractId === undefined ? rule.contractId : update.contractId
+    };
+    this.rules.set(id, updatedRule);
+    return updatedRule;
+  }
+  
+  async deleteRule(id: number): Promise<boolean> {
+    return this.rules.delete(id);
+  }
+  
+  // Scan operations
+  async getScan(id: number): Promise<Scan | undefined> {
+    return this.scans.get(id);
+  }
+  
+  async getScansByContract(contractId: number, limit?: number): Promise<Scan[]> {
+    const scans = Array.from(this.scans.values())
+      .filter((scan) => scan.contractId === contractId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    
+    return limit ? scans.slice(0, limit) : scans;
+  }
+  
+  async getLatestCompletedScan(address: string, chainId: number, beforeId?: number): Promise<Scan | undefined> {
+    return Array.from(this.scans.values())
+      .filter((scan) =>
+        scan.chainId === chainId &&
+        scan.address.toLowerCase() === address.toLowerCase() &&
+        scan.status === 'COMPLETED' &&
+        (beforeId === undefined || scan.id < beforeId)
+      )
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async createScan(insertScan: InsertScan): Promise<Scan> {
+    const id = this.scanCurrentId++;
+    const now = new Date();
+    const scan: Scan = {
+      id,
+      createdAt: now,
+      contractId: insertScan.contractId ?? null,
+      chainId: insertScan.chainId ?? defaultChainId(),
+      address: insertScan.address,
+      status: insertScan.status || 'RUNNING',
+      overallScore: insertScan.overallScore ?? null,
+      criticalCount: insertScan.criticalCount || 0,
+      highCount: insertScan.highCount || 0,
+      mediumCount: insertScan.mediumCount || 0,
+      lowCount: insertScan.lowCount || 0,
+      infoCount: insertScan.infoCount || 0,
+      findings: insertScan.findings || [],
+      gasSuggestions: insertScan.gasSuggestions || [],
+      auditSummary: insertScan.auditSummary ?? null,
+      sourceHash: insertScan.sourceHash ?? null,
+      error: insertScan.error ?? null,
+      jobId: insertScan.jobId ?? null,
+      completedAt: insertScan.completedAt ?? null
+    };
+    this.scans.set(id, scan);
+    return scan;
+  }
+  
+  async updateScan(id: number, update: Partial<InsertScan>): Promise<Scan | undefined> {
+    const scan = this.scans.get(id);
+    if (!scan) return undefined;
+    
+    const updatedScan: Scan = { ...scan };
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) (updatedScan as Record<string, unknown>)[key] = value;
+    }
+    this.scans.set(id, updatedScan);
+    return updatedScan;
+  }
+  
+  // Job operations
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+  
+  async getJobs(limit?: number, contractId?: number): Promise<Job[]> {
+    const jobs = Array.from(this.jobs.values())
+      .filter((job) => contractId === undefined || job.contractId === contractId)
+      .sort((a, b) => b.id - a.id);
+    
+    return limit ? jobs.slice(0, limit) : jobs;
+  }
+  
+  async getUnfinishedJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === 'QUEUED' || job.status === 'RUNNING')
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.jobCurrentId++;
+    const now = new Date();
+    const job: Job = {
+      id,
+      createdAt: now,
+      type: insertJob.type,
+      status: insertJob.status || 'QUEUED',
+      contractId: insertJob.contractId ?? null,
+      payload: insertJob.payload || {},
+      stage: insertJob.stage ?? null,
+      progress: insertJob.progress || 0,
+      attempts: insertJob.attempts || 0,
+      maxAttempts: insertJob.maxAttempts || 3,
+      result: insertJob.result ?? null,
+      error: insertJob.error ?? null,
+      requestedBy: insertJob.requestedBy ?? null,
+      runAfter: insertJob.runAfter ?? now,
+      startedAt: insertJob.startedAt ?? null,
+      finishedAt: insertJob.finishedAt ?? null
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+  
+  async updateJob(id: number, update: Partial<InsertJob>, expectedStatus?: JobStatus): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job || (expectedStatus && job.status !== expectedStatus)) return undefined;
+    
+    const updatedJob: Job = { ...job };
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) (updatedJob as Record<string, unknown>)[key] = value;
+    }
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  // Notification operations
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    return Array.from(this.notificationChannels.values());
+  }
+  
+  async getNotificationChannel(id: number): Promise<NotificationChannel | undefined> {
+    return this.notificationChannels.get(id);
+  }
+  
+  async createNotificationChannel(insertChannel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const id = this.notificationChannelCurrentId++;
+    const channel: NotificationChannel = {
+      id,
+      createdAt: new Date(),
+      name: insertChannel.name,
+      type: insertChannel.type,
+      config: insertChannel.config,
+      minSeverity: insertChannel.minSeverity || 'MEDIUM',
+      enabled: insertChannel.enabled ?? true
+    };
+    this.notificationChannels.set(id, channel);
+    return channel;
+  }
+  
+  async updateNotificationChannel(id: number, update: Partial<InsertNotificationChannel>): Promise<NotificationChannel | undefined> {
+    const channel = this.notificationChannels.get(id);
+    if (!channel) return undefined;
+    
+    const updatedChannel: NotificationChannel = { ...channel };
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) (updatedChannel as Record<string, unknown>)[key] = value;
+    }
+    this.notificationChannels.set(id, updatedChannel);
+    return updatedChannel;
+  }
+  
+  async deleteNotificationChannel(id: number): Promise<boolean> {
+    if (!this.notificationChannels.delete(id)) return false;
+    
+    for (const [deliveryId, delivery] of Array.from(this.notificationDeliveries.entries())) {
+      if (delivery.channelId === id) this.notificationDeliveries.delete(deliveryId);
+    }
+    
+    return true;
+  }
+  
+  async getNotificationDeliveries(limit?: number, channelId?: number): Promise<NotificationDelivery[]> {
+    const deliveries = Array.from(this.notificationDeliveries.values())
+      .filter((delivery) => channelId === undefined || delivery.channelId === channelId)
+      .sort((a, b) => b.id - a.id);
+    
+    return limit ? deliveries.slice(0, limit) : deliveries;
+  }
+  
+  async getPendingNotificationDeliveries(): Promise<NotificationDelivery[]> {
+    return Array.from(this.notificationDeliveries.values())
+      .filter((delivery) => delivery.status === 'PENDING')
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createNotificationDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const id = this.notificationDeliveryCurrentId++;
+    const delivery: NotificationDelivery = {
+      id,
+      createdAt: new Date(),
+      channelId: insertDelivery.channelId,
+      alertId: insertDelivery.alertId ?? null,
+      status: insertDelivery.status || 'PENDING',
+      attempts: insertDelivery.attempts || 0,
+      lastError: insertDelivery.lastError ?? null,
+      deliveredAt: insertDelivery.deliveredAt ?? null
+    };
+    this.notificationDeliveries.set(id, delivery);
+    return delivery;
+  }
+  
+  async updateNotificationDelivery(id: number, update: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined> {
+    const delivery = this.notificationDeliveries.get(id);
+    if (!delivery) return undefined;
+    
+    const updatedDelivery: NotificationDelivery = { ...delivery };
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) (updatedDelivery as Record<string, unknown>)[key] = value;
+    }
+    this.notificationDeliveries.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+  
+  // Settings operations
+  async getSettings(): Promise<Settings | undefined> {
+    return this.settings;
+  }
+  
+  async saveSettings(values: GuardianSettings, updatedBy: number | null): Promise<Settings> {
+    this.settings = { id: 1, ...values, updatedAt: new Date(), updatedBy };
+    return this.settings;
+  }
+}
+
+// SQLSTATE PostgreSQL reports when an insert or update breaks a unique index
+const UNIQUE_VIOLATION = "23505";
+
+// PostgreSQL-backed storage using the Drizzle schema in shared/schema.ts.
+// Tables are created by the migrations in ./migrations (npm run db:migrate).
+export class DbStorage implements IStorage {
+  private db: Database;
+  private ready: Promise<void>;
+  
+  constructor(db: Database) {
+    this.db = db;
+    this.ready = this.initGuardianContracts().then(() => this.initDefaultRules());
+  }
+  
+  // Like the rules, only seeded into an empty table so contracts deleted by admins stay deleted
+  private async initGuardianContracts() {
+    try {
+      const [existing] = await this.db.select({ id: contracts.id }).from(contracts).limit(1);
+      if (!existing) {
+        await this.db
+          .insert(contracts)
+          .values(guardianContracts())
+          .onConflictDoNothing({ target: [contracts.chainId, contracts.address] });
+      }
+    } catch (error) {
+      console.error('Error seeding Guardian contracts:', error);
+    }
+  }
+  
+  // Only seed into an empty table so rules removed by users stay removed
+  private async initDefaultRules() {
+    try {
+      const [existing] = await this.db.select({ id: rules.id }).from(rules).limit(1);
+      if (!existing) {
+        await this.db.insert(rules).values(defaultRules());
+      }
+    } catch (error) {
+      console.error('Error seeding default rules:', error);
+    }
+  }
+  
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.id);
+  }
+  
+  async updateUser(id: number, update: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(update)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+  
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(users)
+      .where(eq(users.id, id))
+      .returning({ id: users.id });
+    return deleted.length > 0;
+  }
+  
+  // Session operations
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+  
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const [session] = await this.db.insert(sessions).values(insertSession).returning();
+    return session;
+  }
+  
+  async deleteSession(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(sessions)
+      .where(eq(sessions.id, id))
+      .returning({ id: sessions.id });
+    return deleted.length > 0;
+  }
+  
+  async deleteSessionsForUser(userId: number): Promise<void> {
+    await this.db.delete(sessions).where(eq(sessions.userId, userId));
+  }
+  
+  // Wallet operations
+  async getWalletByAddress(address: string): Promise<UserWallet | undefined> {
+    const [wallet] = await this.db
+      .select()
+      .from(userWallets)
+      .where(sql`lower(${userWallets.address}) = ${address.toLowerCase()}`);
+    return wallet;
+  }
+  
+  async getWalletsForUser(userId: number): Promise<UserWallet[]> {
+    return this.db.select().from(userWallets).where(eq(userWallets.userId, userId)).orderBy(userWallets.id);
+  }
+  
+  async createWallet(insertWallet: InsertUserWallet): Promise<UserWallet> {
+    const [wallet] = await this.db.insert(userWallets).values(insertWallet).returning();
+    return wallet;
+  }
+  
+  async deleteWallet(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(userWallets)
+      .where(eq(userWallets.id, id))
+      .returning({ id: userWallets.id });
+    return deleted.length > 0;
+  }
+  
+  // Contract operations
+  async getContracts(): Promise<Contract[]> {
+    await this.ready;
+    return this.db.select().from(contracts).orderBy(contracts.id);
+  }
+  
+  async getContract(id: number): Promise<Contract | undefined> {
+    await this.ready;
+    const [contract] = await this.db.select().from(contracts).where(eq(contracts.id, id));
+    return contract;
+  }
+  
+  async getContractByAddress(address: string, chainId: number): Promise<Contract | undefined> {
+    await this.ready;
+    const [contract] = await this.db
+      .select()
+      .from(contracts)
+      .where(and(eq(contracts.chainId, chainId), sql`lower(${contracts.address}) = ${address.toLowerCase()}`));
+    return contract;
+  }
+  
+  async createContract(insertContract: InsertContract): Promise<Contract> {
+    const [contract] = await this.db
+      .insert(contracts)
+      .values({ ...insertContract, chainId: insertContract.chainId ?? defaultChainId() })
+      .returning();
+    return contract;
+  }
+  
+  async updateContract(id: number, update: Partial<InsertContract>): Promise<Contract | undefined> {
+    const [contract] = await this.db
+      .update(contracts)
+      .set(update)
+      .where(eq(contracts.id, id))
+      .returning();
+    return contract;
+  }
+  
+  async updateContractStatus(id: number, status: string): Promise<Contract | undefined> {
+    const [contract] = await this.db
+      .update(contracts)
+      .set({ status })
+      .where(eq(contracts.id, id))
+      .returning();
+    return contract;
+  }
+  
+  async recordContractHealthCheck(id: number, result: HealthCheckResult): Promise<Contract | undefined> {
+    const [contract] = await this.db
+      .update(contracts)
+      .set({ healthCheck: result, healthCheckedAt: new Date() })
+      .where(eq(contracts.id, id))
+      .returning();
+    return contract;
+  }
+  
+  async updateContractPolicy(id: number, policy: ContractPolicy): Promise<Contract | undefined> {
+    const [contract] = await this.db
+      .update(contracts)
+      .set({ policy })
+      .where(eq(contracts.id, id))
+      .returning();
+    return contract;
+  }
+  
+  async deleteContract(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(contracts)
+      .where(eq(contracts.id, id))
+      .returning({ id: contracts.id });
+    return deleted.length > 0;
+  }
+  
+  // Contract status history operations
+  async getContractStatusHistory(contractId: number, limit?: number): Promise<ContractStatusHistory[]> {
+    const query = this.db
+      .select()
+      .from(contractStatusHistory)
+      .where(eq(contractStatusHistory.contractId, contractId))
+      .orderBy(desc(contractStatusHistory.createdAt), desc(contractStatusHistory.id));
+    return limit ? query.limit(limit) : query;
+  }
+  
+  async addContractStatusHistory(entry: InsertContractStatusHistory): Promise<ContractStatusHistory> {
+    const [history] = await this.db.insert(contractStatusHistory).values(entry).returning();
+    return history;
+  }
+  
+  // Alert operations
+  async getAlerts(): Promise<Alert[]> {
+    return this.db.select().from(alerts).orderBy(alerts.id);
+  }
+  
+  async getAlertsByContract(contractId: number): Promise<Alert[]> {
+    return this.db.select().from(alerts).where(eq(alerts.contractId, contractId)).orderBy(alerts.id);
+  }
+  
+  async getAlertsByEvent(eventId: number): Promise<Alert[]> {
+    return this.db.select().from(alerts).where(eq(alerts.eventId, eventId)).orderBy(alerts.id);
+  }
+  
+  async getActiveAlerts(): Promise<Alert[]> {
+    return this.db.select().from(alerts).where(notInArray(alerts.status, closedAlertStatuses)).orderBy(alerts.id);
+  }
+  
+  async getAlert(id: number): Promise<Alert | undefined> {
+    const [alert] = await this.db.select().from(alerts).where(eq(alerts.id, id));
+    return alert;
+  }
+  
+  // New alerts start OPEN with a CREATED entry in their history
+  async createAlert(insertAlert: InsertAlert): Promise<Alert> {
+    return this.db.transaction(async (tx) => {
+      const [alert] = await tx.insert(alerts).values(insertAlert).returning();
+      await tx.insert(alertHistory).values({ alertId: alert.id, action: 'CREATED', toStatus: alert.status });
+      return alert;
+    });
+  }
+  
+  async updateAlert(id: number, update: AlertUpdate): Promise<Alert | undefined> {
+    const [alert] = await this.db
+      .update(alerts)
+      .set(update)
+      .where(eq(alerts.id, id))
+      .returning();
+    return alert;
+  }
+  
+  async getOpenAlertByDedupKey(dedupKey: string): Promise<Alert | undefined> {
+    const [alert] = await this.db
+      .select()
+      .from(alerts)
+      .where(and(eq(alerts.dedupKey, dedupKey), notInArray(alerts.status, closedAlertStatuses)))
+      .orderBy(desc(alerts.id))
+      .limit(1);
+    return alert;
+  }
+  
+  // The unique index over open alerts' dedup keys settles concurrent raises of the same finding:
+  // the insert that loses counts as an occurrence of the alert the other one created
+  async raiseAlert(insertAlert: InsertAlert & { dedupKey: string }): Promise<{ alert: Alert, created: boolean }> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const [repeated] = await this.db
+        .update(alerts)
+        .set({ occurrences: sql`${alerts.occurrences} + 1`, lastSeenAt: new Date() })
+        .where(and(eq(alerts.dedupKey, insertAlert.dedupKey), notInArray(alerts.status, closedAlertStatuses)))
+        .returning();
+      if (repeated) return { alert: repeated, created: false };
+      
+      try {
+        return { alert: await this.createAlert(insertAlert), created: true };
+      } catch (error) {
+        if ((error as { code?: string }).code !== UNIQUE_VIOLATION) throw error;
+      }
+    }
+    
+    throw new Error(`Could not raise alert ${insertAlert.dedupKey}: its open alert keeps changing`);
+  }
+  
+  // Incident operations
+  async getIncidents(limit?: number): Promise<Incident[]> {
+    const query = this.db.select().from(incidents).orderBy(desc(incidents.lastAlertAt), desc(incidents.id));
+    return limit ? query.limit(limit) : query;
+  }
+  
+  async getIncident(id: number): Promise<Incident | undefined> {
+    const [incident] = await this.db.select().from(incidents).where(eq(incidents.id, id));
+    return incident;
+  }
+  
+  async getLatestIncident(contractId: number): Promise<Incident | undefined> {
+    const [incident] = await this.db
+      .select()
+      .from(incidents)
+      .where(eq(incidents.contractId, contractId))
+      .orderBy(desc(incidents.lastAlertAt), desc(incidents.id))
+      .limit(1);
+    return incident;
+  }
+  
+  async getAlertsByIncident(incidentId: number): Promise<Alert[]> {
+    return this.db.select().from(alerts).where(eq(alerts.incidentId, incidentId)).orderBy(alerts.id);
+  }
+  
+  async createIncident(insertIncident: InsertIncident): Promise<Incident> {
+    const [incident] = await this.db.insert(incidents).values(insertIncident).returning();
+    return incident;
+  }
+  
+  async updateIncident(id: number, update: IncidentUpdate): Promise<Incident | undefined> {
+    const [incident] = await this.db
+      .update(incidents)
+      .set(update)
+      .where(eq(incidents.id, id))
+      .returning();
+    return incident;
+  }
+  
+  // Alert history and comment operations
+  async getAlertHistory(alertId: number): Promise<AlertHistory[]> {
+    return this.db
+      .select()
+      .from(alertHistory)
+      .where(eq(alertHistory.alertId, alertId))
+      .orderBy(asc(alertHistory.createdAt), asc(alertHistory.id));
+  }
+  
+  async addAlertHistory(entry: InsertAlertHistory): Promise<AlertHistory> {
+    const [history] = await this.db.insert(alertHistory).values(entry).returning();
+    return history;
+  }
+  
+  async getAlertComments(alertId: number): Promise<AlertComment[]> {
+    return this.db
+      .select()
+      .from(alertComments)
+      .where(eq(alertComments.alertId, alertId))
+      .orderBy(asc(alertComments.createdAt), asc(alertComments.id));
+  }
+  
+  async getAlertComment(id: number): Promise<AlertComment | undefined> {
+    const [comment] = await this.db.select().from(alertComments).where(eq(alertComments.id, id));
+    return comment;
+  }
+  
+  async createAlertComment(insertComment: InsertAlertComment): Promise<AlertComment> {
+    const [comment] = await this.db.insert(alertComments).values(insertComment).returning();
+    return comment;
+  }
+  
+  // Event operations
+  async getEvents(limit?: number): Promise<Event[]> {
+    const query = this.db.select().from(events).orderBy(desc(events.timestamp));
+    return limit ? query.limit(limit) : query;
+  }
+  
+  async getEventsByContract(contractId: number, limit?: number): Promise<Event[]> {
+    const query = this.db
+      .select()
+      .from(events)
+      .where(eq(events.contractId, contractId))
+      .orderBy(desc(events.timestamp));
+    return limit ? query.limit(limit) : query;
+  }
+  
+  async getEventByLog(contractId: number, transactionHash: string, logIndex: number): Promise<Event | undefined> {
+    const [event] = await this.db
+      .select()
+      .from(events)
+      .where(and(
+        eq(events.contractId, contractId),
+        eq(events.transactionHash, transactionHash),
+        eq(events.logIndex, logIndex),
+      ));
+    return event;
+  }
+  
+  async getLatestEventBlock(contractId: number): Promise<number | undefined> {
+    const [{ latest }] = await this.db
+      .select({ latest: max(events.blockNumber) })
+      .from(events)
+      .where(eq(events.contractId, contractId));
+    return latest ?? undefined;
+  }
+  
+  async getUnconfirmedEvents(): Promise<Event[]> {
+    return this.db.select().from(events).where(eq(events.confirmed, false)).orderBy(events.blockNumber);
+  }
+  
+  async getConfirmedEventsByContract(contractId: number, limit?: number): Promise<Event[]> {
+    const query = this.db
+      .select()
+      .from(events)
+      .where(and(eq(events.contractId, contractId), eq(events.confirmed, true)))
+      .orderBy(desc(events.timestamp));
+    return limit ? query.limit(limit) : query;
+  }
+  
+  async getConfirmedEventsSince(contractId: number, since: Date): Promise<Event[]> {
+    return this.db
+      .select()
+      .from(events)
+      .where(and(
+        eq(events.contractId, contractId),
+        eq(events.confirmed, true),
+        gte(events.timestamp, since),
+      ))
+      .orderBy(desc(events.timestamp));
+  }
+  
+  async createEvent(insertEvent: InsertEvent): Promise<Event> {
+    const [event] = await this.db.insert(events).values(insertEvent).returning();
+    return event;
+  }
+  
+  async updateEvent(id: number, update: Partial<InsertEvent>): Promise<Event | undefined> {
+    const [event] = await this.db
+      .update(events)
+      .set(update)
+      .where(eq(events.id, id))
+      .returning();
+    return event;
+  }
+  
+  async deleteEvent(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(events)
+      .where(eq(events.id, id))
+      .returning({ id: events.id });
+    return deleted.length > 0;
+  }
+  
+  // AI Query operations
+  async getAiQueries(): Promise<AiQuery[]> {
+    return this.db.select().from(aiQueries).orderBy(aiQueries.id);
+  }
+  
+  async getAiQueriesByContract(contractId: number): Promise<AiQuery[]> {
+    return this.db.select().from(aiQueries).where(eq(aiQueries.contractId, contractId)).orderBy(aiQueries.id);
+  }
+  
+  async createAiQuery(insertQuery: InsertAiQuery): Promise<AiQuery> {
+    const [query] = await this.db
+      .insert(aiQueries)
+      .values({ ...insertQuery, tokenCount: insertQuery.tokenCount || 0 })
+      .returning();
+    return query;
+  }
+  
+  async getQueryTokenCountSince(since: Date, feature?: AiFeature): Promise<number> {
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`coalesce(sum(${aiQueries.tokenCount}), 0)`.mapWith(Number) })
+      .from(aiQueries)
+      .where(and(gte(aiQueries.createdAt, since), feature === undefined ? undefined : eq(aiQueries.feature, feature)));
+    return total;
+  }
+  
+  async getContractQueryTokenCountSince(contractId: number, since: Date): Promise<number> {
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`coalesce(sum(${aiQueries.tokenCount}), 0)`.mapWith(Number) })
+      .from(aiQueries)
+      .where(and(eq(aiQueries.contractId, contractId), gte(aiQueries.createdAt, since)));
+    return total;
+  }
+  
+  async getAiQueryUsageSince(since: Date): Promise<AiQueryUsage[]> {
+    return this.db
+      .select({
+        contractId: aiQueries.contractId,
+        feature: aiQueries.feature,
+        model: aiQueries.model,
+        tokenCount: aiQueries.tokenCount,
+        estimatedCost: aiQueries.estimatedCost,
+        createdAt: aiQueries.createdAt
+      })
+      .from(aiQueries)
+      .where(gte(aiQueries.createdAt, since))
+      .orderBy(asc(aiQueries.createdAt));
+  }
+  
+  // Detection rule operations
+  async getRules(): Promise<Rule[]> {
+    await this.ready;
+    return this.db.select().from(rules).orderBy(rules.id);
+  }
+  
+  async getRule(id: number): Promise<Rule | undefined> {
+    await this.ready;
+    const [rule] = await this.db.select().from(rules).where(eq(rules.id, id));
+    return rule;
+  }
+  
+  async getRulesForContract(contractId: number): Promise<Rule[]> {
+    await this.ready;
+    return this.db
+      .select()
+      .from(rules)
+      .where(or(isNull(rules.contractId), eq(rules.contractId, contractId)))
+      .orderBy(rules.id);
+  }
+  
+  async createRule(insertRule: InsertRule): Promise<Rule> {
+    const [rule] = await this.db.insert(rules).values(insertRule).returning();
+    return rule;
+  }
+  
+  async updateRule(id: number, update: Partial<InsertRule>): Promise<Rule | undefined> {
+    const [rule] = await this.db
+      .update(rules)
+      .set(update)
+      .where(eq(rules.id, id))
+      .returning();
+    return rule;
+  }
+  
+  async deleteRule(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(rules)
+      .where(eq(rules.id, id))
+      .returning({ id: rules.id });
+    return deleted.length > 0;
+  }
+  
+  // Scan operations
+  async getScan(id: number): Promise<Scan | undefined> {
+    const [scan] = await this.db.select().from(scans).where(eq(scans.id, id));
+    return scan;
+  }
+  
+  async getScansByContract(contractId: number, limit?: number): Promise<Scan[]> {
+    const query = this.db
+      .select()
+      .from(scans)
+      .where(eq(scans.contractId, contractId))
+      .orderBy(desc(scans.createdAt), desc(scans.id));
+    
+    return limit ? query.limit(limit) : query;
+  }
+  
+  async getLatestCompletedScan(address: string, chainId: number, beforeId?: number): Promise<Scan | undefined> {
+    const [scan] = await this.db
+      .select()
+      .from(scans)
+      .where(and(
+        eq(scans.chainId, chainId),
+        sql`lower(${scans.address}) = ${address.toLowerCase()}`,
+        eq(scans.status, 'COMPLETED'),
+        beforeId === undefined ? undefined : lt(scans.id, beforeId)
+      ))
+      .orderBy(desc(scans.id))
+      .limit(1);
+    return scan;
+  }
+  
+  async createScan(insertScan: InsertScan): Promise<Scan> {
+    const [scan] = await this.db
+      .insert(scans)
+      .values({ ...insertScan, chainId: insertScan.chainId ?? defaultChainId() })
+      .returning();
+    return scan;
+  }
+  
+  async updateScan(id: number, update: Partial<InsertScan>): Promise<Scan | undefined> {
+    const [scan] = await this.db
+      .update(scans)
+      .set(update)
+      .where(eq(scans.id, id))
+      .returning();
+    return scan;
+  }
+  
+  // Job operations
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+  
+  async getJobs(limit?: number, contractId?: number): Promise<Job[]> {
+    const query = this.db
+      .select()
+      .from(jobs)
+      .where(contractId === undefined ? undefined : eq(jobs.contractId, contractId))
+      .orderBy(desc(jobs.id));
+    
+    return limit ? query.limit(limit) : query;
+  }
+  
+  async getUnfinishedJobs(): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(or(eq(jobs.status, 'QUEUED'), eq(jobs.status, 'RUNNING')))
+      .orderBy(asc(jobs.id));
+  }
+  
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+  
+  async updateJob(id: number, update: Partial<InsertJob>, expectedStatus?: JobStatus): Promise<Job | undefined> {
+    const [job] = await this.db
+      .update(jobs)
+      .set(update)
+      .where(expectedStatus ? and(eq(jobs.id, id), eq(jobs.status, expectedStatus)) : eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+  
+  // Notification operations
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    return this.db.select().from(notificationChannels).orderBy(notificationChannels.id);
+  }
+  
+  async getNotificationChannel(id: number): Promise<NotificationChannel | undefined> {
+    const [channel] = await this.db.select().from(notificationChannels).where(eq(notificationChannels.id, id));
+    return channel;
+  }
+  
+  async createNotificationChannel(insertChannel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const [channel] = await this.db.insert(notificationChannels).values(insertChannel).returning();
+    return channel;
+  }
+  
+  async updateNotificationChannel(id: number, update: Partial<InsertNotificationChannel>): Promise<NotificationChannel | undefined> {
+    const [channel] = await this.db
+      .update(notificationChannels)
+      .set(update)
+      .where(eq(notificationChannels.id, id))
+      .returning();
+    return channel;
+  }
+  
+  async deleteNotificationChannel(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(notificationChannels)
+      .where(eq(notificationChannels.id, id))
+      .returning({ id: notificationChannels.id });
+    return deleted.length > 0;
+  }
+  
+  async getNotificationDeliveries(limit?: number, channelId?: number): Promise<NotificationDelivery[]> {
+    const query = this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(channelId === undefined ? undefined : eq(notificationDeliveries.channelId, channelId))
+      .orderBy(desc(notificationDeliveries.id));
+    
+    return limit ? query.limit(limit) : query;
+  }
+  
+  async getPendingNotificationDeliveries(): Promise<NotificationDelivery[]> {
+    return this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.status, 'PENDING'))
+      .orderBy(asc(notificationDeliveries.id));
+  }
+  
+  async createNotificationDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const [delivery] = await this.db.insert(notificationDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+  
+  async updateNotificationDelivery(id: number, update: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined> {
+    const [delivery] = await this.db
+      .update(notificationDeliveries)
+      .set(update)
+      .where(eq(notificationDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+  
+  // Settings operations
+  async getSettings(): Promise<Settings | undefined> {
+    const [row] = await this.db.select().from(settings).where(eq(settings.id, 1));
+    return row;
+  }
+  
+  async saveSettings(values: GuardianSettings, updatedBy: number | null): Promise<Settings> {
+    const row = { ...values, updatedAt: new Date(), updatedBy };
+    const [saved] = await this.db
+      .insert(settings)
+      .values({ id: 1, ...row })
+      .onConflictDoUpdate({ target: settings.id, set: row })
+      .returning();
+    return saved;
+  }
 }
 
-export const storage = new MemStorage();
+// Use PostgreSQL when DATABASE_URL is configured, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
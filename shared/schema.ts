@@ -1,35 +1,188 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, uniqueIndex, index, real, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
+import { sql } from "drizzle-orm";
 import { z } from "zod";
 
 // User schema (kept from original)
+export const userRoles = ["viewer", "analyst", "admin"] as const; // Each role can do everything the previous one can
+export type UserRole = typeof userRoles[number];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash, see server/auth.ts
+  role: text("role").notNull().default("viewer"), // "viewer", "analyst", "admin"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3).max(64),
+  password: (schema) => schema.min(8),
+  role: z.enum(userRoles),
+}).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+
+// Login sessions, keyed by a SHA-256 hash of the token so a database leak cannot be replayed
+export const sessions = pgTable("sessions", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  address: text("address"), // Wallet the session was signed in with (Sign-In with Ethereum), null for passwords
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
+
+// Wallet addresses a user can sign in with
+export const userWallets = pgTable("user_wallets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  address: text("address").notNull().unique(), // Checksummed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertUserWalletSchema = createInsertSchema(userWallets).pick({
+  userId: true,
+  address: true,
+});
+
+export type InsertUserWallet = z.infer<typeof insertUserWalletSchema>;
+export type UserWallet = typeof userWallets.$inferSelect;
+
+// Chains the server can monitor, loaded by server/networks.ts
+export const SONEIUM_CHAIN_ID = 1868;
+
+export const networkConfigSchema = z.object({
+  chainId: z.number().int().positive(),
+  name: z.string().min(1),
+  rpcUrls: z.array(z.string().url()).min(1),
+  explorerUrl: z.string().url().optional(),
+  explorerApiUrl: z.string().url().optional(), // Etherscan-compatible API; defaults to <explorerUrl>/api
+  confirmations: z.number().int().min(1).default(12), // Blocks an event must be buried under to be final
+});
+
+export type NetworkConfig = z.infer<typeof networkConfigSchema>;
+
+// What clients see of a network; RPC URLs often embed API keys
+export type PublicNetwork = Pick<NetworkConfig, "chainId" | "name" | "explorerUrl" | "confirmations">;
+
+// HEALTHY: every endpoint passes probes, DEGRADED: serving from a subset, DOWN: no endpoint
+// passes, UNKNOWN: not probed yet (or never, in demo mode)
+export const networkHealthStatuses = ["HEALTHY", "DEGRADED", "DOWN", "UNKNOWN"] as const;
+export type NetworkHealthStatus = typeof networkHealthStatuses[number];
+
+// Latest probe of one RPC endpoint. Only the host is exposed, for the same reason as above.
+export interface EndpointHealth {
+  host: string;
+  active: boolean;
+  healthy: boolean;
+  score: number; // 0-100, higher is better; 0 when unhealthy
+  latencyMs: number | null;
+  blockNumber: number | null;
+  blockLag: number | null; // Blocks behind the highest head reported by the network's endpoints
+  lastCheckedAt: string | null;
+  error?: string;
+}
+
+// Provider pool state for one network, as returned by /api/network/health
+export interface NetworkHealth {
+  chainId: number;
+  name: string;
+  status: NetworkHealthStatus;
+  activeEndpoint: string | null;
+  blockNumber: number | null;
+  endpoints: EndpointHealth[];
+}
+
+// Attack script the demo chain simulator can play against a contract
+export interface DemoScenario {
+  name: string;
+  description: string;
+  contractType: string;
+}
+
+// State of the simulated chain that replaces RPC endpoints in demo mode
+export interface SimulatorStatus {
+  seed: number;
+  blockNumber: number;
+  blockTimeMs: number;
+  contracts: number; // Contracts whose events are being simulated
+  scenarios: DemoScenario[];
+  runningScenarios: { name: string; contractId: number; startBlock: number; endBlock: number }[];
+}
+
+// As returned by /api/monitor/status
+export interface MonitorStatus {
+  active: boolean;
+  demoMode: boolean;
+  simulator: SimulatorStatus | null;
+}
+
+export const contractTypes = ["FEED", "DAO", "BADGE", "OTHER"] as const;
+export const contractStatuses = ["HEALTHY", "WARNING", "ALERT"] as const;
+export type ContractStatus = typeof contractStatuses[number];
+export const healthCheckResults = ["OK", "FAILED", "UNAVAILABLE"] as const; // FAILED: the check itself errored
+export type HealthCheckResult = typeof healthCheckResults[number];
+export const analysisDepths = ["QUICK", "STANDARD", "COMPREHENSIVE"] as const; // How much contract code is sent for AI analysis
+export type AnalysisDepth = typeof analysisDepths[number];
+
+// Per-contract monitoring policy. Fields left out fall back to the global settings.
+export const contractPolicySchema = z.object({
+  healthCheckIntervalMinutes: z.number().int().min(1).max(24 * 60).optional(),
+  aiAnalysisIntervalMinutes: z.number().int().min(5).max(7 * 24 * 60).optional(),
+  autoAnalyzeEvents: z.boolean().optional(), // Run AI analysis on every confirmed event
+  analysisDepth: z.enum(analysisDepths).optional(),
+  dailyTokenQuota: z.number().int().min(0).optional(), // AI tokens the contract may use in any 24 hours
+}).strict();
+
+export type ContractPolicy = z.infer<typeof contractPolicySchema>;
+
+// A policy with the global settings filled in, as the scheduler applies it
+export interface EffectivePolicy {
+  healthCheckIntervalMinutes: number;
+  aiAnalysisIntervalMinutes: number;
+  autoAnalyzeEvents: boolean;
+  analysisDepth: AnalysisDepth;
+  dailyTokenQuota: number | null; // null: only the global daily token limit applies
+}
+
+// As returned by /api/contracts/:id/policy
+export interface ContractPolicyResponse {
+  policy: ContractPolicy;
+  effective: EffectivePolicy;
+  nextHealthCheckAt: string | null; // null while monitoring is stopped
+  nextAnalysisAt: string | null;
+  tokensUsed: number; // In the last 24 hours
+}
 
 // Smart contracts being monitored
 export const contracts = pgTable("contracts", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  address: text("address").notNull().unique(),
-  type: text("type").notNull(), // "FEED", "DAO", "BADGE", etc.
+  chainId: integer("chain_id").notNull().default(SONEIUM_CHAIN_ID),
+  address: text("address").notNull(),
+  type: text("type").notNull(), // "FEED", "DAO", "BADGE" or "OTHER"
   abi: jsonb("abi"), // Contract ABI if available
-  status: text("status").notNull().default("HEALTHY"), // "HEALTHY", "WARNING", "ALERT"
+  status: text("status").notNull().default("HEALTHY"), // "HEALTHY", "WARNING", "ALERT"; derived by services/contractStatus.ts
   addedAt: timestamp("added_at").notNull().defaultNow(),
-});
+  healthCheck: text("health_check"), // Latest health check result, one of healthCheckResults
+  healthCheckedAt: timestamp("health_checked_at"),
+  policy: jsonb("policy").$type<ContractPolicy>().notNull().default({}), // Validated by contractPolicySchema
+}, (table) => [
+  uniqueIndex("contracts_chain_address_idx").on(table.chainId, table.address),
+]);
 
 export const insertContractSchema = createInsertSchema(contracts).pick({
   name: true,
+  chainId: true,
   address: true,
   type: true,
   abi: true,
@@ -39,17 +192,68 @@ export const insertContractSchema = createInsertSchema(contracts).pick({
 export type InsertContract = z.infer<typeof insertContractSchema>;
 export type Contract = typeof contracts.$inferSelect;
 
+// Every change of a contract's derived status, with what caused it
+export const contractStatusHistory = pgTable("contract_status_history", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("contract_status_history_contract_idx").on(table.contractId, table.createdAt),
+]);
+
+export type InsertContractStatusHistory = typeof contractStatusHistory.$inferInsert;
+export type ContractStatusHistory = typeof contractStatusHistory.$inferSelect;
+
 // Alerts generated from AI analysis
+export const severityLevels = ["LOW", "MEDIUM", "HIGH", "CRITICAL"] as const;
+
+export const alertStatuses = ["OPEN", "ACKNOWLEDGED", "INVESTIGATING", "RESOLVED", "FALSE_POSITIVE"] as const;
+export type AlertStatus = typeof alertStatuses[number];
+export const closedAlertStatuses: AlertStatus[] = ["RESOLVED", "FALSE_POSITIVE"];
+
+// Related alerts on one contract raised close together, handled as a single incident.
+// An incident is open while any of its alerts is open.
+export const incidents = pgTable("incidents", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  title: text("title").notNull(), // Title of the alert that started the incident
+  severity: text("severity").notNull(), // Highest severity among its alerts
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastAlertAt: timestamp("last_alert_at").notNull().defaultNow(), // Latest alert or repeat occurrence
+}, (table) => [
+  index("incidents_contract_idx").on(table.contractId, table.lastAlertAt),
+]);
+
+export type InsertIncident = typeof incidents.$inferInsert;
+export type Incident = typeof incidents.$inferSelect;
+export type IncidentUpdate = Partial<Pick<Incident, "severity" | "lastAlertAt">>;
+
 export const alerts = pgTable("alerts", {
   id: serial("id").primaryKey(),
-  contractId: integer("contract_id").notNull().references(() => contracts.id),
+  contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
   severity: text("severity").notNull(), // "LOW", "MEDIUM", "HIGH", "CRITICAL"
   title: text("title").notNull(),
   description: text("description").notNull(),
   aiAnalysis: text("ai_analysis"), // Detailed AI analysis
+  eventId: integer("event_id").references(() => events.id, { onDelete: "set null" }), // Event the alert was derived from, if any; cleared when a reorg removes it
   createdAt: timestamp("created_at").notNull().defaultNow(),
-  resolved: boolean("resolved").notNull().default(false),
-});
+  status: text("status").notNull().default("OPEN"), // One of alertStatuses; RESOLVED and FALSE_POSITIVE are closed
+  assigneeId: integer("assignee_id").references(() => users.id, { onDelete: "set null" }),
+  resolutionNote: text("resolution_note"), // Why the alert was closed
+  resolvedAt: timestamp("resolved_at"),
+  dedupKey: text("dedup_key"), // Hash of contract, title and fingerprint; repeats of an open alert bump it instead
+  occurrences: integer("occurrences").notNull().default(1),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+  incidentId: integer("incident_id").references(() => incidents.id, { onDelete: "set null" }),
+}, (table) => [
+  index("alerts_status_idx").on(table.status),
+  // At most one open alert per dedup key, so concurrent detections of the same finding cannot both create one
+  uniqueIndex("alerts_open_dedup_key_idx").on(table.dedupKey).where(sql`${table.status} not in ('RESOLVED', 'FALSE_POSITIVE')`),
+  index("alerts_incident_idx").on(table.incidentId),
+]);
 
 export const insertAlertSchema = createInsertSchema(alerts).pick({
   contractId: true,
@@ -57,50 +261,568 @@ export const insertAlertSchema = createInsertSchema(alerts).pick({
   title: true, 
   description: true,
   aiAnalysis: true,
-  resolved: true,
+  eventId: true,
+  dedupKey: true,
+  incidentId: true,
 });
 
 export type InsertAlert = z.infer<typeof insertAlertSchema>;
 export type Alert = typeof alerts.$inferSelect;
 
+// Lifecycle fields changed through services/alerts.ts, never set on insert
+export type AlertUpdate = Partial<Pick<Alert, "status" | "assigneeId" | "resolutionNote" | "resolvedAt" | "incidentId">>;
+
+// Incident with counts derived from its alerts, as returned by /api/incidents
+export interface IncidentSummary extends Incident {
+  status: "OPEN" | "CLOSED";
+  alertCount: number;
+  openAlertCount: number;
+  occurrences: number; // Total across its alerts, including repeats
+}
+
+export const alertHistoryActions = ["CREATED", "STATUS_CHANGED", "ASSIGNED", "COMMENTED", "REOPENED", "EVENT_REMOVED"] as const;
+
+// Append-only audit trail of everything that happened to an alert
+export const alertHistory = pgTable("alert_history", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull().references(() => alerts.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // null for system actions
+  action: text("action").notNull(), // One of alertHistoryActions
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("alert_history_alert_idx").on(table.alertId, table.createdAt),
+]);
+
+export type InsertAlertHistory = typeof alertHistory.$inferInsert;
+export type AlertHistory = typeof alertHistory.$inferSelect;
+
+// Threaded discussion on an alert; replies point at their parent comment
+export const alertComments = pgTable("alert_comments", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull().references(() => alerts.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  parentId: integer("parent_id").references((): AnyPgColumn => alertComments.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("alert_comments_alert_idx").on(table.alertId, table.createdAt),
+]);
+
+export const insertAlertCommentSchema = createInsertSchema(alertComments, {
+  body: (schema) => schema.trim().min(1).max(5000),
+}).pick({
+  body: true,
+  parentId: true,
+});
+
+export type InsertAlertComment = z.infer<typeof insertAlertCommentSchema> & { alertId: number; userId: number | null };
+export type AlertComment = typeof alertComments.$inferSelect;
+
 // Events captured from monitored contracts
 export const events = pgTable("events", {
   id: serial("id").primaryKey(),
-  contractId: integer("contract_id").notNull().references(() => contracts.id),
+  contractId: integer("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
   eventName: text("event_name").notNull(),
   blockNumber: integer("block_number").notNull(),
   transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index"), // Position of the log in its block, used to skip duplicates
+  blockHash: text("block_hash"), // Used to detect chain reorganizations
+  confirmed: boolean("confirmed").notNull().default(false), // Buried under enough blocks to be final
   eventData: jsonb("event_data").notNull(),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("events_contract_log_idx").on(table.contractId, table.transactionHash, table.logIndex),
+]);
 
 export const insertEventSchema = createInsertSchema(events).pick({
   contractId: true,
   eventName: true,
   blockNumber: true,
   transactionHash: true,
+  logIndex: true,
+  blockHash: true,
+  confirmed: true,
   eventData: true,
+  timestamp: true,
 });
 
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 export type Event = typeof events.$inferSelect;
 
-// AI analysis queries
+// AI analysis queries. Budgets and quotas are enforced over their token counts.
+export const aiFeatures = ["CONTRACT_ANALYSIS", "EVENT_ANALYSIS", "QUERY"] as const;
+export type AiFeature = typeof aiFeatures[number];
+
 export const aiQueries = pgTable("ai_queries", {
   id: serial("id").primaryKey(),
-  contractId: integer("contract_id").notNull().references(() => contracts.id),
+  contractId: integer("contract_id").references(() => contracts.id, { onDelete: "set null" }), // null for scans of unregistered addresses and deleted contracts
+  feature: text("feature"), // One of aiFeatures; null for queries recorded before features were tracked
+  provider: text("provider"), // LLM provider that answered, e.g. "groq" or "ollama"
+  model: text("model"), // Model that answered, for cost estimates
   query: text("query").notNull(),
   response: text("response"),
-  tokenCount: integer("token_count"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  tokenCount: integer("token_count"), // Total of prompt and completion tokens
+  estimatedCost: real("estimated_cost"), // USD at the time of the query; 0 for local providers
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("ai_queries_created_idx").on(table.createdAt),
+]);
 
-export const insertAiQuerySchema = createInsertSchema(aiQueries).pick({
+export const insertAiQuerySchema = createInsertSchema(aiQueries, {
+  feature: z.enum(aiFeatures).nullable().optional(),
+}).pick({
   contractId: true,
+  feature: true,
+  provider: true,
+  model: true,
   query: true,
   response: true,
+  promptTokens: true,
+  completionTokens: true,
   tokenCount: true,
+  estimatedCost: true,
 });
 
 export type InsertAiQuery = z.infer<typeof insertAiQuerySchema>;
 export type AiQuery = typeof aiQueries.$inferSelect;
+
+// What budget checks and usage reports need of a query, without prompt and response
+export type AiQueryUsage = Pick<AiQuery, "contractId" | "feature" | "model" | "tokenCount" | "estimatedCost" | "createdAt">;
+
+export interface AiUsageWindow {
+  used: number;
+  limit: number;
+  percentage: number;
+  estimatedCost: number; // USD
+}
+
+// As returned by /api/ai/usage. Windows are rolling: the last 24 hours and the last 30 days.
+export interface AiUsageSummary {
+  used: number; // The daily window again, for clients that only show one figure
+  limit: number;
+  percentage: number;
+  daily: AiUsageWindow;
+  monthly: AiUsageWindow;
+  features: Record<AiFeature, { used: number; quota: number | null }>; // Last 24 hours
+  exhausted: string | null; // Why automatic analysis is currently paused, if it is
+}
+
+// One day of /api/ai/usage/history
+export interface AiUsageHistoryPoint {
+  date: string; // YYYY-MM-DD, UTC
+  contractAnalysis: number;
+  eventAnalysis: number;
+  other: number; // Free-form queries and queries recorded without a feature
+  total: number;
+  estimatedCost: number; // USD
+}
+
+// Detection rules evaluated against every confirmed event
+export const ruleOperators = ["eq", "neq", "gt", "gte", "lt", "lte", "in", "contains"] as const;
+
+export const ruleArgConditionSchema = z.object({
+  arg: z.string().min(1), // Name of the decoded event argument
+  op: z.enum(ruleOperators),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))]),
+});
+
+// Compares the number of other confirmed events of the contract within the rule's window that
+// share an argument with the matched event, e.g. the distinct voters on a proposal being executed
+export const ruleCountConditionSchema = z.object({
+  count: z.object({
+    eventNames: z.array(z.string().min(1)).min(1),
+    matchArg: z.string().min(1), // Must equal the same argument of the matched event
+    distinctArg: z.string().min(1).optional(), // Count distinct values of this argument instead of events
+  }),
+  op: z.enum(["eq", "neq", "gt", "gte", "lt", "lte"]),
+  value: z.number().int().nonnegative(),
+});
+
+export const ruleConditionSchema = z.union([ruleArgConditionSchema, ruleCountConditionSchema]);
+
+export type RuleArgCondition = z.infer<typeof ruleArgConditionSchema>;
+export type RuleCountCondition = z.infer<typeof ruleCountConditionSchema>;
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+
+export const rules = pgTable("rules", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").references(() => contracts.id, { onDelete: "cascade" }), // null applies to every contract
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  eventNames: jsonb("event_names").$type<string[]>().notNull(), // Event names to match, "*" matches any
+  conditions: jsonb("conditions").$type<RuleCondition[]>().notNull().default([]), // All must hold
+  windowSeconds: integer("window_seconds").notNull(),
+  threshold: integer("threshold").notNull().default(1), // Matching events within the window needed to fire
+  severity: text("severity").notNull(), // "LOW", "MEDIUM", "HIGH", "CRITICAL"
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRuleSchema = createInsertSchema(rules, {
+  name: (schema) => schema.min(1),
+  eventNames: z.array(z.string().min(1)).min(1),
+  conditions: z.array(ruleConditionSchema).default([]),
+  windowSeconds: (schema) => schema.int().positive(),
+  threshold: (schema) => schema.int().positive(),
+  severity: z.enum(severityLevels),
+}).pick({
+  contractId: true,
+  name: true,
+  description: true,
+  eventNames: true,
+  conditions: true,
+  windowSeconds: true,
+  threshold: true,
+  severity: true,
+  enabled: true,
+});
+
+export type InsertRule = z.infer<typeof insertRuleSchema>;
+export type Rule = typeof rules.$inferSelect;
+
+// Structured findings returned by AI analysis
+export const findingCategories = [
+  "REENTRANCY",
+  "ACCESS_CONTROL",
+  "ARITHMETIC",
+  "LOGIC",
+  "FRONT_RUNNING",
+  "ORACLE",
+  "GAS",
+  "SUSPICIOUS_ACTIVITY",
+  "OTHER",
+] as const;
+
+export const aiFindingSchema = z.object({
+  title: z.string().min(1),
+  category: z.preprocess(
+    (value) => typeof value === "string" ? value.trim().toUpperCase().replace(/[\s-]+/g, "_") : value,
+    z.enum(findingCategories).catch("OTHER")
+  ),
+  severity: z.preprocess(
+    (value) => typeof value === "string" ? value.trim().toUpperCase() : value,
+    z.enum(severityLevels)
+  ),
+  confidence: z.number().min(0).max(1), // Model's own confidence in the finding
+  location: z.string().optional(), // Function or line the finding refers to
+  evidence: z.string().min(1), // Code snippet or event data supporting the finding
+  recommendation: z.string(),
+});
+
+export const aiAnalysisSchema = z.object({
+  summary: z.string(),
+  findings: z.array(aiFindingSchema),
+});
+
+export type AiFinding = z.infer<typeof aiFindingSchema>;
+export type AiAnalysis = z.infer<typeof aiAnalysisSchema>;
+
+// Contract security scan report rendered by the client
+export type VulnerabilitySeverity = "CRITICAL" | "HIGH" | "MEDIUM" | "LOW" | "INFO";
+
+export interface VulnerabilityFinding {
+  id: string;
+  name: string;
+  description: string;
+  severity: VulnerabilitySeverity;
+  line_number?: number;
+  code_snippet?: string;
+  recommendation?: string;
+  category: string;
+  location?: string; // Function or code area, stable across edits unlike line numbers
+  fingerprint?: string; // Identifies the same finding across scans
+}
+
+export interface ContractScanResult {
+  contract_address: string;
+  scan_id: string;
+  timestamp: string;
+  overall_score: number; // 0-100 scale, higher is safer
+  vulnerability_count: {
+    critical: number;
+    high: number;
+    medium: number;
+    low: number;
+    info: number;
+  };
+  vulnerabilities: VulnerabilityFinding[];
+  gas_optimization_suggestions?: string[];
+  audit_summary: string;
+}
+
+// Findings matched by fingerprint between an earlier and a later scan
+export interface ScanDiff {
+  base_scan_id: string;
+  target_scan_id: string;
+  score_delta: number; // target score minus base score
+  new_findings: VulnerabilityFinding[];
+  fixed_findings: VulnerabilityFinding[];
+  persisting_findings: VulnerabilityFinding[];
+}
+
+// Background work run by services/jobs.ts with bounded concurrency and retries
+export const jobTypes = ["SCAN", "CONTRACT_ANALYSIS", "EVENT_ANALYSIS"] as const;
+export type JobType = typeof jobTypes[number];
+export const jobStatuses = ["QUEUED", "RUNNING", "COMPLETED", "FAILED", "CANCELLED"] as const;
+export type JobStatus = typeof jobStatuses[number];
+export const finishedJobStatuses: JobStatus[] = ["COMPLETED", "FAILED", "CANCELLED"];
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // One of jobTypes
+  status: text("status").notNull().default("QUEUED"), // One of jobStatuses
+  contractId: integer("contract_id").references(() => contracts.id, { onDelete: "cascade" }),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}), // Handler input, e.g. { scanId }
+  stage: text("stage"), // Step the handler last reported
+  progress: integer("progress").notNull().default(0), // 0-100
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  result: jsonb("result").$type<Record<string, unknown>>(),
+  error: text("error"), // Last failure, kept while retrying
+  requestedBy: integer("requested_by").references(() => users.id, { onDelete: "set null" }), // null for scheduled work
+  runAfter: timestamp("run_after").notNull().defaultNow(), // Pushed back between retries
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("jobs_status_run_after_idx").on(table.status, table.runAfter),
+]);
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  type: z.enum(jobTypes),
+  status: z.enum(jobStatuses),
+  payload: z.record(z.unknown()).optional(),
+  result: z.record(z.unknown()).nullable().optional(),
+}).pick({
+  type: true,
+  status: true,
+  contractId: true,
+  payload: true,
+  stage: true,
+  progress: true,
+  attempts: true,
+  maxAttempts: true,
+  result: true,
+  error: true,
+  requestedBy: true,
+  runAfter: true,
+  startedAt: true,
+  finishedAt: true,
+});
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+
+// Persisted scan reports. Findings are stored as rendered so older reports stay stable.
+export const scanStatuses = ["RUNNING", "COMPLETED", "FAILED"] as const;
+
+export const scans = pgTable("scans", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").references(() => contracts.id, { onDelete: "cascade" }), // null for unregistered addresses
+  chainId: integer("chain_id").notNull().default(SONEIUM_CHAIN_ID),
+  address: text("address").notNull(),
+  status: text("status").notNull().default("RUNNING"), // "RUNNING", "COMPLETED", "FAILED"
+  overallScore: real("overall_score"),
+  criticalCount: integer("critical_count").notNull().default(0),
+  highCount: integer("high_count").notNull().default(0),
+  mediumCount: integer("medium_count").notNull().default(0),
+  lowCount: integer("low_count").notNull().default(0),
+  infoCount: integer("info_count").notNull().default(0),
+  findings: jsonb("findings").$type<VulnerabilityFinding[]>().notNull().default([]),
+  gasSuggestions: jsonb("gas_suggestions").$type<string[]>().notNull().default([]),
+  auditSummary: text("audit_summary"),
+  sourceHash: text("source_hash"), // sha256 of the analyzed source, or of the bytecode when unverified
+  error: text("error"),
+  jobId: integer("job_id").references(() => jobs.id, { onDelete: "set null" }), // Job running the scan
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("scans_contract_created_idx").on(table.contractId, table.createdAt),
+]);
+
+export const insertScanSchema = createInsertSchema(scans, {
+  status: z.enum(scanStatuses),
+  findings: z.array(z.custom<VulnerabilityFinding>()).optional(),
+  gasSuggestions: z.array(z.string()).optional(),
+}).pick({
+  contractId: true,
+  chainId: true,
+  address: true,
+  status: true,
+  overallScore: true,
+  criticalCount: true,
+  highCount: true,
+  mediumCount: true,
+  lowCount: true,
+  infoCount: true,
+  findings: true,
+  gasSuggestions: true,
+  auditSummary: true,
+  sourceHash: true,
+  error: true,
+  jobId: true,
+  completedAt: true,
+});
+
+export type InsertScan = z.infer<typeof insertScanSchema>;
+export type Scan = typeof scans.$inferSelect;
+
+// Outbound alert notifications
+export const notificationChannelTypes = ["WEBHOOK", "SLACK", "DISCORD", "EMAIL"] as const;
+export type NotificationChannelType = typeof notificationChannelTypes[number];
+
+export const webhookChannelConfigSchema = z.object({
+  url: z.string().url(),
+  secret: z.string().min(1).optional(), // HMAC-SHA256 key for the X-Guardian-Signature header
+});
+
+export const chatChannelConfigSchema = z.object({
+  url: z.string().url(), // Slack or Discord incoming webhook URL
+});
+
+export const emailChannelConfigSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().positive().default(587),
+  secure: z.boolean().default(false), // Implicit TLS (port 465); otherwise STARTTLS when offered
+  username: z.string().optional(),
+  password: z.string().optional(),
+  allowInsecureAuth: z.boolean().default(false), // Send credentials even when the connection is not encrypted
+  from: z.string().email(),
+  to: z.array(z.string().email()).min(1),
+});
+
+export const notificationChannelConfigSchemas = {
+  WEBHOOK: webhookChannelConfigSchema,
+  SLACK: chatChannelConfigSchema,
+  DISCORD: chatChannelConfigSchema,
+  EMAIL: emailChannelConfigSchema,
+} satisfies Record<NotificationChannelType, z.ZodTypeAny>;
+
+export type WebhookChannelConfig = z.infer<typeof webhookChannelConfigSchema>;
+export type ChatChannelConfig = z.infer<typeof chatChannelConfigSchema>;
+export type EmailChannelConfig = z.infer<typeof emailChannelConfigSchema>;
+export type NotificationChannelConfig = WebhookChannelConfig | ChatChannelConfig | EmailChannelConfig;
+
+export const notificationChannels = pgTable("notification_channels", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // "WEBHOOK", "SLACK", "DISCORD", "EMAIL"
+  config: jsonb("config").$type<NotificationChannelConfig>().notNull(), // Validated per type by notificationChannelConfigSchemas
+  minSeverity: text("min_severity").notNull().default("MEDIUM"), // Alerts below this level are not sent
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertNotificationChannelSchema = createInsertSchema(notificationChannels, {
+  name: (schema) => schema.min(1),
+  type: z.enum(notificationChannelTypes),
+  config: z.record(z.unknown()),
+  minSeverity: z.enum(severityLevels),
+}).pick({
+  name: true,
+  type: true,
+  config: true,
+  minSeverity: true,
+  enabled: true,
+});
+
+export type InsertNotificationChannel = Omit<z.infer<typeof insertNotificationChannelSchema>, "config"> & {
+  config: NotificationChannelConfig;
+};
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+
+export const deliveryStatuses = ["PENDING", "DELIVERED", "FAILED"] as const;
+
+// One row per alert and channel, updated as delivery is retried
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: serial("id").primaryKey(),
+  channelId: integer("channel_id").notNull().references(() => notificationChannels.id, { onDelete: "cascade" }),
+  alertId: integer("alert_id").references(() => alerts.id, { onDelete: "cascade" }), // null for test messages
+  status: text("status").notNull().default("PENDING"), // "PENDING", "DELIVERED", "FAILED"
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+export const insertNotificationDeliverySchema = createInsertSchema(notificationDeliveries, {
+  status: z.enum(deliveryStatuses),
+}).pick({
+  channelId: true,
+  alertId: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  deliveredAt: true,
+});
+
+export type InsertNotificationDelivery = z.infer<typeof insertNotificationDeliverySchema>;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+
+// Runtime settings edited on the Settings page. A single row (id 1); services read the
+// current values through the settings service, so changes apply without a restart.
+export const settings = pgTable("settings", {
+  id: integer("id").primaryKey(),
+  securityCheckIntervalMinutes: integer("security_check_interval_minutes").notNull(),
+  aiAnalysisIntervalMinutes: integer("ai_analysis_interval_minutes").notNull(),
+  alertSeverityThreshold: text("alert_severity_threshold").notNull(), // Alerts below this level are not sent to any channel
+  aiModel: text("ai_model").notNull(), // Default model, used for any task without its own
+  contractAnalysisModel: text("contract_analysis_model"), // Model for contract analyses and scans; null for the default
+  eventAnalysisModel: text("event_analysis_model"), // Model for event analyses; null for the default
+  analysisDepth: text("analysis_depth").notNull(), // "QUICK", "STANDARD", "COMPREHENSIVE"
+  dailyTokenLimit: integer("daily_token_limit").notNull(), // Tokens per rolling 24 hours
+  monthlyTokenLimit: integer("monthly_token_limit").notNull().default(3000000), // Tokens per rolling 30 days
+  contractAnalysisTokenQuota: integer("contract_analysis_token_quota"), // Daily share of contract analyses; null for no separate cap
+  eventAnalysisTokenQuota: integer("event_analysis_token_quota"), // Daily share of event analyses
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+export const settingsSchema = createInsertSchema(settings, {
+  securityCheckIntervalMinutes: (schema) => schema.min(1).max(24 * 60),
+  aiAnalysisIntervalMinutes: (schema) => schema.min(5).max(7 * 24 * 60),
+  alertSeverityThreshold: z.enum(severityLevels),
+  aiModel: (schema) => schema.trim().min(1).max(100),
+  contractAnalysisModel: (schema) => schema.trim().min(1).max(100),
+  eventAnalysisModel: (schema) => schema.trim().min(1).max(100),
+  analysisDepth: z.enum(analysisDepths),
+  dailyTokenLimit: (schema) => schema.min(0),
+  monthlyTokenLimit: (schema) => schema.min(0),
+  contractAnalysisTokenQuota: (schema) => schema.min(0),
+  eventAnalysisTokenQuota: (schema) => schema.min(0),
+}).required({
+  contractAnalysisModel: true,
+  eventAnalysisModel: true,
+  monthlyTokenLimit: true,
+  contractAnalysisTokenQuota: true,
+  eventAnalysisTokenQuota: true,
+}).pick({
+  securityCheckIntervalMinutes: true,
+  aiAnalysisIntervalMinutes: true,
+  alertSeverityThreshold: true,
+  aiModel: true,
+  contractAnalysisModel: true,
+  eventAnalysisModel: true,
+  analysisDepth: true,
+  dailyTokenLimit: true,
+  monthlyTokenLimit: true,
+  contractAnalysisTokenQuota: true,
+  eventAnalysisTokenQuota: true,
+});
+
+export type GuardianSettings = z.infer<typeof settingsSchema>;
+export type Settings = typeof settings.$inferSelect;
+
+// As returned by /api/settings
+export interface SettingsResponse {
+  settings: GuardianSettings;
+  defaults: GuardianSettings;
+  updatedAt: string | null; // null until first saved
+  aiConfigured: boolean; // Whether the LLM provider has what it needs, e.g. an API key; not editable
+  aiProvider: string; // LLM provider chosen for the deployment through AI_PROVIDER
+}